@@ -7,30 +7,42 @@
  * LAYOUT: Flexbox split-screen view
  * - Builder Sidebar (Left) with independent scrolling
  * - Live Preview (Right) - The actual runtime form
+ *
+ * FORMS: FormWorkspace shows the form library (utils/formLibrary.ts) and
+ * mounts fresh Builder and Runtime providers for the form that is open
+ *
+ * SUBMISSIONS: SubmissionOutbox sits above the workspace so queued
+ * submissions keep being delivered while forms are switched
  * =============================================================================
  */
 
-import { BuilderProvider } from './context/BuilderContext';
-import { FormRuntimeProvider } from './context/FormRuntimeContext';
+import { AsyncValidatorsContext } from './context/AsyncValidatorsContext';
+import { EXAMPLE_ASYNC_VALIDATORS } from './utils/asyncValidators';
+import FormWorkspace from './components/library/FormWorkspace';
+import SubmissionOutbox from './components/runtime/SubmissionOutbox';
 import FormBuilderSidebar from './components/builder/FormBuilderSidebar';
 import LivePreview from './components/runtime/LivePreview';
+import './styles/base.css';
+import './styles/components.css';
 import './styles/main.css';
 
 function App() {
   return (
-    <BuilderProvider>
-      <FormRuntimeProvider>
-        <div className="app-layout">
-          {/* Builder Domain - Left Sidebar */}
-          <FormBuilderSidebar />
+    <AsyncValidatorsContext.Provider value={EXAMPLE_ASYNC_VALIDATORS}>
+      <SubmissionOutbox>
+        <FormWorkspace>
+          <div className="app-layout">
+            {/* Builder Domain - Left Sidebar */}
+            <FormBuilderSidebar />
 
-          {/* Runtime Domain - Right Preview */}
-          <main className="main-content">
-            <LivePreview />
-          </main>
-        </div>
-      </FormRuntimeProvider>
-    </BuilderProvider>
+            {/* Runtime Domain - Right Preview */}
+            <main className="main-content">
+              <LivePreview />
+            </main>
+          </div>
+        </FormWorkspace>
+      </SubmissionOutbox>
+    </AsyncValidatorsContext.Provider>
   );
 }
 
@@ -0,0 +1,64 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - ADD FIELD TOOLBAR
+ * =============================================================================
+ * Row of "+ Type" buttons that add a new field to the root of the form or to
+ * a group. Shared by FormBuilderSidebar and FormBuilderItem.
+ *
+ * HARD CONSTRAINTS:
+ * - References types/schema.ts as Single Source of Truth
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * =============================================================================
+ */
+
+import { memo } from 'react';
+import type { FieldType } from '../../types/schema';
+import { useBuilder } from '../../context/BuilderContext';
+
+interface AddFieldToolbarProps {
+    /** Group to add fields to (null = root level) */
+    parentId: string | null;
+    /** Highlight input field buttons (used for the root toolbar) */
+    emphasized?: boolean;
+}
+
+/**
+ * Buttons in display order
+ */
+const FIELD_TYPE_BUTTONS: { type: FieldType; label: string }[] = [
+    { type: 'text', label: 'Text' },
+    { type: 'number', label: 'Number' },
+    { type: 'select', label: 'Dropdown' },
+    { type: 'radio', label: 'Radio' },
+    { type: 'checkbox', label: 'Checkbox' },
+    { type: 'multiselect', label: 'Multi-select' },
+    { type: 'date', label: 'Date' },
+    { type: 'time', label: 'Time' },
+    { type: 'datetime', label: 'Date & time' },
+    { type: 'computed', label: 'Computed' },
+    { type: 'group', label: 'Group' },
+];
+
+/**
+ * AddFieldToolbar - Adds new fields of every type
+ */
+const AddFieldToolbar = memo(function AddFieldToolbar({ parentId, emphasized = false }: AddFieldToolbarProps) {
+    const { addField } = useBuilder();
+
+    return (
+        <div className="add-field-toolbar">
+            {FIELD_TYPE_BUTTONS.map(({ type, label }) => (
+                <button
+                    key={type}
+                    type="button"
+                    className={`btn btn-sm ${emphasized && type !== 'group' ? 'btn-primary' : 'btn-secondary'}`}
+                    onClick={() => addField(type, parentId)}
+                >
+                    + {label}
+                </button>
+            ))}
+        </div>
+    );
+});
+
+export default AddFieldToolbar;
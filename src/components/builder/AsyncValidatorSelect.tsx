@@ -0,0 +1,72 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - ASYNC VALIDATOR SELECT
+ * =============================================================================
+ * Picks the async validator (server check) of a text or number field from
+ * the validators registered by the host app.
+ *
+ * HARD CONSTRAINTS:
+ * - References types/schema.ts as Single Source of Truth
+ * - Names that are not registered (e.g. from an imported schema) are kept
+ *   and flagged, never silently dropped
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * - Uses semantic HTML for accessibility
+ * =============================================================================
+ */
+
+import { memo } from 'react';
+import { useBuilder } from '../../context/BuilderContext';
+import { useAsyncValidators } from '../../context/AsyncValidatorsContext';
+import { getAsyncValidator, type AsyncValidatedField } from '../../utils/asyncValidators';
+
+interface AsyncValidatorSelectProps {
+    /** The field whose validator is picked */
+    field: AsyncValidatedField;
+}
+
+/**
+ * AsyncValidatorSelect - "Server check" dropdown
+ */
+const AsyncValidatorSelect = memo(function AsyncValidatorSelect({ field }: AsyncValidatorSelectProps) {
+    const { updateField } = useBuilder();
+    const validators = useAsyncValidators();
+
+    const names = Object.keys(validators);
+    const current = field.asyncValidator ?? '';
+    const isUnknown = current !== '' && getAsyncValidator(validators, current) === undefined;
+
+    if (names.length === 0 && current === '') {
+        return null;
+    }
+
+    return (
+        <div className="input-group">
+            <label htmlFor={`${field.id}-async-validator`} className="input-label">
+                Server Check
+            </label>
+            <select
+                id={`${field.id}-async-validator`}
+                className={`select ${isUnknown ? 'input--error' : ''}`}
+                value={current}
+                onChange={(e) => updateField(field.id, { asyncValidator: e.target.value || undefined })}
+                aria-invalid={isUnknown}
+                aria-describedby={isUnknown ? `${field.id}-async-validator-error` : undefined}
+            >
+                <option value="">None</option>
+                {isUnknown && <option value={current}>{current} (not available)</option>}
+                {names.map((name) => (
+                    <option key={name} value={name}>
+                        {validators[name].label}
+                    </option>
+                ))}
+            </select>
+            {isUnknown && (
+                <span id={`${field.id}-async-validator-error`} className="input-error-message">
+                    No check named "{current}" is available in this app; it will be skipped
+                </span>
+            )}
+        </div>
+    );
+});
+
+export default AsyncValidatorSelect;
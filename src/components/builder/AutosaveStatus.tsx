@@ -0,0 +1,96 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - AUTOSAVE STATUS
+ * =============================================================================
+ * Saves the open library form's schema shortly after every change (see
+ * FormLibraryContext and utils/draftStorage.ts) and shows whether the last
+ * save worked.
+ *
+ * HARD CONSTRAINTS:
+ * - Saves are debounced; a pending save is flushed when the page is hidden
+ *   or closed, and when the builder unmounts (another form is opened)
+ * - Without a library form nothing is saved
+ * - The schema the builder started with is not saved again, so restoring
+ *   a draft does not make it look newer than the last export
+ * - Storage failures, and invalid schemas that are held back, are shown,
+ *   never thrown
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * =============================================================================
+ */
+
+import { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { useSchema } from '../../context/BuilderContext';
+import { useFormLibrary } from '../../context/FormLibraryContext';
+import { AUTOSAVE_DELAY_MS, type DraftSaveResult } from '../../utils/draftStorage';
+
+/**
+ * Outcome of the latest save
+ */
+type AutosaveState =
+    | { status: 'idle' }
+    | { status: 'saved'; savedAt: number }
+    | { status: 'failed'; message: string };
+
+/**
+ * AutosaveStatus - Debounced draft saving with a status line
+ */
+const AutosaveStatus = memo(function AutosaveStatus() {
+    const schema = useSchema();
+    const saveSchema = useFormLibrary()?.saveSchema;
+    const [state, setState] = useState<AutosaveState>({ status: 'idle' });
+
+    // Latest schema, and the one last written (or started with)
+    const latestRef = useRef(schema);
+    const savedRef = useRef(schema);
+
+    const save = useCallback((): DraftSaveResult | null => {
+        const current = latestRef.current;
+        if (!saveSchema || current === savedRef.current) {
+            return null;
+        }
+        savedRef.current = current;
+        return saveSchema(current);
+    }, [saveSchema]);
+
+    const flush = useCallback(() => {
+        const result = save();
+        if (result) {
+            setState(result.success ? { status: 'saved', savedAt: result.savedAt } : { status: 'failed', message: result.message });
+        }
+    }, [save]);
+
+    useEffect(() => {
+        latestRef.current = schema;
+        if (schema === savedRef.current) {
+            return;
+        }
+        const timer = window.setTimeout(flush, AUTOSAVE_DELAY_MS);
+        return () => window.clearTimeout(timer);
+    }, [schema, flush]);
+
+    useEffect(() => {
+        window.addEventListener('pagehide', flush);
+        return () => window.removeEventListener('pagehide', flush);
+    }, [flush]);
+
+    // Keep the last changes when the builder closes
+    useEffect(() => {
+        return () => {
+            save();
+        };
+    }, [save]);
+
+    if (!saveSchema) {
+        return <p className="text-xs mt-xs">Not saved: this browser blocks local storage.</p>;
+    }
+
+    return (
+        <p className="text-xs mt-xs" role="status" aria-live="polite">
+            {state.status === 'saved' &&
+                `Draft saved at ${new Date(state.savedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+            {state.status === 'failed' && <strong>⚠ {state.message}</strong>}
+        </p>
+    );
+});
+
+export default AutosaveStatus;
@@ -0,0 +1,279 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - CHOICE OPTIONS EDITOR
+ * =============================================================================
+ * Edits the options list (and default choice) of a select, radio or
+ * multi-select field inside FormBuilderItem.
+ *
+ * HARD CONSTRAINTS:
+ * - References types/schema.ts as Single Source of Truth
+ * - Option values must stay unique and non-empty; a value that is not is
+ *   flagged inline and kept out of the schema until it is fixed, never
+ *   silently fixed
+ * - Rows are keyed by a local ID that follows them when moved, so editing
+ *   a value never re-mounts its row
+ * - The default always refers to existing option values
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * - Uses semantic HTML for accessibility
+ * =============================================================================
+ */
+
+import { memo, useState } from 'react';
+import type { ChoiceField, ChoiceOption } from '../../types/schema';
+import { useBuilder } from '../../context/BuilderContext';
+import { isDerivedName, slugifyName, uniqueName } from '../../utils/fieldNames';
+import { generateId } from '../../utils/idGenerator';
+import { DebouncedTextInput } from '../ui/DebouncedInput';
+
+interface ChoiceOptionsEditorProps {
+    /** The field whose options are edited */
+    field: ChoiceField;
+}
+
+/**
+ * Returns an error message for an option's value, or null if it is valid
+ */
+function getOptionValueError(options: ChoiceOption[], index: number): string | null {
+    const { value } = options[index];
+    if (value === '') {
+        return 'Value is required';
+    }
+    if (options.some((option, i) => i !== index && option.value === value)) {
+        return `Another option already uses "${value}"`;
+    }
+    return null;
+}
+
+/**
+ * ChoiceOptionsEditor - Collapsible editor for a choice field's options
+ */
+const ChoiceOptionsEditor = memo(function ChoiceOptionsEditor({ field }: ChoiceOptionsEditorProps) {
+    const { updateField } = useBuilder();
+
+    const { options } = field;
+
+    // Row keys in option order; lists changed elsewhere (undo, import)
+    // with another length get new keys
+    const [rowKeys, setRowKeys] = useState(() => options.map(() => generateId('option')));
+    let keys = rowKeys;
+    if (rowKeys.length !== options.length) {
+        keys = options.map((_, i) => rowKeys[i] ?? generateId('option'));
+        setRowKeys(keys);
+    }
+
+    // Values being typed that are empty or taken, by row key
+    const [draftValues, setDraftValues] = useState<Record<string, string>>({});
+
+    const setDraftValue = (key: string, value: string | null) => {
+        setDraftValues((prev) => {
+            const next = { ...prev };
+            delete next[key];
+            if (value !== null) {
+                next[key] = value;
+            }
+            return next;
+        });
+    };
+    const isMultiple = field.type === 'multiselect';
+    const defaults: string[] = isMultiple
+        ? field.defaultValue ?? []
+        : field.defaultValue !== undefined ? [field.defaultValue] : [];
+
+    /**
+     * Commit new options and defaults; defaults that no longer match an
+     * option are dropped
+     */
+    const commit = (nextOptions: ChoiceOption[], nextDefaults: string[] = defaults) => {
+        const values = new Set(nextOptions.map((option) => option.value));
+        const kept = nextDefaults.filter((value) => values.has(value));
+        const defaultValue = isMultiple
+            ? (kept.length > 0 ? kept : undefined)
+            : kept[0];
+        updateField(field.id, { options: nextOptions, defaultValue });
+    };
+
+    const updateOption = (index: number, updates: Partial<ChoiceOption>) => {
+        const previous = options[index];
+        const nextOptions = options.map((option, i) => (i === index ? { ...option, ...updates } : option));
+        // A renamed value keeps its default status
+        const nextDefaults = updates.value !== undefined
+            ? defaults.map((value) => (value === previous.value ? updates.value as string : value))
+            : defaults;
+        commit(nextOptions, nextDefaults);
+    };
+
+    /**
+     * Label edits also update the value while it is still derived from the label
+     */
+    const handleLabelChange = (index: number, label: string) => {
+        const option = options[index];
+        if (!isDerivedName(option.value, option.label)) {
+            updateOption(index, { label });
+            return;
+        }
+        const taken = new Set(options.filter((_, i) => i !== index).map((o) => o.value));
+        updateOption(index, { label, value: uniqueName(slugifyName(label, 'option'), taken) });
+    };
+
+    /**
+     * Value edits are stored only when the value is non-empty and unique
+     */
+    const handleValueChange = (index: number, text: string) => {
+        const value = text.trim();
+        const nextOptions = options.map((option, i) => (i === index ? { ...option, value } : option));
+        if (getOptionValueError(nextOptions, index)) {
+            setDraftValue(keys[index], text);
+            return;
+        }
+        setDraftValue(keys[index], null);
+        updateOption(index, { value });
+    };
+
+    const handleAddOption = () => {
+        const label = `Option ${options.length + 1}`;
+        const taken = new Set(options.map((option) => option.value));
+        setRowKeys([...keys, generateId('option')]);
+        commit([...options, { label, value: uniqueName(slugifyName(label, 'option'), taken) }]);
+    };
+
+    const handleRemoveOption = (index: number) => {
+        setDraftValue(keys[index], null);
+        setRowKeys(keys.filter((_, i) => i !== index));
+        commit(options.filter((_, i) => i !== index));
+    };
+
+    const handleMoveOption = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= options.length) {
+            return;
+        }
+        const nextOptions = [...options];
+        [nextOptions[index], nextOptions[target]] = [nextOptions[target], nextOptions[index]];
+        const nextKeys = [...keys];
+        [nextKeys[index], nextKeys[target]] = [nextKeys[target], nextKeys[index]];
+        setRowKeys(nextKeys);
+        commit(nextOptions);
+    };
+
+    const handleDefaultChange = (value: string, checked: boolean) => {
+        if (isMultiple) {
+            commit(options, checked ? [...defaults, value] : defaults.filter((v) => v !== value));
+        } else {
+            commit(options, checked ? [value] : []);
+        }
+    };
+
+    return (
+        <details className="builder-item-details" open>
+            <summary className="builder-item-summary">
+                <span className="builder-item-summary-text">
+                    Options
+                    <span className="builder-item-summary-count">
+                        ({options.length} {options.length === 1 ? 'option' : 'options'})
+                    </span>
+                </span>
+            </summary>
+
+            <div className="builder-item-fields options-editor">
+                {options.length === 0 && (
+                    <p className="text-sm input-error-message">Add at least one option</p>
+                )}
+
+                {options.map((option, index) => {
+                    const rowId = `${field.id}-option-${index}`;
+                    const draftValue = draftValues[keys[index]];
+                    const valueError = getOptionValueError(
+                        draftValue !== undefined
+                            ? options.map((o, i) => (i === index ? { ...o, value: draftValue.trim() } : o))
+                            : options,
+                        index
+                    );
+                    const isDefault = defaults.includes(option.value);
+
+                    return (
+                        <div key={keys[index]} className="options-editor-row" role="group" aria-label={`Option ${index + 1}`}>
+                            <label htmlFor={`${rowId}-label`} className="sr-only">Option label</label>
+                            <DebouncedTextInput
+                                id={`${rowId}-label`}
+                                className="input"
+                                value={option.label}
+                                onChange={(val) => handleLabelChange(index, val)}
+                                placeholder="Label"
+                            />
+
+                            <label htmlFor={`${rowId}-value`} className="sr-only">Option value</label>
+                            <DebouncedTextInput
+                                id={`${rowId}-value`}
+                                className={`input ${valueError ? 'input--error' : ''}`}
+                                value={draftValue ?? option.value}
+                                onChange={(val) => handleValueChange(index, val)}
+                                placeholder="value"
+                                spellCheck={false}
+                                aria-invalid={!!valueError}
+                                aria-describedby={valueError ? `${rowId}-value-error` : undefined}
+                                title={valueError ?? undefined}
+                            />
+
+                            <label className="checkbox-label options-editor-default" title="Selected by default">
+                                <input
+                                    type="checkbox"
+                                    className="checkbox"
+                                    checked={isDefault}
+                                    onChange={(e) => handleDefaultChange(option.value, e.target.checked)}
+                                    aria-label={`${option.label || `Option ${index + 1}`} selected by default`}
+                                />
+                                Default
+                            </label>
+
+                            <div className="flex">
+                                <button
+                                    type="button"
+                                    className="btn btn-ghost btn-icon btn-sm"
+                                    onClick={() => handleMoveOption(index, -1)}
+                                    disabled={index === 0}
+                                    aria-label={`Move option ${index + 1} up`}
+                                    title="Move up"
+                                >
+                                    ↑
+                                </button>
+                                <button
+                                    type="button"
+                                    className="btn btn-ghost btn-icon btn-sm"
+                                    onClick={() => handleMoveOption(index, 1)}
+                                    disabled={index === options.length - 1}
+                                    aria-label={`Move option ${index + 1} down`}
+                                    title="Move down"
+                                >
+                                    ↓
+                                </button>
+                                <button
+                                    type="button"
+                                    className="btn btn-ghost btn-icon btn-sm"
+                                    onClick={() => handleRemoveOption(index)}
+                                    aria-label={`Remove option ${index + 1}`}
+                                    title="Remove option"
+                                >
+                                    ×
+                                </button>
+                            </div>
+
+                            {valueError && (
+                                <span id={`${rowId}-value-error`} className="input-error-message options-editor-error">
+                                    {valueError}
+                                </span>
+                            )}
+                        </div>
+                    );
+                })}
+
+                <div>
+                    <button type="button" className="btn btn-secondary btn-sm" onClick={handleAddOption}>
+                        + Add option
+                    </button>
+                </div>
+            </div>
+        </details>
+    );
+});
+
+export default ChoiceOptionsEditor;
@@ -0,0 +1,102 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - COMPUTED FIELD EDITOR
+ * =============================================================================
+ * Edits the formula and rounding of a computed field inside FormBuilderItem.
+ *
+ * HARD CONSTRAINTS:
+ * - References types/schema.ts as Single Source of Truth
+ * - Formulas are checked against the whole form while they are typed; one
+ *   that does not parse or would close a circle of references is flagged
+ *   inline and never reaches the schema
+ * - Unknown names are stored but flagged (the field may be added or
+ *   renamed next); so are problems caused by edits elsewhere in the form
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * - Uses semantic HTML for accessibility
+ * =============================================================================
+ */
+
+import { memo, useState } from 'react';
+import type { ComputedField } from '../../types/schema';
+import { useBuilder } from '../../context/BuilderContext';
+import { analyzeComputedFields, checkComputedExpression } from '../../utils/computedFields';
+import { EXPRESSION_FUNCTIONS } from '../../utils/expressions';
+import { DebouncedTextInput, DebouncedNumberInput } from '../ui/DebouncedInput';
+
+interface ComputedFieldEditorProps {
+    /** The field whose formula is edited */
+    field: ComputedField;
+}
+
+/**
+ * ComputedFieldEditor - Formula and decimals of a computed field
+ */
+const ComputedFieldEditor = memo(function ComputedFieldEditor({ field }: ComputedFieldEditorProps) {
+    const { schema, updateField } = useBuilder();
+
+    // The formula being typed, kept locally while it cannot be stored
+    const [draft, setDraft] = useState<{ expression: string; message: string } | null>(null);
+    const expression = draft?.expression ?? field.expression;
+    const error = draft?.message ?? analyzeComputedFields(schema.fields).get(field.id)?.message;
+
+    const handleExpressionChange = (value: string) => {
+        const issue = checkComputedExpression(schema.fields, field.id, value);
+        if (issue && (issue.kind === 'syntax' || issue.kind === 'cycle')) {
+            setDraft({ expression: value, message: issue.message });
+            return;
+        }
+        setDraft(null);
+        updateField(field.id, { expression: value });
+    };
+
+    return (
+        <>
+            <div className="input-group">
+                <label htmlFor={`${field.id}-expression`} className="input-label">
+                    Formula
+                </label>
+                <DebouncedTextInput
+                    id={`${field.id}-expression`}
+                    className={`input input--code ${error ? 'input--error' : ''}`}
+                    value={expression}
+                    onChange={handleExpressionChange}
+                    placeholder="e.g. quantity * unit_price"
+                    spellCheck={false}
+                    aria-invalid={!!error}
+                    aria-describedby={error ? `${field.id}-expression-error` : `${field.id}-expression-hint`}
+                />
+                {error ? (
+                    <span id={`${field.id}-expression-error`} className="input-error-message">
+                        {error}
+                    </span>
+                ) : (
+                    <span id={`${field.id}-expression-hint`} className="text-xs text-muted">
+                        Use field names (dots for groups), + - * / %, comparisons, &amp;&amp; || and{' '}
+                        {EXPRESSION_FUNCTIONS.map((name) => `${name}()`).join(', ')}
+                    </span>
+                )}
+            </div>
+
+            <div className="input-group">
+                <label htmlFor={`${field.id}-decimals`} className="input-label">
+                    Decimal Places
+                </label>
+                <DebouncedNumberInput
+                    id={`${field.id}-decimals`}
+                    className="input"
+                    value={field.decimals}
+                    onChange={(val) =>
+                        updateField(field.id, {
+                            decimals: typeof val === 'number' ? Math.min(Math.max(0, Math.trunc(val)), 10) : undefined,
+                        })
+                    }
+                    placeholder="Not rounded"
+                    min={0}
+                    max={10}
+                />
+            </div>
+        </>
+    );
+});
+
+export default ComputedFieldEditor;
@@ -0,0 +1,188 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - DATE RANGE EDITOR
+ * =============================================================================
+ * Edits the min/max bounds of a date, time or datetime field inside
+ * FormBuilderItem. Each bound is either absent, a fixed value, or relative
+ * to today ("today minus 18 years").
+ *
+ * HARD CONSTRAINTS:
+ * - References types/schema.ts as Single Source of Truth
+ * - Time fields only offer fixed bounds
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * - Uses semantic HTML for accessibility
+ * =============================================================================
+ */
+
+import { memo, type ChangeEvent } from 'react';
+import type { DateBound, DateOffsetUnit, TemporalField } from '../../types/schema';
+import { useBuilder } from '../../context/BuilderContext';
+import {
+    DATE_OFFSET_UNITS,
+    compareTemporalValues,
+    currentTemporalValue,
+    describeDateBound,
+    resolveDateBound,
+} from '../../utils/dateBounds';
+import { DebouncedNumberInput } from '../ui/DebouncedInput';
+
+interface DateRangeEditorProps {
+    /** The field whose bounds are edited */
+    field: TemporalField;
+}
+
+interface BoundEditorProps {
+    /** DOM id prefix */
+    id: string;
+    /** Visible label, e.g. "Earliest" */
+    label: string;
+    type: TemporalField['type'];
+    bound: DateBound | undefined;
+    onChange: (bound: DateBound | undefined) => void;
+}
+
+/**
+ * Native input type per field type
+ */
+const INPUT_TYPES: Record<TemporalField['type'], string> = {
+    date: 'date',
+    time: 'time',
+    datetime: 'datetime-local',
+};
+
+/**
+ * Edits a single bound
+ */
+function BoundEditor({ id, label, type, bound, onChange }: BoundEditorProps) {
+    const mode = bound?.kind ?? 'none';
+    const anchor = type === 'datetime' ? 'now' : 'today';
+
+    const handleModeChange = (e: ChangeEvent<HTMLSelectElement>) => {
+        switch (e.target.value) {
+            case 'absolute':
+                onChange({ kind: 'absolute', value: currentTemporalValue(type) });
+                break;
+            case 'relative':
+                onChange({ kind: 'relative', amount: 0, unit: 'days' });
+                break;
+            default:
+                onChange(undefined);
+        }
+    };
+
+    return (
+        <div className="input-group">
+            <label htmlFor={`${id}-mode`} className="input-label">
+                {label}
+            </label>
+            <div className="date-bound-row">
+                <select id={`${id}-mode`} className="select" value={mode} onChange={handleModeChange}>
+                    <option value="none">No limit</option>
+                    <option value="absolute">Fixed</option>
+                    {type !== 'time' && <option value="relative">Relative to {anchor}</option>}
+                </select>
+
+                {bound?.kind === 'absolute' && (
+                    <>
+                        <label htmlFor={`${id}-value`} className="sr-only">{label} value</label>
+                        <input
+                            id={`${id}-value`}
+                            type={INPUT_TYPES[type]}
+                            className="input"
+                            value={bound.value}
+                            // Ignore the empty value of an incomplete native input
+                            onChange={(e) => e.target.value && onChange({ kind: 'absolute', value: e.target.value })}
+                        />
+                    </>
+                )}
+
+                {bound?.kind === 'relative' && (
+                    <>
+                        <span className="text-sm text-secondary">{anchor}</span>
+                        <label htmlFor={`${id}-direction`} className="sr-only">Direction</label>
+                        <select
+                            id={`${id}-direction`}
+                            className="select"
+                            value={bound.amount < 0 ? 'minus' : 'plus'}
+                            onChange={(e) =>
+                                onChange({
+                                    ...bound,
+                                    amount: Math.abs(bound.amount) * (e.target.value === 'minus' ? -1 : 1),
+                                })
+                            }
+                        >
+                            <option value="minus">minus</option>
+                            <option value="plus">plus</option>
+                        </select>
+                        <label htmlFor={`${id}-amount`} className="sr-only">Amount</label>
+                        <DebouncedNumberInput
+                            id={`${id}-amount`}
+                            className="input date-bound-amount"
+                            value={Math.abs(bound.amount)}
+                            onChange={(val) => {
+                                const amount = typeof val === 'number' ? Math.trunc(Math.abs(val)) : 0;
+                                onChange({ ...bound, amount: bound.amount < 0 ? -amount : amount });
+                            }}
+                            min={0}
+                        />
+                        <label htmlFor={`${id}-unit`} className="sr-only">Unit</label>
+                        <select
+                            id={`${id}-unit`}
+                            className="select"
+                            value={bound.unit}
+                            onChange={(e) => onChange({ ...bound, unit: e.target.value as DateOffsetUnit })}
+                        >
+                            {DATE_OFFSET_UNITS.map((unit) => (
+                                <option key={unit} value={unit}>
+                                    {unit}
+                                </option>
+                            ))}
+                        </select>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
+
+/**
+ * DateRangeEditor - Earliest/latest bounds of a date or time field
+ */
+const DateRangeEditor = memo(function DateRangeEditor({ field }: DateRangeEditorProps) {
+    const { updateField } = useBuilder();
+
+    const noun = field.type === 'time' ? 'time' : field.type === 'date' ? 'date' : 'date & time';
+
+    // Check the range as it resolves today
+    const min = field.min && resolveDateBound(field.min, field.type);
+    const max = field.max && resolveDateBound(field.max, field.type);
+    const rangeError = field.min && field.max && min && max && compareTemporalValues(field.type, min, max) > 0
+        ? `Earliest (${describeDateBound(field.min, field.type)}) is after latest (${describeDateBound(field.max, field.type)})`
+        : null;
+
+    return (
+        <>
+            <BoundEditor
+                id={`${field.id}-min`}
+                label={`Earliest ${noun}`}
+                type={field.type}
+                bound={field.min}
+                onChange={(bound) => updateField(field.id, { min: bound })}
+            />
+            <BoundEditor
+                id={`${field.id}-max`}
+                label={`Latest ${noun}`}
+                type={field.type}
+                bound={field.max}
+                onChange={(bound) => updateField(field.id, { max: bound })}
+            />
+            {rangeError && (
+                <span className="input-error-message" role="alert">
+                    {rangeError}
+                </span>
+            )}
+        </>
+    );
+});
+
+export default DateRangeEditor;
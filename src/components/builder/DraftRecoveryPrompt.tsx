@@ -0,0 +1,83 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - DRAFT RECOVERY PROMPT
+ * =============================================================================
+ * Shown instead of the builder when the autosaved draft of the form being
+ * reopened holds changes that were never exported, or cannot be read (see
+ * utils/draftStorage.ts).
+ * The builder mounts only after the user decides, so autosave cannot
+ * overwrite the draft in the meantime.
+ *
+ * HARD CONSTRAINTS:
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * - Uses semantic HTML for accessibility (a labelled dialog region)
+ * =============================================================================
+ */
+
+import { memo } from 'react';
+import type { DraftStartup } from '../../utils/draftStorage';
+
+interface DraftRecoveryPromptProps {
+    /** Title of the library form being opened */
+    formTitle: string;
+    /** What was found in storage */
+    startup: Extract<DraftStartup, { kind: 'newer' | 'unreadable' }>;
+    /** Continue with the stored draft */
+    onRestore: () => void;
+    /** Drop the unexported changes and continue with the last export (or an empty form) */
+    onDiscard: () => void;
+}
+
+/**
+ * Formats a timestamp for the prompt, e.g. "Mar 14, 2025, 9:26 AM"
+ */
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/**
+ * DraftRecoveryPrompt - Restore or discard an unexported draft
+ */
+const DraftRecoveryPrompt = memo(function DraftRecoveryPrompt({
+    formTitle,
+    startup,
+    onRestore,
+    onDiscard,
+}: DraftRecoveryPromptProps) {
+    const isReadable = startup.kind === 'newer';
+
+    return (
+        <div className="draft-recovery">
+            <section className="card" role="dialog" aria-labelledby="draft-recovery-title" aria-describedby="draft-recovery-text">
+                <header className="card-header">
+                    <h1 id="draft-recovery-title" className="text-lg font-semibold">
+                        {isReadable ? 'Restore unsaved form?' : 'Saved draft could not be restored'}
+                    </h1>
+                </header>
+                <div id="draft-recovery-text" className="card-body text-sm text-secondary">
+                    {isReadable ? (
+                        <p>
+                            “{formTitle}” has a draft saved on {formatTime(startup.draft.savedAt)} has changes that were never
+                            exported
+                            {startup.lastExportedAt !== null && ` (last export: ${formatTime(startup.lastExportedAt)})`}.
+                        </p>
+                    ) : (
+                        <p>“{formTitle}”: {startup.message}</p>
+                    )}
+                </div>
+                <footer className="card-footer flex justify-between items-center">
+                    <button type="button" className="btn btn-ghost text-danger" onClick={onDiscard}>
+                        {isReadable ? 'Discard draft' : 'Discard and start over'}
+                    </button>
+                    {isReadable && (
+                        <button type="button" className="btn btn-primary" onClick={onRestore} autoFocus>
+                            Restore draft
+                        </button>
+                    )}
+                </footer>
+            </section>
+        </div>
+    );
+});
+
+export default DraftRecoveryPrompt;
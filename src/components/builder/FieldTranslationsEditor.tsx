@@ -0,0 +1,146 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - FIELD TRANSLATIONS EDITOR
+ * =============================================================================
+ * Edits the texts of a field in each additional locale of the form
+ * (`translations` of the field) inside FormBuilderItem: label,
+ * placeholder, pattern message and option labels, each next to the
+ * default text it translates. Locales with a text still untranslated are
+ * flagged (utils/localization.ts).
+ *
+ * HARD CONSTRAINTS:
+ * - References types/schema.ts as Single Source of Truth
+ * - Only texts the field has are offered; blank inputs fall back to the
+ *   default text and are not stored
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * - Uses semantic HTML for accessibility
+ * =============================================================================
+ */
+
+import { memo } from 'react';
+import type { Field, FieldTranslation, FormLocalization } from '../../types/schema';
+import { isChoiceField } from '../../types/schema';
+import { useBuilder } from '../../context/BuilderContext';
+import { getLocaleName, getMissingTranslations, setFieldTranslation } from '../../utils/localization';
+import { DebouncedTextInput } from '../ui/DebouncedInput';
+
+interface FieldTranslationsEditorProps {
+    /** The field whose texts are translated */
+    field: Field;
+    /** Languages of the form */
+    localization: FormLocalization;
+}
+
+/**
+ * FieldTranslationsEditor - Collapsible per-locale texts of a field
+ */
+const FieldTranslationsEditor = memo(function FieldTranslationsEditor({ field, localization }: FieldTranslationsEditorProps) {
+    const { updateField } = useBuilder();
+    const missing = getMissingTranslations(field, localization);
+
+    const update = (locale: string, changes: Partial<FieldTranslation>) => {
+        updateField(field.id, { translations: setFieldTranslation(field.translations, locale, changes) });
+    };
+
+    const placeholder = 'placeholder' in field ? field.placeholder ?? '' : '';
+    const patternMessage = field.type === 'text' ? field.patternMessage ?? '' : '';
+
+    return (
+        <details className="builder-item-details" open={missing.length > 0}>
+            <summary className="builder-item-summary">
+                <span className="builder-item-summary-text">
+                    Translations
+                    {missing.length === 0 ? (
+                        <span className="builder-item-summary-count">Complete</span>
+                    ) : (
+                        <span className="translation-missing-badge">
+                            Missing: {missing.join(', ')}
+                        </span>
+                    )}
+                </span>
+            </summary>
+
+            <div className="builder-item-fields">
+                {localization.locales.map((locale) => {
+                    const translation = field.translations?.[locale] ?? {};
+                    const idPrefix = `${field.id}-${locale}`;
+                    return (
+                        <fieldset key={locale} className="translation-locale" lang={locale}>
+                            <legend className="input-label">
+                                {getLocaleName(locale)} ({locale})
+                                {missing.includes(locale) && (
+                                    <span className="translation-missing-badge">Incomplete</span>
+                                )}
+                            </legend>
+
+                            <div className="input-group">
+                                <label htmlFor={`${idPrefix}-label`} className="input-label">
+                                    Label
+                                </label>
+                                <DebouncedTextInput
+                                    id={`${idPrefix}-label`}
+                                    className="input"
+                                    value={translation.label ?? ''}
+                                    onChange={(val) => update(locale, { label: val })}
+                                    placeholder={field.label}
+                                />
+                            </div>
+
+                            {placeholder !== '' && (
+                                <div className="input-group">
+                                    <label htmlFor={`${idPrefix}-placeholder`} className="input-label">
+                                        Placeholder
+                                    </label>
+                                    <DebouncedTextInput
+                                        id={`${idPrefix}-placeholder`}
+                                        className="input"
+                                        value={translation.placeholder ?? ''}
+                                        onChange={(val) => update(locale, { placeholder: val })}
+                                        placeholder={placeholder}
+                                    />
+                                </div>
+                            )}
+
+                            {patternMessage !== '' && (
+                                <div className="input-group">
+                                    <label htmlFor={`${idPrefix}-pattern-message`} className="input-label">
+                                        Pattern Error Message
+                                    </label>
+                                    <DebouncedTextInput
+                                        id={`${idPrefix}-pattern-message`}
+                                        className="input"
+                                        value={translation.patternMessage ?? ''}
+                                        onChange={(val) => update(locale, { patternMessage: val })}
+                                        placeholder={patternMessage}
+                                    />
+                                </div>
+                            )}
+
+                            {isChoiceField(field) &&
+                                field.options.map((option, index) => (
+                                    <div key={option.value} className="input-group">
+                                        <label htmlFor={`${idPrefix}-option-${index}`} className="input-label">
+                                            Option “{option.value}”
+                                        </label>
+                                        <DebouncedTextInput
+                                            id={`${idPrefix}-option-${index}`}
+                                            className="input"
+                                            value={translation.options?.[option.value] ?? ''}
+                                            onChange={(val) =>
+                                                update(locale, {
+                                                    options: { ...translation.options, [option.value]: val },
+                                                })
+                                            }
+                                            placeholder={option.label}
+                                        />
+                                    </div>
+                                ))}
+                        </fieldset>
+                    );
+                })}
+            </div>
+        </details>
+    );
+});
+
+export default FieldTranslationsEditor;
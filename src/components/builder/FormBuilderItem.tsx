@@ -11,14 +11,45 @@
  * - References types/schema.ts as Single Source of Truth
  * - NO UI frameworks (Tailwind, Bootstrap)
  * - Uses semantic HTML for accessibility
+ * - Every drag-and-drop move has a keyboard equivalent on the drag handle
+ * - Names are checked here (utils/fieldNames.ts); an invalid or duplicate
+ *   name, or one that would break a formula, is flagged inline and never
+ *   reaches the schema (the reducer rewrites formulas for the rest)
  * =============================================================================
  */
 
-import { memo, type ChangeEvent } from 'react';
+import {
+    memo,
+    useEffect,
+    useRef,
+    useState,
+    type ChangeEvent,
+    type DragEvent,
+    type KeyboardEvent,
+} from 'react';
 import type { Field, FieldType } from '../../types/schema';
-import { isGroupField, isNumberField } from '../../types/schema';
+import {
+    isCheckboxField,
+    isChoiceField,
+    isComputedField,
+    isGroupField,
+    isNumberField,
+    isTemporalField,
+} from '../../types/schema';
 import { useBuilder } from '../../context/BuilderContext';
+import { useBuilderDrag, type DropPosition } from '../../context/BuilderDragContext';
+import { findFieldById, findFieldContext, findParentId, getFieldMoveError } from '../../utils/recursiveReducer';
+import { getFieldNameError, isDerivedName, slugifyName, uniqueName } from '../../utils/fieldNames';
+import { getRenameFormulaError } from '../../utils/computedFields';
 import { DebouncedTextInput, DebouncedNumberInput } from '../ui/DebouncedInput';
+import VisibilityRuleEditor from './VisibilityRuleEditor';
+import ChoiceOptionsEditor from './ChoiceOptionsEditor';
+import DateRangeEditor from './DateRangeEditor';
+import TextConstraintsEditor from './TextConstraintsEditor';
+import AsyncValidatorSelect from './AsyncValidatorSelect';
+import ComputedFieldEditor from './ComputedFieldEditor';
+import FieldTranslationsEditor from './FieldTranslationsEditor';
+import AddFieldToolbar from './AddFieldToolbar';
 
 /**
  * Props for FormBuilderItem
@@ -28,6 +59,10 @@ interface FormBuilderItemProps {
     field: Field;
     /** Nesting depth for visual hierarchy */
     depth?: number;
+    /** ID of the containing group (null = root level) */
+    parentId: string | null;
+    /** Position of this field among its siblings */
+    index: number;
     /** Whether this is the first item in its parent (disable move up) */
     isFirst?: boolean;
     /** Whether this is the last item in its parent (disable move down) */
@@ -43,11 +78,46 @@ function getTypeClass(type: FieldType): string {
             return 'builder-item-type builder-item-type--group';
         case 'number':
             return 'builder-item-type builder-item-type--number';
+        case 'select':
+        case 'radio':
+        case 'checkbox':
+        case 'multiselect':
+            return 'builder-item-type builder-item-type--choice';
+        case 'date':
+        case 'time':
+        case 'datetime':
+            return 'builder-item-type builder-item-type--date';
+        case 'computed':
+            return 'builder-item-type builder-item-type--computed';
         default:
             return 'builder-item-type';
     }
 }
 
+/**
+ * Height (px) of the strip at the bottom of a group that means "drop after"
+ */
+const GROUP_AFTER_ZONE = 16;
+
+/**
+ * Works out where a drag over an item would drop
+ * Leaf fields split into before/after halves; groups drop before via their
+ * header, after via a strip at their bottom edge, and into their body
+ */
+function getDropPosition(e: DragEvent<HTMLElement>, isGroup: boolean, header: HTMLElement | null): DropPosition {
+    const rect = e.currentTarget.getBoundingClientRect();
+
+    if (!isGroup) {
+        return e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+    }
+
+    const headerBottom = header ? header.getBoundingClientRect().bottom : rect.top + rect.height / 2;
+    if (e.clientY < headerBottom) {
+        return 'before';
+    }
+    return e.clientY > rect.bottom - GROUP_AFTER_ZONE ? 'after' : 'into';
+}
+
 /**
  * FormBuilderItem - Recursive component for rendering/editing a single field
  * Wrapped in React.memo for performance optimization with structural sharing
@@ -55,10 +125,72 @@ function getTypeClass(type: FieldType): string {
 const FormBuilderItem = memo(function FormBuilderItem({
     field,
     depth = 0,
+    parentId,
+    index,
     isFirst = false,
     isLast = false,
 }: FormBuilderItemProps) {
-    const { updateField, deleteField, moveField, addField } = useBuilder();
+    const { schema, updateField, deleteField, moveField, moveFieldTo } = useBuilder();
+    const { draggedIds, startDrag, endDrag, dropTarget, setDropTarget, pendingFocusRef, announce, reportMoveError } =
+        useBuilderDrag();
+
+    const itemRef = useRef<HTMLDivElement>(null);
+    const headerRef = useRef<HTMLDivElement>(null);
+    const handleRef = useRef<HTMLButtonElement>(null);
+
+    /**
+     * Restore focus to the drag handle after a keyboard move re-mounted
+     * this item under a different parent
+     */
+    useEffect(() => {
+        if (pendingFocusRef.current === field.id) {
+            pendingFocusRef.current = null;
+            handleRef.current?.focus();
+        }
+    }, [field.id, pendingFocusRef]);
+
+    const siblings = findFieldContext(schema.fields, field.id)?.parent ?? [];
+
+    // The name being typed, kept locally until it is valid
+    const [draftName, setDraftName] = useState<string | null>(null);
+
+    /**
+     * Problem with a name for this field: invalid, taken, or one that would
+     * break a formula (formulas naming the field itself are rewritten)
+     */
+    const checkName = (name: string): string | null =>
+        getFieldNameError({ ...field, name }, siblings) ??
+        (name === field.name ? null : getRenameFormulaError(schema.fields, field.id, name));
+    const nameError = draftName !== null ? checkName(draftName.trim()) : getFieldNameError(field, siblings);
+
+    /**
+     * Handle name change; only a name passing checkName is stored
+     */
+    const handleNameChange = (value: string) => {
+        const name = value.trim();
+        if (checkName(name)) {
+            setDraftName(value);
+            return;
+        }
+        setDraftName(null);
+        updateField(field.id, { name });
+    };
+
+    /**
+     * Handle label change
+     * A name that was derived from the label follows it, unless that would
+     * break a formula; a custom name is kept
+     */
+    const handleLabelChange = (label: string) => {
+        if (!isDerivedName(field.name, field.label)) {
+            updateField(field.id, { label });
+            return;
+        }
+
+        const taken = new Set(siblings.filter((s) => s.id !== field.id).map((s) => s.name));
+        const name = uniqueName(slugifyName(label, field.type), taken);
+        updateField(field.id, checkName(name) ? { label } : { label, name });
+    };
 
     /**
      * Handle required toggle (Immediate update, no debounce needed)
@@ -88,27 +220,164 @@ const FormBuilderItem = memo(function FormBuilderItem({
         moveField(field.id, 'down');
     };
 
+    const isGroup = isGroupField(field);
+    const isNumber = isNumberField(field);
+    const hasPlaceholder = field.type === 'text' || field.type === 'number' || field.type === 'select';
+
+    /**
+     * Parse an instance count input (empty = no limit)
+     */
+    const toInstanceCount = (val: number | string | undefined): number | undefined =>
+        typeof val === 'number' ? Math.max(0, Math.trunc(val)) : undefined;
+
     /**
-     * Handle adding child field to group
+     * Move a field to another parent and/or position, unless that would
+     * break a formula; the reason is shown (and announced) instead
+     * Returns whether the field moved
      */
-    const handleAddChild = (type: FieldType) => {
-        addField(type, field.id);
+    const tryMoveTo = (id: string, targetParentId: string | null, targetIndex: number): boolean => {
+        const error = getFieldMoveError(schema.fields, id, targetParentId, targetIndex);
+        reportMoveError(error);
+        if (error) {
+            announce(`Not moved: ${error}`);
+            return false;
+        }
+        moveFieldTo(id, targetParentId, targetIndex);
+        return true;
     };
 
-    const isGroup = isGroupField(field);
-    const isNumber = isNumberField(field);
+    /**
+     * Keyboard equivalent of drag-and-drop on the drag handle:
+     * Up/Down reorder, Right moves into the group above, Left moves out of the group
+     */
+    const handleHandleKeyDown = (e: KeyboardEvent<HTMLButtonElement>) => {
+        switch (e.key) {
+            case 'ArrowUp':
+                if (!isFirst) {
+                    moveField(field.id, 'up');
+                    announce(`Moved ${field.label} up`);
+                }
+                break;
+
+            case 'ArrowDown':
+                if (!isLast) {
+                    moveField(field.id, 'down');
+                    announce(`Moved ${field.label} down`);
+                }
+                break;
+
+            case 'ArrowRight': {
+                const previous = siblings[index - 1];
+                if (previous && isGroupField(previous) && tryMoveTo(field.id, previous.id, previous.children.length)) {
+                    pendingFocusRef.current = field.id;
+                    announce(`Moved ${field.label} into ${previous.label}`);
+                }
+                break;
+            }
+
+            case 'ArrowLeft': {
+                if (parentId === null) {
+                    break;
+                }
+                const grandParentId = findParentId(schema.fields, parentId);
+                const parentContext = findFieldContext(schema.fields, parentId);
+                if (grandParentId !== undefined && parentContext && tryMoveTo(field.id, grandParentId, parentContext.index + 1)) {
+                    pendingFocusRef.current = field.id;
+                    const grandParent = grandParentId === null ? null : findFieldById(schema.fields, grandParentId);
+                    announce(`Moved ${field.label} out to ${grandParent ? grandParent.label : 'the top level'}`);
+                }
+                break;
+            }
+
+            default:
+                return;
+        }
+
+        e.preventDefault();
+    };
+
+    /**
+     * Drag-and-drop handlers (native HTML5)
+     */
+    const isDragged = draggedIds?.has(field.id) ?? false;
+    const canDropHere = draggedIds !== null && !isDragged;
+    const dropPosition = dropTarget?.fieldId === field.id ? dropTarget.position : null;
+
+    const handleDragStart = (e: DragEvent<HTMLButtonElement>) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', field.id);
+        if (itemRef.current) {
+            e.dataTransfer.setDragImage(itemRef.current, 16, 16);
+        }
+        startDrag(field.id);
+    };
+
+    const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+        if (!canDropHere) {
+            return; // Not a valid target (e.g. inside the dragged group)
+        }
+        e.preventDefault();
+        e.stopPropagation();
+        e.dataTransfer.dropEffect = 'move';
+        setDropTarget({ fieldId: field.id, position: getDropPosition(e, isGroup, headerRef.current) });
+    };
+
+    const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+        if (!canDropHere) {
+            return;
+        }
+        e.preventDefault();
+        e.stopPropagation();
+
+        const draggedId = e.dataTransfer.getData('text/plain');
+        const position = getDropPosition(e, isGroup, headerRef.current);
+
+        if (position === 'into' && isGroupField(field)) {
+            tryMoveTo(draggedId, field.id, field.children.length);
+        } else {
+            tryMoveTo(draggedId, parentId, position === 'before' ? index : index + 1);
+        }
+        endDrag();
+    };
+
+    const itemClassName = [
+        'builder-item',
+        isGroup ? 'builder-item--group' : '',
+        isDragged ? 'builder-item--dragging' : '',
+        dropPosition ? `builder-item--drop-${dropPosition}` : '',
+        'animate-fade-in',
+    ].filter(Boolean).join(' ');
 
     return (
         <div
-            className={`builder-item ${isGroup ? 'builder-item--group' : ''} animate-fade-in`}
+            ref={itemRef}
+            className={itemClassName}
             role="listitem"
             aria-label={`${field.type} field: ${field.label}`}
+            onDragOver={handleDragOver}
+            onDrop={handleDrop}
         >
             {/* Header with type badge and actions */}
-            <div className="builder-item-header">
-                <span className={getTypeClass(field.type)}>
-                    {field.type}
-                </span>
+            <div className="builder-item-header" ref={headerRef}>
+                <div className="flex items-center gap-sm">
+                    <button
+                        ref={handleRef}
+                        type="button"
+                        className="btn btn-ghost btn-icon btn-sm drag-handle"
+                        draggable
+                        onDragStart={handleDragStart}
+                        onDragEnd={endDrag}
+                        onKeyDown={handleHandleKeyDown}
+                        aria-label={`Move ${field.label}`}
+                        aria-describedby="builder-move-instructions"
+                        title="Drag to move (or focus and use arrow keys)"
+                    >
+                        ⠿
+                    </button>
+                    <span className={getTypeClass(field.type)}>
+                        {field.type}
+                    </span>
+                </div>
                 <div className="builder-item-actions">
                     <button
                         type="button"
@@ -153,11 +422,33 @@ const FormBuilderItem = memo(function FormBuilderItem({
                         id={`${field.id}-label`}
                         className="input"
                         value={field.label}
-                        onChange={(val) => updateField(field.id, { label: val })}
+                        onChange={handleLabelChange}
                         placeholder="Enter field label"
                     />
                 </div>
 
+                {/* Machine name (key in nested submission output) */}
+                <div className="input-group">
+                    <label htmlFor={`${field.id}-name`} className="input-label">
+                        Name
+                    </label>
+                    <DebouncedTextInput
+                        id={`${field.id}-name`}
+                        className={`input ${nameError ? 'input--error' : ''}`}
+                        value={draftName ?? field.name}
+                        onChange={handleNameChange}
+                        placeholder="machine_name"
+                        spellCheck={false}
+                        aria-invalid={!!nameError}
+                        aria-describedby={nameError ? `${field.id}-name-error` : undefined}
+                    />
+                    {nameError && (
+                        <span id={`${field.id}-name-error`} className="input-error-message">
+                            {nameError}
+                        </span>
+                    )}
+                </div>
+
                 {/* Required checkbox */}
                 <div className="checkbox-group">
                     <input
@@ -172,8 +463,8 @@ const FormBuilderItem = memo(function FormBuilderItem({
                     </label>
                 </div>
 
-                {/* Placeholder for text/number fields */}
-                {!isGroup && (
+                {/* Placeholder for text/number/select fields */}
+                {hasPlaceholder && (
                     <div className="input-group">
                         <label htmlFor={`${field.id}-placeholder`} className="input-label">
                             Placeholder
@@ -219,10 +510,103 @@ const FormBuilderItem = memo(function FormBuilderItem({
                                 />
                             </div>
                         </div>
+                        <AsyncValidatorSelect field={field} />
+                    </>
+                )}
+
+                {/* Earliest/latest for date and time fields */}
+                {isTemporalField(field) && <DateRangeEditor field={field} />}
+
+                {/* Formula for computed fields */}
+                {isComputedField(field) && <ComputedFieldEditor field={field} />}
+
+                {/* Default state for checkboxes */}
+                {isCheckboxField(field) && (
+                    <div className="checkbox-group">
+                        <input
+                            id={`${field.id}-default-checked`}
+                            type="checkbox"
+                            className="checkbox"
+                            checked={field.defaultValue === true}
+                            onChange={(e) => updateField(field.id, { defaultValue: e.target.checked || undefined })}
+                        />
+                        <label htmlFor={`${field.id}-default-checked`} className="checkbox-label">
+                            Checked by default
+                        </label>
+                    </div>
+                )}
+
+                {/* Repetition for groups */}
+                {isGroupField(field) && (
+                    <>
+                        <div className="checkbox-group">
+                            <input
+                                id={`${field.id}-repeatable`}
+                                type="checkbox"
+                                className="checkbox"
+                                checked={field.repeatable === true}
+                                onChange={(e) =>
+                                    updateField(
+                                        field.id,
+                                        e.target.checked
+                                            ? { repeatable: true }
+                                            : { repeatable: undefined, minInstances: undefined, maxInstances: undefined }
+                                    )
+                                }
+                            />
+                            <label htmlFor={`${field.id}-repeatable`} className="checkbox-label">
+                                Repeatable (users can add several entries)
+                            </label>
+                        </div>
+
+                        {field.repeatable && (
+                            <div className="flex gap-md">
+                                <div className="input-group flex-grow">
+                                    <label htmlFor={`${field.id}-min-instances`} className="input-label">
+                                        Min Entries
+                                    </label>
+                                    <DebouncedNumberInput
+                                        id={`${field.id}-min-instances`}
+                                        className="input"
+                                        value={field.minInstances}
+                                        onChange={(val) => updateField(field.id, { minInstances: toInstanceCount(val) })}
+                                        placeholder="No min"
+                                        min={0}
+                                    />
+                                </div>
+                                <div className="input-group flex-grow">
+                                    <label htmlFor={`${field.id}-max-instances`} className="input-label">
+                                        Max Entries
+                                    </label>
+                                    <DebouncedNumberInput
+                                        id={`${field.id}-max-instances`}
+                                        className="input"
+                                        value={field.maxInstances}
+                                        onChange={(val) => updateField(field.id, { maxInstances: toInstanceCount(val) })}
+                                        placeholder="No max"
+                                        min={0}
+                                    />
+                                </div>
+                            </div>
+                        )}
                     </>
                 )}
             </div>
 
+            {/* Length, format and pattern for text fields */}
+            {field.type === 'text' && <TextConstraintsEditor field={field} />}
+
+            {/* Options for choice fields */}
+            {isChoiceField(field) && <ChoiceOptionsEditor field={field} />}
+
+            {/* Conditional visibility rule */}
+            <VisibilityRuleEditor field={field} />
+
+            {/* Texts in the form's additional locales */}
+            {schema.localization && schema.localization.locales.length > 0 && (
+                <FieldTranslationsEditor field={field} localization={schema.localization} />
+            )}
+
             {/* Children for group fields - collapsible with details/summary */}
             {isGroup && (
                 <details className="builder-item-details" open>
@@ -237,29 +621,7 @@ const FormBuilderItem = memo(function FormBuilderItem({
 
                     <div className="builder-item-children">
                         {/* Toolbar to add children */}
-                        <div className="add-field-toolbar">
-                            <button
-                                type="button"
-                                className="btn btn-secondary btn-sm"
-                                onClick={() => handleAddChild('text')}
-                            >
-                                + Text
-                            </button>
-                            <button
-                                type="button"
-                                className="btn btn-secondary btn-sm"
-                                onClick={() => handleAddChild('number')}
-                            >
-                                + Number
-                            </button>
-                            <button
-                                type="button"
-                                className="btn btn-secondary btn-sm"
-                                onClick={() => handleAddChild('group')}
-                            >
-                                + Group
-                            </button>
-                        </div>
+                        <AddFieldToolbar parentId={field.id} />
 
                         {/* Render children recursively */}
                         {field.children.length === 0 ? (
@@ -268,13 +630,15 @@ const FormBuilderItem = memo(function FormBuilderItem({
                             </p>
                         ) : (
                             <div role="list" aria-label={`Fields in ${field.label}`}>
-                                {field.children.map((child, index) => (
+                                {field.children.map((child, childIndex) => (
                                     <FormBuilderItem
                                         key={child.id}
                                         field={child}
                                         depth={depth + 1}
-                                        isFirst={index === 0}
-                                        isLast={index === field.children.length - 1}
+                                        parentId={field.id}
+                                        index={childIndex}
+                                        isFirst={childIndex === 0}
+                                        isLast={childIndex === field.children.length - 1}
                                     />
                                 ))}
                             </div>
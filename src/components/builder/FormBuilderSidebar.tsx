@@ -3,7 +3,11 @@
  * CONSTRAINT HEADER - FORM BUILDER SIDEBAR
  * =============================================================================
  * Main container for the Builder Domain UI.
- * Provides controls for adding fields, importing/exporting JSON.
+ * Provides controls for adding fields, importing/exporting JSON (as a form
+ * schema or a JSON Schema document), downloading a standalone HTML page or
+ * TypeScript types of the form, autosave status and undo/redo (buttons plus
+ * Ctrl+Z / Ctrl+Shift+Z while focus is in the sidebar).
+ * Owns the drag-and-drop state shared by the recursive FormBuilderItems.
  *
  * HARD CONSTRAINTS:
  * - NO UI frameworks (Tailwind, Bootstrap)
@@ -12,54 +16,145 @@
  * =============================================================================
  */
 
-import { useState, type ChangeEvent, memo } from 'react';
+import {
+    useState,
+    useCallback,
+    useMemo,
+    useRef,
+    type ChangeEvent,
+    type KeyboardEvent,
+    memo,
+} from 'react';
 import { useBuilder } from '../../context/BuilderContext';
+import { useFormLibrary } from '../../context/FormLibraryContext';
+import {
+    BuilderDragContext,
+    type BuilderDragContextValue,
+    type DropTarget,
+} from '../../context/BuilderDragContext';
+import { collectSubtreeIds, findFieldById } from '../../utils/recursiveReducer';
+import { CURRENT_SCHEMA_VERSION } from '../../types/schema';
+import { formatSchemaIssue, type SchemaIssue } from '../../utils/schemaValidation';
+import type { SchemaFormat } from '../../utils/jsonSchema';
+import { toStandaloneHtml } from '../../utils/htmlExport';
+import { toTypeScript } from '../../utils/typeGeneration';
+import { downloadFile } from '../../utils/download';
 import FormBuilderItem from './FormBuilderItem';
+import AddFieldToolbar from './AddFieldToolbar';
+import FormLayoutPanel from './FormLayoutPanel';
+import FormLocalizationPanel from './FormLocalizationPanel';
+import FormThemePanel from './FormThemePanel';
+import FormRulesPanel from './FormRulesPanel';
+import SubmissionTargetPanel from './SubmissionTargetPanel';
+import AutosaveStatus from './AutosaveStatus';
+
+/**
+ * Import/export formats in display order
+ */
+const SCHEMA_FORMATS: { value: SchemaFormat; label: string; placeholder: string }[] = [
+    { value: 'form', label: 'Form schema', placeholder: `{"version": ${CURRENT_SCHEMA_VERSION}, "fields": [...]}` },
+    { value: 'jsonSchema', label: 'JSON Schema (2020-12)', placeholder: '{"type": "object", "properties": {...}}' },
+];
 
 /**
  * FormBuilderSidebar - Main sidebar container for the form builder
  */
 const FormBuilderSidebar = memo(function FormBuilderSidebar() {
-    const { schema, addField, importSchema, exportSchema } = useBuilder();
+    const { schema, importSchema, exportSchema, undo, redo, canUndo, canRedo } = useBuilder();
+    const library = useFormLibrary();
     const [importText, setImportText] = useState('');
     const [showImport, setShowImport] = useState(false);
     const [importError, setImportError] = useState<string | null>(null);
+    const [importIssues, setImportIssues] = useState<SchemaIssue[]>([]);
+    const [importNotice, setImportNotice] = useState<string | null>(null);
+    const [unsupported, setUnsupported] = useState<SchemaIssue[]>([]);
+    const [schemaFormat, setSchemaFormat] = useState<SchemaFormat>('form');
+    const formatDefinition = SCHEMA_FORMATS.find((format) => format.value === schemaFormat) ?? SCHEMA_FORMATS[0];
 
-    /**
-     * Handle adding a root-level field
-     */
-    const handleAddTextField = () => {
-        addField('text', null);
-    };
+    // Drag-and-drop / keyboard move state (see BuilderDragContext)
+    const [draggedIds, setDraggedIds] = useState<ReadonlySet<string> | null>(null);
+    const [dropTarget, setDropTargetState] = useState<DropTarget | null>(null);
+    const [announcement, setAnnouncement] = useState('');
+    const [moveError, setMoveError] = useState<string | null>(null);
+    const pendingFocusRef = useRef<string | null>(null);
 
-    const handleAddNumberField = () => {
-        addField('number', null);
-    };
+    const startDrag = useCallback((fieldId: string) => {
+        const field = findFieldById(schema.fields, fieldId);
+        setDraggedIds(field ? collectSubtreeIds(field) : null);
+        setMoveError(null);
+    }, [schema.fields]);
 
-    const handleAddGroupField = () => {
-        addField('group', null);
-    };
+    const endDrag = useCallback(() => {
+        setDraggedIds(null);
+        setDropTargetState(null);
+    }, []);
+
+    const setDropTarget = useCallback((target: DropTarget | null) => {
+        // Bail out of re-rendering when the indicator did not move
+        setDropTargetState((prev) =>
+            prev?.fieldId === target?.fieldId && prev?.position === target?.position ? prev : target
+        );
+    }, []);
+
+    const dragContextValue = useMemo<BuilderDragContextValue>(
+        () => ({
+            draggedIds,
+            startDrag,
+            endDrag,
+            dropTarget,
+            setDropTarget,
+            pendingFocusRef,
+            announce: setAnnouncement,
+            reportMoveError: setMoveError,
+        }),
+        [draggedIds, startDrag, endDrag, dropTarget, setDropTarget]
+    );
 
     /**
      * Handle export - copies to clipboard and shows in textarea
      */
     const handleExport = () => {
-        const json = exportSchema();
+        const json = exportSchema(schemaFormat);
+        library?.markExported(schema);
         setImportText(json);
         setShowImport(true);
-        setImportError(null);
+        clearImportErrors();
         // Also copy to clipboard
         navigator.clipboard.writeText(json).catch(() => {
             // Silently fail if clipboard access is denied
         });
     };
 
+    /**
+     * Handle HTML export - downloads the form as a self-contained page
+     */
+    const handleExportHtml = () => {
+        downloadFile('form.html', toStandaloneHtml(schema), 'text/html');
+    };
+
+    /**
+     * Handle type export - downloads submission interfaces and type guards
+     */
+    const handleExportTypes = () => {
+        downloadFile('form-submission.ts', toTypeScript(schema), 'text/plain');
+    };
+
+    /**
+     * Clear the import error message and issue list
+     */
+    const clearImportErrors = () => {
+        setImportError(null);
+        setImportIssues([]);
+        setImportNotice(null);
+        setUnsupported([]);
+    };
+
     /**
      * Handle import text change
      */
     const handleImportTextChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
         setImportText(e.target.value);
-        setImportError(null);
+        clearImportErrors();
     };
 
     /**
@@ -71,13 +166,54 @@ const FormBuilderSidebar = memo(function FormBuilderSidebar() {
             return;
         }
 
-        const success = importSchema(importText);
-        if (success) {
+        const result = importSchema(importText, schemaFormat);
+        if (result.success) {
             setShowImport(false);
             setImportText('');
-            setImportError(null);
+            clearImportErrors();
+            const count = result.unsupported.length;
+            if (count > 0) {
+                setImportNotice(`Imported. ${count} ${count === 1 ? 'keyword' : 'keywords'} could not be represented and ${count === 1 ? 'was' : 'were'} skipped:`);
+                setUnsupported(result.unsupported);
+            } else {
+                setImportNotice(
+                    result.migratedFrom !== null
+                        ? `Schema upgraded from format v${result.migratedFrom} and imported.`
+                        : null
+                );
+            }
         } else {
-            setImportError('Invalid JSON format. Please check your schema.');
+            const count = result.issues.length;
+            setImportError(`Schema was not imported: ${count} ${count === 1 ? 'problem' : 'problems'} found.`);
+            setImportIssues(result.issues);
+        }
+    };
+
+    /**
+     * Handle undo/redo keyboard shortcuts
+     * Text inputs keep the browser's native undo for the text being typed
+     */
+    const handleKeyDown = (e: KeyboardEvent<HTMLElement>) => {
+        const isModifier = e.ctrlKey || e.metaKey;
+        if (!isModifier) {
+            return;
+        }
+
+        const target = e.target as HTMLElement;
+        const isTextEditing =
+            target instanceof HTMLTextAreaElement ||
+            (target instanceof HTMLInputElement && target.type !== 'checkbox');
+        if (isTextEditing) {
+            return;
+        }
+
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+            e.preventDefault();
+            undo();
+        } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+            e.preventDefault();
+            redo();
         }
     };
 
@@ -86,48 +222,72 @@ const FormBuilderSidebar = memo(function FormBuilderSidebar() {
      */
     const toggleImport = () => {
         setShowImport((prev) => !prev);
-        setImportError(null);
+        clearImportErrors();
     };
 
     return (
-        <aside className="sidebar" aria-label="Form Builder">
+        <aside className="sidebar" aria-label="Form Builder" onKeyDown={handleKeyDown}>
             {/* Header */}
             <header className="sidebar-header">
-                <h1 className="text-xl font-bold">Form Builder</h1>
-                <p className="text-sm mt-xs">Build your form by adding fields below</p>
-            </header>
-
-            {/* Scrollable content */}
-            <div className="sidebar-content">
-                {/* Add field toolbar */}
-                <section aria-label="Add new fields">
-                    <div className="add-field-toolbar">
+                <div className="flex justify-between items-center">
+                    <h1 className="text-xl font-bold">Form Builder</h1>
+                    <div className="flex gap-xs" role="group" aria-label="History">
                         <button
                             type="button"
-                            className="btn btn-primary btn-sm"
-                            onClick={handleAddTextField}
+                            className="btn btn-secondary btn-sm"
+                            onClick={undo}
+                            disabled={!canUndo}
+                            aria-keyshortcuts="Control+Z"
+                            title="Undo (Ctrl+Z)"
                         >
-                            + Text
+                            ↶ Undo
                         </button>
                         <button
                             type="button"
-                            className="btn btn-primary btn-sm"
-                            onClick={handleAddNumberField}
+                            className="btn btn-secondary btn-sm"
+                            onClick={redo}
+                            disabled={!canRedo}
+                            aria-keyshortcuts="Control+Shift+Z"
+                            title="Redo (Ctrl+Shift+Z)"
                         >
-                            + Number
+                            ↷ Redo
                         </button>
+                    </div>
+                </div>
+                {library && (
+                    <div className="flex justify-between items-center gap-sm mt-xs">
+                        <p className="text-sm font-semibold">{library.form.title}</p>
                         <button
                             type="button"
                             className="btn btn-secondary btn-sm"
-                            onClick={handleAddGroupField}
+                            onClick={library.closeForm}
+                            title="Save and return to the list of forms"
                         >
-                            + Group
+                            ☰ All forms
                         </button>
                     </div>
+                )}
+                <p className="text-sm mt-xs">Build your form by adding fields below</p>
+                <AutosaveStatus />
+            </header>
+
+            {/* Scrollable content */}
+            <div className="sidebar-content">
+                {/* Add field toolbar */}
+                <section aria-label="Add new fields">
+                    <AddFieldToolbar parentId={null} emphasized />
                 </section>
 
                 {/* Field list */}
                 <section aria-label="Form fields">
+                    <p id="builder-move-instructions" className="sr-only">
+                        Drag the handle to move a field. With the handle focused, use Arrow Up and
+                        Arrow Down to reorder, Arrow Right to move into the group above, and Arrow
+                        Left to move out of the current group.
+                    </p>
+                    <div className="sr-only" role="status" aria-live="polite">
+                        {announcement}
+                    </div>
                     {schema.fields.length === 0 ? (
                         <div className="preview-empty mt-md">
                             <div className="preview-empty-icon">📝</div>
@@ -137,23 +297,67 @@ const FormBuilderSidebar = memo(function FormBuilderSidebar() {
                             </p>
                         </div>
                     ) : (
-                        <div role="list" aria-label="Form field configuration">
-                            {schema.fields.map((field, index) => (
-                                <FormBuilderItem
-                                    key={field.id}
-                                    field={field}
-                                    depth={0}
-                                    isFirst={index === 0}
-                                    isLast={index === schema.fields.length - 1}
-                                />
-                            ))}
-                        </div>
+                        <BuilderDragContext.Provider value={dragContextValue}>
+                            {moveError && (
+                                <p className="input-error-message mb-sm" role="alert">
+                                    Not moved: {moveError}
+                                </p>
+                            )}
+                            <div role="list" aria-label="Form field configuration">
+                                {schema.fields.map((field, index) => (
+                                    <FormBuilderItem
+                                        key={field.id}
+                                        field={field}
+                                        depth={0}
+                                        parentId={null}
+                                        index={index}
+                                        isFirst={index === 0}
+                                        isLast={index === schema.fields.length - 1}
+                                    />
+                                ))}
+                            </div>
+                        </BuilderDragContext.Provider>
                     )}
                 </section>
 
+                {/* One page or a wizard */}
+                <FormLayoutPanel />
+
+                {/* Colors, shape and font of the runtime form */}
+                <FormThemePanel />
+
+                {/* Languages and translations */}
+                <FormLocalizationPanel />
+
+                {/* Cross-field validation rules */}
+                <FormRulesPanel />
+
+                {/* Endpoint of submissions */}
+                <SubmissionTargetPanel />
+
                 {/* Import/Export section */}
                 <section className="export-section" aria-label="Import and export">
-                    <div className="flex gap-sm mb-md">
+                    <div className="input-group mb-md">
+                        <label htmlFor="schema-format" className="input-label">
+                            Format
+                        </label>
+                        <select
+                            id="schema-format"
+                            className="select"
+                            value={schemaFormat}
+                            onChange={(e) => {
+                                setSchemaFormat(e.target.value as SchemaFormat);
+                                clearImportErrors();
+                            }}
+                        >
+                            {SCHEMA_FORMATS.map((format) => (
+                                <option key={format.value} value={format.value}>
+                                    {format.label}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex flex-wrap gap-sm mb-md">
                         <button
                             type="button"
                             className="btn btn-secondary"
@@ -161,6 +365,23 @@ const FormBuilderSidebar = memo(function FormBuilderSidebar() {
                         >
                             📤 Export JSON
                         </button>
+                        <button
+                            type="button"
+                            className="btn btn-secondary"
+                            onClick={handleExportHtml}
+                            disabled={schema.fields.length === 0}
+                            title="Download a self-contained HTML page of this form"
+                        >
+                            🌐 Export HTML
+                        </button>
+                        <button
+                            type="button"
+                            className="btn btn-secondary"
+                            onClick={handleExportTypes}
+                            title="Download TypeScript types and type guards of the submitted data"
+                        >
+                            🧾 Export Types
+                        </button>
                         <button
                             type="button"
                             className="btn btn-secondary"
@@ -170,23 +391,47 @@ const FormBuilderSidebar = memo(function FormBuilderSidebar() {
                         </button>
                     </div>
 
+                    {importNotice && (
+                        <div className="text-sm text-secondary mb-md" role="status">
+                            <p>{importNotice}</p>
+                            {unsupported.length > 0 && (
+                                <ul className="import-issues">
+                                    {unsupported.map((issue, index) => (
+                                        <li key={`${issue.path}-${index}`}>
+                                            {formatSchemaIssue(issue)}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    )}
+
                     {showImport && (
                         <div className="animate-fade-in">
                             <label htmlFor="import-json" className="input-label mb-sm block">
-                                Paste JSON Schema
+                                Paste {schemaFormat === 'jsonSchema' ? 'JSON Schema document' : 'form schema JSON'}
                             </label>
                             <textarea
                                 id="import-json"
                                 className={`export-textarea ${importError ? 'input--error' : ''}`}
                                 value={importText}
                                 onChange={handleImportTextChange}
-                                placeholder='{"fields": [...]}'
+                                placeholder={formatDefinition.placeholder}
                                 aria-describedby={importError ? 'import-error' : undefined}
                             />
                             {importError && (
-                                <p id="import-error" className="input-error-message mt-sm">
-                                    {importError}
-                                </p>
+                                <div id="import-error" className="input-error-message mt-sm" role="alert">
+                                    <p>{importError}</p>
+                                    {importIssues.length > 0 && (
+                                        <ul className="import-issues">
+                                            {importIssues.map((issue, index) => (
+                                                <li key={`${issue.path}-${index}`}>
+                                                    {formatSchemaIssue(issue)}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
                             )}
                             <div className="export-actions">
                                 <button
@@ -201,7 +446,7 @@ const FormBuilderSidebar = memo(function FormBuilderSidebar() {
                                     className="btn btn-ghost"
                                     onClick={() => {
                                         setImportText('');
-                                        setImportError(null);
+                                        clearImportErrors();
                                     }}
                                 >
                                     Clear
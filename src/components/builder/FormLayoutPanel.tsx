@@ -0,0 +1,73 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - FORM LAYOUT PANEL
+ * =============================================================================
+ * Picks the runtime layout (`layout` of the schema): every field on one
+ * page, or a wizard with one step per top-level group. Lists the steps the
+ * wizard will show (utils/wizardSteps.ts). Shown in the sidebar above the
+ * form rules.
+ *
+ * HARD CONSTRAINTS:
+ * - References types/schema.ts as Single Source of Truth
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * - Uses semantic HTML for accessibility
+ * =============================================================================
+ */
+
+import { memo, useMemo, type ChangeEvent } from 'react';
+import type { FormLayout } from '../../types/schema';
+import { useBuilder } from '../../context/BuilderContext';
+import { getWizardSteps } from '../../utils/wizardSteps';
+
+/**
+ * FormLayoutPanel - One page or a step per top-level group
+ */
+const FormLayoutPanel = memo(function FormLayoutPanel() {
+    const { schema, setLayout } = useBuilder();
+    const layout = schema.layout ?? 'single';
+    const steps = useMemo(() => getWizardSteps(schema.fields), [schema.fields]);
+
+    return (
+        <section className="form-rules" aria-labelledby="form-layout-title">
+            <div className="flex justify-between items-center mb-sm">
+                <h2 id="form-layout-title" className="text-base font-semibold">Layout</h2>
+                {layout === 'wizard' && (
+                    <span className="builder-item-summary-count">
+                        {steps.length} {steps.length === 1 ? 'step' : 'steps'}
+                    </span>
+                )}
+            </div>
+
+            <div className="input-group">
+                <label htmlFor="form-layout" className="sr-only">
+                    Layout
+                </label>
+                <select
+                    id="form-layout"
+                    className="select"
+                    value={layout}
+                    onChange={(e: ChangeEvent<HTMLSelectElement>) => setLayout(e.target.value as FormLayout)}
+                >
+                    <option value="single">Single page</option>
+                    <option value="wizard">Wizard: one step per group</option>
+                </select>
+            </div>
+
+            {layout === 'wizard' && (
+                <>
+                    <ol className="wizard-step-outline text-xs text-secondary mt-xs">
+                        {steps.map((step) => (
+                            <li key={step.id}>{step.title}</li>
+                        ))}
+                    </ol>
+                    <p className="text-xs text-muted mt-xs">
+                        Each top-level group is a step; fields outside groups form a step of their
+                        own. A step is checked before the next one opens.
+                    </p>
+                </>
+            )}
+        </section>
+    );
+});
+
+export default FormLayoutPanel;
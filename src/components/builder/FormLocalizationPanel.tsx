@@ -0,0 +1,326 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - FORM LOCALIZATION PANEL
+ * =============================================================================
+ * Edits the languages of the form (`localization` of the schema): the
+ * locale its texts are written in, the additional locales they are
+ * translated into, and the validation message catalog per locale
+ * (utils/messages.ts). Counts, per additional locale, the fields still
+ * missing a translation. Shown in the sidebar below the layout.
+ *
+ * HARD CONSTRAINTS:
+ * - References types/schema.ts as Single Source of Truth
+ * - Locale codes and message templates are checked here; invalid ones are
+ *   flagged inline and never reach the schema
+ * - Removing a locale removes its translations (in the reducer)
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * - Uses semantic HTML for accessibility
+ * =============================================================================
+ */
+
+import { memo, useState, type ChangeEvent, type KeyboardEvent } from 'react';
+import type { FormLocalization } from '../../types/schema';
+import { useBuilder } from '../../context/BuilderContext';
+import { DEFAULT_LOCALE, countMissingTranslations, getLocaleError, getLocaleName } from '../../utils/localization';
+import { DEFAULT_MESSAGES, MESSAGE_IDS, getMessageTemplateError, type MessageId } from '../../utils/messages';
+import { DebouncedTextInput } from '../ui/DebouncedInput';
+
+interface MessageRowProps {
+    locale: string;
+    id: MessageId;
+    template: string;
+    onChange: (id: MessageId, template: string) => void;
+}
+
+/**
+ * One catalog message; a template being typed is kept locally until it parses
+ */
+function MessageRow({ locale, id, template, onChange }: MessageRowProps) {
+    const [draft, setDraft] = useState<string | null>(null);
+    const error = draft !== null ? getMessageTemplateError(draft) : null;
+    const inputId = `message-${locale}-${id}`;
+
+    const handleChange = (value: string) => {
+        if (getMessageTemplateError(value)) {
+            setDraft(value);
+            return;
+        }
+        setDraft(null);
+        onChange(id, value);
+    };
+
+    return (
+        <div className="input-group">
+            <label htmlFor={inputId} className="input-label input-label--code">
+                {id}
+            </label>
+            <DebouncedTextInput
+                id={inputId}
+                className={`input ${error ? 'input--error' : ''}`}
+                lang={locale}
+                value={draft ?? template}
+                onChange={handleChange}
+                placeholder={DEFAULT_MESSAGES[id]}
+                spellCheck={false}
+                aria-invalid={!!error}
+                aria-describedby={error ? `${inputId}-error` : undefined}
+            />
+            {error && (
+                <span id={`${inputId}-error`} className="input-error-message">
+                    {error}
+                </span>
+            )}
+        </div>
+    );
+}
+
+/**
+ * FormLocalizationPanel - Languages, translations status and messages
+ */
+const FormLocalizationPanel = memo(function FormLocalizationPanel() {
+    const { schema, setLocalization } = useBuilder();
+    const defaultLocale = schema.localization?.defaultLocale ?? DEFAULT_LOCALE;
+    const locales = schema.localization?.locales ?? [];
+    const messages = schema.localization?.messages ?? {};
+
+    // The default locale being typed, kept locally until it is valid
+    const [draftDefault, setDraftDefault] = useState<string | null>(null);
+    const [newLocale, setNewLocale] = useState('');
+    const [addError, setAddError] = useState<string | null>(null);
+    // Locale whose messages are shown (falls back to the default one)
+    const [catalogChoice, setCatalogChoice] = useState<string | null>(null);
+    const catalogLocale =
+        catalogChoice !== null && locales.includes(catalogChoice) ? catalogChoice : defaultLocale;
+
+    const overrideCount = Object.values(messages).reduce((count, catalog) => count + Object.keys(catalog).length, 0);
+
+    /**
+     * Store the settings; a plain English form keeps no localization
+     */
+    const save = (next: FormLocalization) => {
+        const nextMessages = Object.fromEntries(
+            Object.entries(next.messages ?? {}).filter(([, catalog]) => Object.keys(catalog).length > 0)
+        );
+        const hasMessages = Object.keys(nextMessages).length > 0;
+        if (next.defaultLocale === DEFAULT_LOCALE && next.locales.length === 0 && !hasMessages) {
+            setLocalization(undefined);
+            return;
+        }
+        setLocalization({
+            defaultLocale: next.defaultLocale,
+            locales: next.locales,
+            ...(hasMessages ? { messages: nextMessages } : {}),
+        });
+    };
+
+    const getDefaultLocaleError = (code: string) =>
+        getLocaleError(code) ??
+        (locales.includes(Intl.getCanonicalLocales(code)[0])
+            ? `"${code}" is already an additional locale; remove it first`
+            : null);
+
+    const handleDefaultChange = (value: string) => {
+        const code = value.trim();
+        if (getDefaultLocaleError(code)) {
+            setDraftDefault(value);
+            return;
+        }
+        setDraftDefault(null);
+        const canonical = Intl.getCanonicalLocales(code)[0];
+        // The default locale's messages follow it to its new code
+        const nextMessages = { ...messages };
+        delete nextMessages[defaultLocale];
+        if (messages[defaultLocale]) {
+            nextMessages[canonical] = messages[defaultLocale];
+        }
+        save({ defaultLocale: canonical, locales, messages: nextMessages });
+    };
+
+    const handleAdd = () => {
+        const code = newLocale.trim();
+        const error = getLocaleError(code);
+        if (error) {
+            setAddError(error);
+            return;
+        }
+        const canonical = Intl.getCanonicalLocales(code)[0];
+        if (canonical === defaultLocale || locales.includes(canonical)) {
+            setAddError(`"${canonical}" is already one of the form's locales`);
+            return;
+        }
+        save({ defaultLocale, locales: [...locales, canonical], messages });
+        setNewLocale('');
+        setAddError(null);
+    };
+
+    const handleNewLocaleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            handleAdd();
+        }
+    };
+
+    const handleRemove = (locale: string) => {
+        const nextMessages = { ...messages };
+        delete nextMessages[locale];
+        save({ defaultLocale, locales: locales.filter((code) => code !== locale), messages: nextMessages });
+    };
+
+    const handleMessageChange = (id: MessageId, template: string) => {
+        const catalog = { ...messages[catalogLocale] };
+        if (template === '') {
+            delete catalog[id];
+        } else {
+            catalog[id] = template;
+        }
+        save({ defaultLocale, locales, messages: { ...messages, [catalogLocale]: catalog } });
+    };
+
+    const defaultError = draftDefault !== null ? getDefaultLocaleError(draftDefault.trim()) : null;
+
+    return (
+        <section className="form-rules" aria-labelledby="form-localization-title">
+            <div className="flex justify-between items-center mb-sm">
+                <h2 id="form-localization-title" className="text-base font-semibold">Languages</h2>
+                <span className="builder-item-summary-count">
+                    {locales.length + 1} {locales.length === 0 ? 'locale' : 'locales'}
+                </span>
+            </div>
+
+            <div className="input-group">
+                <label htmlFor="localization-default" className="input-label">
+                    Written in
+                </label>
+                <DebouncedTextInput
+                    id="localization-default"
+                    className={`input input--code ${defaultError ? 'input--error' : ''}`}
+                    value={draftDefault ?? defaultLocale}
+                    onChange={handleDefaultChange}
+                    placeholder={DEFAULT_LOCALE}
+                    spellCheck={false}
+                    aria-invalid={!!defaultError}
+                    aria-describedby={defaultError ? 'localization-default-error' : 'localization-default-hint'}
+                />
+                {defaultError ? (
+                    <span id="localization-default-error" className="input-error-message">
+                        {defaultError}
+                    </span>
+                ) : (
+                    <span id="localization-default-hint" className="text-xs text-muted">
+                        {getLocaleName(defaultLocale)}: the language of the labels entered above
+                    </span>
+                )}
+            </div>
+
+            {locales.length > 0 && (
+                <ul className="locale-list" aria-label="Translations">
+                    {locales.map((locale) => {
+                        const missing = countMissingTranslations(schema.fields, locale);
+                        return (
+                            <li key={locale} className="locale-list-item">
+                                <span className="text-sm">
+                                    {getLocaleName(locale)} <code>{locale}</code>
+                                </span>
+                                {missing === 0 ? (
+                                    <span className="builder-item-summary-count">Complete</span>
+                                ) : (
+                                    <span className="translation-missing-badge">
+                                        {missing} {missing === 1 ? 'field' : 'fields'} missing
+                                    </span>
+                                )}
+                                <button
+                                    type="button"
+                                    className="btn btn-ghost btn-icon btn-sm"
+                                    onClick={() => handleRemove(locale)}
+                                    aria-label={`Remove ${getLocaleName(locale)} and its translations`}
+                                    title="Remove locale and its translations"
+                                >
+                                    ×
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            <div className="input-group">
+                <label htmlFor="localization-add" className="input-label">
+                    Translate into
+                </label>
+                <div className="form-rule-row">
+                    <input
+                        id="localization-add"
+                        type="text"
+                        className={`input input--code ${addError ? 'input--error' : ''}`}
+                        value={newLocale}
+                        onChange={(e: ChangeEvent<HTMLInputElement>) => {
+                            setNewLocale(e.target.value);
+                            setAddError(null);
+                        }}
+                        onKeyDown={handleNewLocaleKeyDown}
+                        placeholder="de, fr, pt-BR"
+                        spellCheck={false}
+                        aria-invalid={!!addError}
+                        aria-describedby={addError ? 'localization-add-error' : undefined}
+                    />
+                    <button type="button" className="btn btn-secondary btn-sm" onClick={handleAdd}>
+                        + Add
+                    </button>
+                </div>
+                {addError && (
+                    <span id="localization-add-error" className="input-error-message">
+                        {addError}
+                    </span>
+                )}
+            </div>
+
+            <details className="builder-item-details">
+                <summary className="builder-item-summary">
+                    <span className="builder-item-summary-text">
+                        Validation Messages
+                        <span className="builder-item-summary-count">
+                            {overrideCount === 0 ? 'Built-in' : `${overrideCount} customized`}
+                        </span>
+                    </span>
+                </summary>
+
+                <div className="builder-item-fields">
+                    <div className="input-group">
+                        <label htmlFor="localization-catalog" className="input-label">
+                            Locale
+                        </label>
+                        <select
+                            id="localization-catalog"
+                            className="select"
+                            value={catalogLocale}
+                            onChange={(e: ChangeEvent<HTMLSelectElement>) => setCatalogChoice(e.target.value)}
+                        >
+                            {[defaultLocale, ...locales].map((locale) => (
+                                <option key={locale} value={locale}>
+                                    {getLocaleName(locale)} ({locale})
+                                </option>
+                            ))}
+                        </select>
+                        <span className="text-xs text-muted">
+                            Empty messages use the built-in English text. Values go in braces, e.g.{' '}
+                            <code>{'{label}'}</code>; plurals as{' '}
+                            <code>{'{min, plural, one {# entry} other {# entries}}'}</code>
+                        </span>
+                    </div>
+
+                    {MESSAGE_IDS.map((id) => (
+                        <MessageRow
+                            key={`${catalogLocale}-${id}`}
+                            locale={catalogLocale}
+                            id={id}
+                            template={messages[catalogLocale]?.[id] ?? ''}
+                            onChange={handleMessageChange}
+                        />
+                    ))}
+                </div>
+            </details>
+        </section>
+    );
+});
+
+export default FormLocalizationPanel;
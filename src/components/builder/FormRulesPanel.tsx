@@ -0,0 +1,350 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - FORM RULES PANEL
+ * =============================================================================
+ * Edits the form-level `rules` of the schema (cross-field validation):
+ * comparisons between two fields, sums of number fields, and
+ * "at least N of" requirements. Shown in the sidebar below the field list.
+ *
+ * HARD CONSTRAINTS:
+ * - References types/schema.ts as Single Source of Truth
+ * - Only input fields outside repeatable groups can be referenced; the
+ *   reducer drops references to fields that stop qualifying
+ * - Sums and counts always keep at least one field
+ * - A custom message can be translated into each additional locale; rules
+ *   without one use the translated catalog messages
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * - Uses semantic HTML for accessibility
+ * =============================================================================
+ */
+
+import { memo } from 'react';
+import type { AtLeastRule, CompareRule, Field, FormRule, RuleOperator, SumRule } from '../../types/schema';
+import { isTemporalField } from '../../types/schema';
+import { useBuilder } from '../../context/BuilderContext';
+import { RULE_OPERATORS, collectRuleTargets, getDefaultRuleMessage } from '../../utils/formRules';
+import { getFormLocales, getFormMessages, getLocaleName, setRuleTranslation } from '../../utils/localization';
+import { DebouncedTextInput, DebouncedNumberInput } from '../ui/DebouncedInput';
+
+/**
+ * Buttons in display order
+ */
+const RULE_TYPE_BUTTONS: { type: FormRule['type']; label: string; hint: string }[] = [
+    { type: 'compare', label: 'Comparison', hint: 'Add two input fields first' },
+    { type: 'sum', label: 'Sum', hint: 'Add a number field first' },
+    { type: 'atLeast', label: 'At least N of', hint: 'Add an input field first' },
+];
+
+/**
+ * Titles of rule cards
+ */
+const RULE_TITLES: Record<FormRule['type'], string> = {
+    compare: 'Comparison',
+    sum: 'Sum',
+    atLeast: 'At least N of',
+};
+
+interface RuleEditorProps<T extends FormRule> {
+    rule: T;
+    /** Fields the rule may refer to */
+    targets: Field[];
+}
+
+/**
+ * Operator select shared by comparison and sum rules
+ */
+function OperatorSelect({ id, value, temporal, onChange }: {
+    id: string;
+    value: RuleOperator;
+    temporal: boolean;
+    onChange: (operator: RuleOperator) => void;
+}) {
+    return (
+        <>
+            <label htmlFor={id} className="sr-only">Operator</label>
+            <select
+                id={id}
+                className="select"
+                value={value}
+                onChange={(e) => onChange(e.target.value as RuleOperator)}
+            >
+                {RULE_OPERATORS.map((operator) => (
+                    <option key={operator.value} value={operator.value}>
+                        must be {temporal ? operator.temporalLabel : operator.label}
+                    </option>
+                ))}
+            </select>
+        </>
+    );
+}
+
+/**
+ * Checkbox list of the fields counted by a sum or "at least" rule
+ * The last checked field cannot be unchecked
+ */
+function FieldChecklist({ id, legend, candidates, selected, onChange }: {
+    id: string;
+    legend: string;
+    candidates: Field[];
+    selected: string[];
+    onChange: (fieldIds: string[]) => void;
+}) {
+    const toggle = (fieldId: string, checked: boolean) => {
+        // Keep form order rather than click order
+        const next = new Set(selected);
+        if (checked) {
+            next.add(fieldId);
+        } else {
+            next.delete(fieldId);
+        }
+        onChange(candidates.filter((c) => next.has(c.id)).map((c) => c.id));
+    };
+
+    return (
+        <fieldset className="form-rule-fields">
+            <legend className="input-label">{legend}</legend>
+            {candidates.map((candidate) => {
+                const isChecked = selected.includes(candidate.id);
+                return (
+                    <div key={candidate.id} className="checkbox-group">
+                        <input
+                            id={`${id}-${candidate.id}`}
+                            type="checkbox"
+                            className="checkbox"
+                            checked={isChecked}
+                            disabled={isChecked && selected.length === 1}
+                            onChange={(e) => toggle(candidate.id, e.target.checked)}
+                        />
+                        <label htmlFor={`${id}-${candidate.id}`} className="checkbox-label">
+                            {candidate.label || candidate.id}
+                        </label>
+                    </div>
+                );
+            })}
+        </fieldset>
+    );
+}
+
+/**
+ * Edits a comparison between two fields
+ */
+function CompareRuleEditor({ rule, targets }: RuleEditorProps<CompareRule>) {
+    const { updateRule } = useBuilder();
+    const left = targets.find((field) => field.id === rule.fieldId);
+
+    const fieldSelect = (key: 'fieldId' | 'otherFieldId', label: string) => {
+        const exclude = key === 'fieldId' ? rule.otherFieldId : rule.fieldId;
+        return (
+            <>
+                <label htmlFor={`${rule.id}-${key}`} className="sr-only">{label}</label>
+                <select
+                    id={`${rule.id}-${key}`}
+                    className="select"
+                    value={rule[key]}
+                    onChange={(e) => updateRule(rule.id, { [key]: e.target.value })}
+                >
+                    {targets.map((target) => (
+                        <option key={target.id} value={target.id} disabled={target.id === exclude}>
+                            {target.label || target.id}
+                        </option>
+                    ))}
+                </select>
+            </>
+        );
+    };
+
+    return (
+        <div className="form-rule-row">
+            {fieldSelect('fieldId', 'Field')}
+            <OperatorSelect
+                id={`${rule.id}-operator`}
+                value={rule.operator}
+                temporal={left !== undefined && isTemporalField(left)}
+                onChange={(operator) => updateRule(rule.id, { operator })}
+            />
+            {fieldSelect('otherFieldId', 'Compared with')}
+        </div>
+    );
+}
+
+/**
+ * Edits a sum of number fields compared with a constant
+ */
+function SumRuleEditor({ rule, targets }: RuleEditorProps<SumRule>) {
+    const { updateRule } = useBuilder();
+    // Number fields, plus anything the rule already lists
+    const candidates = targets.filter((field) => field.type === 'number' || rule.fieldIds.includes(field.id));
+
+    return (
+        <>
+            <FieldChecklist
+                id={`${rule.id}-fields`}
+                legend="Add up"
+                candidates={candidates}
+                selected={rule.fieldIds}
+                onChange={(fieldIds) => updateRule(rule.id, { fieldIds })}
+            />
+            <div className="form-rule-row">
+                <span className="text-sm text-secondary">The total</span>
+                <OperatorSelect
+                    id={`${rule.id}-operator`}
+                    value={rule.operator}
+                    temporal={false}
+                    onChange={(operator) => updateRule(rule.id, { operator })}
+                />
+                <label htmlFor={`${rule.id}-value`} className="sr-only">Value</label>
+                <DebouncedNumberInput
+                    id={`${rule.id}-value`}
+                    className="input"
+                    value={rule.value}
+                    onChange={(val) => updateRule(rule.id, { value: typeof val === 'number' ? val : 0 })}
+                />
+            </div>
+        </>
+    );
+}
+
+/**
+ * Edits a minimum number of filled fields
+ */
+function AtLeastRuleEditor({ rule, targets }: RuleEditorProps<AtLeastRule>) {
+    const { updateRule } = useBuilder();
+
+    return (
+        <>
+            <div className="form-rule-row">
+                <label htmlFor={`${rule.id}-count`} className="text-sm text-secondary">Fill in at least</label>
+                <DebouncedNumberInput
+                    id={`${rule.id}-count`}
+                    className="input"
+                    value={rule.count}
+                    onChange={(val) => {
+                        const count = typeof val === 'number' ? Math.trunc(val) : 1;
+                        updateRule(rule.id, { count: Math.min(Math.max(count, 1), rule.fieldIds.length) });
+                    }}
+                    min={1}
+                    max={rule.fieldIds.length}
+                />
+            </div>
+            <FieldChecklist
+                id={`${rule.id}-fields`}
+                legend="Of these fields"
+                candidates={targets}
+                selected={rule.fieldIds}
+                onChange={(fieldIds) =>
+                    updateRule(rule.id, { fieldIds, count: Math.min(rule.count, fieldIds.length) })
+                }
+            />
+        </>
+    );
+}
+
+/**
+ * FormRulesPanel - Lists, adds and edits the form-level rules
+ */
+const FormRulesPanel = memo(function FormRulesPanel() {
+    const { schema, addRule, updateRule, deleteRule } = useBuilder();
+    const rules = schema.rules ?? [];
+    const targets = collectRuleTargets(schema.fields);
+    const locales = schema.localization?.locales ?? [];
+
+    const canAdd: Record<FormRule['type'], boolean> = {
+        compare: targets.length >= 2,
+        sum: targets.some((field) => field.type === 'number'),
+        atLeast: targets.length > 0,
+    };
+
+    return (
+        <section className="form-rules" aria-labelledby="form-rules-title">
+            <div className="flex justify-between items-center mb-sm">
+                <h2 id="form-rules-title" className="text-base font-semibold">Form Rules</h2>
+                <span className="builder-item-summary-count">
+                    {rules.length === 0 ? 'None' : `${rules.length} ${rules.length === 1 ? 'rule' : 'rules'}`}
+                </span>
+            </div>
+            <p className="text-xs text-muted mb-sm">
+                Checks across several fields, run on submit. Fields inside repeatable groups cannot be used.
+            </p>
+
+            <div role="list" aria-label="Form rules">
+                {rules.map((rule, index) => (
+                    <div key={rule.id} role="listitem" className="builder-item form-rule" aria-label={`Rule ${index + 1}`}>
+                        <div className="flex justify-between items-center mb-sm">
+                            <span className="text-sm font-medium">{RULE_TITLES[rule.type]}</span>
+                            <button
+                                type="button"
+                                className="btn btn-ghost btn-icon btn-sm"
+                                onClick={() => deleteRule(rule.id)}
+                                aria-label={`Delete rule ${index + 1}`}
+                                title="Delete rule"
+                            >
+                                ×
+                            </button>
+                        </div>
+
+                        <div className="builder-item-fields">
+                            {rule.type === 'compare' && <CompareRuleEditor rule={rule} targets={targets} />}
+                            {rule.type === 'sum' && <SumRuleEditor rule={rule} targets={targets} />}
+                            {rule.type === 'atLeast' && <AtLeastRuleEditor rule={rule} targets={targets} />}
+
+                            <div className="input-group">
+                                <label htmlFor={`${rule.id}-message`} className="input-label">
+                                    Error Message
+                                </label>
+                                <DebouncedTextInput
+                                    id={`${rule.id}-message`}
+                                    className="input"
+                                    value={rule.message ?? ''}
+                                    onChange={(val) => updateRule(rule.id, { message: val === '' ? undefined : val })}
+                                    placeholder={getDefaultRuleMessage(
+                                        rule,
+                                        schema.fields,
+                                        getFormMessages(schema, getFormLocales(schema.localization)[0])
+                                    )}
+                                />
+                            </div>
+
+                            {rule.message &&
+                                locales.map((locale) => (
+                                    <div key={locale} className="input-group">
+                                        <label htmlFor={`${rule.id}-message-${locale}`} className="input-label">
+                                            Error Message: {getLocaleName(locale)} ({locale})
+                                        </label>
+                                        <DebouncedTextInput
+                                            id={`${rule.id}-message-${locale}`}
+                                            className={`input ${rule.translations?.[locale] ? '' : 'input--warning'}`}
+                                            lang={locale}
+                                            value={rule.translations?.[locale] ?? ''}
+                                            onChange={(val) =>
+                                                updateRule(rule.id, {
+                                                    translations: setRuleTranslation(rule.translations, locale, val),
+                                                })
+                                            }
+                                            placeholder={rule.message}
+                                        />
+                                    </div>
+                                ))}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="add-field-toolbar">
+                {RULE_TYPE_BUTTONS.map(({ type, label, hint }) => (
+                    <button
+                        key={type}
+                        type="button"
+                        className="btn btn-secondary btn-sm"
+                        onClick={() => addRule(type)}
+                        disabled={!canAdd[type]}
+                        title={canAdd[type] ? undefined : hint}
+                    >
+                        + {label}
+                    </button>
+                ))}
+            </div>
+        </section>
+    );
+});
+
+export default FormRulesPanel;
@@ -0,0 +1,232 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - FORM THEME PANEL
+ * =============================================================================
+ * Edits the look of the runtime form (`theme` of the schema): color
+ * scheme, colors of the light and dark schemes, corner radius, spacing and
+ * font (utils/formTheme.ts). The live preview follows every change. Shown
+ * in the sidebar below the layout.
+ *
+ * HARD CONSTRAINTS:
+ * - References types/schema.ts as Single Source of Truth
+ * - Fonts are checked here; an invalid font is flagged inline and never
+ *   reaches the schema
+ * - Unset values are left out of the schema (the built-in look applies)
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * - Uses semantic HTML for accessibility
+ * =============================================================================
+ */
+
+import { memo, useState, type ChangeEvent } from 'react';
+import type { ColorScheme, FormTheme, ThemeColors } from '../../types/schema';
+import { useBuilder } from '../../context/BuilderContext';
+import {
+    COLOR_SCHEMES,
+    DEFAULT_THEME_COLORS,
+    FONT_PRESETS,
+    THEME_COLORS,
+    THEME_RADIUS,
+    THEME_SPACING,
+    compactTheme,
+    getFontError,
+} from '../../utils/formTheme';
+import { DebouncedTextInput } from '../ui/DebouncedInput';
+
+interface ColorFieldsProps {
+    scheme: 'light' | 'dark';
+    colors: ThemeColors | undefined;
+    /** Color shown for each unset key */
+    defaults: Required<ThemeColors>;
+    onChange: (colors: ThemeColors) => void;
+}
+
+/**
+ * Color pickers of one scheme, each with a reset to the built-in color
+ */
+function ColorFields({ scheme, colors, defaults, onChange }: ColorFieldsProps) {
+    return (
+        <fieldset className="theme-colors">
+            <legend className="input-label">{scheme === 'light' ? 'Light colors' : 'Dark colors'}</legend>
+            {THEME_COLORS.map(({ key, label }) => {
+                const id = `theme-${scheme}-${key}`;
+                const value = colors?.[key];
+                return (
+                    <div key={key} className="theme-color-row">
+                        <input
+                            id={id}
+                            type="color"
+                            className="theme-color-input"
+                            value={value ?? defaults[key]}
+                            onChange={(e: ChangeEvent<HTMLInputElement>) =>
+                                onChange({ ...colors, [key]: e.target.value })
+                            }
+                        />
+                        <label htmlFor={id} className="text-sm">
+                            {label}
+                        </label>
+                        {value !== undefined ? (
+                            <button
+                                type="button"
+                                className="btn btn-ghost btn-sm"
+                                onClick={() => onChange({ ...colors, [key]: undefined })}
+                                aria-label={`Reset ${label.toLowerCase()} (${scheme})`}
+                            >
+                                Reset
+                            </button>
+                        ) : (
+                            <span className="text-xs text-muted">Built-in</span>
+                        )}
+                    </div>
+                );
+            })}
+        </fieldset>
+    );
+}
+
+/**
+ * FormThemePanel - Colors, shape, spacing and font of the runtime form
+ */
+const FormThemePanel = memo(function FormThemePanel() {
+    const { schema, setTheme } = useBuilder();
+    const theme = schema.theme;
+    const radius = theme?.radius ?? THEME_RADIUS.default;
+    const spacing = theme?.spacing ?? THEME_SPACING.default;
+
+    // The font being typed, kept locally until it is valid
+    const [draftFont, setDraftFont] = useState<string | null>(null);
+    const fontError = draftFont !== null && draftFont !== '' ? getFontError(draftFont) : null;
+
+    const update = (changes: Partial<FormTheme>) => {
+        setTheme(compactTheme({ ...theme, ...changes }));
+    };
+
+    const handleFontChange = (font: string) => {
+        if (font !== '' && getFontError(font)) {
+            setDraftFont(font);
+            return;
+        }
+        setDraftFont(null);
+        update({ font: font === '' ? undefined : font });
+    };
+
+    return (
+        <section className="form-rules" aria-labelledby="form-theme-title">
+            <div className="flex justify-between items-center mb-sm">
+                <h2 id="form-theme-title" className="text-base font-semibold">Theme</h2>
+                {theme ? (
+                    <button type="button" className="btn btn-ghost btn-sm" onClick={() => setTheme(undefined)}>
+                        Reset theme
+                    </button>
+                ) : (
+                    <span className="builder-item-summary-count">Built-in</span>
+                )}
+            </div>
+
+            <div className="builder-item-fields">
+                <div className="input-group">
+                    <label htmlFor="theme-color-scheme" className="input-label">
+                        Color Scheme
+                    </label>
+                    <select
+                        id="theme-color-scheme"
+                        className="select"
+                        value={theme?.colorScheme ?? 'auto'}
+                        onChange={(e: ChangeEvent<HTMLSelectElement>) =>
+                            update({ colorScheme: e.target.value as ColorScheme })
+                        }
+                    >
+                        {COLOR_SCHEMES.map((scheme) => (
+                            <option key={scheme.value} value={scheme.value}>
+                                {scheme.label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                <ColorFields
+                    scheme="light"
+                    colors={theme?.colors}
+                    defaults={DEFAULT_THEME_COLORS.light}
+                    onChange={(colors) => update({ colors })}
+                />
+                <ColorFields
+                    scheme="dark"
+                    colors={theme?.darkColors}
+                    defaults={{
+                        ...DEFAULT_THEME_COLORS.dark,
+                        // An unset dark primary follows the light one
+                        primary: theme?.colors?.primary ?? DEFAULT_THEME_COLORS.dark.primary,
+                    }}
+                    onChange={(darkColors) => update({ darkColors })}
+                />
+
+                <div className="input-group">
+                    <label htmlFor="theme-radius" className="input-label">
+                        Corner Radius <output htmlFor="theme-radius">{radius} px</output>
+                    </label>
+                    <input
+                        id="theme-radius"
+                        type="range"
+                        className="theme-range"
+                        min={THEME_RADIUS.min}
+                        max={THEME_RADIUS.max}
+                        step={1}
+                        value={radius}
+                        onChange={(e: ChangeEvent<HTMLInputElement>) => {
+                            const value = Number(e.target.value);
+                            update({ radius: value === THEME_RADIUS.default ? undefined : value });
+                        }}
+                    />
+                </div>
+
+                <div className="input-group">
+                    <label htmlFor="theme-spacing" className="input-label">
+                        Spacing <output htmlFor="theme-spacing">×{spacing.toFixed(2)}</output>
+                    </label>
+                    <input
+                        id="theme-spacing"
+                        type="range"
+                        className="theme-range"
+                        min={THEME_SPACING.min}
+                        max={THEME_SPACING.max}
+                        step={0.05}
+                        value={spacing}
+                        onChange={(e: ChangeEvent<HTMLInputElement>) => {
+                            const value = Number(e.target.value);
+                            update({ spacing: value === THEME_SPACING.default ? undefined : value });
+                        }}
+                    />
+                </div>
+
+                <div className="input-group">
+                    <label htmlFor="theme-font" className="input-label">
+                        Font
+                    </label>
+                    <DebouncedTextInput
+                        id="theme-font"
+                        className={`input ${fontError ? 'input--error' : ''}`}
+                        value={draftFont ?? theme?.font ?? ''}
+                        onChange={handleFontChange}
+                        placeholder="Built-in (Inter)"
+                        list="theme-font-presets"
+                        spellCheck={false}
+                        aria-invalid={!!fontError}
+                        aria-describedby={fontError ? 'theme-font-error' : undefined}
+                    />
+                    <datalist id="theme-font-presets">
+                        {FONT_PRESETS.map((font) => (
+                            <option key={font} value={font} />
+                        ))}
+                    </datalist>
+                    {fontError && (
+                        <span id="theme-font-error" className="input-error-message">
+                            {fontError}
+                        </span>
+                    )}
+                </div>
+            </div>
+        </section>
+    );
+});
+
+export default FormThemePanel;
@@ -0,0 +1,264 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - SUBMISSION TARGET PANEL
+ * =============================================================================
+ * Edits the endpoint the form submits to (`submission` of the schema):
+ * URL, method, extra headers, payload shape and retries. Shown in the
+ * sidebar below the form rules.
+ *
+ * HARD CONSTRAINTS:
+ * - References types/schema.ts as Single Source of Truth
+ * - URLs and header names are checked here (utils/submissionTransport.ts);
+ *   invalid ones are flagged inline and never reach the schema
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * - Uses semantic HTML for accessibility
+ * =============================================================================
+ */
+
+import { memo, useState, type ChangeEvent } from 'react';
+import type { SubmissionHeader, SubmissionMethod, SubmissionTarget } from '../../types/schema';
+import { useBuilder } from '../../context/BuilderContext';
+import {
+    DEFAULT_RETRIES,
+    MAX_RETRIES,
+    SUBMISSION_METHODS,
+    getHeaderNameError,
+    getSubmissionUrlError,
+} from '../../utils/submissionTransport';
+import { DebouncedTextInput, DebouncedNumberInput } from '../ui/DebouncedInput';
+
+interface HeaderRowProps {
+    index: number;
+    header: SubmissionHeader;
+    onChange: (index: number, header: SubmissionHeader) => void;
+    onRemove: (index: number) => void;
+}
+
+/**
+ * One extra header; a name being typed is kept locally until it is valid
+ */
+function HeaderRow({ index, header, onChange, onRemove }: HeaderRowProps) {
+    const [draftName, setDraftName] = useState<string | null>(null);
+    const nameError = draftName !== null ? getHeaderNameError(draftName) : null;
+    const id = `submission-header-${index}`;
+
+    const handleNameChange = (name: string) => {
+        if (getHeaderNameError(name)) {
+            setDraftName(name);
+            return;
+        }
+        setDraftName(null);
+        onChange(index, { ...header, name });
+    };
+
+    return (
+        <div role="listitem" className="input-group">
+            <div className="form-rule-row">
+                <label htmlFor={`${id}-name`} className="sr-only">Header {index + 1} name</label>
+                <DebouncedTextInput
+                    id={`${id}-name`}
+                    className={`input input--code ${nameError ? 'input--error' : ''}`}
+                    value={draftName ?? header.name}
+                    onChange={handleNameChange}
+                    placeholder="Authorization"
+                    spellCheck={false}
+                    aria-invalid={!!nameError}
+                    aria-describedby={nameError ? `${id}-error` : undefined}
+                />
+                <label htmlFor={`${id}-value`} className="sr-only">Header {index + 1} value</label>
+                <DebouncedTextInput
+                    id={`${id}-value`}
+                    className="input input--code"
+                    value={header.value}
+                    onChange={(value) => onChange(index, { ...header, value })}
+                    placeholder="Bearer …"
+                    spellCheck={false}
+                />
+                <button
+                    type="button"
+                    className="btn btn-ghost btn-icon btn-sm"
+                    onClick={() => onRemove(index)}
+                    aria-label={`Remove header ${index + 1}`}
+                    title="Remove header"
+                >
+                    ×
+                </button>
+            </div>
+            {nameError && (
+                <span id={`${id}-error`} className="input-error-message">
+                    {nameError}
+                </span>
+            )}
+        </div>
+    );
+}
+
+/**
+ * SubmissionTargetPanel - Endpoint, headers and retries of submissions
+ */
+const SubmissionTargetPanel = memo(function SubmissionTargetPanel() {
+    const { schema, setSubmissionTarget } = useBuilder();
+    const target = schema.submission;
+    const headers = target?.headers ?? [];
+
+    // The URL being typed, kept locally until it is valid
+    const [draftUrl, setDraftUrl] = useState<string | null>(null);
+    const urlValue = draftUrl ?? target?.url ?? '';
+    // An emptied URL is only an error while an endpoint is set (Remove endpoint clears it)
+    const urlError = draftUrl !== null && (draftUrl !== '' || target) ? getSubmissionUrlError(draftUrl) : null;
+
+    const update = (updates: Partial<SubmissionTarget>) => {
+        if (target) {
+            setSubmissionTarget({ ...target, ...updates });
+        }
+    };
+
+    const handleUrlChange = (url: string) => {
+        if (getSubmissionUrlError(url)) {
+            setDraftUrl(url);
+            return;
+        }
+        setDraftUrl(null);
+        setSubmissionTarget(target ? { ...target, url } : { url, method: 'POST', shape: 'nested' });
+    };
+
+    const setHeaders = (next: SubmissionHeader[]) => {
+        update({ headers: next.length > 0 ? next : undefined });
+    };
+
+    const handleRemove = () => {
+        setDraftUrl(null);
+        setSubmissionTarget(undefined);
+    };
+
+    return (
+        <section className="form-rules" aria-labelledby="submission-target-title">
+            <div className="flex justify-between items-center mb-sm">
+                <h2 id="submission-target-title" className="text-base font-semibold">Submission</h2>
+                <span className="builder-item-summary-count">{target ? target.method : 'Preview only'}</span>
+            </div>
+            <p className="text-xs text-muted mb-sm">
+                Send submitted data as JSON to an endpoint. Failed attempts are retried with increasing
+                delays, and submissions made offline are sent once the connection is back.
+            </p>
+
+            <div className="builder-item-fields">
+                <div className="input-group">
+                    <label htmlFor="submission-url" className="input-label">
+                        Endpoint URL
+                    </label>
+                    <DebouncedTextInput
+                        id="submission-url"
+                        className={`input input--code ${urlError ? 'input--error' : ''}`}
+                        value={urlValue}
+                        onChange={handleUrlChange}
+                        placeholder="https://example.com/api/submissions"
+                        spellCheck={false}
+                        aria-invalid={!!urlError}
+                        aria-describedby={urlError ? 'submission-url-error' : undefined}
+                    />
+                    {urlError && (
+                        <span id="submission-url-error" className="input-error-message">
+                            {urlError}
+                        </span>
+                    )}
+                </div>
+
+                {target && (
+                    <>
+                        <div className="flex gap-md">
+                            <div className="input-group flex-grow">
+                                <label htmlFor="submission-method" className="input-label">
+                                    Method
+                                </label>
+                                <select
+                                    id="submission-method"
+                                    className="select"
+                                    value={target.method}
+                                    onChange={(e: ChangeEvent<HTMLSelectElement>) =>
+                                        update({ method: e.target.value as SubmissionMethod })
+                                    }
+                                >
+                                    {SUBMISSION_METHODS.map((method) => (
+                                        <option key={method} value={method}>
+                                            {method}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="input-group flex-grow">
+                                <label htmlFor="submission-shape" className="input-label">
+                                    Payload
+                                </label>
+                                <select
+                                    id="submission-shape"
+                                    className="select"
+                                    value={target.shape}
+                                    onChange={(e: ChangeEvent<HTMLSelectElement>) =>
+                                        update({ shape: e.target.value as SubmissionTarget['shape'] })
+                                    }
+                                >
+                                    <option value="nested">Nested by name</option>
+                                    <option value="flat">Flat by ID</option>
+                                </select>
+                            </div>
+                            <div className="input-group flex-grow">
+                                <label htmlFor="submission-retries" className="input-label">
+                                    Retries
+                                </label>
+                                <DebouncedNumberInput
+                                    id="submission-retries"
+                                    className="input"
+                                    value={target.retries}
+                                    onChange={(val) =>
+                                        update({
+                                            retries: typeof val === 'number'
+                                                ? Math.min(Math.max(0, Math.trunc(val)), MAX_RETRIES)
+                                                : undefined,
+                                        })
+                                    }
+                                    placeholder={String(DEFAULT_RETRIES)}
+                                    min={0}
+                                    max={MAX_RETRIES}
+                                />
+                            </div>
+                        </div>
+
+                        <div className="input-group">
+                            <span className="input-label" id="submission-headers-label">Headers</span>
+                            <div role="list" aria-labelledby="submission-headers-label" className="form-rule-fields">
+                                {headers.map((header, index) => (
+                                    <HeaderRow
+                                        key={index}
+                                        index={index}
+                                        header={header}
+                                        onChange={(i, next) => setHeaders(headers.map((h, j) => (j === i ? next : h)))}
+                                        onRemove={(i) => setHeaders(headers.filter((_, j) => j !== i))}
+                                    />
+                                ))}
+                            </div>
+                            <span className="text-xs text-muted">
+                                Content-Type and Idempotency-Key are set automatically.
+                            </span>
+                        </div>
+
+                        <div className="add-field-toolbar">
+                            <button
+                                type="button"
+                                className="btn btn-secondary btn-sm"
+                                onClick={() => setHeaders([...headers, { name: `X-Header-${headers.length + 1}`, value: '' }])}
+                            >
+                                + Header
+                            </button>
+                            <button type="button" className="btn btn-ghost btn-sm text-danger" onClick={handleRemove}>
+                                Remove endpoint
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </section>
+    );
+});
+
+export default SubmissionTargetPanel;
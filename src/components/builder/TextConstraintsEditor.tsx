@@ -0,0 +1,207 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - TEXT CONSTRAINTS EDITOR
+ * =============================================================================
+ * Edits the length limits, preset format, custom pattern and server check
+ * of a text field inside FormBuilderItem.
+ *
+ * HARD CONSTRAINTS:
+ * - References types/schema.ts as Single Source of Truth
+ * - Custom patterns and length limits are checked here, while the field is
+ *   built; an invalid pattern or a min length above the max length is
+ *   flagged inline and never reaches the schema
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * - Uses semantic HTML for accessibility
+ * =============================================================================
+ */
+
+import { memo, useState, type ChangeEvent } from 'react';
+import type { TextField, TextFormat } from '../../types/schema';
+import { useBuilder } from '../../context/BuilderContext';
+import { TEXT_FORMATS, getPatternError } from '../../utils/textFormats';
+import { DebouncedTextInput, DebouncedNumberInput } from '../ui/DebouncedInput';
+import AsyncValidatorSelect from './AsyncValidatorSelect';
+
+interface TextConstraintsEditorProps {
+    /** The field whose constraints are edited */
+    field: TextField;
+}
+
+/**
+ * Parse a length input (empty = no limit)
+ */
+function toLength(val: number | string | undefined): number | undefined {
+    return typeof val === 'number' ? Math.max(0, Math.trunc(val)) : undefined;
+}
+
+/**
+ * Length limits of a text field
+ */
+interface LengthLimits {
+    minLength: number | undefined;
+    maxLength: number | undefined;
+}
+
+/**
+ * TextConstraintsEditor - Collapsible editor for text validation rules
+ */
+const TextConstraintsEditor = memo(function TextConstraintsEditor({ field }: TextConstraintsEditorProps) {
+    const { updateField } = useBuilder();
+
+    // The pattern being typed, kept locally until it compiles
+    const [draftPattern, setDraftPattern] = useState<string | null>(null);
+    const patternValue = draftPattern ?? field.pattern ?? '';
+    const patternError = draftPattern !== null ? getPatternError(draftPattern) : null;
+
+    // Length limits being typed, kept locally while min is above max
+    const [draftLengths, setDraftLengths] = useState<LengthLimits | null>(null);
+    const lengths = draftLengths ?? { minLength: field.minLength, maxLength: field.maxLength };
+    const hasLengthError = draftLengths !== null;
+
+    const count = [
+        field.minLength !== undefined || field.maxLength !== undefined,
+        field.format !== undefined,
+        !!field.pattern,
+        !!field.asyncValidator,
+    ].filter(Boolean).length;
+
+    const handlePatternChange = (pattern: string) => {
+        if (getPatternError(pattern)) {
+            setDraftPattern(pattern);
+            return;
+        }
+        setDraftPattern(null);
+        updateField(field.id, { pattern: pattern === '' ? undefined : pattern });
+    };
+
+    const handleLengthChange = (changes: Partial<LengthLimits>) => {
+        const next = { ...lengths, ...changes };
+        if (next.minLength !== undefined && next.maxLength !== undefined && next.minLength > next.maxLength) {
+            setDraftLengths(next);
+            return;
+        }
+        setDraftLengths(null);
+        updateField(field.id, next);
+    };
+
+    const handleFormatChange = (e: ChangeEvent<HTMLSelectElement>) => {
+        const format = e.target.value as TextFormat | '';
+        updateField(field.id, { format: format === '' ? undefined : format });
+    };
+
+    return (
+        <details className="builder-item-details" open={count > 0}>
+            <summary className="builder-item-summary">
+                <span className="builder-item-summary-text">
+                    Validation
+                    <span className="builder-item-summary-count">
+                        {count === 0 ? 'Any text' : `${count} ${count === 1 ? 'rule' : 'rules'}`}
+                    </span>
+                </span>
+            </summary>
+
+            <div className="builder-item-fields">
+                <div className="flex gap-md">
+                    <div className="input-group flex-grow">
+                        <label htmlFor={`${field.id}-min-length`} className="input-label">
+                            Min Length
+                        </label>
+                        <DebouncedNumberInput
+                            id={`${field.id}-min-length`}
+                            className={`input ${hasLengthError ? 'input--error' : ''}`}
+                            value={lengths.minLength}
+                            onChange={(val) => handleLengthChange({ minLength: toLength(val) })}
+                            placeholder="No min"
+                            min={0}
+                            aria-invalid={hasLengthError}
+                            aria-describedby={hasLengthError ? `${field.id}-length-error` : undefined}
+                        />
+                    </div>
+                    <div className="input-group flex-grow">
+                        <label htmlFor={`${field.id}-max-length`} className="input-label">
+                            Max Length
+                        </label>
+                        <DebouncedNumberInput
+                            id={`${field.id}-max-length`}
+                            className={`input ${hasLengthError ? 'input--error' : ''}`}
+                            value={lengths.maxLength}
+                            onChange={(val) => handleLengthChange({ maxLength: toLength(val) })}
+                            placeholder="No max"
+                            min={0}
+                            aria-invalid={hasLengthError}
+                            aria-describedby={hasLengthError ? `${field.id}-length-error` : undefined}
+                        />
+                    </div>
+                </div>
+                {hasLengthError && (
+                    <span id={`${field.id}-length-error`} className="input-error-message">
+                        Min length must not be greater than max length
+                    </span>
+                )}
+
+                <div className="input-group">
+                    <label htmlFor={`${field.id}-format`} className="input-label">
+                        Format
+                    </label>
+                    <select
+                        id={`${field.id}-format`}
+                        className="select"
+                        value={field.format ?? ''}
+                        onChange={handleFormatChange}
+                    >
+                        <option value="">Any</option>
+                        {(Object.keys(TEXT_FORMATS) as TextFormat[]).map((format) => (
+                            <option key={format} value={format}>
+                                {TEXT_FORMATS[format].label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="input-group">
+                    <label htmlFor={`${field.id}-pattern`} className="input-label">
+                        Pattern (regular expression)
+                    </label>
+                    <DebouncedTextInput
+                        id={`${field.id}-pattern`}
+                        className={`input input--code ${patternError ? 'input--error' : ''}`}
+                        value={patternValue}
+                        onChange={handlePatternChange}
+                        placeholder="e.g. [A-Z]{2}[0-9]{4}"
+                        spellCheck={false}
+                        aria-invalid={!!patternError}
+                        aria-describedby={patternError ? `${field.id}-pattern-error` : `${field.id}-pattern-hint`}
+                    />
+                    {patternError ? (
+                        <span id={`${field.id}-pattern-error`} className="input-error-message">
+                            {patternError}
+                        </span>
+                    ) : (
+                        <span id={`${field.id}-pattern-hint`} className="text-xs text-muted">
+                            Must match the whole value
+                        </span>
+                    )}
+                </div>
+
+                {(field.pattern || draftPattern) && (
+                    <div className="input-group">
+                        <label htmlFor={`${field.id}-pattern-message`} className="input-label">
+                            Pattern Error Message
+                        </label>
+                        <DebouncedTextInput
+                            id={`${field.id}-pattern-message`}
+                            className="input"
+                            value={field.patternMessage ?? ''}
+                            onChange={(val) => updateField(field.id, { patternMessage: val === '' ? undefined : val })}
+                            placeholder={`${field.label} is not in the expected format`}
+                        />
+                    </div>
+                )}
+
+                <AsyncValidatorSelect field={field} />
+            </div>
+        </details>
+    );
+});
+
+export default TextConstraintsEditor;
@@ -0,0 +1,251 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - VISIBILITY RULE EDITOR
+ * =============================================================================
+ * Edits the `visibleWhen` rule of a single field inside FormBuilderItem.
+ *
+ * HARD CONSTRAINTS:
+ * - References types/schema.ts as Single Source of Truth
+ * - Only input fields outside the edited field's own subtree can be
+ *   referenced (a group cannot depend on its own children)
+ * - Fields inside a repeatable group can only be referenced from within
+ *   that group (outside it, there is no single value to test)
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * - Uses semantic HTML for accessibility
+ * =============================================================================
+ */
+
+import { memo, type ChangeEvent } from 'react';
+import type { ConditionOperator, Field, FieldCondition, VisibilityRule } from '../../types/schema';
+import { isChoiceField, isGroupField } from '../../types/schema';
+import { useBuilder } from '../../context/BuilderContext';
+import { isSelfOrDescendant } from '../../utils/recursiveReducer';
+import { isRepeatableGroup } from '../../utils/formScope';
+import { DebouncedTextInput } from '../ui/DebouncedInput';
+
+interface VisibilityRuleEditorProps {
+    /** The field whose rule is edited */
+    field: Field;
+}
+
+/**
+ * Operator options shown in the editor
+ */
+const OPERATOR_OPTIONS: { value: ConditionOperator; label: string }[] = [
+    { value: 'equals', label: 'equals' },
+    { value: 'notEquals', label: 'does not equal' },
+    { value: 'greaterThan', label: 'is greater than' },
+    { value: 'isEmpty', label: 'is empty' },
+];
+
+/**
+ * Values a condition on a field can be compared against, or null when the
+ * field takes free input
+ */
+function getValueChoices(field: Field | undefined): { value: string; label: string }[] | null {
+    if (field === undefined) {
+        return null;
+    }
+    if (isChoiceField(field)) {
+        return field.options.map((option) => ({ value: option.value, label: option.label || option.value }));
+    }
+    if (field.type === 'checkbox') {
+        return [
+            { value: 'true', label: 'checked' },
+            { value: 'false', label: 'not checked' },
+        ];
+    }
+    return null;
+}
+
+/**
+ * Collects the input fields that may be referenced by a condition,
+ * skipping the subtree rooted at excludeId and repeatable groups that do
+ * not contain it
+ */
+function collectCandidates(fields: Field[], excludeId: string, result: Field[] = []): Field[] {
+    for (const field of fields) {
+        if (field.id === excludeId) {
+            continue;
+        }
+        if (isRepeatableGroup(field) && !isSelfOrDescendant(field, excludeId)) {
+            continue;
+        }
+        if (isGroupField(field)) {
+            collectCandidates(field.children, excludeId, result);
+        } else {
+            result.push(field);
+        }
+    }
+    return result;
+}
+
+/**
+ * VisibilityRuleEditor - Collapsible editor for a field's visibility conditions
+ */
+const VisibilityRuleEditor = memo(function VisibilityRuleEditor({ field }: VisibilityRuleEditorProps) {
+    const { schema, updateField } = useBuilder();
+
+    const rule: VisibilityRule = field.visibleWhen ?? { combinator: 'and', conditions: [] };
+    const candidates = collectCandidates(schema.fields, field.id);
+    const count = rule.conditions.length;
+
+    /**
+     * Commit a new rule (an empty rule is removed entirely)
+     */
+    const commit = (next: VisibilityRule) => {
+        updateField(field.id, { visibleWhen: next.conditions.length > 0 ? next : undefined });
+    };
+
+    const updateCondition = (index: number, updates: Partial<FieldCondition>) => {
+        commit({
+            ...rule,
+            conditions: rule.conditions.map((c, i) => (i === index ? { ...c, ...updates } : c)),
+        });
+    };
+
+    const handleAddCondition = () => {
+        commit({
+            ...rule,
+            conditions: [...rule.conditions, { fieldId: candidates[0].id, operator: 'equals', value: '' }],
+        });
+    };
+
+    const handleRemoveCondition = (index: number) => {
+        commit({ ...rule, conditions: rule.conditions.filter((_, i) => i !== index) });
+    };
+
+    const handleCombinatorChange = (e: ChangeEvent<HTMLSelectElement>) => {
+        commit({ ...rule, combinator: e.target.value as VisibilityRule['combinator'] });
+    };
+
+    return (
+        <details className="builder-item-details" open={count > 0}>
+            <summary className="builder-item-summary">
+                <span className="builder-item-summary-text">
+                    Visibility
+                    <span className="builder-item-summary-count">
+                        {count === 0 ? 'Always shown' : `${count} ${count === 1 ? 'condition' : 'conditions'}`}
+                    </span>
+                </span>
+            </summary>
+
+            <div className="builder-item-fields rule-editor">
+                {count > 0 && (
+                    <div className="flex items-center gap-sm text-sm text-secondary">
+                        <label htmlFor={`${field.id}-combinator`}>Show when</label>
+                        <select
+                            id={`${field.id}-combinator`}
+                            className="select"
+                            value={rule.combinator}
+                            onChange={handleCombinatorChange}
+                        >
+                            <option value="and">all</option>
+                            <option value="or">any</option>
+                        </select>
+                        <span>of these match:</span>
+                    </div>
+                )}
+
+                {rule.conditions.map((condition, index) => {
+                    const rowId = `${field.id}-condition-${index}`;
+                    const target = candidates.find((c) => c.id === condition.fieldId);
+                    const isKnownField = target !== undefined;
+                    const valueChoices = getValueChoices(target);
+                    const currentValue = condition.value === undefined ? '' : String(condition.value);
+
+                    return (
+                        <div key={rowId} className="rule-editor-row" role="group" aria-label={`Condition ${index + 1}`}>
+                            <label htmlFor={`${rowId}-field`} className="sr-only">Field</label>
+                            <select
+                                id={`${rowId}-field`}
+                                className={`select ${isKnownField ? '' : 'input--error'}`}
+                                value={condition.fieldId}
+                                onChange={(e) => updateCondition(index, { fieldId: e.target.value })}
+                            >
+                                {!isKnownField && <option value={condition.fieldId}>(missing field)</option>}
+                                {candidates.map((candidate) => (
+                                    <option key={candidate.id} value={candidate.id}>
+                                        {candidate.label || candidate.id}
+                                    </option>
+                                ))}
+                            </select>
+
+                            <label htmlFor={`${rowId}-operator`} className="sr-only">Operator</label>
+                            <select
+                                id={`${rowId}-operator`}
+                                className="select"
+                                value={condition.operator}
+                                onChange={(e) => updateCondition(index, { operator: e.target.value as ConditionOperator })}
+                            >
+                                {OPERATOR_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                        {option.label}
+                                    </option>
+                                ))}
+                            </select>
+
+                            {condition.operator === 'isEmpty' ? (
+                                <span aria-hidden="true" />
+                            ) : valueChoices ? (
+                                <>
+                                    <label htmlFor={`${rowId}-value`} className="sr-only">Value</label>
+                                    <select
+                                        id={`${rowId}-value`}
+                                        className="select"
+                                        value={currentValue}
+                                        onChange={(e) => updateCondition(index, { value: e.target.value })}
+                                    >
+                                        {!valueChoices.some((choice) => choice.value === currentValue) && (
+                                            <option value={currentValue}>{currentValue === '' ? '(choose)' : currentValue}</option>
+                                        )}
+                                        {valueChoices.map((choice) => (
+                                            <option key={choice.value} value={choice.value}>
+                                                {choice.label}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </>
+                            ) : (
+                                <>
+                                    <label htmlFor={`${rowId}-value`} className="sr-only">Value</label>
+                                    <DebouncedTextInput
+                                        id={`${rowId}-value`}
+                                        className="input"
+                                        value={currentValue}
+                                        onChange={(val) => updateCondition(index, { value: val })}
+                                        placeholder="Value"
+                                    />
+                                </>
+                            )}
+
+                            <button
+                                type="button"
+                                className="btn btn-ghost btn-icon btn-sm"
+                                onClick={() => handleRemoveCondition(index)}
+                                aria-label={`Remove condition ${index + 1}`}
+                                title="Remove condition"
+                            >
+                                ×
+                            </button>
+                        </div>
+                    );
+                })}
+
+                <div>
+                    <button
+                        type="button"
+                        className="btn btn-secondary btn-sm"
+                        onClick={handleAddCondition}
+                        disabled={candidates.length === 0}
+                        title={candidates.length === 0 ? 'Add another input field to reference first' : undefined}
+                    >
+                        + Add condition
+                    </button>
+                </div>
+            </div>
+        </details>
+    );
+});
+
+export default VisibilityRuleEditor;
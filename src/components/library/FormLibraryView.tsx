@@ -0,0 +1,215 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - FORM LIBRARY VIEW
+ * =============================================================================
+ * Lists the locally stored forms (utils/formLibrary.ts) with their
+ * timestamps, and creates, renames, duplicates, deletes, searches and opens
+ * them. Storage is handled by FormWorkspace; this view only reports intents.
+ *
+ * HARD CONSTRAINTS:
+ * - Deleting asks for confirmation inline (no browser dialogs)
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * - Uses semantic HTML for accessibility
+ * =============================================================================
+ */
+
+import { memo, useState, type FormEvent } from 'react';
+import { searchForms, UNTITLED_FORM, type FormSummary } from '../../utils/formLibrary';
+
+interface FormLibraryViewProps {
+    /** Stored forms */
+    forms: FormSummary[];
+    /** Notice or error of the last operation */
+    message: string | null;
+    onDismissMessage: () => void;
+    onCreate: (title: string) => void;
+    onOpen: (formId: string) => void;
+    onRename: (formId: string, title: string) => void;
+    onDuplicate: (formId: string) => void;
+    onDelete: (formId: string) => void;
+}
+
+/**
+ * Formats a timestamp for the list, e.g. "Mar 14, 2025, 9:26 AM"
+ */
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+interface FormLibraryItemProps {
+    form: FormSummary;
+    onOpen: (formId: string) => void;
+    onRename: (formId: string, title: string) => void;
+    onDuplicate: (formId: string) => void;
+    onDelete: (formId: string) => void;
+}
+
+/**
+ * One form of the list, with inline rename and delete confirmation
+ */
+const FormLibraryItem = memo(function FormLibraryItem({ form, onOpen, onRename, onDuplicate, onDelete }: FormLibraryItemProps) {
+    const [mode, setMode] = useState<'view' | 'rename' | 'delete'>('view');
+    const [title, setTitle] = useState(form.title);
+
+    const startRename = () => {
+        setTitle(form.title);
+        setMode('rename');
+    };
+
+    const handleRename = (event: FormEvent) => {
+        event.preventDefault();
+        onRename(form.id, title);
+        setMode('view');
+    };
+
+    return (
+        <li className="card form-library-item">
+            <div className="card-body">
+                {mode === 'rename' ? (
+                    <form className="flex gap-sm items-center" onSubmit={handleRename}>
+                        <label htmlFor={`rename-${form.id}`} className="sr-only">Form title</label>
+                        <input
+                            id={`rename-${form.id}`}
+                            type="text"
+                            className="input"
+                            value={title}
+                            placeholder={UNTITLED_FORM}
+                            onChange={(e) => setTitle(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Escape' && setMode('view')}
+                            autoFocus
+                        />
+                        <button type="submit" className="btn btn-primary btn-sm">Save</button>
+                        <button type="button" className="btn btn-ghost btn-sm" onClick={() => setMode('view')}>
+                            Cancel
+                        </button>
+                    </form>
+                ) : (
+                    <h2 className="text-lg font-semibold">
+                        <button type="button" className="form-library-title" onClick={() => onOpen(form.id)}>
+                            {form.title}
+                        </button>
+                    </h2>
+                )}
+                <p className="text-xs text-secondary mt-xs">
+                    Created {formatTime(form.createdAt)} · Updated {formatTime(form.updatedAt)}
+                </p>
+            </div>
+            <div className="card-footer flex flex-wrap gap-sm items-center">
+                {mode === 'delete' ? (
+                    <>
+                        <span className="text-sm" role="alert">Delete “{form.title}”? This cannot be undone.</span>
+                        <button type="button" className="btn btn-secondary btn-sm text-danger" onClick={() => onDelete(form.id)}>
+                            Delete
+                        </button>
+                        <button type="button" className="btn btn-ghost btn-sm" onClick={() => setMode('view')} autoFocus>
+                            Cancel
+                        </button>
+                    </>
+                ) : (
+                    <>
+                        <button type="button" className="btn btn-primary btn-sm" onClick={() => onOpen(form.id)}>
+                            Open
+                        </button>
+                        <button type="button" className="btn btn-secondary btn-sm" onClick={startRename} disabled={mode === 'rename'}>
+                            Rename
+                        </button>
+                        <button type="button" className="btn btn-secondary btn-sm" onClick={() => onDuplicate(form.id)}>
+                            Duplicate
+                        </button>
+                        <button type="button" className="btn btn-ghost btn-sm text-danger" onClick={() => setMode('delete')}>
+                            Delete
+                        </button>
+                    </>
+                )}
+            </div>
+        </li>
+    );
+});
+
+/**
+ * FormLibraryView - The list of stored forms
+ */
+const FormLibraryView = memo(function FormLibraryView({
+    forms,
+    message,
+    onDismissMessage,
+    onCreate,
+    onOpen,
+    onRename,
+    onDuplicate,
+    onDelete,
+}: FormLibraryViewProps) {
+    const [query, setQuery] = useState('');
+    const [newTitle, setNewTitle] = useState('');
+    const visibleForms = searchForms(forms, query);
+
+    const handleCreate = (event: FormEvent) => {
+        event.preventDefault();
+        onCreate(newTitle);
+        setNewTitle('');
+    };
+
+    return (
+        <main className="form-library" aria-labelledby="form-library-title">
+            <header className="flex justify-between items-center mb-md">
+                <h1 id="form-library-title" className="text-xl font-bold">Forms</h1>
+                <form className="flex gap-sm items-center" onSubmit={handleCreate}>
+                    <label htmlFor="new-form-title" className="sr-only">New form title</label>
+                    <input
+                        id="new-form-title"
+                        type="text"
+                        className="input"
+                        value={newTitle}
+                        placeholder={UNTITLED_FORM}
+                        onChange={(e) => setNewTitle(e.target.value)}
+                    />
+                    <button type="submit" className="btn btn-primary">➕ New form</button>
+                </form>
+            </header>
+
+            {message && (
+                <div className="form-library-message flex justify-between items-center gap-sm mb-md" role="alert">
+                    <span className="text-sm">{message}</span>
+                    <button type="button" className="btn btn-ghost btn-sm" onClick={onDismissMessage}>
+                        Dismiss
+                    </button>
+                </div>
+            )}
+
+            {forms.length > 0 && (
+                <div className="mb-md">
+                    <label htmlFor="form-search" className="sr-only">Search forms</label>
+                    <input
+                        id="form-search"
+                        type="search"
+                        className="input"
+                        value={query}
+                        placeholder="Search by title"
+                        onChange={(e) => setQuery(e.target.value)}
+                    />
+                </div>
+            )}
+
+            {forms.length === 0 ? (
+                <p className="text-sm text-secondary">No forms yet. Create one to start building.</p>
+            ) : visibleForms.length === 0 ? (
+                <p className="text-sm text-secondary" role="status">No forms match “{query.trim()}”.</p>
+            ) : (
+                <ul className="form-library-list" aria-label="Stored forms">
+                    {visibleForms.map((form) => (
+                        <FormLibraryItem
+                            key={form.id}
+                            form={form}
+                            onOpen={onOpen}
+                            onRename={onRename}
+                            onDuplicate={onDuplicate}
+                            onDelete={onDelete}
+                        />
+                    ))}
+                </ul>
+            )}
+        </main>
+    );
+});
+
+export default FormLibraryView;
@@ -0,0 +1,240 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - FORM WORKSPACE
+ * =============================================================================
+ * Switches between the form library and the open form (see
+ * utils/formLibrary.ts), and supplies FormLibraryContext to the builder.
+ *
+ * HARD CONSTRAINTS:
+ * - Each open form gets freshly mounted Builder and Runtime providers
+ *   (keyed by form ID), so no schema, history or runtime data carries over
+ *   from the previous form
+ * - The open form's pending autosave is flushed by the builder when it
+ *   unmounts, after the library is already showing (openFormId is null)
+ * - A form whose draft has unexported changes or cannot be read on startup
+ *   is confirmed first (DraftRecoveryPrompt)
+ * - Without localStorage the builder runs on a single unsaved form
+ * =============================================================================
+ */
+
+import { useCallback, useMemo, useRef, useState, type ReactNode } from 'react';
+import { BuilderProvider, useSchema } from '../../context/BuilderContext';
+import { FormRuntimeProvider } from '../../context/FormRuntimeContext';
+import { FormLibraryContext, type FormLibraryContextValue } from '../../context/FormLibraryContext';
+import type { FormSchema } from '../../types/schema';
+import {
+    discardDraft,
+    getLocalStorage,
+    loadDraft,
+    markDraftExported,
+    readDraftOnStartup,
+    type DraftSaveResult,
+    type DraftStartup,
+} from '../../utils/draftStorage';
+import {
+    createForm,
+    deleteForm,
+    duplicateForm,
+    findForm,
+    loadLibrary,
+    renameForm,
+    saveFormSchema,
+    setOpenForm,
+    type FormLibrary,
+    type LibraryResult,
+} from '../../utils/formLibrary';
+import DraftRecoveryPrompt from '../builder/DraftRecoveryPrompt';
+import FormLibraryView from './FormLibraryView';
+
+interface FormWorkspaceProps {
+    /** Builder layout rendered for the open form */
+    children: ReactNode;
+}
+
+/**
+ * The form being edited, or waiting for the user to decide about its draft
+ */
+type OpenForm =
+    | { status: 'open'; formId: string; schema: FormSchema | undefined }
+    | { status: 'pending'; formId: string; startup: Extract<DraftStartup, { kind: 'newer' | 'unreadable' }> };
+
+/**
+ * Runs the schema being built, so the preview follows every edit
+ */
+function BuilderFormRuntime({ children }: { children: ReactNode }) {
+    const schema = useSchema();
+    return <FormRuntimeProvider schema={schema}>{children}</FormRuntimeProvider>;
+}
+
+/**
+ * Open state of a form on startup, from its stored draft
+ */
+function openOnStartup(formId: string): OpenForm {
+    const startup = readDraftOnStartup(formId);
+    switch (startup.kind) {
+        case 'restore':
+            return { status: 'open', formId, schema: startup.draft.schema };
+        case 'newer':
+        case 'unreadable':
+            return { status: 'pending', formId, startup };
+        default:
+            return { status: 'open', formId, schema: undefined };
+    }
+}
+
+/**
+ * Library, notice and open form read once on startup
+ */
+function readWorkspace() {
+    const { library, notice } = loadLibrary();
+    const openForm = library.openFormId === null ? null : openOnStartup(library.openFormId);
+    return { library, notice, openForm };
+}
+
+/**
+ * FormWorkspace - Form library and the open form's providers
+ */
+function FormWorkspace({ children }: FormWorkspaceProps) {
+    const [isStorageAvailable] = useState(() => getLocalStorage() !== null);
+    const [initial] = useState(readWorkspace);
+    const [library, setLibrary] = useState<FormLibrary>(initial.library);
+    const [openForm, setOpenFormState] = useState<OpenForm | null>(initial.openForm);
+    const [message, setMessage] = useState<string | null>(initial.notice);
+
+    // Latest library for callbacks that outlive a render (autosave on unmount)
+    const libraryRef = useRef(library);
+
+    const applyLibrary = useCallback((next: FormLibrary) => {
+        libraryRef.current = next;
+        setLibrary(next);
+    }, []);
+
+    /**
+     * Applies a library operation, or shows why it failed
+     */
+    const commit = useCallback((result: LibraryResult): boolean => {
+        if (!result.success) {
+            setMessage(result.message);
+            return false;
+        }
+        applyLibrary(result.library);
+        setMessage(null);
+        return true;
+    }, [applyLibrary]);
+
+    /**
+     * Opens a form with its stored draft
+     */
+    const handleOpen = useCallback((formId: string) => {
+        const result = setOpenForm(libraryRef.current, formId);
+        // The form still opens when the index cannot be written; autosave reports storage trouble
+        applyLibrary(result.success ? result.library : { ...libraryRef.current, openFormId: formId });
+        setMessage(null);
+
+        const loaded = loadDraft(formId);
+        setOpenFormState(
+            loaded.kind === 'unreadable'
+                ? { status: 'pending', formId, startup: loaded }
+                : { status: 'open', formId, schema: loaded.kind === 'found' ? loaded.draft.schema : undefined }
+        );
+    }, [applyLibrary]);
+
+    const handleCreate = useCallback((title: string) => {
+        const result = createForm(libraryRef.current, title);
+        if (commit(result) && result.success) {
+            handleOpen(result.library.forms[result.library.forms.length - 1].id);
+        }
+    }, [commit, handleOpen]);
+
+    const handleRename = useCallback((formId: string, title: string) => {
+        commit(renameForm(libraryRef.current, formId, title));
+    }, [commit]);
+
+    const handleDuplicate = useCallback((formId: string) => {
+        commit(duplicateForm(libraryRef.current, formId));
+    }, [commit]);
+
+    const handleDelete = useCallback((formId: string) => {
+        commit(deleteForm(libraryRef.current, formId));
+    }, [commit]);
+
+    const openFormId = openForm?.formId ?? null;
+
+    const saveSchema = useCallback((schema: FormSchema): DraftSaveResult => {
+        if (openFormId === null) {
+            return { success: false, message: 'No form is open.' };
+        }
+        const now = Date.now();
+        const result = saveFormSchema(libraryRef.current, openFormId, schema, undefined, now);
+        if (!result.success) {
+            return result;
+        }
+        applyLibrary(result.library);
+        return { success: true, savedAt: now };
+    }, [openFormId, applyLibrary]);
+
+    const markExported = useCallback((schema: FormSchema) => {
+        if (openFormId !== null) {
+            markDraftExported(openFormId, schema);
+        }
+    }, [openFormId]);
+
+    const closeForm = useCallback(() => {
+        const result = setOpenForm(libraryRef.current, null);
+        applyLibrary(result.success ? result.library : { ...libraryRef.current, openFormId: null });
+        setOpenFormState(null);
+    }, [applyLibrary]);
+
+    const openSummary = findForm(library, openFormId);
+    const contextValue = useMemo<FormLibraryContextValue | null>(
+        () => (openSummary ? { form: openSummary, saveSchema, markExported, closeForm } : null),
+        [openSummary, saveSchema, markExported, closeForm]
+    );
+
+    if (!isStorageAvailable) {
+        return (
+            <BuilderProvider>
+                <BuilderFormRuntime>{children}</BuilderFormRuntime>
+            </BuilderProvider>
+        );
+    }
+
+    if (openForm?.status === 'pending') {
+        const { formId, startup } = openForm;
+        return (
+            <DraftRecoveryPrompt
+                formTitle={openSummary?.title ?? ''}
+                startup={startup}
+                onRestore={() =>
+                    setOpenFormState({ status: 'open', formId, schema: startup.kind === 'newer' ? startup.draft.schema : undefined })
+                }
+                onDiscard={() => setOpenFormState({ status: 'open', formId, schema: discardDraft(formId) })}
+            />
+        );
+    }
+
+    if (!openForm || !openSummary) {
+        return (
+            <FormLibraryView
+                forms={library.forms}
+                message={message}
+                onDismissMessage={() => setMessage(null)}
+                onCreate={handleCreate}
+                onOpen={handleOpen}
+                onRename={handleRename}
+                onDuplicate={handleDuplicate}
+                onDelete={handleDelete}
+            />
+        );
+    }
+
+    return (
+        <FormLibraryContext.Provider value={contextValue}>
+            <BuilderProvider key={openForm.formId} initialState={openForm.schema}>
+                <BuilderFormRuntime>{children}</BuilderFormRuntime>
+            </BuilderProvider>
+        </FormLibraryContext.Provider>
+    );
+}
+
+export default FormWorkspace;
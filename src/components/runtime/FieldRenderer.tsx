@@ -8,29 +8,64 @@
  * - NO UI frameworks (Tailwind, Bootstrap)
  * - Uses semantic HTML (<input>, <label>)
  * - Connects to FormRuntimeContext for value/change handling
+ * - Marks a field as touched when it loses focus
  * - Implements validation visualization (red border, error message)
+ * - Interface texts come from the message catalog (utils/messages.ts)
  * =============================================================================
  */
 
-import { memo, type ChangeEvent } from 'react';
-import type { Field, TextField, NumberField } from '../../types/schema';
-import { isGroupField, isNumberField } from '../../types/schema';
-import { useFieldValue } from '../../context/FormRuntimeContext';
+import { memo, useCallback, type ChangeEvent } from 'react';
+import type {
+    CheckboxField,
+    ComputedField,
+    Field,
+    MultiSelectField,
+    NumberField,
+    RadioField,
+    SelectField,
+    TemporalField,
+    TextField,
+} from '../../types/schema';
+import { isGroupField } from '../../types/schema';
+import { useFieldValue, useFormRuntime } from '../../context/FormRuntimeContext';
+import { ROOT_SCOPE, valueKey } from '../../utils/formScope';
+import { resolveDateBound } from '../../utils/dateBounds';
+import { TEXT_FORMATS } from '../../utils/textFormats';
+import type { Messages } from '../../utils/messages';
 import GroupRenderer from './GroupRenderer';
 import { DebouncedTextInput, DebouncedNumberInput } from '../ui/DebouncedInput';
 
 interface FieldRendererProps {
     field: Field;
+    /** Scope the field is rendered in (set inside repeatable group instances) */
+    scope?: string;
+}
+
+interface InputProps<T extends Field> {
+    field: T;
+    /** Value key of the field, also used as the input's DOM id */
+    fieldKey: string;
+}
+
+/**
+ * Blur handler that marks a field as touched
+ */
+function useTouchField(fieldKey: string): () => void {
+    const { touchField } = useFormRuntime();
+    return useCallback(() => touchField(fieldKey), [fieldKey, touchField]);
 }
 
 /**
  * Renders a Text Input field
  */
-const TextInput = memo(function TextInput({ field }: { field: TextField }) {
-    const [value, setValue, error] = useFieldValue(field.id);
+const TextInput = memo(function TextInput({ field, fieldKey }: InputProps<TextField>) {
+    const [value, setValue, error, isValidating] = useFieldValue(fieldKey);
+    const { messages } = useFormRuntime();
+    const touch = useTouchField(fieldKey);
 
     const handleBlur = (e: ChangeEvent<HTMLInputElement>) => {
         setValue(e.target.value.trim());
+        touch();
     };
 
     const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -43,27 +78,35 @@ const TextInput = memo(function TextInput({ field }: { field: TextField }) {
     return (
         <div className="input-group">
             <label
-                htmlFor={field.id}
+                htmlFor={fieldKey}
                 className={`input-label ${field.required ? 'input-label--required' : ''}`}
             >
                 {field.label}
             </label>
             <DebouncedTextInput
-                id={field.id}
+                id={fieldKey}
                 className={`input ${error ? 'input--error' : ''}`}
                 value={value as string}
                 onChange={setValue}
                 onBlur={handleBlur}
                 onKeyDown={handleKeyDown}
                 placeholder={field.placeholder}
+                maxLength={field.maxLength}
+                inputMode={field.format ? TEXT_FORMATS[field.format].inputMode : undefined}
                 aria-invalid={!!error}
-                aria-describedby={error ? `${field.id}-error` : undefined}
+                aria-busy={isValidating}
+                aria-describedby={error ? `${fieldKey}-error` : undefined}
             />
             {error && (
-                <span id={`${field.id}-error`} className="input-error-message">
+                <span id={`${fieldKey}-error`} className="input-error-message">
                     {error}
                 </span>
             )}
+            {isValidating && !error && (
+                <span className="input-status" role="status">
+                    {messages.format('ui.checking')}
+                </span>
+            )}
         </div>
     );
 });
@@ -71,8 +114,10 @@ const TextInput = memo(function TextInput({ field }: { field: TextField }) {
 /**
  * Renders a Number Input field
  */
-const NumberInput = memo(function NumberInput({ field }: { field: NumberField }) {
-    const [value, setValue, error] = useFieldValue(field.id);
+const NumberInput = memo(function NumberInput({ field, fieldKey }: InputProps<NumberField>) {
+    const [value, setValue, error, isValidating] = useFieldValue(fieldKey);
+    const { messages } = useFormRuntime();
+    const touch = useTouchField(fieldKey);
 
     const handleChange = (val: number | string | undefined) => {
         if (val === undefined) {
@@ -85,24 +130,273 @@ const NumberInput = memo(function NumberInput({ field }: { field: NumberField })
     return (
         <div className="input-group">
             <label
-                htmlFor={field.id}
+                htmlFor={fieldKey}
                 className={`input-label ${field.required ? 'input-label--required' : ''}`}
             >
                 {field.label}
             </label>
             <DebouncedNumberInput
-                id={field.id}
+                id={fieldKey}
                 className={`input ${error ? 'input--error' : ''}`}
                 value={value as string | number}
                 onChange={handleChange}
+                onBlur={touch}
                 placeholder={field.placeholder}
                 min={field.min}
                 max={field.max}
                 aria-invalid={!!error}
-                aria-describedby={error ? `${field.id}-error` : undefined}
+                aria-busy={isValidating}
+                aria-describedby={error ? `${fieldKey}-error` : undefined}
             />
             {error && (
-                <span id={`${field.id}-error`} className="input-error-message">
+                <span id={`${fieldKey}-error`} className="input-error-message">
+                    {error}
+                </span>
+            )}
+            {isValidating && !error && (
+                <span className="input-status" role="status">
+                    {messages.format('ui.checking')}
+                </span>
+            )}
+        </div>
+    );
+});
+
+/**
+ * Renders a dropdown (single choice)
+ */
+const SelectInput = memo(function SelectInput({ field, fieldKey }: InputProps<SelectField>) {
+    const [value, setValue, error] = useFieldValue(fieldKey);
+    const { messages } = useFormRuntime();
+    const touch = useTouchField(fieldKey);
+
+    return (
+        <div className="input-group">
+            <label
+                htmlFor={fieldKey}
+                className={`input-label ${field.required ? 'input-label--required' : ''}`}
+            >
+                {field.label}
+            </label>
+            <select
+                id={fieldKey}
+                className={`select ${error ? 'input--error' : ''}`}
+                value={typeof value === 'string' ? value : ''}
+                onChange={(e: ChangeEvent<HTMLSelectElement>) => setValue(e.target.value)}
+                onBlur={touch}
+                aria-invalid={!!error}
+                aria-describedby={error ? `${fieldKey}-error` : undefined}
+            >
+                <option value="">{field.placeholder || messages.format('ui.selectPlaceholder')}</option>
+                {field.options.map((option) => (
+                    <option key={option.value} value={option.value}>
+                        {option.label}
+                    </option>
+                ))}
+            </select>
+            {error && (
+                <span id={`${fieldKey}-error`} className="input-error-message">
+                    {error}
+                </span>
+            )}
+        </div>
+    );
+});
+
+/**
+ * Renders a radio group (single choice) or a checkbox list (multiple choice)
+ * as a fieldset so the label is announced with every option
+ */
+const ChoiceListInput = memo(function ChoiceListInput({
+    field,
+    fieldKey,
+}: InputProps<RadioField | MultiSelectField>) {
+    const [value, setValue, error] = useFieldValue(fieldKey);
+    const { messages } = useFormRuntime();
+    const touch = useTouchField(fieldKey);
+    const isMultiple = field.type === 'multiselect';
+    const chosen = Array.isArray(value) ? value : [];
+
+    const handleToggle = (optionValue: string, checked: boolean) => {
+        if (!isMultiple) {
+            setValue(optionValue);
+            return;
+        }
+        // Keep the order of the options list, not the order of clicks
+        setValue(
+            field.options
+                .map((option) => option.value)
+                .filter((v) => (v === optionValue ? checked : chosen.includes(v)))
+        );
+    };
+
+    return (
+        <fieldset
+            className={`choice-list ${error ? 'choice-list--error' : ''}`}
+            onBlur={touch}
+            aria-describedby={error ? `${fieldKey}-error` : undefined}
+        >
+            <legend className={`input-label ${field.required ? 'input-label--required' : ''}`}>
+                {field.label}
+            </legend>
+            {field.options.length === 0 && (
+                <p className="text-muted text-sm italic">{messages.format('ui.noOptions')}</p>
+            )}
+            {field.options.map((option, index) => {
+                const optionId = `${fieldKey}-option-${index}`;
+                const isChecked = isMultiple ? chosen.includes(option.value) : value === option.value;
+
+                return (
+                    <div key={option.value} className="checkbox-group">
+                        <input
+                            id={optionId}
+                            type={isMultiple ? 'checkbox' : 'radio'}
+                            className="checkbox"
+                            name={fieldKey}
+                            value={option.value}
+                            checked={isChecked}
+                            onChange={(e) => handleToggle(option.value, e.target.checked)}
+                        />
+                        <label htmlFor={optionId} className="checkbox-label">
+                            {option.label}
+                        </label>
+                    </div>
+                );
+            })}
+            {error && (
+                <span id={`${fieldKey}-error`} className="input-error-message">
+                    {error}
+                </span>
+            )}
+        </fieldset>
+    );
+});
+
+/**
+ * Renders a single yes/no checkbox
+ */
+const CheckboxInput = memo(function CheckboxInput({ field, fieldKey }: InputProps<CheckboxField>) {
+    const [value, setValue, error] = useFieldValue(fieldKey);
+    const touch = useTouchField(fieldKey);
+
+    return (
+        <div className="input-group">
+            <div className="checkbox-group">
+                <input
+                    id={fieldKey}
+                    type="checkbox"
+                    className="checkbox"
+                    checked={value === true}
+                    onChange={(e) => setValue(e.target.checked)}
+                    onBlur={touch}
+                    aria-invalid={!!error}
+                    aria-describedby={error ? `${fieldKey}-error` : undefined}
+                />
+                <label
+                    htmlFor={fieldKey}
+                    className={`checkbox-label ${field.required ? 'input-label--required' : ''}`}
+                >
+                    {field.label}
+                </label>
+            </div>
+            {error && (
+                <span id={`${fieldKey}-error`} className="input-error-message">
+                    {error}
+                </span>
+            )}
+        </div>
+    );
+});
+
+/**
+ * Native input type per date/time field type
+ */
+const TEMPORAL_INPUT_TYPES: Record<TemporalField['type'], string> = {
+    date: 'date',
+    time: 'time',
+    datetime: 'datetime-local',
+};
+
+/**
+ * Renders a native date, time or datetime input
+ * Limits are resolved on render so relative bounds follow the current day
+ */
+const TemporalInput = memo(function TemporalInput({ field, fieldKey }: InputProps<TemporalField>) {
+    const [value, setValue, error] = useFieldValue(fieldKey);
+    const touch = useTouchField(fieldKey);
+
+    const min = field.min ? resolveDateBound(field.min, field.type) ?? undefined : undefined;
+    const max = field.max ? resolveDateBound(field.max, field.type) ?? undefined : undefined;
+
+    return (
+        <div className="input-group">
+            <label
+                htmlFor={fieldKey}
+                className={`input-label ${field.required ? 'input-label--required' : ''}`}
+            >
+                {field.label}
+            </label>
+            <input
+                id={fieldKey}
+                type={TEMPORAL_INPUT_TYPES[field.type]}
+                className={`input ${error ? 'input--error' : ''}`}
+                value={typeof value === 'string' ? value : ''}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setValue(e.target.value)}
+                onBlur={touch}
+                min={min}
+                max={max}
+                aria-invalid={!!error}
+                aria-describedby={error ? `${fieldKey}-error` : undefined}
+            />
+            {error && (
+                <span id={`${fieldKey}-error`} className="input-error-message">
+                    {error}
+                </span>
+            )}
+        </div>
+    );
+});
+
+/**
+ * Text shown for a computed value
+ */
+function formatComputedValue(value: unknown, decimals: number | undefined, messages: Messages): string {
+    if (typeof value === 'boolean') {
+        return messages.format(value ? 'ui.yes' : 'ui.no');
+    }
+    if (typeof value === 'number' && decimals !== undefined) {
+        return value.toFixed(Math.min(decimals, 10));
+    }
+    return String(value ?? '');
+}
+
+/**
+ * Renders the read-only result of a computed field
+ * Uses <output> so screen readers announce the new value
+ */
+const ComputedOutput = memo(function ComputedOutput({ field, fieldKey }: InputProps<ComputedField>) {
+    const [value, , error] = useFieldValue(fieldKey);
+    const { messages } = useFormRuntime();
+    const text = formatComputedValue(value, field.decimals, messages);
+
+    return (
+        <div className="input-group">
+            <label
+                htmlFor={fieldKey}
+                className={`input-label ${field.required ? 'input-label--required' : ''}`}
+            >
+                {field.label}
+            </label>
+            <output
+                id={fieldKey}
+                className={`input input--computed ${error ? 'input--error' : ''}`}
+                aria-invalid={!!error}
+                aria-describedby={error ? `${fieldKey}-error` : undefined}
+            >
+                {text === '' ? '—' : text}
+            </output>
+            {error && (
+                <span id={`${fieldKey}-error`} className="input-error-message">
                     {error}
                 </span>
             )}
@@ -112,17 +406,39 @@ const NumberInput = memo(function NumberInput({ field }: { field: NumberField })
 
 /**
  * FieldRenderer - Dispatches rendering to the correct component based on field type
+ * Renders nothing while the field is hidden by its visibility rule
  */
-const FieldRenderer = memo(function FieldRenderer({ field }: FieldRendererProps) {
-    if (isGroupField(field)) {
-        return <GroupRenderer field={field} />;
+const FieldRenderer = memo(function FieldRenderer({ field, scope = ROOT_SCOPE }: FieldRendererProps) {
+    const { hiddenFields } = useFormRuntime();
+    const fieldKey = valueKey(scope, field.id);
+
+    if (hiddenFields.has(fieldKey)) {
+        return null;
     }
 
-    if (isNumberField(field)) {
-        return <NumberInput field={field} />;
+    if (isGroupField(field)) {
+        return <GroupRenderer field={field} scope={scope} />;
     }
 
-    return <TextInput field={field} />;
+    switch (field.type) {
+        case 'number':
+            return <NumberInput field={field} fieldKey={fieldKey} />;
+        case 'select':
+            return <SelectInput field={field} fieldKey={fieldKey} />;
+        case 'radio':
+        case 'multiselect':
+            return <ChoiceListInput field={field} fieldKey={fieldKey} />;
+        case 'checkbox':
+            return <CheckboxInput field={field} fieldKey={fieldKey} />;
+        case 'date':
+        case 'time':
+        case 'datetime':
+            return <TemporalInput field={field} fieldKey={fieldKey} />;
+        case 'computed':
+            return <ComputedOutput field={field} fieldKey={fieldKey} />;
+        default:
+            return <TextInput field={field} fieldKey={fieldKey} />;
+    }
 });
 
 export default FieldRenderer;
@@ -0,0 +1,130 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - FORM RENDERER
+ * =============================================================================
+ * Renders a saved form for end users, outside the builder: takes the
+ * schema as a prop, runs it with FormRuntimeProvider (context/useForm.ts)
+ * and renders its fields with FieldRenderer, themed like the preview.
+ * Valid data goes to onSubmit; nothing is sent or stored by the renderer.
+ *
+ * HARD CONSTRAINTS:
+ * - Never imports the Builder Domain
+ * - Submitting waits for async checks still in progress
+ * - Wizard layouts render as a single page (steps are a preview feature)
+ * - Forms with several locales get a language switcher
+ * - Interface texts come from the message catalog (utils/messages.ts)
+ * - The theme (utils/formTheme.ts) is scoped to the <form>
+ * - NO UI frameworks
+ * =============================================================================
+ */
+
+import { memo, useMemo, type CSSProperties } from 'react';
+import type { ColorScheme, FormSchema } from '../../types/schema';
+import type { FlatFormData, NestedFormData, SubmissionShape } from '../../utils/dataMerging';
+import { FormRuntimeProvider, useFormRuntime } from '../../context/FormRuntimeContext';
+import type { InvalidHandler, SubmitHandler } from '../../context/useForm';
+import { getFormLocales } from '../../utils/localization';
+import { getThemeStyle, resolveColorScheme } from '../../utils/formTheme';
+import FieldRenderer from './FieldRenderer';
+import LocaleSwitcher from './LocaleSwitcher';
+
+interface FormRendererProps {
+    /** The form to render, e.g. a saved schema checked with validateSchema */
+    schema: FormSchema;
+    /** Called with the data of a valid submit */
+    onSubmit?: SubmitHandler;
+    /** Called when a submit finds errors */
+    onInvalid?: InvalidHandler;
+    /** Called with the data after the user changes a value */
+    onChange?: (data: FlatFormData | NestedFormData) => void;
+    /** Locale shown (default: the form's default locale); changing it switches the form over */
+    locale?: string;
+    /** Shape of submitted data (default: the submission target's, else 'nested') */
+    shape?: SubmissionShape;
+    /** Color scheme to use instead of the theme's */
+    colorScheme?: ColorScheme;
+    /** Text of the submit button (default: the catalog's ui.submit) */
+    submitLabel?: string;
+}
+
+type RenderedFormProps = Pick<FormRendererProps, 'schema' | 'onSubmit' | 'onInvalid' | 'colorScheme' | 'submitLabel'>;
+
+/**
+ * The <form> itself, inside the runtime provider
+ */
+function RenderedForm({ schema, onSubmit, onInvalid, colorScheme, submitLabel }: RenderedFormProps) {
+    const { formErrors, locale, setLocale, localizedFields, messages, isSubmitting, submitError, handleSubmit } = useFormRuntime();
+
+    const locales = useMemo(() => getFormLocales(schema.localization), [schema.localization]);
+    const themeStyle = useMemo(() => getThemeStyle(schema.theme) as CSSProperties, [schema.theme]);
+
+    return (
+        <form
+            onSubmit={handleSubmit(onSubmit ?? (() => undefined), onInvalid)}
+            className="form-renderer form-theme"
+            data-color-scheme={resolveColorScheme(schema.theme, colorScheme ?? null)}
+            style={themeStyle}
+            lang={locale}
+            noValidate
+        >
+            {locales.length > 1 && (
+                <LocaleSwitcher
+                    locales={locales}
+                    locale={locale}
+                    label={messages.format('ui.language')}
+                    onChange={setLocale}
+                />
+            )}
+
+            <div className="card">
+                <div className="card-body">
+                    <div className="flex flex-col gap-lg">
+                        {localizedFields.map((field) => (
+                            <FieldRenderer key={field.id} field={field} />
+                        ))}
+                    </div>
+                </div>
+
+                {/* Errors of form rules, which span several fields */}
+                {formErrors.length > 0 && (
+                    <ul className="form-errors" role="alert" aria-label={messages.format('ui.formErrors')}>
+                        {formErrors.map((message, index) => (
+                            <li key={index}>{message}</li>
+                        ))}
+                    </ul>
+                )}
+
+                {/* The submit handler failed; the values stay as they are */}
+                {submitError !== null && (
+                    <p className="form-errors submit-error" role="alert">
+                        {messages.format('ui.submitFailed', { reason: submitError })}
+                    </p>
+                )}
+
+                <div className="card-footer flex justify-end items-center">
+                    <button
+                        type="submit"
+                        className="btn btn-primary btn-lg"
+                        disabled={isSubmitting}
+                        aria-busy={isSubmitting}
+                    >
+                        {isSubmitting ? messages.format('ui.checking') : submitLabel ?? messages.format('ui.submit')}
+                    </button>
+                </div>
+            </div>
+        </form>
+    );
+}
+
+/**
+ * FormRenderer - A saved form, ready to fill in and submit
+ */
+const FormRenderer = memo(function FormRenderer({ locale, shape, onChange, ...props }: FormRendererProps) {
+    return (
+        <FormRuntimeProvider schema={props.schema} locale={locale} shape={shape} onChange={onChange}>
+            <RenderedForm {...props} />
+        </FormRuntimeProvider>
+    );
+});
+
+export default FormRenderer;
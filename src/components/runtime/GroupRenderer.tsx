@@ -7,22 +7,141 @@
  * HARD CONSTRAINTS:
  * - Must use semantic <fieldset> and <legend> for accessibility
  * - Handles recursive nesting
+ * - Repeatable groups render one fieldset per instance, each with its own
+ *   scope, plus controls to add, remove and reorder instances
+ * - Interface texts come from the message catalog (utils/messages.ts)
  * - NO UI frameworks
  * =============================================================================
  */
 
 import { memo } from 'react';
-import type { GroupField } from '../../types/schema';
+import type { Field, GroupField } from '../../types/schema';
+import { useFormRuntime } from '../../context/FormRuntimeContext';
+import { ROOT_SCOPE, instanceScope, isRepeatableGroup, valueKey } from '../../utils/formScope';
 import FieldRenderer from './FieldRenderer';
 
 interface GroupRendererProps {
     field: GroupField;
+    /** Scope the group is rendered in (set inside repeatable group instances) */
+    scope?: string;
 }
 
+/**
+ * Renders the children of a group (or of one group instance) in a scope
+ */
+function GroupChildren({ fields, scope }: { fields: Field[]; scope: string }) {
+    const { messages } = useFormRuntime();
+
+    return (
+        <div className="flex flex-col gap-lg">
+            {fields.length === 0 ? (
+                <p className="text-muted text-sm italic">{messages.format('ui.emptyGroup')}</p>
+            ) : (
+                fields.map((child) => (
+                    <FieldRenderer key={child.id} field={child} scope={scope} />
+                ))
+            )}
+        </div>
+    );
+}
+
+/**
+ * Renders a repeatable group: one fieldset per instance and an add button
+ */
+const RepeatableGroup = memo(function RepeatableGroup({ field, scope }: Required<GroupRendererProps>) {
+    const { instances, errors, messages, addInstance, removeInstance, moveInstance } = useFormRuntime();
+
+    const groupKey = valueKey(scope, field.id);
+    const instanceIds = instances[groupKey] ?? [];
+    const error = errors[groupKey];
+    const canAdd = field.maxInstances === undefined || instanceIds.length < field.maxInstances;
+    const canRemove = instanceIds.length > (field.minInstances ?? 0);
+
+    return (
+        <div
+            className="repeatable-group"
+            role="group"
+            aria-label={field.label}
+            aria-describedby={error ? `${groupKey}-error` : undefined}
+        >
+            {instanceIds.map((instanceId, index) => {
+                const title = messages.format('ui.instanceTitle', { label: field.label, number: index + 1 });
+
+                return (
+                    <fieldset key={instanceId} className="fieldset">
+                        <legend className="fieldset-legend">
+                            {title}
+                            {field.required && <span className="text-danger"> *</span>}
+                        </legend>
+
+                        <div className="repeatable-group-controls">
+                            <button
+                                type="button"
+                                className="btn btn-ghost btn-icon btn-sm"
+                                onClick={() => moveInstance(scope, field.id, instanceId, -1)}
+                                disabled={index === 0}
+                                aria-label={messages.format('ui.moveInstanceUp', { title })}
+                                title={messages.format('ui.moveUp')}
+                            >
+                                ↑
+                            </button>
+                            <button
+                                type="button"
+                                className="btn btn-ghost btn-icon btn-sm"
+                                onClick={() => moveInstance(scope, field.id, instanceId, 1)}
+                                disabled={index === instanceIds.length - 1}
+                                aria-label={messages.format('ui.moveInstanceDown', { title })}
+                                title={messages.format('ui.moveDown')}
+                            >
+                                ↓
+                            </button>
+                            <button
+                                type="button"
+                                className="btn btn-ghost btn-sm"
+                                onClick={() => removeInstance(scope, field.id, instanceId)}
+                                disabled={!canRemove}
+                                aria-label={messages.format('ui.removeInstanceLabel', { title })}
+                            >
+                                {messages.format('ui.removeInstance')}
+                            </button>
+                        </div>
+
+                        <GroupChildren
+                            fields={field.children}
+                            scope={instanceScope(scope, field.id, instanceId)}
+                        />
+                    </fieldset>
+                );
+            })}
+
+            <div>
+                <button
+                    type="button"
+                    className="btn btn-secondary btn-sm"
+                    onClick={() => addInstance(scope, field.id)}
+                    disabled={!canAdd}
+                >
+                    {messages.format('ui.addInstance', { label: field.label })}
+                </button>
+            </div>
+
+            {error && (
+                <span id={`${groupKey}-error`} className="input-error-message">
+                    {error}
+                </span>
+            )}
+        </div>
+    );
+});
+
 /**
  * GroupRenderer - Renders a fieldset with a legend and recursively renders children
  */
-const GroupRenderer = memo(function GroupRenderer({ field }: GroupRendererProps) {
+const GroupRenderer = memo(function GroupRenderer({ field, scope = ROOT_SCOPE }: GroupRendererProps) {
+    if (isRepeatableGroup(field)) {
+        return <RepeatableGroup field={field} scope={scope} />;
+    }
+
     return (
         <fieldset className="fieldset">
             <legend className="fieldset-legend">
@@ -30,15 +149,7 @@ const GroupRenderer = memo(function GroupRenderer({ field }: GroupRendererProps)
                 {field.required && <span className="text-danger"> *</span>}
             </legend>
 
-            <div className="flex flex-col gap-lg">
-                {field.children.length === 0 ? (
-                    <p className="text-muted text-sm italic">Empty group</p>
-                ) : (
-                    field.children.map((child) => (
-                        <FieldRenderer key={child.id} field={child} />
-                    ))
-                )}
-            </div>
+            <GroupChildren fields={field.children} scope={scope} />
         </fieldset>
     );
 });
@@ -8,49 +8,244 @@
  * HARD CONSTRAINTS:
  * - Updates immediately upon structure changes (via Context)
  * - Handles invalid data predictably
+ * - Submitting goes through the runtime's handleSubmit, which touches the
+ *   fields and waits for async checks still in progress; the inbox and the
+ *   shown output get the values taken when Submit was pressed
+ * - Valid submissions of library forms are kept in the inbox
+ *   (utils/submissionInbox.ts), shown below the form
+ * - With a submission target, valid data goes to the outbox
+ *   (SubmissionsContext), which sends, retries and queues it; without one
+ *   the data is only shown
+ * - In the wizard layout (utils/wizardSteps.ts) only the current step is
+ *   shown; Next checks that step, jumping ahead checks every step before
+ *   the target, and Submit checks all steps and the form rules. The step
+ *   is tracked by ID, so schema edits keep the user's place
+ * - Forms with several locales get a language switcher; fields and wizard
+ *   steps are rendered with the texts of the selected locale
+ * - The form's theme (utils/formTheme.ts) is scoped to the <form>; the
+ *   Appearance picker overrides its color scheme in the preview only
  * - NO UI frameworks
  * =============================================================================
  */
 
-import { memo, useCallback, useState } from 'react';
+import { memo, useCallback, useMemo, useRef, useState, type ChangeEvent, type CSSProperties } from 'react';
+import type { ColorScheme } from '../../types/schema';
 import { useSchema } from '../../context/BuilderContext';
 import { useFormRuntime } from '../../context/FormRuntimeContext';
+import { useFormLibrary } from '../../context/FormLibraryContext';
+import { useSubmissions } from '../../context/SubmissionsContext';
+import type { FlatFormData, NestedFormData, SubmissionShape } from '../../utils/dataMerging';
+import { addInboxEntry, deleteInboxEntry, getSchemaRevision, loadInbox, type InboxResult } from '../../utils/submissionInbox';
+import { getWizardSteps, resolveStepIndex } from '../../utils/wizardSteps';
+import { getFormLocales } from '../../utils/localization';
+import { COLOR_SCHEMES, getThemeStyle, resolveColorScheme } from '../../utils/formTheme';
 import FieldRenderer from './FieldRenderer';
+import SubmissionStatusList from './SubmissionStatusList';
+import SubmissionInbox from './SubmissionInbox';
+import WizardProgress from './WizardProgress';
+import LocaleSwitcher from './LocaleSwitcher';
 
 /**
  * LivePreview - The main runtime form component
  */
 const LivePreview = memo(function LivePreview() {
     const schema = useSchema();
-    const { validateForm, getFormData, resetForm } = useFormRuntime();
+    const {
+        formErrors,
+        hiddenFields,
+        locale,
+        setLocale,
+        localizedFields,
+        validateFieldsAsync,
+        getFormData,
+        getSubmissionData,
+        resetForm,
+        messages,
+        submitError,
+        handleSubmit: submitForm,
+    } = useFormRuntime();
+    const { submit } = useSubmissions();
+    const formId = useFormLibrary()?.form.id ?? null;
+    const target = schema.submission;
+    const [outputShape, setOutputShape] = useState<SubmissionShape>('nested');
     const [submitStatus, setSubmitStatus] = useState<'idle' | 'submitting' | 'success' | 'error'>('idle');
     const [submittedData, setSubmittedData] = useState<string | null>(null);
 
-    const handleSubmit = useCallback((e: React.FormEvent) => {
-        e.preventDefault();
-        setSubmitStatus('submitting');
+    // Wizard layout: the current step by ID, with its last index as fallback
+    const isWizard = schema.layout === 'wizard';
+    const steps = useMemo(() => getWizardSteps(localizedFields, hiddenFields), [localizedFields, hiddenFields]);
+    const [position, setPosition] = useState<{ stepId: string | null; index: number }>({ stepId: null, index: 0 });
+    const [isChangingStep, setIsChangingStep] = useState(false);
+    const stepIndex = resolveStepIndex(steps, position.stepId, position.index);
+    const isLastStep = stepIndex >= steps.length - 1;
+
+    // Stored submissions of the open library form
+    const [inbox, setInbox] = useState(() => (formId ? loadInbox(formId) : []));
+    const [inboxMessage, setInboxMessage] = useState<string | null>(null);
+    const inboxRef = useRef(inbox);
+
+    const locales = useMemo(() => getFormLocales(schema.localization), [schema.localization]);
+
+    // Theme of the form, with the color scheme picked in the preview (null: the theme's)
+    const [appearance, setAppearance] = useState<ColorScheme | null>(null);
+    const themeStyle = useMemo(() => getThemeStyle(schema.theme) as CSSProperties, [schema.theme]);
+    const colorScheme = resolveColorScheme(schema.theme, appearance);
+
+    // Bumped on reset so that a submit or step change still waiting on
+    // checks is dropped
+    const submitRunRef = useRef(0);
 
-        const isValid = validateForm();
+    /**
+     * Index of the first of the first `count` steps that fails validation
+     * (-1 if all pass); null if a reset happened meanwhile
+     */
+    const findInvalidStep = useCallback(async (count: number): Promise<number | null> => {
+        const run = submitRunRef.current;
+        for (let index = 0; index < count; index++) {
+            const isValid = await validateFieldsAsync(steps[index].fields);
+            if (run !== submitRunRef.current) {
+                return null;
+            }
+            if (!isValid) {
+                return index;
+            }
+        }
+        return -1;
+    }, [steps, validateFieldsAsync]);
+
+    /**
+     * Open a step; later steps only open when every step before them is
+     * valid, otherwise the first invalid one opens
+     */
+    const goToStep = useCallback(async (target: number) => {
+        setSubmitStatus('idle');
+        if (target <= stepIndex) {
+            setPosition({ stepId: steps[target].id, index: target });
+            return;
+        }
+        setIsChangingStep(true);
+        const invalid = await findInvalidStep(target);
+        if (invalid === null) {
+            return;
+        }
+        setIsChangingStep(false);
+        const next = invalid === -1 ? target : invalid;
+        setPosition({ stepId: steps[next].id, index: next });
+    }, [stepIndex, steps, findInvalidStep]);
 
-        if (isValid) {
-            const data = getFormData();
-            setSubmittedData(JSON.stringify(data, null, 2));
-            setSubmitStatus('success');
+    const commitInbox = useCallback((result: InboxResult) => {
+        if (!result.success) {
+            setInboxMessage(result.message);
+            return;
+        }
+        inboxRef.current = result.entries;
+        setInbox(result.entries);
+        setInboxMessage(null);
+    }, []);
 
-            // Clear success message after 3 seconds
-            setTimeout(() => {
-                setSubmitStatus('idle');
-            }, 3000);
-        } else {
-            setSubmitStatus('error');
+    const handleDeleteEntry = useCallback((entryId: string) => {
+        if (formId) {
+            commitInbox(deleteInboxEntry(inboxRef.current, formId, entryId));
+        }
+    }, [formId, commitInbox]);
+
+    /**
+     * A valid submit: keep it in the inbox, then send it to the target or
+     * show it. `values` and `output` are the values validated, taken when
+     * the submit started
+     */
+    const handleValid = useCallback((data: FlatFormData | NestedFormData, values: FlatFormData, output: string) => {
+        if (formId) {
+            commitInbox(addInboxEntry(inboxRef.current, formId, values, getSchemaRevision(schema)));
+        }
+
+        if (target) {
+            // The runtime hands the data over in the target's shape
+            submit(formId, target, data);
             setSubmittedData(null);
+            setSubmitStatus('idle');
+            return;
         }
-    }, [validateForm, getFormData]);
+
+        setSubmittedData(output);
+        setSubmitStatus('success');
+
+        // Clear success message after 3 seconds
+        setTimeout(() => {
+            setSubmitStatus('idle');
+        }, 3000);
+    }, [formId, commitInbox, schema, target, submit]);
+
+    const handleInvalid = useCallback(() => {
+        setSubmitStatus('error');
+        setSubmittedData(null);
+    }, []);
+
+    /**
+     * Submit through the runtime (which touches, validates and waits for
+     * the checks), after checking the wizard steps in order
+     */
+    const handleSubmit = useCallback(async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (submitStatus === 'submitting' || isChangingStep) {
+            return;
+        }
+        // Enter on an earlier step moves on instead of submitting
+        if (isWizard && !isLastStep) {
+            await goToStep(stepIndex + 1);
+            return;
+        }
+        setSubmitStatus('submitting');
+
+        const run = ++submitRunRef.current;
+        const values = getFormData();
+        const output = JSON.stringify(getSubmissionData(outputShape), null, 2);
+        if (isWizard) {
+            const invalid = await findInvalidStep(steps.length);
+            if (invalid === null || run !== submitRunRef.current) {
+                return;
+            }
+            if (invalid !== -1) {
+                setPosition({ stepId: steps[invalid].id, index: invalid });
+                handleInvalid();
+                return;
+            }
+        }
+        await submitForm((data) => handleValid(data, values, output), handleInvalid)();
+        // A failed handler leaves the status as it was (submitError tells why)
+        if (run === submitRunRef.current) {
+            setSubmitStatus((status) => (status === 'submitting' ? 'idle' : status));
+        }
+    }, [
+        submitStatus,
+        isChangingStep,
+        isWizard,
+        isLastStep,
+        goToStep,
+        stepIndex,
+        findInvalidStep,
+        steps,
+        getFormData,
+        getSubmissionData,
+        outputShape,
+        submitForm,
+        handleValid,
+        handleInvalid,
+    ]);
+
+    const handleOutputShapeChange = useCallback((e: ChangeEvent<HTMLSelectElement>) => {
+        setOutputShape(e.target.value as SubmissionShape);
+        setSubmittedData(null);
+        setSubmitStatus('idle');
+    }, []);
 
     const handleReset = useCallback(() => {
+        submitRunRef.current++;
         resetForm();
         setSubmitStatus('idle');
         setSubmittedData(null);
+        setIsChangingStep(false);
+        setPosition({ stepId: null, index: 0 });
     }, [resetForm]);
 
     return (
@@ -60,6 +255,31 @@ const LivePreview = memo(function LivePreview() {
                 <p className="preview-subtitle">
                     This is how your users will see the form
                 </p>
+                <div className="preview-controls flex items-center gap-md">
+                    {locales.length > 1 && (
+                        <LocaleSwitcher locales={locales} locale={locale} onChange={setLocale} />
+                    )}
+                    <div className="flex items-center gap-sm">
+                        <label htmlFor="preview-appearance" className="text-sm text-secondary">
+                            Appearance
+                        </label>
+                        <select
+                            id="preview-appearance"
+                            className="select text-sm"
+                            value={appearance ?? ''}
+                            onChange={(e: ChangeEvent<HTMLSelectElement>) =>
+                                setAppearance(e.target.value === '' ? null : (e.target.value as ColorScheme))
+                            }
+                        >
+                            <option value="">As set in the theme</option>
+                            {COLOR_SCHEMES.map((scheme) => (
+                                <option key={scheme.value} value={scheme.value}>
+                                    {scheme.label}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
             </header>
 
             {schema.fields.length === 0 ? (
@@ -71,50 +291,118 @@ const LivePreview = memo(function LivePreview() {
                     </p>
                 </div>
             ) : (
-                <form onSubmit={handleSubmit} className="preview-form" noValidate>
+                <form
+                    onSubmit={handleSubmit}
+                    className="preview-form form-theme"
+                    data-color-scheme={colorScheme}
+                    style={themeStyle}
+                    lang={locale}
+                    noValidate
+                >
                     <div className="card">
                         {/* Form Fields */}
                         <div className="card-body">
+                            {isWizard && steps.length > 0 && (
+                                <WizardProgress
+                                    steps={steps}
+                                    currentIndex={stepIndex}
+                                    busy={isChangingStep || submitStatus === 'submitting'}
+                                    onSelect={goToStep}
+                                />
+                            )}
                             <div className="flex flex-col gap-lg">
-                                {schema.fields.map((field) => (
+                                {(isWizard ? steps[stepIndex]?.fields ?? [] : localizedFields).map((field) => (
                                     <FieldRenderer key={field.id} field={field} />
                                 ))}
                             </div>
                         </div>
 
+                        {/* Errors of form rules, which span several fields */}
+                        {formErrors.length > 0 && (
+                            <ul className="form-errors" role="alert" aria-label={messages.format('ui.formErrors')}>
+                                {formErrors.map((message, index) => (
+                                    <li key={index}>{message}</li>
+                                ))}
+                            </ul>
+                        )}
+
                         {/* Form Actions */}
                         <div className="card-footer flex justify-between items-center bg-gray-50">
-                            <button
-                                type="button"
-                                className="btn btn-ghost text-danger"
-                                onClick={handleReset}
-                            >
-                                Reset Form
-                            </button>
-                            <button
-                                type="submit"
-                                className="btn btn-primary btn-lg"
-                            >
-                                Submit Form
-                            </button>
+                            <div className="flex items-center gap-sm">
+                                <button
+                                    type="button"
+                                    className="btn btn-ghost text-danger"
+                                    onClick={handleReset}
+                                >
+                                    {messages.format('ui.resetForm')}
+                                </button>
+                                {target ? (
+                                    <span className="text-sm text-secondary">
+                                        Sends to {target.method} {target.url}
+                                    </span>
+                                ) : (
+                                    <>
+                                        <label htmlFor="preview-output-shape" className="text-sm text-secondary">
+                                            Output
+                                        </label>
+                                        <select
+                                            id="preview-output-shape"
+                                            className="select text-sm"
+                                            value={outputShape}
+                                            onChange={handleOutputShapeChange}
+                                        >
+                                            <option value="nested">Nested by name</option>
+                                            <option value="flat">Flat by ID</option>
+                                        </select>
+                                    </>
+                                )}
+                            </div>
+                            <div className="flex items-center gap-sm">
+                                {isWizard && stepIndex > 0 && (
+                                    <button
+                                        type="button"
+                                        className="btn btn-secondary btn-lg"
+                                        onClick={() => goToStep(stepIndex - 1)}
+                                        disabled={isChangingStep || submitStatus === 'submitting'}
+                                    >
+                                        {messages.format('ui.back')}
+                                    </button>
+                                )}
+                                <button
+                                    type="submit"
+                                    className="btn btn-primary btn-lg"
+                                    disabled={isChangingStep || submitStatus === 'submitting'}
+                                    aria-busy={isChangingStep || submitStatus === 'submitting'}
+                                >
+                                    {isChangingStep || submitStatus === 'submitting'
+                                        ? messages.format('ui.checking')
+                                        : messages.format(isWizard && !isLastStep ? 'ui.next' : 'ui.submitForm')}
+                                </button>
+                            </div>
                         </div>
                     </div>
 
                     {/* Submission Feedback */}
+                    {submitError !== null && (
+                        <div className="p-md rounded-md bg-red-50 border border-red-200 text-danger animate-fade-in" role="alert">
+                            {messages.format('ui.submitFailed', { reason: submitError })}
+                        </div>
+                    )}
+
                     {submitStatus === 'error' && (
                         <div className="p-md rounded-md bg-red-50 border border-red-200 text-danger animate-fade-in">
-                            Please correct the errors above.
+                            {messages.format('ui.correctErrors')}
                         </div>
                     )}
 
                     {submitStatus === 'success' && submittedData && (
                         <div className="animate-fade-in">
                             <div className="p-md rounded-md bg-green-50 border border-green-200 text-success mb-sm">
-                                Form submitted successfully!
+                                {messages.format('ui.submitted')}
                             </div>
                             <div className="card">
                                 <div className="card-header">
-                                    <h3 className="text-sm font-semibold">Submitted Data</h3>
+                                    <h3 className="text-sm font-semibold">{messages.format('ui.submittedData')}</h3>
                                 </div>
                                 <pre className="card-body text-xs overflow-auto bg-gray-50" style={{ maxHeight: '200px' }}>
                                     {submittedData}
@@ -122,8 +410,16 @@ const LivePreview = memo(function LivePreview() {
                             </div>
                         </div>
                     )}
+
+                    <SubmissionStatusList formId={formId} />
                 </form>
             )}
+
+            {formId && (
+                <div className="mt-lg">
+                    <SubmissionInbox entries={inbox} message={inboxMessage} onDelete={handleDeleteEntry} />
+                </div>
+            )}
         </div>
     );
 });
@@ -0,0 +1,51 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - LOCALE SWITCHER
+ * =============================================================================
+ * Picks the locale the preview is shown in, among the form's locales
+ * (`localization` of the schema). Each locale is named in its own
+ * language, so users can find theirs.
+ *
+ * HARD CONSTRAINTS:
+ * - Only shown for forms with more than one locale (decided by the caller)
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * =============================================================================
+ */
+
+import { memo, type ChangeEvent } from 'react';
+import { getLocaleName } from '../../utils/localization';
+
+interface LocaleSwitcherProps {
+    locales: string[];
+    locale: string;
+    /** Text of the label (default: "Language") */
+    label?: string;
+    onChange: (locale: string) => void;
+}
+
+/**
+ * LocaleSwitcher - Language of the form
+ */
+const LocaleSwitcher = memo(function LocaleSwitcher({ locales, locale, label = 'Language', onChange }: LocaleSwitcherProps) {
+    return (
+        <div className="locale-switcher flex items-center gap-sm">
+            <label htmlFor="preview-locale" className="text-sm text-secondary">
+                {label}
+            </label>
+            <select
+                id="preview-locale"
+                className="select text-sm"
+                value={locale}
+                onChange={(e: ChangeEvent<HTMLSelectElement>) => onChange(e.target.value)}
+            >
+                {locales.map((code) => (
+                    <option key={code} value={code} lang={code}>
+                        {getLocaleName(code, code)} ({code})
+                    </option>
+                ))}
+            </select>
+        </div>
+    );
+});
+
+export default LocaleSwitcher;
@@ -0,0 +1,176 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - SUBMISSION INBOX
+ * =============================================================================
+ * Table of the open form's stored submissions (utils/submissionInbox.ts),
+ * below the live preview: one column per input field, labelled with its
+ * groups, sortable by any column and filtered by a search text. Entries
+ * can be deleted one by one and the rows shown exported as CSV or NDJSON.
+ *
+ * HARD CONSTRAINTS:
+ * - Columns follow the current schema; entries are shown as stored
+ * - Sortable headers are buttons and report their order (aria-sort)
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * =============================================================================
+ */
+
+import { memo, useMemo, useState } from 'react';
+import { useSchema } from '../../context/BuilderContext';
+import { downloadFile } from '../../utils/download';
+import {
+    filterInbox,
+    getCellText,
+    getInboxColumns,
+    sortInbox,
+    toCsv,
+    toNdjson,
+    type InboxEntry,
+    type InboxSort,
+} from '../../utils/submissionInbox';
+
+interface SubmissionInboxProps {
+    /** Stored submissions, oldest first */
+    entries: InboxEntry[];
+    /** Why the last submission could not be stored, if it could not */
+    message: string | null;
+    onDelete: (entryId: string) => void;
+}
+
+/**
+ * Formats a submission time, e.g. "Mar 14, 2025, 9:26:05 AM"
+ */
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'medium' });
+}
+
+/**
+ * SubmissionInbox - Sortable, filterable table of stored submissions
+ */
+const SubmissionInbox = memo(function SubmissionInbox({ entries, message, onDelete }: SubmissionInboxProps) {
+    const schema = useSchema();
+    const [query, setQuery] = useState('');
+    const [sort, setSort] = useState<InboxSort>({ key: 'submittedAt', direction: 'desc' });
+
+    const columns = useMemo(() => getInboxColumns(schema.fields), [schema.fields]);
+    const rows = useMemo(
+        () => sortInbox(filterInbox(entries, columns, query), columns, sort),
+        [entries, columns, query, sort]
+    );
+
+    const headers = [
+        { key: 'submittedAt', label: 'Submitted' },
+        { key: 'revision', label: 'Revision' },
+        ...columns.map((column) => ({ key: column.fieldId, label: column.label })),
+    ];
+
+    const toggleSort = (key: string) => {
+        setSort((prev) =>
+            prev.key === key
+                ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+                : { key, direction: key === 'submittedAt' ? 'desc' : 'asc' }
+        );
+    };
+
+    return (
+        <section className="card inbox" aria-labelledby="inbox-title">
+            <div className="card-header flex justify-between items-center gap-sm flex-wrap">
+                <h3 id="inbox-title" className="text-sm font-semibold">
+                    Inbox <span className="builder-item-summary-count">{entries.length}</span>
+                </h3>
+                <div className="flex items-center gap-sm flex-wrap">
+                    <label htmlFor="inbox-filter" className="sr-only">Filter submissions</label>
+                    <input
+                        id="inbox-filter"
+                        type="search"
+                        className="input text-sm"
+                        value={query}
+                        placeholder="Filter"
+                        onChange={(e) => setQuery(e.target.value)}
+                        disabled={entries.length === 0}
+                    />
+                    <button
+                        type="button"
+                        className="btn btn-secondary btn-sm"
+                        onClick={() => downloadFile('submissions.csv', toCsv(rows, columns), 'text/csv')}
+                        disabled={rows.length === 0}
+                        title="Download the rows shown as CSV"
+                    >
+                        Export CSV
+                    </button>
+                    <button
+                        type="button"
+                        className="btn btn-secondary btn-sm"
+                        onClick={() => downloadFile('submissions.ndjson', toNdjson(rows), 'application/x-ndjson')}
+                        disabled={rows.length === 0}
+                        title="Download the rows shown as NDJSON (one JSON object per line)"
+                    >
+                        Export NDJSON
+                    </button>
+                </div>
+            </div>
+
+            {message && <p className="card-body text-xs text-danger" role="alert">⚠ {message}</p>}
+
+            {entries.length === 0 ? (
+                <p className="card-body text-sm text-muted">
+                    Valid submissions from the preview are kept here.
+                </p>
+            ) : rows.length === 0 ? (
+                <p className="card-body text-sm text-muted" role="status">No submissions match “{query.trim()}”.</p>
+            ) : (
+                <div className="inbox-table-wrapper">
+                    <table className="inbox-table">
+                        <thead>
+                            <tr>
+                                {headers.map(({ key, label }) => {
+                                    const direction = sort.key === key ? sort.direction : null;
+                                    return (
+                                        <th
+                                            key={key}
+                                            scope="col"
+                                            aria-sort={direction === null ? 'none' : direction === 'asc' ? 'ascending' : 'descending'}
+                                        >
+                                            <button type="button" className="inbox-sort" onClick={() => toggleSort(key)}>
+                                                {label}
+                                                <span aria-hidden="true">
+                                                    {direction === 'asc' ? ' ▲' : direction === 'desc' ? ' ▼' : ''}
+                                                </span>
+                                            </button>
+                                        </th>
+                                    );
+                                })}
+                                <th scope="col">
+                                    <span className="sr-only">Actions</span>
+                                </th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map((entry) => (
+                                <tr key={entry.id}>
+                                    <td className="inbox-nowrap">{formatTime(entry.submittedAt)}</td>
+                                    <td className="inbox-nowrap">{entry.revision ?? '—'}</td>
+                                    {columns.map((column) => (
+                                        <td key={column.fieldId}>{getCellText(entry, column)}</td>
+                                    ))}
+                                    <td>
+                                        <button
+                                            type="button"
+                                            className="btn btn-ghost btn-icon btn-sm"
+                                            onClick={() => onDelete(entry.id)}
+                                            aria-label={`Delete submission from ${formatTime(entry.submittedAt)}`}
+                                            title="Delete submission"
+                                        >
+                                            ×
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </section>
+    );
+});
+
+export default SubmissionInbox;
@@ -0,0 +1,208 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - SUBMISSION OUTBOX
+ * =============================================================================
+ * Keeps the submission outbox (utils/submissionQueue.ts) and delivers it:
+ * due entries are sent, failed attempts are retried with backoff, and
+ * entries made while offline are sent when the browser comes back online.
+ * Supplies SubmissionsContext to the app.
+ *
+ * HARD CONSTRAINTS:
+ * - Mounted once, above the form workspace, so delivery continues while
+ *   forms are switched
+ * - One timer for the earliest scheduled attempt; no polling
+ * - Every change to the outbox is written to storage before the next
+ *   attempt can start
+ * - Tabs share the stored outbox: changes are applied to a fresh read of it
+ *   and other tabs' changes arrive by storage events
+ * - Only one tab delivers: the one holding the OUTBOX_LOCK Web Lock, passed
+ *   on when it closes (without Web Locks every tab delivers); due entries
+ *   are claimed as sending in storage before they are sent
+ * =============================================================================
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import { SubmissionsContext, type SubmissionsContextValue } from '../../context/SubmissionsContext';
+import type { SubmissionTarget } from '../../types/schema';
+import type { FlatFormData, NestedFormData } from '../../utils/dataMerging';
+import {
+    OUTBOX_KEY,
+    createSubmission,
+    finishAttempt,
+    getNextAttemptAt,
+    isDue,
+    loadOutbox,
+    resumeOffline,
+    retrySubmission,
+    reviveInterrupted,
+    startAttempt,
+    updateOutbox,
+    type QueuedSubmission,
+} from '../../utils/submissionQueue';
+import { sendSubmission } from '../../utils/submissionTransport';
+
+/**
+ * Web Lock held by the tab that delivers the outbox
+ */
+const OUTBOX_LOCK = 'form-builder:outbox';
+
+interface SubmissionOutboxProps {
+    children: ReactNode;
+}
+
+/**
+ * SubmissionOutbox - Delivery of queued submissions
+ */
+function SubmissionOutbox({ children }: SubmissionOutboxProps) {
+    const [submissions, setSubmissions] = useState<QueuedSubmission[]>(() => loadOutbox() ?? []);
+    const [storageMessage, setStorageMessage] = useState<string | null>(null);
+
+    // Latest entries for attempts that finish after a render
+    const submissionsRef = useRef(submissions);
+    const timerRef = useRef<number | undefined>(undefined);
+
+    // Whether storage holds this tab's changes (false after a failed write)
+    const isStoredRef = useRef(true);
+    // Whether this tab delivers, and the entries it is sending
+    const isDelivererRef = useRef(false);
+    const inFlightRef = useRef(new Set<string>());
+
+    const show = useCallback((next: QueuedSubmission[]) => {
+        submissionsRef.current = next;
+        setSubmissions(next);
+    }, []);
+
+    const commit = useCallback((change: (entries: QueuedSubmission[]) => QueuedSubmission[]) => {
+        const { submissions: next, saved } = updateOutbox(submissionsRef.current, change, isStoredRef.current);
+        show(next);
+        isStoredRef.current = saved.success;
+        setStorageMessage(saved.success ? null : saved.message);
+    }, [show]);
+
+    const update = useCallback((id: string, change: (entry: QueuedSubmission) => QueuedSubmission) => {
+        commit((entries) => entries.map((entry) => (entry.id === id ? change(entry) : entry)));
+    }, [commit]);
+
+    /**
+     * Claims and starts every due attempt, then waits for the next
+     * scheduled one (in the delivering tab only)
+     */
+    const deliver = useCallback(function deliver() {
+        window.clearTimeout(timerRef.current);
+        if (!isDelivererRef.current) {
+            return;
+        }
+
+        const now = Date.now();
+        const due: QueuedSubmission[] = [];
+        commit((entries) => {
+            if (!entries.some((entry) => isDue(entry, now))) {
+                return entries;
+            }
+            return entries.map((entry) => {
+                if (!isDue(entry, now)) {
+                    return entry;
+                }
+                due.push(entry);
+                return startAttempt(entry);
+            });
+        });
+
+        for (const entry of due) {
+            inFlightRef.current.add(entry.id);
+            sendSubmission(entry.request).then((result) => {
+                inFlightRef.current.delete(entry.id);
+                update(entry.id, (current) => finishAttempt(current, result));
+                deliver();
+            });
+        }
+
+        const next = getNextAttemptAt(submissionsRef.current);
+        if (next !== null) {
+            timerRef.current = window.setTimeout(deliver, Math.max(next - Date.now(), 0));
+        }
+    }, [commit, update]);
+
+    useEffect(() => {
+        // Take over delivery, including what an earlier deliverer left unsent
+        const start = () => {
+            isDelivererRef.current = true;
+            commit((entries) => reviveInterrupted(entries, inFlightRef.current));
+            deliver();
+        };
+
+        const controller = new AbortController();
+        let release = () => {};
+        if ('locks' in navigator) {
+            navigator.locks
+                .request(OUTBOX_LOCK, { signal: controller.signal }, () => {
+                    start();
+                    // Held until this tab closes or the outbox unmounts
+                    return new Promise<void>((resolve) => {
+                        release = resolve;
+                    });
+                })
+                .catch(() => {
+                    // Aborted on unmount before the lock was granted
+                });
+        } else {
+            timerRef.current = window.setTimeout(start, 0);
+        }
+
+        // Changes made by other tabs
+        const handleStorage = (event: StorageEvent) => {
+            if (event.key !== OUTBOX_KEY && event.key !== null) {
+                return;
+            }
+            if (isStoredRef.current) {
+                show(loadOutbox() ?? submissionsRef.current);
+            }
+            deliver();
+        };
+
+        const handleOnline = () => {
+            commit(resumeOffline);
+            deliver();
+        };
+
+        window.addEventListener('storage', handleStorage);
+        window.addEventListener('online', handleOnline);
+        return () => {
+            controller.abort();
+            release();
+            isDelivererRef.current = false;
+            window.clearTimeout(timerRef.current);
+            window.removeEventListener('storage', handleStorage);
+            window.removeEventListener('online', handleOnline);
+        };
+    }, [commit, deliver, show]);
+
+    const submit = useCallback((formId: string | null, target: SubmissionTarget, data: FlatFormData | NestedFormData) => {
+        const entry = createSubmission(formId, target, data);
+        commit((entries) => [...entries, entry]);
+        deliver();
+        return entry.id;
+    }, [commit, deliver]);
+
+    const retry = useCallback((id: string) => {
+        update(id, (entry) => retrySubmission(entry));
+        deliver();
+    }, [update, deliver]);
+
+    const dismiss = useCallback((id: string) => {
+        commit((entries) => entries.filter((entry) => entry.id !== id));
+    }, [commit]);
+
+    const contextValue = useMemo<SubmissionsContextValue>(
+        () => ({ submissions, storageMessage, submit, retry, dismiss }),
+        [submissions, storageMessage, submit, retry, dismiss]
+    );
+
+    return (
+        <SubmissionsContext.Provider value={contextValue}>
+            {children}
+        </SubmissionsContext.Provider>
+    );
+}
+
+export default SubmissionOutbox;
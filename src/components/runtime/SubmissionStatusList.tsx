@@ -0,0 +1,109 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - SUBMISSION STATUS LIST
+ * =============================================================================
+ * Shows the delivery status of the open form's submissions from the
+ * outbox (SubmissionsContext): sending, waiting for a retry, waiting for
+ * the connection, sent, or failed with the reason.
+ *
+ * HARD CONSTRAINTS:
+ * - Status changes are announced politely (aria-live)
+ * - Failed submissions can be retried; finished or waiting ones removed
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * =============================================================================
+ */
+
+import { memo } from 'react';
+import { useSubmissions } from '../../context/SubmissionsContext';
+import type { QueuedSubmission } from '../../utils/submissionQueue';
+
+interface SubmissionStatusListProps {
+    /** Library form whose submissions are listed (null outside the library) */
+    formId: string | null;
+}
+
+/**
+ * Formats a time of day, e.g. "09:26:05"
+ */
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+/**
+ * Badge text and detail line of a submission's status
+ */
+function describeStatus(entry: QueuedSubmission): { label: string; detail: string | null } {
+    const { status } = entry;
+    switch (status.state) {
+        case 'sending':
+            return { label: 'Sending…', detail: entry.attempts > 1 ? `Attempt ${entry.attempts}` : null };
+        case 'waiting':
+            return status.message === null
+                ? { label: 'Queued', detail: null }
+                : { label: 'Retrying', detail: `${status.message}. Next attempt at ${formatTime(status.nextAttemptAt)}.` };
+        case 'offline':
+            return { label: 'Waiting for connection', detail: 'It will be sent when you are back online.' };
+        case 'sent':
+            return { label: 'Sent', detail: `HTTP ${status.httpStatus} at ${formatTime(status.sentAt)}` };
+        case 'failed':
+            return { label: 'Failed', detail: status.message };
+    }
+}
+
+/**
+ * SubmissionStatusList - Delivery status of the form's submissions
+ */
+const SubmissionStatusList = memo(function SubmissionStatusList({ formId }: SubmissionStatusListProps) {
+    const { submissions, storageMessage, retry, dismiss } = useSubmissions();
+    const entries = submissions.filter((entry) => entry.formId === formId).reverse();
+
+    if (entries.length === 0) {
+        return null;
+    }
+
+    return (
+        <section className="card" aria-labelledby="submission-status-title">
+            <div className="card-header">
+                <h3 id="submission-status-title" className="text-sm font-semibold">Submissions</h3>
+            </div>
+            {storageMessage && <p className="card-body text-xs text-danger">⚠ {storageMessage}</p>}
+            <ul className="submission-list" aria-live="polite">
+                {entries.map((entry) => {
+                    const { label, detail } = describeStatus(entry);
+                    return (
+                        <li key={entry.id} className="submission-item">
+                            <div>
+                                <span className={`submission-badge submission-badge--${entry.status.state}`}>{label}</span>
+                                <span className="text-xs text-secondary">
+                                    {' '}{formatTime(entry.createdAt)} · {entry.request.method} {entry.request.url}
+                                </span>
+                                {detail && <p className="text-xs text-secondary mt-xs">{detail}</p>}
+                            </div>
+                            <div className="flex gap-xs">
+                                {entry.status.state === 'failed' && (
+                                    <button type="button" className="btn btn-secondary btn-sm" onClick={() => retry(entry.id)}>
+                                        Retry
+                                    </button>
+                                )}
+                                {entry.status.state !== 'sending' && (
+                                    <button
+                                        type="button"
+                                        className="btn btn-ghost btn-sm"
+                                        onClick={() => dismiss(entry.id)}
+                                        title={entry.status.state === 'sent' || entry.status.state === 'failed'
+                                            ? 'Remove from the list'
+                                            : 'Cancel: this submission will not be sent'}
+                                    >
+                                        {entry.status.state === 'sent' || entry.status.state === 'failed' ? 'Remove' : 'Cancel'}
+                                    </button>
+                                )}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </section>
+    );
+});
+
+export default SubmissionStatusList;
@@ -0,0 +1,82 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - WIZARD PROGRESS
+ * =============================================================================
+ * Progress indicator of the wizard layout: "Step n of m", a bar and the
+ * list of steps. Earlier steps can be reopened directly; later ones only
+ * open once every step before them passes validation (checked by the
+ * caller through onSelect).
+ *
+ * HARD CONSTRAINTS:
+ * - The current step is marked with aria-current="step"
+ * - Step changes are announced politely (aria-live)
+ * - Texts come from the form's message catalog (utils/messages.ts)
+ * - NO UI frameworks (Tailwind, Bootstrap)
+ * =============================================================================
+ */
+
+import { memo } from 'react';
+import type { WizardStep } from '../../utils/wizardSteps';
+import { useFormRuntime } from '../../context/FormRuntimeContext';
+
+interface WizardProgressProps {
+    steps: WizardStep[];
+    currentIndex: number;
+    /** Set while steps are being checked; selecting is disabled meanwhile */
+    busy: boolean;
+    onSelect: (index: number) => void;
+}
+
+/**
+ * WizardProgress - Where the user is in the wizard
+ */
+const WizardProgress = memo(function WizardProgress({ steps, currentIndex, busy, onSelect }: WizardProgressProps) {
+    const { messages } = useFormRuntime();
+    const current = steps[currentIndex];
+
+    return (
+        <nav className="wizard-progress" aria-label={messages.format('ui.steps')}>
+            <p className="text-sm text-secondary" aria-live="polite">
+                {messages.format('ui.stepOf', { number: currentIndex + 1, count: steps.length })}
+                {current && <span className="font-semibold">: {current.title}</span>}
+            </p>
+            <div
+                className="wizard-progress-bar"
+                role="progressbar"
+                aria-label={messages.format('ui.progress')}
+                aria-valuemin={1}
+                aria-valuemax={steps.length}
+                aria-valuenow={currentIndex + 1}
+            >
+                <div
+                    className="wizard-progress-fill"
+                    style={{ width: `${((currentIndex + 1) / steps.length) * 100}%` }}
+                />
+            </div>
+            <ol className="wizard-steps">
+                {steps.map((step, index) => {
+                    const state = index < currentIndex ? 'done' : index === currentIndex ? 'current' : 'upcoming';
+                    return (
+                        <li key={step.id}>
+                            <button
+                                type="button"
+                                className={`wizard-step wizard-step--${state}`}
+                                onClick={() => onSelect(index)}
+                                disabled={busy || index === currentIndex}
+                                aria-current={index === currentIndex ? 'step' : undefined}
+                                title={index > currentIndex ? messages.format('ui.stepLocked') : undefined}
+                            >
+                                <span className="wizard-step-number" aria-hidden="true">
+                                    {index < currentIndex ? '✓' : index + 1}
+                                </span>
+                                {step.title}
+                            </button>
+                        </li>
+                    );
+                })}
+            </ol>
+        </nav>
+    );
+});
+
+export default WizardProgress;
@@ -0,0 +1,27 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - ASYNC VALIDATORS CONTEXT
+ * =============================================================================
+ * Supplies the registry of async validators (utils/asyncValidators.ts) to
+ * both domains: the builder lists the names, the runtime runs the checks.
+ *
+ * HARD CONSTRAINTS:
+ * - The registry is host app code; the schema only stores validator names
+ * - Without a provider the registry is empty and no async checks run
+ * =============================================================================
+ */
+
+import { createContext, useContext } from 'react';
+import type { AsyncValidatorRegistry } from '../utils/asyncValidators';
+
+/**
+ * Async Validators Context - do not use directly, use useAsyncValidators() hook
+ */
+export const AsyncValidatorsContext = createContext<AsyncValidatorRegistry>({});
+
+/**
+ * Custom hook to access the registered async validators
+ */
+export function useAsyncValidators(): AsyncValidatorRegistry {
+    return useContext(AsyncValidatorsContext);
+}
@@ -8,6 +8,7 @@
  * HARD CONSTRAINTS:
  * - NO state management libraries (Redux, Zustand)
  * - Uses useReducer with recursive reducer pattern
+ * - Every schema change goes through the history layer (undo/redo)
  * - Must reference types/schema.ts as Single Source of Truth
  * - Wrap consumers in React.memo for structural sharing benefits
  * =============================================================================
@@ -22,9 +23,50 @@ import {
     type ReactNode,
     type Dispatch,
 } from 'react';
-import type { Field, FieldType, FormSchema } from '../types/schema';
-import { builderReducer, type BuilderAction } from '../utils/recursiveReducer';
+import type {
+    Field,
+    FieldType,
+    FormLayout,
+    FormLocalization,
+    FormRule,
+    FormSchema,
+    FormTheme,
+    SubmissionTarget,
+} from '../types/schema';
+import { CURRENT_SCHEMA_VERSION } from '../types/schema';
+import type { BuilderAction } from '../utils/recursiveReducer';
+import { historyReducer, createHistoryState } from '../utils/historyReducer';
 import { generateId } from '../utils/idGenerator';
+import { slugifyName } from '../utils/fieldNames';
+import { validateSchema, type SchemaIssue } from '../utils/schemaValidation';
+import { fromJsonSchema, toJsonSchema, type SchemaFormat } from '../utils/jsonSchema';
+import { migrateSchema } from '../utils/schemaMigrations';
+import { collectRuleTargets } from '../utils/formRules';
+
+/**
+ * Result of importing a schema from JSON
+ */
+export type ImportResult =
+    | { success: true; migratedFrom: number | null; unsupported: SchemaIssue[] }
+    | { success: false; issues: SchemaIssue[] };
+
+/**
+ * Default labels of new choice fields
+ */
+const CHOICE_LABELS = {
+    select: 'New Dropdown',
+    radio: 'New Radio Group',
+    multiselect: 'New Multi-select',
+} as const;
+
+/**
+ * Default labels of new date/time fields
+ */
+const TEMPORAL_LABELS = {
+    date: 'New Date Field',
+    time: 'New Time Field',
+    datetime: 'New Date & Time Field',
+} as const;
 
 /**
  * Shape of the Builder Context value
@@ -42,16 +84,41 @@ interface BuilderContextValue {
     deleteField: (id: string) => void;
     /** Helper: Move a field up or down within its parent */
     moveField: (id: string, direction: 'up' | 'down') => void;
-    /** Helper: Import schema from JSON */
-    importSchema: (json: string) => boolean;
-    /** Helper: Export schema to JSON */
-    exportSchema: () => string;
+    /** Helper: Move a field to any parent (null = root) before the child at index */
+    moveFieldTo: (id: string, parentId: string | null, index: number) => void;
+    /** Helper: Add a form rule of the given type (fields are picked afterwards) */
+    addRule: (type: FormRule['type']) => void;
+    /** Helper: Update an existing form rule */
+    updateRule: (id: string, updates: Partial<FormRule>) => void;
+    /** Helper: Delete a form rule */
+    deleteRule: (id: string) => void;
+    /** Helper: Set or remove the endpoint submissions are sent to */
+    setSubmissionTarget: (target: SubmissionTarget | undefined) => void;
+    /** Helper: Show the form on one page or as a wizard */
+    setLayout: (layout: FormLayout) => void;
+    /** Helper: Set or remove the form's languages (drops translations of removed locales) */
+    setLocalization: (localization: FormLocalization | undefined) => void;
+    /** Helper: Set or remove the look of the runtime form */
+    setTheme: (theme: FormTheme | undefined) => void;
+    /** Helper: Import schema from JSON (validated before it reaches the reducer) */
+    importSchema: (json: string, format?: SchemaFormat) => ImportResult;
+    /** Helper: Export schema to JSON, as a form schema or a JSON Schema document */
+    exportSchema: (format?: SchemaFormat) => string;
+    /** Revert the last schema change */
+    undo: () => void;
+    /** Re-apply the last undone schema change */
+    redo: () => void;
+    /** Whether there is a step to undo */
+    canUndo: boolean;
+    /** Whether there is a step to redo */
+    canRedo: boolean;
 }
 
 /**
  * Initial empty schema
  */
 const initialSchema: FormSchema = {
+    version: CURRENT_SCHEMA_VERSION,
     fields: [],
 };
 
@@ -72,12 +139,25 @@ interface BuilderProviderProps {
 /**
  * Builder Context Provider
  * Manages the form schema (structure) state using useReducer
+ * wrapped in an undo/redo history
  */
 export function BuilderProvider({
     children,
     initialState = initialSchema,
 }: BuilderProviderProps) {
-    const [schema, dispatch] = useReducer(builderReducer, initialState);
+    const [history, dispatchHistory] = useReducer(historyReducer, initialState, createHistoryState);
+    const schema = history.present;
+
+    /**
+     * Dispatch a builder action as a recorded history step
+     * The timestamp lets the history merge rapid label edits
+     */
+    const dispatch = useCallback((action: BuilderAction) => {
+        dispatchHistory({
+            type: 'APPLY',
+            payload: { action, timestamp: Date.now() },
+        });
+    }, []);
 
     /**
      * Add a new field with default values based on type
@@ -94,6 +174,7 @@ export function BuilderProvider({
                         id,
                         type: 'text',
                         label: 'New Text Field',
+                        name: slugifyName('New Text Field'),
                         required: false,
                         placeholder: '',
                     };
@@ -103,6 +184,7 @@ export function BuilderProvider({
                         id,
                         type: 'number',
                         label: 'New Number Field',
+                        name: slugifyName('New Number Field'),
                         required: false,
                         placeholder: '',
                         min: undefined,
@@ -114,10 +196,60 @@ export function BuilderProvider({
                         id,
                         type: 'group',
                         label: 'New Group',
+                        name: slugifyName('New Group'),
                         required: false,
                         children: [],
                     };
                     break;
+                case 'select':
+                case 'radio':
+                case 'multiselect': {
+                    const label = CHOICE_LABELS[type];
+                    newField = {
+                        id,
+                        type,
+                        label,
+                        name: slugifyName(label),
+                        required: false,
+                        options: [
+                            { label: 'Option 1', value: 'option_1' },
+                            { label: 'Option 2', value: 'option_2' },
+                        ],
+                    };
+                    break;
+                }
+                case 'date':
+                case 'time':
+                case 'datetime': {
+                    const label = TEMPORAL_LABELS[type];
+                    newField = {
+                        id,
+                        type,
+                        label,
+                        name: slugifyName(label),
+                        required: false,
+                    };
+                    break;
+                }
+                case 'checkbox':
+                    newField = {
+                        id,
+                        type: 'checkbox',
+                        label: 'New Checkbox',
+                        name: slugifyName('New Checkbox'),
+                        required: false,
+                    };
+                    break;
+                case 'computed':
+                    newField = {
+                        id,
+                        type: 'computed',
+                        label: 'New Computed Field',
+                        name: slugifyName('New Computed Field'),
+                        required: false,
+                        expression: '0',
+                    };
+                    break;
                 default:
                     throw new Error(`Unknown field type: ${type}`);
             }
@@ -127,7 +259,7 @@ export function BuilderProvider({
                 payload: { parentId, field: newField },
             });
         },
-        []
+        [dispatch]
     );
 
     /**
@@ -138,7 +270,7 @@ export function BuilderProvider({
             type: 'UPDATE_FIELD',
             payload: { id, updates },
         });
-    }, []);
+    }, [dispatch]);
 
     /**
      * Delete a field by ID
@@ -148,7 +280,7 @@ export function BuilderProvider({
             type: 'DELETE_FIELD',
             payload: { id },
         });
-    }, []);
+    }, [dispatch]);
 
     /**
      * Move a field up or down within its parent
@@ -158,41 +290,191 @@ export function BuilderProvider({
             type: 'MOVE_FIELD',
             payload: { id, direction },
         });
-    }, []);
+    }, [dispatch]);
+
+    /**
+     * Move a field to another parent and/or position
+     */
+    const moveFieldTo = useCallback((id: string, parentId: string | null, index: number) => {
+        dispatch({
+            type: 'MOVE_FIELD_TO',
+            payload: { id, parentId, index },
+        });
+    }, [dispatch]);
+
+    /**
+     * Add a new form rule with default values based on type
+     * The rule starts on the first suitable fields; nothing is added when
+     * the form has too few of them
+     */
+    const addRule = useCallback((type: FormRule['type']) => {
+        const id = generateId();
+        const targets = collectRuleTargets(schema.fields);
+
+        let rule: FormRule;
+
+        switch (type) {
+            case 'compare':
+                if (targets.length < 2) {
+                    return;
+                }
+                rule = { id, type: 'compare', fieldId: targets[1].id, operator: 'greaterThan', otherFieldId: targets[0].id };
+                break;
+            case 'sum': {
+                const numbers = targets.filter((field) => field.type === 'number');
+                if (numbers.length === 0) {
+                    return;
+                }
+                rule = { id, type: 'sum', fieldIds: numbers.map((field) => field.id), operator: 'equals', value: 100 };
+                break;
+            }
+            case 'atLeast':
+                if (targets.length === 0) {
+                    return;
+                }
+                rule = { id, type: 'atLeast', fieldIds: targets.slice(0, 2).map((field) => field.id), count: 1 };
+                break;
+            default:
+                throw new Error(`Unknown rule type: ${type}`);
+        }
+
+        dispatch({
+            type: 'ADD_RULE',
+            payload: { rule },
+        });
+    }, [dispatch, schema.fields]);
+
+    /**
+     * Update a form rule's properties
+     */
+    const updateRule = useCallback((id: string, updates: Partial<FormRule>) => {
+        dispatch({
+            type: 'UPDATE_RULE',
+            payload: { id, updates },
+        });
+    }, [dispatch]);
+
+    /**
+     * Delete a form rule by ID
+     */
+    const deleteRule = useCallback((id: string) => {
+        dispatch({
+            type: 'DELETE_RULE',
+            payload: { id },
+        });
+    }, [dispatch]);
+
+    /**
+     * Set the submission target (undefined: submissions are only shown)
+     */
+    const setSubmissionTarget = useCallback((target: SubmissionTarget | undefined) => {
+        dispatch({
+            type: 'SET_SUBMISSION',
+            payload: { target },
+        });
+    }, [dispatch]);
+
+    /**
+     * Set the runtime layout (one page, or a step per top-level group)
+     */
+    const setLayout = useCallback((layout: FormLayout) => {
+        dispatch({
+            type: 'SET_LAYOUT',
+            payload: { layout },
+        });
+    }, [dispatch]);
+
+    /**
+     * Set the form's languages and message catalog (undefined: English only)
+     */
+    const setLocalization = useCallback((localization: FormLocalization | undefined) => {
+        dispatch({
+            type: 'SET_LOCALIZATION',
+            payload: { localization },
+        });
+    }, [dispatch]);
+
+    /**
+     * Set the theme of the runtime form (undefined: the built-in look)
+     */
+    const setTheme = useCallback((theme: FormTheme | undefined) => {
+        dispatch({
+            type: 'SET_THEME',
+            payload: { theme },
+        });
+    }, [dispatch]);
 
     /**
      * Import schema from JSON string
-     * Returns true if successful, false if parsing fails
+     * Older documents are migrated to the current version, then structurally
+     * validated; on failure every issue is returned with its path and the
+     * schema is left untouched
+     * JSON Schema documents are converted first; keywords that could not be
+     * represented are returned in `unsupported`
      */
-    const importSchema = useCallback((json: string): boolean => {
+    const importSchema = useCallback((json: string, format: SchemaFormat = 'form'): ImportResult => {
+        let parsed: unknown;
         try {
-            const parsed = JSON.parse(json) as FormSchema;
+            parsed = JSON.parse(json);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            return { success: false, issues: [{ path: '', message: `Invalid JSON: ${reason}` }] };
+        }
 
-            // Basic validation
-            if (!parsed || !Array.isArray(parsed.fields)) {
-                console.error('Invalid schema format: missing fields array');
-                return false;
+        if (format === 'jsonSchema') {
+            const converted = fromJsonSchema(parsed);
+            if (!converted.success) {
+                return { success: false, issues: converted.issues };
             }
-
             dispatch({
                 type: 'SET_SCHEMA',
-                payload: parsed,
+                payload: converted.schema,
             });
+            return { success: true, migratedFrom: null, unsupported: converted.unsupported };
+        }
 
-            return true;
-        } catch (error) {
-            console.error('Failed to parse JSON:', error);
-            return false;
+        const migration = migrateSchema(parsed);
+        if (!migration.success) {
+            return { success: false, issues: [{ path: 'version', message: migration.message }] };
         }
-    }, []);
+
+        const result = validateSchema(migration.document);
+        if (!result.valid) {
+            return { success: false, issues: result.issues };
+        }
+
+        dispatch({
+            type: 'SET_SCHEMA',
+            payload: result.schema,
+        });
+
+        const migratedFrom = migration.fromVersion < CURRENT_SCHEMA_VERSION ? migration.fromVersion : null;
+        return { success: true, migratedFrom, unsupported: [] };
+    }, [dispatch]);
 
     /**
      * Export current schema to JSON string
+     * Form schemas are always stamped with the current format version
      */
-    const exportSchema = useCallback((): string => {
-        return JSON.stringify(schema, null, 2);
+    const exportSchema = useCallback((format: SchemaFormat = 'form'): string => {
+        const document = format === 'jsonSchema' ? toJsonSchema(schema) : { ...schema, version: CURRENT_SCHEMA_VERSION };
+        return JSON.stringify(document, null, 2);
     }, [schema]);
 
+    /**
+     * Undo / redo the last schema change
+     */
+    const undo = useCallback(() => {
+        dispatchHistory({ type: 'UNDO' });
+    }, []);
+
+    const redo = useCallback(() => {
+        dispatchHistory({ type: 'REDO' });
+    }, []);
+
+    const canUndo = history.past.length > 0;
+    const canRedo = history.future.length > 0;
+
     /**
      * Memoized context value to prevent unnecessary re-renders
      */
@@ -204,10 +486,43 @@ export function BuilderProvider({
             updateField,
             deleteField,
             moveField,
+            moveFieldTo,
+            addRule,
+            updateRule,
+            deleteRule,
+            setSubmissionTarget,
+            setLayout,
+            setLocalization,
+            setTheme,
             importSchema,
             exportSchema,
+            undo,
+            redo,
+            canUndo,
+            canRedo,
         }),
-        [schema, addField, updateField, deleteField, moveField, importSchema, exportSchema]
+        [
+            schema,
+            dispatch,
+            addField,
+            updateField,
+            deleteField,
+            moveField,
+            moveFieldTo,
+            addRule,
+            updateRule,
+            deleteRule,
+            setSubmissionTarget,
+            setLayout,
+            setLocalization,
+            setTheme,
+            importSchema,
+            exportSchema,
+            undo,
+            redo,
+            canUndo,
+            canRedo,
+        ]
     );
 
     return (
@@ -0,0 +1,69 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - BUILDER DRAG CONTEXT (BUILDER DOMAIN, UI STATE)
+ * =============================================================================
+ * Shares the state of an in-progress drag (or keyboard move) between the
+ * recursive FormBuilderItem instances. Provided by FormBuilderSidebar.
+ *
+ * HARD CONSTRAINTS:
+ * - UI state only - the schema itself is changed through BuilderContext
+ * - NO drag-and-drop libraries, native HTML5 drag events only
+ * =============================================================================
+ */
+
+import { createContext, useContext, type RefObject } from 'react';
+
+/**
+ * Where a dragged field would land relative to the hovered field
+ * 'into' appends it to the hovered group's children
+ */
+export type DropPosition = 'before' | 'after' | 'into';
+
+/**
+ * The field currently hovered during a drag, and the drop position
+ */
+export interface DropTarget {
+    fieldId: string;
+    position: DropPosition;
+}
+
+/**
+ * Shape of the Builder Drag Context value
+ */
+export interface BuilderDragContextValue {
+    /** IDs of the dragged field and its whole subtree (null = no drag) */
+    draggedIds: ReadonlySet<string> | null;
+    /** Start dragging a field */
+    startDrag: (fieldId: string) => void;
+    /** End the current drag (dropped or cancelled) */
+    endDrag: () => void;
+    /** Current drop indicator (null = none shown) */
+    dropTarget: DropTarget | null;
+    /** Update the drop indicator */
+    setDropTarget: (target: DropTarget | null) => void;
+    /** Field whose drag handle should take focus once it (re)mounts */
+    pendingFocusRef: RefObject<string | null>;
+    /** Announce a move to screen reader users */
+    announce: (message: string) => void;
+    /** Show why a move was refused (null = clear it) */
+    reportMoveError: (message: string | null) => void;
+}
+
+/**
+ * Builder Drag Context - do not use directly, use useBuilderDrag() hook
+ */
+export const BuilderDragContext = createContext<BuilderDragContextValue | null>(null);
+
+/**
+ * Custom hook to access Builder Drag Context
+ * Throws if used outside of the sidebar that provides it
+ */
+export function useBuilderDrag(): BuilderDragContextValue {
+    const context = useContext(BuilderDragContext);
+
+    if (context === null) {
+        throw new Error('useBuilderDrag must be used within FormBuilderSidebar');
+    }
+
+    return context;
+}
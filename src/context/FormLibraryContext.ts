@@ -0,0 +1,45 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - FORM LIBRARY CONTEXT
+ * =============================================================================
+ * Tells the builder which library form is open and how to store it
+ * (supplied by FormWorkspace, see utils/formLibrary.ts).
+ *
+ * HARD CONSTRAINTS:
+ * - Without a provider the value is null: the builder works on an unsaved
+ *   form and hides the library controls
+ * - The callbacks are bound to the open form; a different form gets a new
+ *   value (and a freshly mounted builder)
+ * =============================================================================
+ */
+
+import { createContext, useContext } from 'react';
+import type { FormSchema } from '../types/schema';
+import type { DraftSaveResult } from '../utils/draftStorage';
+import type { FormSummary } from '../utils/formLibrary';
+
+/**
+ * Shape of the Form Library Context value
+ */
+export interface FormLibraryContextValue {
+    /** Metadata of the open form */
+    form: FormSummary;
+    /** Store the open form's schema (autosave) */
+    saveSchema: (schema: FormSchema) => DraftSaveResult;
+    /** Record that the open form's schema was exported */
+    markExported: (schema: FormSchema) => void;
+    /** Close the form and show the library */
+    closeForm: () => void;
+}
+
+/**
+ * Form Library Context - do not use directly, use useFormLibrary() hook
+ */
+export const FormLibraryContext = createContext<FormLibraryContextValue | null>(null);
+
+/**
+ * Custom hook to access the open library form (null outside a workspace)
+ */
+export function useFormLibrary(): FormLibraryContextValue | null {
+    return useContext(FormLibraryContext);
+}
@@ -0,0 +1,51 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - SUBMISSIONS CONTEXT
+ * =============================================================================
+ * Gives the runtime access to the submission outbox (utils/submissionQueue.ts)
+ * kept by SubmissionOutbox: queue a submission and follow its status.
+ *
+ * HARD CONSTRAINTS:
+ * - The outbox is app-wide; entries carry the ID of the form they came from
+ * - Without a provider nothing can be submitted (submit returns null)
+ * =============================================================================
+ */
+
+import { createContext, useContext } from 'react';
+import type { SubmissionTarget } from '../types/schema';
+import type { FlatFormData, NestedFormData } from '../utils/dataMerging';
+import type { QueuedSubmission } from '../utils/submissionQueue';
+
+/**
+ * Shape of the Submissions Context value
+ */
+export interface SubmissionsContextValue {
+    /** Every submission in the outbox, oldest first */
+    submissions: QueuedSubmission[];
+    /** Why the outbox cannot be stored, if it cannot */
+    storageMessage: string | null;
+    /** Queue data for a target; returns the submission ID */
+    submit: (formId: string | null, target: SubmissionTarget, data: FlatFormData | NestedFormData) => string | null;
+    /** Send a failed submission again */
+    retry: (id: string) => void;
+    /** Remove a submission from the outbox (it is no longer sent) */
+    dismiss: (id: string) => void;
+}
+
+/**
+ * Submissions Context - do not use directly, use useSubmissions() hook
+ */
+export const SubmissionsContext = createContext<SubmissionsContextValue>({
+    submissions: [],
+    storageMessage: null,
+    submit: () => null,
+    retry: () => {},
+    dismiss: () => {},
+});
+
+/**
+ * Custom hook to access the submission outbox
+ */
+export function useSubmissions(): SubmissionsContextValue {
+    return useContext(SubmissionsContext);
+}
@@ -0,0 +1,257 @@
+// @vitest-environment jsdom
+import { createElement, type ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { FormSchema } from '../types/schema';
+import type { FieldValue } from '../utils/dataMerging';
+import type { AsyncValidatorRegistry } from '../utils/asyncValidators';
+import { AsyncValidatorsContext } from './AsyncValidatorsContext';
+import { useForm, type UseFormOptions } from './useForm';
+
+const schema: FormSchema = {
+    version: 2,
+    fields: [
+        { id: 'u', type: 'text', name: 'username', label: 'Username', required: true, asyncValidator: 'unique' },
+        { id: 'n', type: 'text', name: 'note', label: 'Note', required: false },
+    ],
+    localization: { defaultLocale: 'en', locales: ['en', 'de'] },
+};
+
+/**
+ * Server checks that stay open until the test settles them
+ */
+let checks: { value: FieldValue; signal: AbortSignal; settle: (error: string | null) => void }[] = [];
+
+const registry: AsyncValidatorRegistry = {
+    unique: {
+        label: 'Unique',
+        validate: (value, { signal }) =>
+            new Promise((settle) => {
+                checks.push({ value, signal, settle });
+            }),
+    },
+};
+
+const wrapper = ({ children }: { children: ReactNode }) =>
+    createElement(AsyncValidatorsContext.Provider, { value: registry }, children);
+
+/**
+ * Renders useForm with the test registry
+ */
+function renderForm(options: UseFormOptions = {}, formSchema: FormSchema = schema) {
+    return renderHook((props: { schema: FormSchema; options: UseFormOptions }) => useForm(props.schema, props.options), {
+        initialProps: { schema: formSchema, options },
+        wrapper,
+    });
+}
+
+/**
+ * The latest server check that is still open
+ */
+async function openCheck() {
+    await waitFor(() => expect(checks.filter((check) => !check.signal.aborted)).not.toHaveLength(0));
+    return checks.filter((check) => !check.signal.aborted).at(-1)!;
+}
+
+afterEach(() => {
+    checks = [];
+});
+
+describe('useForm handleSubmit', () => {
+    it('hands over the values that were validated, not the ones typed during the check', async () => {
+        const { result } = renderForm();
+        const onValid = vi.fn();
+        act(() => {
+            result.current.setFieldValue('u', 'ada');
+            result.current.setFieldValue('n', 'first');
+        });
+
+        let submitted: Promise<void> = Promise.resolve();
+        act(() => {
+            submitted = result.current.handleSubmit(onValid)();
+        });
+        expect(result.current.isSubmitting).toBe(true);
+
+        const check = await openCheck();
+        act(() => result.current.setFieldValue('n', 'typed meanwhile'));
+        await act(async () => {
+            check.settle(null);
+            await submitted;
+        });
+
+        expect(onValid).toHaveBeenCalledTimes(1);
+        expect(onValid).toHaveBeenCalledWith({ username: 'ada', note: 'first' });
+        expect(result.current.isSubmitting).toBe(false);
+    });
+
+    it('does not submit a value that changed while it was being checked', async () => {
+        const { result } = renderForm();
+        const onValid = vi.fn();
+        act(() => result.current.setFieldValue('u', 'ada'));
+
+        let submitted: Promise<void> = Promise.resolve();
+        act(() => {
+            submitted = result.current.handleSubmit(onValid)();
+        });
+        const check = await openCheck();
+        act(() => result.current.setFieldValue('u', 'grace'));
+        await act(async () => {
+            check.settle(null);
+            await submitted;
+        });
+
+        expect(check.signal.aborted).toBe(true);
+        expect(onValid).not.toHaveBeenCalled();
+    });
+
+    it('reports failed server checks to onInvalid', async () => {
+        const { result } = renderForm();
+        const onValid = vi.fn();
+        const onInvalid = vi.fn();
+        act(() => result.current.setFieldValue('u', 'taken'));
+
+        let submitted: Promise<void> = Promise.resolve();
+        act(() => {
+            submitted = result.current.handleSubmit(onValid, onInvalid)();
+        });
+        const check = await openCheck();
+        await act(async () => {
+            check.settle('Username is taken');
+            await submitted;
+        });
+
+        expect(onValid).not.toHaveBeenCalled();
+        expect(onInvalid).toHaveBeenCalledWith(
+            { errors: { u: 'Username is taken' }, formErrors: [] },
+            { username: 'taken', note: '' }
+        );
+        expect(result.current.errors.u).toBe('Username is taken');
+    });
+
+    it('catches a failing handler and keeps the reason in submitError', async () => {
+        const { result } = renderForm();
+        act(() => result.current.setFieldValue('u', 'ada'));
+
+        let submitted: Promise<void> = Promise.resolve();
+        act(() => {
+            submitted = result.current.handleSubmit(() => Promise.reject(new Error('Server down')))();
+        });
+        const check = await openCheck();
+        await act(async () => {
+            check.settle(null);
+            await submitted;
+        });
+
+        expect(result.current.submitError).toBe('Server down');
+        expect(result.current.isSubmitting).toBe(false);
+
+        // The next submit starts without the old error
+        act(() => {
+            submitted = result.current.handleSubmit(() => undefined)();
+        });
+        expect(result.current.submitError).toBeNull();
+        await act(async () => {
+            await submitted;
+        });
+    });
+
+    it('drops a submit when the form is reset during its checks', async () => {
+        const { result } = renderForm();
+        const onValid = vi.fn();
+        const onInvalid = vi.fn();
+        act(() => result.current.setFieldValue('u', 'ada'));
+
+        let submitted: Promise<void> = Promise.resolve();
+        act(() => {
+            submitted = result.current.handleSubmit(onValid, onInvalid)();
+        });
+        const check = await openCheck();
+        act(() => result.current.resetForm());
+        await act(async () => {
+            check.settle(null);
+            await submitted;
+        });
+
+        expect(onValid).not.toHaveBeenCalled();
+        expect(onInvalid).not.toHaveBeenCalled();
+        expect(result.current.isSubmitting).toBe(false);
+        expect(result.current.formData.u).toBe('');
+    });
+
+    it('ignores a second submit while one is running', async () => {
+        const { result } = renderForm();
+        const onValid = vi.fn();
+        act(() => result.current.setFieldValue('u', 'ada'));
+
+        let submitted: Promise<void> = Promise.resolve();
+        act(() => {
+            submitted = result.current.handleSubmit(onValid)();
+        });
+        const check = await openCheck();
+        await act(async () => {
+            await result.current.handleSubmit(onValid)();
+        });
+        await act(async () => {
+            check.settle(null);
+            await submitted;
+        });
+
+        expect(onValid).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('useForm async checks', () => {
+    it('checks a typed value once typing pauses and cancels the outdated check', async () => {
+        const { result } = renderForm();
+        act(() => result.current.setFieldValue('u', 'ad'));
+        const first = await openCheck();
+        expect(first.value).toBe('ad');
+
+        act(() => result.current.setFieldValue('u', 'ada'));
+        expect(first.signal.aborted).toBe(true);
+        const second = await openCheck();
+        expect(second.value).toBe('ada');
+
+        // A late answer for the old value is ignored
+        await act(async () => {
+            first.settle('Username is taken');
+            second.settle(null);
+        });
+        await waitFor(() => expect(result.current.validating.size).toBe(0));
+        expect(result.current.errors.u).toBeUndefined();
+    });
+});
+
+describe('useForm onChange', () => {
+    it('reports changed values, not schema, locale or shape changes', () => {
+        const onChange = vi.fn();
+        const { result, rerender } = renderForm({ onChange });
+        expect(onChange).not.toHaveBeenCalled();
+
+        act(() => result.current.setFieldValue('n', 'hello'));
+        expect(onChange).toHaveBeenCalledTimes(1);
+        expect(onChange).toHaveBeenLastCalledWith({ username: '', note: 'hello' });
+
+        rerender({ schema: { ...schema, fields: [...schema.fields] }, options: { onChange } });
+        rerender({ schema, options: { onChange, shape: 'flat' } });
+        act(() => result.current.setLocale('de'));
+        expect(onChange).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('useForm locale option', () => {
+    it('follows a new locale option, replacing the one picked meanwhile', () => {
+        const { result, rerender } = renderForm({ locale: 'en' });
+        expect(result.current.locale).toBe('en');
+
+        act(() => result.current.setLocale('de'));
+        expect(result.current.locale).toBe('de');
+
+        rerender({ schema, options: { locale: 'en' } });
+        expect(result.current.locale).toBe('de');
+
+        rerender({ schema, options: { locale: 'de' } });
+        rerender({ schema, options: { locale: 'en' } });
+        expect(result.current.locale).toBe('en');
+    });
+});
@@ -0,0 +1,893 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - USE FORM (RUNTIME DOMAIN)
+ * =============================================================================
+ * Headless runtime of one form: the USER INPUT DATA entered for a schema,
+ * its validation, and submitting it. Takes the schema as an argument, so
+ * a saved form runs without the Builder Domain:
+ *
+ *   const form = useForm(schema);
+ *   <form onSubmit={form.handleSubmit(send)}> … </form>
+ *
+ * FormRuntimeProvider (context/FormRuntimeContext.tsx) shares the result
+ * with FieldRenderer and the other runtime components.
+ *
+ * HARD CONSTRAINTS:
+ * - NO form libraries (React Hook Form, Formik)
+ * - Uses "Intelligent Merging" when schema changes
+ * - Must sync with schema changes without losing user input
+ * - A new schema object with the same fields changes nothing (no render
+ *   loop for a schema rebuilt on every render); new fields clear the errors
+ * - Validation runs against the schema passed in
+ * - Form rules report on the fields involved AND as form-level errors
+ * - Async checks run in the background as values change; a newer value
+ *   cancels the check of the older one, and validateFormAsync waits for
+ *   the checks still in progress
+ * - validateFieldsAsync checks one subtree only (a wizard step); form rules
+ *   are checked by validateForm / validateFormAsync
+ * - Instances of repeatable groups are runtime state: values are stored
+ *   under scoped keys (utils/formScope.ts), the schema holds no instances
+ * - Values of computed fields are derived from the entered values on every
+ *   change (utils/computedFields.ts) and never set directly
+ * - Labels, error messages and interface texts follow the selected locale
+ *   (utils/localization.ts); switching it translates the errors on screen
+ *   without validating fields that show none
+ * - A field is touched once it loses focus; submitting touches every
+ *   visible field, resetting clears them all
+ * - handleSubmit submits the values it validated, also when they change
+ *   while the checks run; a reset meanwhile drops the submit, and a failing
+ *   handler is reported (submitError), never thrown
+ * - onChange reports values changed by the user (setFieldValue(s), adding,
+ *   removing or moving instances), never the initial ones, and not schema,
+ *   locale or shape changes
+ * =============================================================================
+ */
+
+import { useState, useCallback, useMemo, useEffect, useRef, type FormEvent } from 'react';
+import {
+    type FieldValue,
+    type FlatFormData,
+    type NestedFormData,
+    type SubmissionShape,
+    createInitialFormData,
+    mergeFormData,
+    omitHiddenFields,
+    toNestedFormData,
+    validateFormData,
+} from '../utils/dataMerging';
+import { getHiddenFieldIds, isEmptyValue } from '../utils/conditions';
+import { validateFormRules } from '../utils/formRules';
+import { applyComputedValues } from '../utils/computedFields';
+import {
+    ASYNC_VALIDATION_DELAY_MS,
+    collectAsyncFields,
+    delay,
+    getAsyncValidator,
+    type AsyncValidatedField,
+} from '../utils/asyncValidators';
+import {
+    collectValueKeys,
+    generateInstanceId,
+    instanceScope,
+    mergeInstances,
+    valueKey,
+    type RepeatInstances,
+} from '../utils/formScope';
+import { getFormMessages, localizeSchema, resolveLocale } from '../utils/localization';
+import type { Messages } from '../utils/messages';
+import type { Field, FormSchema } from '../types/schema';
+import { useAsyncValidators } from './AsyncValidatorsContext';
+
+/**
+ * Called with the data of a valid form, in the submission shape
+ * The form counts as submitting until a returned promise settles
+ */
+export type SubmitHandler = (data: FlatFormData | NestedFormData) => void | Promise<void>;
+
+/**
+ * Called when a submit finds errors, with the errors then on screen and
+ * the data as it would have been submitted
+ */
+export type InvalidHandler = (errors: FormValidationErrors, data: FlatFormData | NestedFormData) => void;
+
+/**
+ * Errors found by a full validation
+ */
+export interface FormValidationErrors {
+    /** Errors by value key */
+    errors: Record<string, string>;
+    /** Messages of failing form rules */
+    formErrors: string[];
+}
+
+/**
+ * Options of useForm
+ */
+export interface UseFormOptions {
+    /** Locale shown (default: the form's default locale); changing it switches the form over */
+    locale?: string;
+    /** Shape of submitted data (default: the submission target's, else 'nested') */
+    shape?: SubmissionShape;
+    /** Called with the data, in the submission shape, after the user changes a value */
+    onChange?: (data: FlatFormData | NestedFormData) => void;
+}
+
+/**
+ * State and actions of a running form (returned by useForm, shared by
+ * FormRuntimeProvider)
+ */
+export interface FormRuntime {
+    /** Current form data (user input values) */
+    formData: FlatFormData;
+    /** Validation errors by field ID */
+    errors: Record<string, string>;
+    /** Messages of failing form rules (errors that span several fields) */
+    formErrors: string[];
+    /** Whether the form has been touched/modified */
+    isDirty: boolean;
+    /** Value keys of fields that have lost focus since the last reset */
+    touched: ReadonlySet<string>;
+    /** Mark a field as touched */
+    touchField: (key: string) => void;
+    /** Whether handleSubmit is validating or waiting for its handler */
+    isSubmitting: boolean;
+    /** Why the last submit handler failed (it threw or rejected), until the next submit or reset */
+    submitError: string | null;
+    /**
+     * Submit handler for a <form>: validates everything (waiting for async
+     * checks), then calls onValid with the data or onInvalid with the errors
+     */
+    handleSubmit: (onValid: SubmitHandler, onInvalid?: InvalidHandler) => (event?: FormEvent) => Promise<void>;
+    /** Value keys of fields currently hidden by their visibility rules */
+    hiddenFields: ReadonlySet<string>;
+    /** Value keys of fields whose async check is in progress */
+    validating: ReadonlySet<string>;
+    /** Locale the form is shown in */
+    locale: string;
+    /** Show the form in another of its locales (unknown ones: the default) */
+    setLocale: (locale: string) => void;
+    /** Fields with the texts of the current locale, for rendering */
+    localizedFields: Field[];
+    /** Message catalog of the current locale, for validation and interface texts */
+    messages: Messages;
+    /** Ordered instance IDs of every repeatable group, by the group's value key */
+    instances: RepeatInstances;
+    /** Append an instance to a repeatable group */
+    addInstance: (scope: string, groupId: string) => void;
+    /** Remove one instance (and its values) from a repeatable group */
+    removeInstance: (scope: string, groupId: string, instanceId: string) => void;
+    /** Move an instance one position up (-1) or down (1) */
+    moveInstance: (scope: string, groupId: string, instanceId: string, direction: -1 | 1) => void;
+    /** Set a single field's value */
+    setFieldValue: (id: string, value: FieldValue) => void;
+    /** Set multiple field values at once */
+    setFieldValues: (values: FlatFormData) => void;
+    /** Reset form to initial state based on current schema */
+    resetForm: () => void;
+    /** Validate all fields and return true if valid (async checks that have not settled are not awaited) */
+    validateForm: () => boolean;
+    /** Validate all fields, waiting for async checks; resolves to true if valid */
+    validateFormAsync: () => Promise<boolean>;
+    /** Validate only the given fields and their children, waiting for their async checks */
+    validateFieldsAsync: (fields: Field[]) => Promise<boolean>;
+    /** Get the current form data as a clean object (hidden fields omitted) */
+    getFormData: () => FlatFormData;
+    /** Get the current form data in the requested submission shape */
+    getSubmissionData: (shape: SubmissionShape) => FlatFormData | NestedFormData;
+}
+
+/**
+ * Values and repeatable group instances, updated together so that data
+ * keys always match the instance lists
+ */
+interface RuntimeState {
+    data: FlatFormData;
+    instances: RepeatInstances;
+}
+
+/**
+ * Texts validation messages are built from: the schema with the labels of
+ * a locale, and the locale's messages
+ */
+interface RuntimeTexts {
+    schema: FormSchema;
+    messages: Messages;
+}
+
+/**
+ * Texts of a schema in a locale
+ */
+function getRuntimeTexts(schema: FormSchema, locale: string): RuntimeTexts {
+    return { schema: localizeSchema(schema, locale), messages: getFormMessages(schema, locale) };
+}
+
+/**
+ * An async check in progress
+ */
+interface PendingCheck {
+    /** Serialized value the check was started for */
+    value: string;
+    controller: AbortController;
+    /** Resolves to the error (null = valid), or undefined if cancelled */
+    promise: Promise<string | null | undefined>;
+}
+
+/**
+ * Serializes a value for matching check results with the current value
+ */
+function serializeValue(value: FieldValue | undefined): string {
+    return JSON.stringify(value ?? '');
+}
+
+/**
+ * Builds the initial runtime state for a list of fields
+ */
+function createRuntimeState(fields: Field[]): RuntimeState {
+    const instances = mergeInstances({}, fields);
+    return { data: createInitialFormData(fields, instances), instances };
+}
+
+/**
+ * Runs a form for a schema: values, validation, touched fields and submit
+ * Schema changes keep the values of fields that still exist
+ *
+ * Pass a stable schema (state, a constant or useMemo), not one built during
+ * render: every new fields array clears the errors on screen and cancels
+ * the async checks in progress.
+ */
+export function useForm(schema: FormSchema, options: UseFormOptions = {}): FormRuntime {
+    // Form data and repeatable group instances
+    const [state, setState] = useState<RuntimeState>(() => createRuntimeState(schema.fields));
+    const { instances } = state;
+
+    // Entered values plus the values of computed fields
+    const formData = useMemo(
+        () => applyComputedValues(state.data, schema.fields, instances),
+        [state.data, schema.fields, instances]
+    );
+
+    // Locale: the one asked for if the form has it, otherwise the default
+    // A new options.locale (e.g. the element's locale attribute) replaces
+    // the one picked in the switcher
+    const [requestedLocale, setRequestedLocale] = useState<string | null>(options.locale ?? null);
+    const [optionsLocale, setOptionsLocale] = useState(options.locale);
+    if (options.locale !== optionsLocale) {
+        setOptionsLocale(options.locale);
+        setRequestedLocale(options.locale ?? null);
+    }
+    const locale = resolveLocale(schema.localization, requestedLocale);
+    const texts = useMemo(() => getRuntimeTexts(schema, locale), [schema, locale]);
+
+    // Validation errors
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [formErrors, setFormErrors] = useState<string[]>([]);
+
+    // Track if form has been modified, and which fields have lost focus
+    const [isDirty, setIsDirty] = useState(false);
+    // Value changes made through the actions, reported to options.onChange
+    const [changeCount, setChangeCount] = useState(0);
+    const [touched, setTouched] = useState<ReadonlySet<string>>(() => new Set());
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [submitError, setSubmitError] = useState<string | null>(null);
+
+    // Async checks: registry, keys in progress, and checks by value key
+    const asyncValidators = useAsyncValidators();
+    const [validating, setValidating] = useState<ReadonlySet<string>>(() => new Set());
+    const pendingChecksRef = useRef(new Map<string, PendingCheck>());
+    const settledChecksRef = useRef(new Map<string, { value: string; error: string | null }>());
+
+    // Latest schema and state, read by checks when their delay has passed
+    const latestRef = useRef({ schema, state, texts });
+    useEffect(() => {
+        latestRef.current = { schema, state, texts };
+    });
+
+    /**
+     * Fields with an async validator, by value key
+     */
+    const asyncFields = useMemo(
+        () => collectAsyncFields(schema.fields, instances),
+        [schema.fields, instances]
+    );
+
+    /**
+     * Cancel async checks (and forget their results) for matching keys
+     */
+    const cancelChecks = useCallback((matches: (key: string) => boolean) => {
+        for (const [key, check] of pendingChecksRef.current) {
+            if (matches(key)) {
+                check.controller.abort();
+                pendingChecksRef.current.delete(key);
+            }
+        }
+        for (const key of settledChecksRef.current.keys()) {
+            if (matches(key)) {
+                settledChecksRef.current.delete(key);
+            }
+        }
+        setValidating((prev) => {
+            const keys = [...prev].filter(matches);
+            if (keys.length === 0) {
+                return prev;
+            }
+            const next = new Set(prev);
+            for (const key of keys) {
+                next.delete(key);
+            }
+            return next;
+        });
+    }, []);
+
+    /**
+     * Mark a key as (no longer) being checked
+     */
+    const setKeyValidating = useCallback((key: string, isValidating: boolean) => {
+        setValidating((prev) => {
+            if (prev.has(key) === isValidating) {
+                return prev;
+            }
+            const next = new Set(prev);
+            if (isValidating) {
+                next.add(key);
+            } else {
+                next.delete(key);
+            }
+            return next;
+        });
+    }, []);
+
+    /**
+     * Run the async check of one field for a value after a delay
+     * A check for an unchanged value reuses the result or the check in
+     * progress; otherwise the older check of the key is cancelled
+     * Resolves to the error (null = valid), or undefined if cancelled
+     */
+    const startCheck = useCallback(
+        (key: string, field: AsyncValidatedField, value: FieldValue, delayMs: number) => {
+            const serialized = serializeValue(value);
+            const pending = pendingChecksRef.current.get(key);
+            if (pending?.value === serialized) {
+                return pending.promise;
+            }
+            const settled = settledChecksRef.current.get(key);
+            if (settled?.value === serialized) {
+                return Promise.resolve(settled.error);
+            }
+
+            pending?.controller.abort();
+            pendingChecksRef.current.delete(key);
+
+            const definition = getAsyncValidator(asyncValidators, field.asyncValidator);
+            if (!definition || isEmptyValue(value)) {
+                setKeyValidating(key, false);
+                return Promise.resolve(null);
+            }
+
+            const controller = new AbortController();
+            const { signal } = controller;
+            // Set when the value fails a synchronous check and is not sent
+            let isSkipped = false;
+
+            const run = async (): Promise<string | null | undefined> => {
+                try {
+                    await delay(delayMs, signal);
+                    const { schema: current, state: latest, texts: currentTexts } = latestRef.current;
+                    const data = applyComputedValues(latest.data, current.fields, latest.instances);
+                    if (validateFormData(data, current.fields, latest.instances)[key]) {
+                        isSkipped = true;
+                        return null;
+                    }
+                    const error = await definition.validate(value, {
+                        signal,
+                        field,
+                        data,
+                        locale: currentTexts.messages.locale,
+                    });
+                    return signal.aborted ? undefined : error;
+                } catch {
+                    return signal.aborted ? undefined : latestRef.current.texts.messages.format('check.failed');
+                }
+            };
+
+            const promise = run().then((error) => {
+                // A newer check (or a reset) has taken over this key
+                if (pendingChecksRef.current.get(key)?.controller !== controller) {
+                    return undefined;
+                }
+                pendingChecksRef.current.delete(key);
+                setKeyValidating(key, false);
+
+                if (error !== undefined && !isSkipped) {
+                    settledChecksRef.current.set(key, { value: serialized, error });
+                }
+                if (error) {
+                    setErrors((prev) => (prev[key] ? prev : { ...prev, [key]: error }));
+                }
+                return error;
+            });
+
+            pendingChecksRef.current.set(key, { value: serialized, controller, promise });
+            setKeyValidating(key, true);
+            return promise;
+        },
+        [asyncValidators, setKeyValidating]
+    );
+
+    /**
+     * Cancel every check when the provider unmounts
+     */
+    useEffect(() => {
+        const pendingChecks = pendingChecksRef.current;
+        return () => {
+            for (const check of pendingChecks.values()) {
+                check.controller.abort();
+            }
+        };
+    }, []);
+
+    /**
+     * Intelligent Merging: When schema changes, preserve existing user input
+     * for fields that still exist, initialize new fields, remove obsolete ones
+     * A new schema object with the same fields keeps the state and the errors
+     * on screen
+     */
+    const mergedFieldsRef = useRef(schema.fields);
+    useEffect(() => {
+        setState((current) => {
+            const nextInstances = mergeInstances(current.instances, schema.fields);
+            const nextData = mergeFormData(current.data, schema, nextInstances);
+            return nextInstances === current.instances && nextData === current.data
+                ? current
+                : { data: nextData, instances: nextInstances };
+        });
+        if (schema.fields === mergedFieldsRef.current) {
+            return;
+        }
+        mergedFieldsRef.current = schema.fields;
+        // Re-validate after schema change
+        setErrors((current) => (Object.keys(current).length === 0 ? current : {}));
+        setFormErrors((current) => (current.length === 0 ? current : []));
+        cancelChecks(() => true);
+    }, [schema, cancelChecks]);
+
+    /**
+     * Fields hidden by visibility rules for the current data
+     */
+    const hiddenFields = useMemo(
+        () => getHiddenFieldIds(schema.fields, formData, instances),
+        [schema.fields, formData, instances]
+    );
+
+    /**
+     * Replace the instance list of one repeatable group
+     * Nested instance lists and values are reconciled with the schema, so
+     * values of removed instances are dropped and new instances start empty
+     */
+    const updateInstances = useCallback(
+        (scope: string, groupId: string, update: (ids: string[]) => string[]) => {
+            setState((current) => {
+                const key = valueKey(scope, groupId);
+                const nextInstances = mergeInstances(
+                    { ...current.instances, [key]: update(current.instances[key] ?? []) },
+                    schema.fields
+                );
+                return { data: mergeFormData(current.data, schema, nextInstances), instances: nextInstances };
+            });
+            setIsDirty(true);
+            setChangeCount((count) => count + 1);
+        },
+        [schema]
+    );
+
+    /**
+     * Append an instance to a repeatable group
+     */
+    const addInstance = useCallback(
+        (scope: string, groupId: string) => {
+            updateInstances(scope, groupId, (ids) => [...ids, generateInstanceId()]);
+            // The instance count may be valid again
+            setErrors((prev) => {
+                const key = valueKey(scope, groupId);
+                if (!prev[key]) {
+                    return prev;
+                }
+                const next = { ...prev };
+                delete next[key];
+                return next;
+            });
+        },
+        [updateInstances]
+    );
+
+    /**
+     * Remove one instance from a repeatable group, clearing its errors
+     */
+    const removeInstance = useCallback(
+        (scope: string, groupId: string, instanceId: string) => {
+            updateInstances(scope, groupId, (ids) => ids.filter((id) => id !== instanceId));
+            cancelChecks((key) => key.startsWith(instanceScope(scope, groupId, instanceId)));
+            setErrors((prev) => {
+                const prefix = instanceScope(scope, groupId, instanceId);
+                const countKey = valueKey(scope, groupId);
+                const keys = Object.keys(prev).filter((key) => key.startsWith(prefix) || key === countKey);
+                if (keys.length === 0) {
+                    return prev;
+                }
+                const next = { ...prev };
+                for (const key of keys) {
+                    delete next[key];
+                }
+                return next;
+            });
+        },
+        [updateInstances, cancelChecks]
+    );
+
+    /**
+     * Move an instance one position up or down
+     */
+    const moveInstance = useCallback(
+        (scope: string, groupId: string, instanceId: string, direction: -1 | 1) => {
+            updateInstances(scope, groupId, (ids) => {
+                const from = ids.indexOf(instanceId);
+                const to = from + direction;
+                if (from === -1 || to < 0 || to >= ids.length) {
+                    return ids;
+                }
+                const next = [...ids];
+                next.splice(from, 1);
+                next.splice(to, 0, instanceId);
+                return next;
+            });
+        },
+        [updateInstances]
+    );
+
+    /**
+     * Set a single field's value
+     */
+    const setFieldValue = useCallback((id: string, value: FieldValue) => {
+        setState((prev) => ({
+            ...prev,
+            data: { ...prev.data, [id]: value },
+        }));
+        setIsDirty(true);
+        setChangeCount((count) => count + 1);
+        // Clear error for this field when user types
+        setErrors((prev) => {
+            if (prev[id]) {
+                const next = { ...prev };
+                delete next[id];
+                return next;
+            }
+            return prev;
+        });
+        // Check the new value once typing pauses
+        const asyncField = asyncFields.get(id);
+        if (asyncField) {
+            startCheck(id, asyncField, value, ASYNC_VALIDATION_DELAY_MS);
+        }
+    }, [asyncFields, startCheck]);
+
+    /**
+     * Set multiple field values at once
+     */
+    const setFieldValues = useCallback((values: FlatFormData) => {
+        setState((prev) => ({
+            ...prev,
+            data: { ...prev.data, ...values },
+        }));
+        setIsDirty(true);
+        setChangeCount((count) => count + 1);
+        for (const [key, value] of Object.entries(values)) {
+            const asyncField = asyncFields.get(key);
+            if (asyncField) {
+                startCheck(key, asyncField, value, ASYNC_VALIDATION_DELAY_MS);
+            }
+        }
+    }, [asyncFields, startCheck]);
+
+    /**
+     * Mark a field as touched (it lost focus)
+     */
+    const touchField = useCallback((key: string) => {
+        setTouched((prev) => (prev.has(key) ? prev : new Set(prev).add(key)));
+    }, []);
+
+    // Bumped on reset so that a submit still waiting on checks is dropped
+    const submitRunRef = useRef(0);
+
+    /**
+     * Reset form to initial state based on current schema
+     */
+    const resetForm = useCallback(() => {
+        submitRunRef.current++;
+        setState(createRuntimeState(schema.fields));
+        setErrors({});
+        setFormErrors([]);
+        setIsDirty(false);
+        setTouched(new Set());
+        setIsSubmitting(false);
+        setSubmitError(null);
+        cancelChecks(() => true);
+    }, [schema, cancelChecks]);
+
+    /**
+     * Collect the errors of all fields, including settled async checks of
+     * the current values, in the current locale unless other texts are given
+     */
+    const collectFieldErrors = useCallback((errorTexts: RuntimeTexts = texts) => {
+        const ownErrors = validateFormData(
+            formData,
+            errorTexts.schema.fields,
+            instances,
+            new Date(),
+            errorTexts.messages
+        );
+
+        for (const key of asyncFields.keys()) {
+            const settled = settledChecksRef.current.get(key);
+            if (
+                !ownErrors[key] &&
+                !hiddenFields.has(key) &&
+                settled?.error &&
+                settled.value === serializeValue(formData[key])
+            ) {
+                ownErrors[key] = settled.error;
+            }
+        }
+
+        return ownErrors;
+    }, [asyncFields, formData, hiddenFields, instances, texts]);
+
+    /**
+     * Collect the errors of all fields and form rules
+     * A field's own errors take precedence over a rule message
+     */
+    const collectErrors = useCallback((errorTexts: RuntimeTexts = texts) => {
+        const ruleResult = validateFormRules(errorTexts.schema, formData, instances, errorTexts.messages);
+        const ownErrors = collectFieldErrors(errorTexts);
+        return { fieldErrors: { ...ruleResult.fieldErrors, ...ownErrors }, formErrors: ruleResult.formErrors };
+    }, [collectFieldErrors, formData, instances, texts]);
+
+    /**
+     * Switch the locale, translating the errors currently shown
+     * Messages returned by async validators are kept as they are
+     */
+    const setLocale = useCallback((requested: string) => {
+        setRequestedLocale(requested);
+        const nextLocale = resolveLocale(schema.localization, requested);
+        if (nextLocale === locale) {
+            return;
+        }
+
+        const { fieldErrors, formErrors: ruleErrors } = collectErrors(getRuntimeTexts(schema, nextLocale));
+        setErrors((prev) =>
+            Object.fromEntries(Object.entries(prev).map(([key, error]) => [key, fieldErrors[key] ?? error]))
+        );
+        setFormErrors((prev) => (prev.length === 0 ? prev : ruleErrors));
+    }, [collectErrors, locale, schema]);
+
+    /**
+     * Validate all fields and form rules, and update errors state
+     * Returns true if form is valid, false otherwise
+     */
+    const validateForm = useCallback((): boolean => {
+        const { fieldErrors, formErrors: ruleErrors } = collectErrors();
+        setErrors(fieldErrors);
+        setFormErrors(ruleErrors);
+        return Object.keys(fieldErrors).length === 0 && ruleErrors.length === 0;
+    }, [collectErrors]);
+
+    /**
+     * Validate like validateForm, then run (or wait for) the async check of
+     * every visible field that passed the other checks
+     * Not valid if a check was cancelled by a newer value meanwhile
+     */
+    const runFormValidation = useCallback(async (): Promise<FormValidationErrors & { isValid: boolean }> => {
+        const { fieldErrors, formErrors: ruleErrors } = collectErrors();
+        setErrors(fieldErrors);
+        setFormErrors(ruleErrors);
+
+        const checked = [...asyncFields].filter(([key]) => !hiddenFields.has(key) && !fieldErrors[key]);
+        const results = await Promise.all(
+            checked.map(([key, field]) => startCheck(key, field, formData[key] ?? '', 0))
+        );
+
+        const allErrors = { ...fieldErrors };
+        results.forEach((error, index) => {
+            if (error) {
+                allErrors[checked[index][0]] = error;
+            }
+        });
+        return {
+            isValid:
+                Object.keys(fieldErrors).length === 0 &&
+                ruleErrors.length === 0 &&
+                results.every((error) => error === null),
+            errors: allErrors,
+            formErrors: ruleErrors,
+        };
+    }, [asyncFields, collectErrors, formData, hiddenFields, startCheck]);
+
+    /**
+     * Validate all fields, waiting for async checks; resolves to true if valid
+     */
+    const validateFormAsync = useCallback(
+        async (): Promise<boolean> => (await runFormValidation()).isValid,
+        [runFormValidation]
+    );
+
+    /**
+     * Validate the fields of a subtree (e.g. a wizard step), waiting for
+     * their async checks; errors of other fields and form rules are left
+     * as they are
+     */
+    const validateFieldsAsync = useCallback(async (fields: Field[]): Promise<boolean> => {
+        const keys = collectValueKeys(fields, instances);
+        const fieldErrors = Object.fromEntries(
+            Object.entries(collectFieldErrors()).filter(([key]) => keys.has(key))
+        );
+        setErrors((prev) => {
+            const next = Object.fromEntries(Object.entries(prev).filter(([key]) => !keys.has(key)));
+            return { ...next, ...fieldErrors };
+        });
+
+        const checks = [...asyncFields]
+            .filter(([key]) => keys.has(key) && !hiddenFields.has(key) && !fieldErrors[key])
+            .map(([key, field]) => startCheck(key, field, formData[key] ?? '', 0));
+        const results = await Promise.all(checks);
+
+        return Object.keys(fieldErrors).length === 0 && results.every((error) => error === null);
+    }, [asyncFields, collectFieldErrors, formData, hiddenFields, instances, startCheck]);
+
+    /**
+     * Get the current form data (for submission)
+     * Values of hidden fields are left out
+     */
+    const getFormData = useCallback((): FlatFormData => {
+        return omitHiddenFields(formData, schema.fields, instances);
+    }, [formData, instances, schema.fields]);
+
+    /**
+     * Get the current form data shaped for submission/export
+     */
+    const getSubmissionData = useCallback(
+        (shape: SubmissionShape): FlatFormData | NestedFormData => {
+            return shape === 'nested'
+                ? toNestedFormData(formData, schema.fields, instances)
+                : omitHiddenFields(formData, schema.fields, instances);
+        },
+        [formData, instances, schema.fields]
+    );
+
+    const submitShape = options.shape ?? schema.submission?.shape ?? 'nested';
+
+    // Report values changed by the user, once the change is rendered; new
+    // schemas, locales or shapes are not changes of the values
+    const reportChangeRef = useRef(() => {});
+    useEffect(() => {
+        reportChangeRef.current = () => options.onChange?.(getSubmissionData(submitShape));
+    });
+    useEffect(() => {
+        if (changeCount > 0) {
+            reportChangeRef.current();
+        }
+    }, [changeCount]);
+
+    /**
+     * Build a <form> submit handler: touch every visible field, validate,
+     * then hand the data or the errors over
+     * The data handed over is the data validated, even if values change
+     * while async checks run. A handler that throws or rejects is reported
+     * in submitError. A second submit while one runs is ignored
+     */
+    const handleSubmit = useCallback(
+        (onValid: SubmitHandler, onInvalid?: InvalidHandler) => async (event?: FormEvent) => {
+            event?.preventDefault();
+            if (isSubmitting) {
+                return;
+            }
+            const run = ++submitRunRef.current;
+            const data = getSubmissionData(submitShape);
+            setIsSubmitting(true);
+            setSubmitError(null);
+            setTouched((prev) => {
+                const next = new Set(prev);
+                for (const key of collectValueKeys(schema.fields, instances)) {
+                    if (!hiddenFields.has(key)) {
+                        next.add(key);
+                    }
+                }
+                return next;
+            });
+
+            const result = await runFormValidation();
+            if (run !== submitRunRef.current) {
+                return;
+            }
+            try {
+                if (result.isValid) {
+                    await onValid(data);
+                } else {
+                    onInvalid?.({ errors: result.errors, formErrors: result.formErrors }, data);
+                }
+            } catch (error) {
+                if (run === submitRunRef.current) {
+                    setSubmitError(error instanceof Error ? error.message : String(error));
+                }
+            } finally {
+                if (run === submitRunRef.current) {
+                    setIsSubmitting(false);
+                }
+            }
+        },
+        [getSubmissionData, hiddenFields, instances, isSubmitting, runFormValidation, schema.fields, submitShape]
+    );
+
+    /**
+     * Memoized runtime value
+     */
+    const runtime = useMemo<FormRuntime>(
+        () => ({
+            formData,
+            errors,
+            formErrors,
+            isDirty,
+            touched,
+            touchField,
+            isSubmitting,
+            submitError,
+            handleSubmit,
+            hiddenFields,
+            validating,
+            locale,
+            setLocale,
+            localizedFields: texts.schema.fields,
+            messages: texts.messages,
+            instances,
+            addInstance,
+            removeInstance,
+            moveInstance,
+            setFieldValue,
+            setFieldValues,
+            resetForm,
+            validateForm,
+            validateFormAsync,
+            validateFieldsAsync,
+            getFormData,
+            getSubmissionData,
+        }),
+        [
+            formData,
+            errors,
+            formErrors,
+            isDirty,
+            touched,
+            touchField,
+            isSubmitting,
+            submitError,
+            handleSubmit,
+            hiddenFields,
+            validating,
+            locale,
+            setLocale,
+            texts,
+            instances,
+            addInstance,
+            removeInstance,
+            moveInstance,
+            setFieldValue,
+            setFieldValues,
+            resetForm,
+            validateForm,
+            validateFormAsync,
+            validateFieldsAsync,
+            getFormData,
+            getSubmissionData,
+        ]
+    );
+
+
+    return runtime;
+}
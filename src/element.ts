@@ -0,0 +1,237 @@
+/**
+ * =============================================================================
+ * CUSTOM ELEMENT ENTRY
+ * =============================================================================
+ * <form-runtime>: the form runtime for pages that are not React apps,
+ * built by `npm run build:lib` (vite.config.ts, mode "element") into one
+ * ES module that defines the element when loaded:
+ *
+ *   <script type="module" src="form-runtime-element.js"></script>
+ *   <form-runtime schema='{"version": 2, "fields": [...]}'></form-runtime>
+ *
+ * Renders FormRenderer into its Shadow DOM and reports with DOM events
+ * (bubbling, composed), each with the data in the submission shape:
+ *
+ *   submit  -> detail: { data }                      valid submit
+ *   invalid -> detail: { data, errors, formErrors }  submit with errors
+ *   change  -> detail: { data }                      a value changed
+ *
+ * HARD CONSTRAINTS:
+ * - React, ReactDOM and the stylesheet are bundled; the page needs nothing
+ * - Styles live in the shadow root only: the stylesheets neither reach the
+ *   page nor pick up its styles (inherited ones are reset on the host)
+ * - Schemas are migrated and validated like imports; an invalid one shows
+ *   its problems instead of a form
+ * - Replacing the schema keeps the values of fields that still exist
+ * =============================================================================
+ */
+
+import { createElement } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import type { ColorScheme, FormSchema } from './types/schema';
+import type { AsyncValidatorRegistry } from './utils/asyncValidators';
+import type { FlatFormData, NestedFormData, SubmissionShape } from './utils/dataMerging';
+import { migrateSchema } from './utils/schemaMigrations';
+import { formatSchemaIssue, validateSchema } from './utils/schemaValidation';
+import { COLOR_SCHEMES } from './utils/formTheme';
+import { AsyncValidatorsContext } from './context/AsyncValidatorsContext';
+import type { FormValidationErrors } from './context/useForm';
+import FormRenderer from './components/runtime/FormRenderer';
+import baseCss from './styles/base.css?inline';
+import componentsCss from './styles/components.css?inline';
+
+/**
+ * Tag name the element is defined under
+ */
+export const FORM_RUNTIME_TAG = 'form-runtime';
+
+/**
+ * base.css and components.css with the design tokens on the host (there is
+ * no :root inside a shadow root), then the host reset
+ */
+const ELEMENT_STYLES = `${baseCss}
+${componentsCss.replace(/:root\b/g, ':host')}
+:host {
+    all: initial;
+    display: block;
+    font-family: var(--font-family);
+    font-size: var(--font-size-base);
+    line-height: var(--line-height-normal);
+    color: var(--color-text-primary);
+}
+
+:host([hidden]) {
+    display: none;
+}
+`;
+
+/**
+ * Result of reading a schema given to the element
+ */
+type SchemaLoad = { success: true; schema: FormSchema } | { success: false; message: string };
+
+/**
+ * Reads a schema from the attribute (JSON) or the property (JSON or object)
+ */
+function loadSchema(input: unknown): SchemaLoad {
+    let parsed = input;
+    if (typeof input === 'string') {
+        try {
+            parsed = JSON.parse(input);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            return { success: false, message: `Invalid JSON: ${reason}` };
+        }
+    }
+
+    const migration = migrateSchema(parsed);
+    if (!migration.success) {
+        return { success: false, message: migration.message };
+    }
+    const result = validateSchema(migration.document);
+    if (!result.valid) {
+        return { success: false, message: result.issues.map(formatSchemaIssue).join('\n') };
+    }
+    return { success: true, schema: result.schema };
+}
+
+/**
+ * Shapes the element accepts in its shape attribute
+ */
+const SHAPES: readonly SubmissionShape[] = ['nested', 'flat'];
+
+/**
+ * <form-runtime> - A form from a schema, with DOM events for its data
+ *
+ * Attributes: schema (JSON), locale (shown; a change switches over),
+ * shape ("nested" or "flat"), color-scheme ("auto", "light" or "dark"),
+ * submit-label
+ * Properties: schema (object or JSON), validators (async validator registry)
+ */
+export class FormRuntimeElement extends HTMLElement {
+    static observedAttributes = ['schema', 'locale', 'shape', 'color-scheme', 'submit-label'];
+
+    private readonly container: HTMLDivElement;
+    private root: Root | null = null;
+    private load: SchemaLoad | null = null;
+    private registry: AsyncValidatorRegistry = {};
+
+    constructor() {
+        super();
+        const shadow = this.attachShadow({ mode: 'open' });
+        const style = document.createElement('style');
+        style.textContent = ELEMENT_STYLES;
+        this.container = document.createElement('div');
+        shadow.append(style, this.container);
+    }
+
+    /**
+     * The schema shown, or null while none (or an invalid one) is set
+     */
+    get schema(): FormSchema | null {
+        return this.load?.success ? this.load.schema : null;
+    }
+
+    set schema(value: FormSchema | string | null) {
+        this.load = value === null ? null : loadSchema(value);
+        this.render();
+    }
+
+    /**
+     * Async validators the schema's fields may name (none by default)
+     */
+    get validators(): AsyncValidatorRegistry {
+        return this.registry;
+    }
+
+    set validators(value: AsyncValidatorRegistry) {
+        this.registry = value;
+        this.render();
+    }
+
+    connectedCallback() {
+        // Properties set before the element was defined hide the accessors
+        for (const key of ['schema', 'validators'] as const) {
+            if (Object.prototype.hasOwnProperty.call(this, key)) {
+                const value = this[key];
+                delete this[key];
+                this[key] = value as never;
+            }
+        }
+        this.root ??= createRoot(this.container);
+        this.render();
+    }
+
+    disconnectedCallback() {
+        // Moving the element reconnects it at once; the form and its values stay
+        queueMicrotask(() => {
+            if (!this.isConnected && this.root) {
+                this.root.unmount();
+                this.root = null;
+            }
+        });
+    }
+
+    attributeChangedCallback(name: string, _oldValue: string | null, value: string | null) {
+        if (name === 'schema') {
+            this.load = value === null ? null : loadSchema(value);
+        }
+        this.render();
+    }
+
+    /**
+     * Dispatch one of the element's events
+     */
+    private emit(type: 'submit' | 'invalid' | 'change', detail: object) {
+        this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+    }
+
+    private render() {
+        if (!this.root) {
+            return;
+        }
+        if (!this.load) {
+            this.root.render(null);
+            return;
+        }
+        if (!this.load.success) {
+            this.root.render(
+                createElement('pre', { className: 'input-error-message', role: 'alert' }, this.load.message)
+            );
+            return;
+        }
+
+        const shape = this.getAttribute('shape') as SubmissionShape | null;
+        const colorScheme = this.getAttribute('color-scheme');
+
+        this.root.render(
+            createElement(
+                AsyncValidatorsContext.Provider,
+                { value: this.registry },
+                createElement(FormRenderer, {
+                    schema: this.load.schema,
+                    locale: this.getAttribute('locale') ?? undefined,
+                    shape: shape && SHAPES.includes(shape) ? shape : undefined,
+                    colorScheme: COLOR_SCHEMES.some((scheme) => scheme.value === colorScheme)
+                        ? (colorScheme as ColorScheme)
+                        : undefined,
+                    submitLabel: this.getAttribute('submit-label') ?? undefined,
+                    onSubmit: (data: FlatFormData | NestedFormData) => this.emit('submit', { data }),
+                    onInvalid: (errors: FormValidationErrors, data: FlatFormData | NestedFormData) =>
+                        this.emit('invalid', { data, ...errors }),
+                    onChange: (data: FlatFormData | NestedFormData) => this.emit('change', { data }),
+                })
+            )
+        );
+    }
+}
+
+if (!customElements.get(FORM_RUNTIME_TAG)) {
+    customElements.define(FORM_RUNTIME_TAG, FormRuntimeElement);
+}
+
+declare global {
+    interface HTMLElementTagNameMap {
+        [FORM_RUNTIME_TAG]: FormRuntimeElement;
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * =============================================================================
+ * LIBRARY ENTRY
+ * =============================================================================
+ * Public surface of the form runtime for host apps, built on its own by
+ * `npm run build:lib` (vite.config.ts, mode "lib"); the demo app starts
+ * at main.tsx instead.
+ *
+ *   <FormRenderer schema={schema} onSubmit={send} />   ready-made form
+ *   useForm(schema) / FormRuntimeProvider             own markup
+ *
+ * HARD CONSTRAINTS:
+ * - Runtime Domain only; nothing of the builder is exported
+ * - React is a peer dependency, never bundled
+ * - The stylesheet is emitted next to the bundle (form-runtime.css); all
+ *   of it (reset, design tokens, classes) is scoped to the form, never to
+ *   the host page
+ * =============================================================================
+ */
+
+import './styles/runtime.css';
+
+export { default as FormRenderer } from './components/runtime/FormRenderer';
+export { default as FieldRenderer } from './components/runtime/FieldRenderer';
+export { FormRuntimeProvider, useFormRuntime, useFieldValue } from './context/FormRuntimeContext';
+export { useForm } from './context/useForm';
+export type {
+    FormRuntime,
+    FormValidationErrors,
+    InvalidHandler,
+    SubmitHandler,
+    UseFormOptions,
+} from './context/useForm';
+export { AsyncValidatorsContext } from './context/AsyncValidatorsContext';
+export type {
+    AsyncValidationContext,
+    AsyncValidator,
+    AsyncValidatorDefinition,
+    AsyncValidatorRegistry,
+} from './utils/asyncValidators';
+
+// Loading saved forms: upgrade, then validate
+export { migrateSchema } from './utils/schemaMigrations';
+export { validateSchema, formatSchemaIssue } from './utils/schemaValidation';
+export type { SchemaIssue, SchemaValidationResult } from './utils/schemaValidation';
+
+export type { FieldValue, FlatFormData, NestedFormData, SubmissionShape } from './utils/dataMerging';
+export type * from './types/schema';
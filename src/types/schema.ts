@@ -9,15 +9,84 @@
  * HARD CONSTRAINTS:
  * - Groups are recursive (children?: Field[])
  * - Numeric fields have specific properties (min, max)
- * - Every field requires: id, type, label, required
+ * - Choice fields (select, radio, multiselect) carry an ordered options list
+ * - Text fields may limit length and require a format or custom pattern
+ * - Text and number fields may name an async validator; the validator
+ *   itself is code supplied by the host app, never part of the schema
+ * - Date/time fields store values in the native input formats and may be
+ *   bounded by absolute or relative (today-based) limits
+ * - Computed fields are read-only; their value is derived from a formula
+ *   (see utils/expressions.ts) and never entered by users
+ * - Every field requires: id, type, label, name, required
+ * - Field texts are written in the form's default locale; other locales
+ *   are translations next to them (see utils/localization.ts)
  * - No external libraries for state management or forms
  * =============================================================================
  */
 
+/**
+ * Current version of the schema document format.
+ * Bump this whenever a change in this file would break previously exported
+ * JSON, and register a matching step in utils/schemaMigrations.ts.
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
 /**
  * Supported field types in the form builder
  */
-export type FieldType = 'text' | 'number' | 'group';
+export type FieldType =
+    | 'text'
+    | 'number'
+    | 'group'
+    | 'select'
+    | 'radio'
+    | 'checkbox'
+    | 'multiselect'
+    | 'date'
+    | 'time'
+    | 'datetime'
+    | 'computed';
+
+/**
+ * Comparison operators available in visibility conditions
+ */
+export type ConditionOperator = 'equals' | 'notEquals' | 'greaterThan' | 'isEmpty';
+
+/**
+ * A single comparison against another field's current value
+ */
+export interface FieldCondition {
+    /** ID of the (non-group) field whose value is tested */
+    fieldId: string;
+    /** How the value is compared */
+    operator: ConditionOperator;
+    /** Value to compare against (unused for 'isEmpty') */
+    value?: string | number;
+}
+
+/**
+ * Declarative visibility rule - the field is shown only while it holds
+ * An empty conditions list always holds
+ */
+export interface VisibilityRule {
+    /** 'and' = all conditions must hold, 'or' = at least one */
+    combinator: 'and' | 'or';
+    /** Conditions combined with the combinator */
+    conditions: FieldCondition[];
+}
+
+/**
+ * Texts of a field in one additional locale
+ * Missing entries fall back to the field's own (default locale) text
+ */
+export interface FieldTranslation {
+    label?: string;
+    placeholder?: string;
+    /** Error shown when the value does not match `pattern` (text fields) */
+    patternMessage?: string;
+    /** Option labels by option value (choice fields) */
+    options?: Record<string, string>;
+}
 
 /**
  * Base properties shared by all field types
@@ -27,10 +96,24 @@ interface BaseField {
     id: string;
     /** Display label for the field */
     label: string;
+    /**
+     * Machine name - the key of this field (or group) in nested submission
+     * output. Identifier-like and unique among siblings (see utils/fieldNames.ts)
+     */
+    name: string;
     /** Whether the field is required for form submission */
     required: boolean;
+    /** Optional rule controlling when the field (or group) is shown */
+    visibleWhen?: VisibilityRule;
+    /** Texts in the form's additional locales, by locale code */
+    translations?: Record<string, FieldTranslation>;
 }
 
+/**
+ * Preset formats a text field can require (see utils/textFormats.ts)
+ */
+export type TextFormat = 'email' | 'url' | 'phone' | 'postalCode';
+
 /**
  * Text input field configuration
  */
@@ -38,6 +121,18 @@ export interface TextField extends BaseField {
     type: 'text';
     /** Optional placeholder text */
     placeholder?: string;
+    /** Minimum number of characters */
+    minLength?: number;
+    /** Maximum number of characters */
+    maxLength?: number;
+    /** Preset format the value must have */
+    format?: TextFormat;
+    /** Custom regular expression the whole value must match */
+    pattern?: string;
+    /** Error shown when the value does not match `pattern` */
+    patternMessage?: string;
+    /** Name of an async validator run once the other checks pass (see utils/asyncValidators.ts) */
+    asyncValidator?: string;
 }
 
 /**
@@ -51,6 +146,127 @@ export interface NumberField extends BaseField {
     max?: number;
     /** Optional placeholder text */
     placeholder?: string;
+    /** Name of an async validator run once the other checks pass (see utils/asyncValidators.ts) */
+    asyncValidator?: string;
+}
+
+/**
+ * A single option of a choice field
+ */
+export interface ChoiceOption {
+    /** Text shown to users */
+    label: string;
+    /** Value stored and submitted when the option is chosen (unique per field) */
+    value: string;
+}
+
+/**
+ * Single choice from a dropdown
+ */
+export interface SelectField extends BaseField {
+    type: 'select';
+    /** Options in display order */
+    options: ChoiceOption[];
+    /** Value of the initially selected option */
+    defaultValue?: string;
+    /** Optional text of the empty "nothing selected" entry */
+    placeholder?: string;
+}
+
+/**
+ * Single choice from a group of radio buttons
+ */
+export interface RadioField extends BaseField {
+    type: 'radio';
+    /** Options in display order */
+    options: ChoiceOption[];
+    /** Value of the initially selected option */
+    defaultValue?: string;
+}
+
+/**
+ * Any number of choices from a list of options
+ */
+export interface MultiSelectField extends BaseField {
+    type: 'multiselect';
+    /** Options in display order */
+    options: ChoiceOption[];
+    /** Values of the initially selected options */
+    defaultValue?: string[];
+}
+
+/**
+ * Single yes/no checkbox - a required checkbox must be checked
+ */
+export interface CheckboxField extends BaseField {
+    type: 'checkbox';
+    /** Whether the box starts checked */
+    defaultValue?: boolean;
+}
+
+/**
+ * Unit of a relative date bound offset
+ */
+export type DateOffsetUnit = 'days' | 'weeks' | 'months' | 'years';
+
+/**
+ * Limit of a date, time or datetime field
+ * - absolute: a fixed value in the field's native format
+ *   ("2024-01-31", "09:30" or "2024-01-31T09:30")
+ * - relative: today (now, for datetime fields) shifted by `amount` units;
+ *   negative amounts lie in the past, e.g. -18 years = "today minus 18 years".
+ *   Not available for time fields.
+ */
+export type DateBound =
+    | { kind: 'absolute'; value: string }
+    | { kind: 'relative'; amount: number; unit: DateOffsetUnit };
+
+/**
+ * Calendar date field (value "YYYY-MM-DD")
+ */
+export interface DateField extends BaseField {
+    type: 'date';
+    /** Earliest allowed date */
+    min?: DateBound;
+    /** Latest allowed date */
+    max?: DateBound;
+}
+
+/**
+ * Time of day field (value "HH:MM" or "HH:MM:SS")
+ */
+export interface TimeField extends BaseField {
+    type: 'time';
+    /** Earliest allowed time (absolute only) */
+    min?: DateBound;
+    /** Latest allowed time (absolute only) */
+    max?: DateBound;
+}
+
+/**
+ * Local date and time field (value "YYYY-MM-DDTHH:MM")
+ */
+export interface DateTimeField extends BaseField {
+    type: 'datetime';
+    /** Earliest allowed moment */
+    min?: DateBound;
+    /** Latest allowed moment */
+    max?: DateBound;
+}
+
+/**
+ * Read-only field whose value is calculated from other fields
+ * e.g. "quantity * unit_price" or "sum(items.price)"
+ */
+export interface ComputedField extends BaseField {
+    type: 'computed';
+    /**
+     * Formula in the expression language of utils/expressions.ts; refers to
+     * other fields by name (dotted into groups)
+     */
+    expression: string;
+    /** Decimal places numeric results are rounded to */
+    decimals?: number;
 }
 
 /**
@@ -60,20 +276,219 @@ export interface GroupField extends BaseField {
     type: 'group';
     /** Nested child fields - enables recursive structure */
     children: Field[];
+    /** Whether users can add multiple instances of this group ("Add another ...") */
+    repeatable?: boolean;
+    /** Minimum number of instances (repeatable groups only) */
+    minInstances?: number;
+    /** Maximum number of instances (repeatable groups only) */
+    maxInstances?: number;
 }
 
 /**
  * Union type representing any valid field configuration
  * This is the primary type used throughout the application
  */
-export type Field = TextField | NumberField | GroupField;
+export type Field =
+    | TextField
+    | NumberField
+    | GroupField
+    | SelectField
+    | RadioField
+    | MultiSelectField
+    | CheckboxField
+    | DateField
+    | TimeField
+    | DateTimeField
+    | ComputedField;
+
+/**
+ * Fields that offer a list of options
+ */
+export type ChoiceField = SelectField | RadioField | MultiSelectField;
+
+/**
+ * Fields holding a date and/or time
+ */
+export type TemporalField = DateField | TimeField | DateTimeField;
+
+/**
+ * Comparison operators available in form rules
+ */
+export type RuleOperator =
+    | 'lessThan'
+    | 'lessThanOrEqual'
+    | 'equals'
+    | 'notEquals'
+    | 'greaterThanOrEqual'
+    | 'greaterThan';
+
+/**
+ * Properties shared by all form rules
+ */
+interface BaseFormRule {
+    /** Unique identifier for the rule */
+    id: string;
+    /** Custom error message (a default one is generated otherwise) */
+    message?: string;
+    /** The custom message in the form's additional locales, by locale code */
+    translations?: Record<string, string>;
+}
+
+/**
+ * Compares two fields, e.g. "End Age must be greater than Start Age"
+ * Works on numbers, dates/times and (for equals/notEquals) any value
+ */
+export interface CompareRule extends BaseFormRule {
+    type: 'compare';
+    /** ID of the field on the left of the comparison */
+    fieldId: string;
+    operator: RuleOperator;
+    /** ID of the field on the right of the comparison */
+    otherFieldId: string;
+}
+
+/**
+ * Compares the sum of number fields with a constant,
+ * e.g. "the shares must add up to 100"
+ */
+export interface SumRule extends BaseFormRule {
+    type: 'sum';
+    /** IDs of the summed fields (empty values count as 0) */
+    fieldIds: string[];
+    operator: RuleOperator;
+    /** Constant the sum is compared with */
+    value: number;
+}
+
+/**
+ * Requires a minimum number of filled fields,
+ * e.g. "at least one of Phone / Email"
+ */
+export interface AtLeastRule extends BaseFormRule {
+    type: 'atLeast';
+    /** IDs of the fields counted */
+    fieldIds: string[];
+    /** How many of them must be filled */
+    count: number;
+}
+
+/**
+ * Form-level validation rule spanning several fields
+ * Rules refer to input fields by ID and never to fields inside repeatable
+ * groups (those have no single value)
+ */
+export type FormRule = CompareRule | SumRule | AtLeastRule;
+
+/**
+ * HTTP methods a form can be submitted with
+ */
+export type SubmissionMethod = 'POST' | 'PUT' | 'PATCH';
+
+/**
+ * Extra request header sent with every submission
+ */
+export interface SubmissionHeader {
+    name: string;
+    value: string;
+}
+
+/**
+ * Where and how submitted data is sent (see utils/submissionTransport.ts)
+ * The body is always JSON; `shape` picks nested-by-name or flat-by-ID data
+ */
+export interface SubmissionTarget {
+    /** Absolute http(s) URL, or a path on the page's own origin ("/api/...") */
+    url: string;
+    method: SubmissionMethod;
+    headers?: SubmissionHeader[];
+    /** Payload shape, see SubmissionShape in utils/dataMerging.ts */
+    shape: 'nested' | 'flat';
+    /** Attempts after the first one before giving up (default 3) */
+    retries?: number;
+}
+
+/**
+ * How the runtime form is laid out
+ * - single: every field on one page
+ * - wizard: one step per top-level group (see utils/wizardSteps.ts)
+ */
+export type FormLayout = 'single' | 'wizard';
+
+/**
+ * Languages of a form (see utils/localization.ts)
+ */
+export interface FormLocalization {
+    /** BCP 47 code of the locale the fields' own texts are written in, e.g. "en" */
+    defaultLocale: string;
+    /** Further locales the form is translated into */
+    locales: string[];
+    /**
+     * Validation messages and interface texts per locale (the default one
+     * included), by message ID; unset messages use the built-in English text
+     * (see utils/messages.ts)
+     */
+    messages?: Record<string, Record<string, string>>;
+}
+
+/**
+ * Color scheme of the runtime form
+ * - auto: follows the viewer's system setting (prefers-color-scheme)
+ * - light / dark: always that scheme
+ */
+export type ColorScheme = 'auto' | 'light' | 'dark';
+
+/**
+ * Colors of one color scheme, as "#rrggbb" (unset: the built-in color)
+ */
+export interface ThemeColors {
+    /** Buttons, focus rings and selected states */
+    primary?: string;
+    /** Backdrop behind cards, e.g. the form footer */
+    background?: string;
+    /** Cards and inputs */
+    surface?: string;
+    /** Main text; secondary and muted text are derived from it */
+    text?: string;
+    /** Borders of cards and inputs */
+    border?: string;
+}
+
+/**
+ * Look of the runtime form (see utils/formTheme.ts)
+ */
+export interface FormTheme {
+    /** Colors in the light scheme */
+    colors?: ThemeColors;
+    /** Colors in the dark scheme (an unset primary falls back to the light one) */
+    darkColors?: ThemeColors;
+    /** Corner radius of inputs and cards in px (default 8) */
+    radius?: number;
+    /** Factor applied to the spacing scale (default 1) */
+    spacing?: number;
+    /** CSS font stack, e.g. "Georgia, serif" */
+    font?: string;
+    /** Default 'auto' */
+    colorScheme?: ColorScheme;
+}
 
 /**
  * Root schema representing the entire form structure
  */
 export interface FormSchema {
+    /** Document format version (see CURRENT_SCHEMA_VERSION) */
+    version: number;
     /** Array of top-level fields */
     fields: Field[];
+    /** Form-level validation rules (see utils/formRules.ts) */
+    rules?: FormRule[];
+    /** Endpoint the runtime form submits to (none: the data is only shown) */
+    submission?: SubmissionTarget;
+    /** Runtime layout (default 'single') */
+    layout?: FormLayout;
+    /** Languages of the form (none: English only) */
+    localization?: FormLocalization;
+    /** Look of the runtime form (none: the built-in look) */
+    theme?: FormTheme;
 }
 
 /**
@@ -96,3 +511,31 @@ export function isNumberField(field: Field): field is NumberField {
 export function isTextField(field: Field): field is TextField {
     return field.type === 'text';
 }
+
+/**
+ * Type guard to check if a field offers a list of options
+ */
+export function isChoiceField(field: Field): field is ChoiceField {
+    return field.type === 'select' || field.type === 'radio' || field.type === 'multiselect';
+}
+
+/**
+ * Type guard to check if a field is a CheckboxField
+ */
+export function isCheckboxField(field: Field): field is CheckboxField {
+    return field.type === 'checkbox';
+}
+
+/**
+ * Type guard to check if a field holds a date and/or time
+ */
+export function isTemporalField(field: Field): field is TemporalField {
+    return field.type === 'date' || field.type === 'time' || field.type === 'datetime';
+}
+
+/**
+ * Type guard to check if a field is a ComputedField
+ */
+export function isComputedField(field: Field): field is ComputedField {
+    return field.type === 'computed';
+}
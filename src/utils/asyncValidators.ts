@@ -0,0 +1,165 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - ASYNC VALIDATORS
+ * =============================================================================
+ * Pluggable asynchronous checks (username availability, postcode lookup)
+ * that text and number fields reference by name via `asyncValidator`.
+ *
+ * The host app supplies a registry of validators through
+ * context/AsyncValidatorsContext.ts; the schema only stores the name.
+ *
+ * HARD CONSTRAINTS:
+ * - A validator resolves to an error message, or null when the value is fine
+ * - A failing validator is reported with the "check.failed" message of the
+ *   form's locale (utils/messages.ts)
+ * - Validators MUST honour the abort signal: a check is cancelled as soon as
+ *   the value it was started for changes
+ * - Validators only see non-empty values that passed every synchronous check
+ * - NO validation libraries
+ * =============================================================================
+ */
+
+import type { Field, NumberField, TextField } from '../types/schema';
+import { isNumberField, isTextField } from '../types/schema';
+import type { FieldValue, FlatFormData } from './dataMerging';
+import { valueKey, walkScopedFields, type RepeatInstances } from './formScope';
+
+/**
+ * Information passed to a validator alongside the value
+ */
+export interface AsyncValidationContext {
+    /** Aborted when the check is no longer needed */
+    signal: AbortSignal;
+    /** The field being checked */
+    field: AsyncValidatedField;
+    /** All current form values (flat, by value key) */
+    data: FlatFormData;
+    /** Locale the form is shown in, for the message the validator returns */
+    locale: string;
+}
+
+/**
+ * An asynchronous check: resolves to an error message or null
+ * Rejections (other than aborts) are reported as a failed check
+ */
+export type AsyncValidator = (value: FieldValue, context: AsyncValidationContext) => Promise<string | null>;
+
+/**
+ * A registered validator
+ */
+export interface AsyncValidatorDefinition {
+    /** Name shown in the builder */
+    label: string;
+    validate: AsyncValidator;
+}
+
+/**
+ * Validators by the name fields refer to them with
+ */
+export type AsyncValidatorRegistry = Readonly<Record<string, AsyncValidatorDefinition>>;
+
+/**
+ * Fields that can reference an async validator
+ */
+export type AsyncValidatedField = TextField | NumberField;
+
+/**
+ * Wait before checking a value that is still being typed
+ */
+export const ASYNC_VALIDATION_DELAY_MS = 400;
+
+/**
+ * Looks up a validator by name (undefined if it is not registered)
+ */
+export function getAsyncValidator(
+    registry: AsyncValidatorRegistry,
+    name: string | undefined
+): AsyncValidatorDefinition | undefined {
+    return name !== undefined && Object.hasOwn(registry, name) ? registry[name] : undefined;
+}
+
+/**
+ * Collects the fields that reference an async validator, by value key
+ * Only instances that currently exist are included
+ */
+export function collectAsyncFields(
+    fields: Field[],
+    instances: RepeatInstances
+): Map<string, AsyncValidatedField> {
+    const result = new Map<string, AsyncValidatedField>();
+
+    walkScopedFields(fields, instances, (field, scope) => {
+        if ((isTextField(field) || isNumberField(field)) && field.asyncValidator) {
+            result.set(valueKey(scope, field.id), field);
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Resolves after a delay, or rejects with the signal's reason once aborted
+ */
+export function delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Options of an in-memory validator
+ */
+interface InMemoryValidatorOptions {
+    /** Values that fail the check (compared case-insensitively) */
+    rejected: Iterable<string>;
+    /** Error reported for a rejected value */
+    message: string;
+    /** Simulated response time */
+    delayMs?: number;
+}
+
+/**
+ * Creates a stand-in for a remote check that rejects a fixed list of values
+ * after a delay, e.g. taken usernames. Useful for demos and tests.
+ */
+export function createInMemoryValidator({ rejected, message, delayMs = 600 }: InMemoryValidatorOptions): AsyncValidator {
+    const values = new Set(Array.from(rejected, (value) => value.toLowerCase()));
+
+    return async (value, { signal }) => {
+        await delay(delayMs, signal);
+        return values.has(String(value).trim().toLowerCase()) ? message : null;
+    };
+}
+
+/**
+ * Validators available in the demo app
+ */
+export const EXAMPLE_ASYNC_VALIDATORS: AsyncValidatorRegistry = {
+    usernameAvailable: {
+        label: 'Username is available',
+        validate: createInMemoryValidator({
+            rejected: ['admin', 'root', 'support', 'jane', 'john'],
+            message: 'This username is already taken',
+        }),
+    },
+    emailNotRegistered: {
+        label: 'Email is not registered yet',
+        validate: createInMemoryValidator({
+            rejected: ['jane@example.com', 'john@example.com'],
+            message: 'An account with this email already exists',
+        }),
+    },
+};
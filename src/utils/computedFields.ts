@@ -0,0 +1,533 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - COMPUTED FIELDS
+ * =============================================================================
+ * Connects the formulas of computed fields (utils/expressions.ts) to the
+ * form: resolves the names they use, finds circular references, and
+ * derives the computed values from the runtime data.
+ *
+ * Name resolution:
+ *   - A name is looked up among the computed field's siblings first, then
+ *     in each enclosing group outward to the top level (the nearest wins)
+ *   - Dots descend into groups: "address.zip", "items.price"
+ *   - A group name stands for every input value inside it
+ *   - Inside an instance of a repeatable group, names in that group resolve
+ *     to the same instance; references INTO a repeatable group from outside
+ *     yield one value per instance (combine them with sum(), count() ...)
+ *
+ * HARD CONSTRAINTS:
+ * - Pure functions only - no React, no side effects
+ * - Renaming a field rewrites the formulas that name it (renameInFormulas);
+ *   getRenameFormulaError reports renames that would still change what a
+ *   formula reads
+ * - Moving fields never rewrites formulas; getMoveFormulaError reports
+ *   moves that would change what a formula reads, so they can be refused
+ * - Circular references are reported by analyzeComputedFields and evaluate
+ *   to an empty value at runtime; evaluation never throws
+ * - Computed values use the current value of every field, hidden or not
+ * - NO form libraries (React Hook Form, Formik)
+ * =============================================================================
+ */
+
+import type { ComputedField, Field, GroupField } from '../types/schema';
+import { isComputedField, isGroupField } from '../types/schema';
+import type { FieldValue, FlatFormData } from './dataMerging';
+import {
+    checkExpression,
+    collectReferences,
+    evaluateExpression,
+    parseExpression,
+    renameReferences,
+    roundTo,
+    type ExpressionNode,
+    type ExpressionScalar,
+    type ExpressionValue,
+} from './expressions';
+import { ROOT_SCOPE, instanceScope, isRepeatableGroup, valueKey, type RepeatInstances } from './formScope';
+
+/**
+ * Problem with a computed field's formula
+ * - syntax: the formula does not parse
+ * - unknown: it uses names that match no field
+ * - list: it uses repeated values without combining them
+ * - cycle: it depends on its own value
+ */
+export interface ComputedFieldIssue {
+    kind: 'syntax' | 'unknown' | 'list' | 'cycle';
+    message: string;
+}
+
+/**
+ * A name resolved to a field
+ */
+interface ResolvedReference {
+    /** Sibling level the first name was found at (0 = top level) */
+    level: number;
+    /** The fields named by the path, outermost first */
+    chain: Field[];
+}
+
+/**
+ * A computed field prepared for evaluation
+ */
+interface CompiledField {
+    field: ComputedField;
+    /** Sibling lists from the top level down to the field's own level */
+    levels: Field[][];
+    /** Parsed formula (undefined if it does not parse) */
+    expression?: ExpressionNode;
+    /** Resolved names by dotted path (null = unknown name) */
+    references: Map<string, ResolvedReference | null>;
+    /** Problem shown in the builder, if any */
+    issue?: ComputedFieldIssue;
+}
+
+/**
+ * Compiled computed fields by field ID
+ */
+type CompiledFields = Map<string, CompiledField>;
+
+/**
+ * Compilation results per fields array (schemas are immutable)
+ */
+const compiledCache = new WeakMap<Field[], CompiledFields>();
+
+/**
+ * Resolves a dotted name from a field's position
+ */
+function resolveReference(path: string[], levels: Field[][]): ResolvedReference | null {
+    for (let level = levels.length - 1; level >= 0; level--) {
+        const first = levels[level].find((field) => field.name === path[0]);
+        if (!first) {
+            continue;
+        }
+
+        const chain = [first];
+        for (const name of path.slice(1)) {
+            const parent = chain[chain.length - 1];
+            const next = isGroupField(parent) ? parent.children.find((child) => child.name === name) : undefined;
+            if (!next) {
+                return null;
+            }
+            chain.push(next);
+        }
+        return { level, chain };
+    }
+    return null;
+}
+
+/**
+ * Collects the computed fields inside a group (at any depth)
+ */
+function collectComputedDescendants(group: GroupField, result: ComputedField[] = []): ComputedField[] {
+    for (const child of group.children) {
+        if (isComputedField(child)) {
+            result.push(child);
+        } else if (isGroupField(child)) {
+            collectComputedDescendants(child, result);
+        }
+    }
+    return result;
+}
+
+/**
+ * IDs of the computed fields whose values a reference reads
+ */
+function getComputedDependencies(reference: ResolvedReference): string[] {
+    const target = reference.chain[reference.chain.length - 1];
+    if (isComputedField(target)) {
+        return [target.id];
+    }
+    return isGroupField(target) ? collectComputedDescendants(target).map((field) => field.id) : [];
+}
+
+/**
+ * Whether a reference yields a list (one value per instance or per field)
+ */
+function isListReference(reference: ResolvedReference): boolean {
+    const { chain } = reference;
+    return isGroupField(chain[chain.length - 1]) || chain.slice(0, -1).some(isRepeatableGroup);
+}
+
+/**
+ * Display name of a field in messages
+ */
+function describeField(field: Field): string {
+    return field.name || field.label || field.id;
+}
+
+/**
+ * Prepares every computed field of a schema: parses formulas, resolves
+ * names and reports unknown names, misused lists and circular references
+ */
+function compileComputedFields(fields: Field[]): CompiledFields {
+    const cached = compiledCache.get(fields);
+    if (cached) {
+        return cached;
+    }
+
+    const compiled: CompiledFields = new Map();
+
+    const visit = (siblings: Field[], levels: Field[][]) => {
+        for (const field of siblings) {
+            if (isGroupField(field)) {
+                visit(field.children, [...levels, field.children]);
+            } else if (isComputedField(field)) {
+                compiled.set(field.id, compileField(field, levels));
+            }
+        }
+    };
+    visit(fields, [fields]);
+
+    // Circular references: depth-first search over the dependencies
+    const dependencies = new Map<string, string[]>();
+    for (const [id, entry] of compiled) {
+        const ids = [...entry.references.values()].flatMap((reference) =>
+            reference ? getComputedDependencies(reference) : []
+        );
+        dependencies.set(id, [...new Set(ids)]);
+    }
+
+    const done = new Set<string>();
+    const path: string[] = [];
+    const findCycles = (id: string) => {
+        const start = path.indexOf(id);
+        if (start !== -1) {
+            const cycle = [...path.slice(start), id];
+            const description = cycle.map((cycleId) => describeField(compiled.get(cycleId)!.field)).join(' → ');
+            for (const cycleId of cycle) {
+                const entry = compiled.get(cycleId)!;
+                if (entry.issue?.kind !== 'syntax') {
+                    entry.issue = { kind: 'cycle', message: `Circular reference: ${description}` };
+                }
+            }
+            return;
+        }
+        if (done.has(id)) {
+            return;
+        }
+        path.push(id);
+        for (const dependency of dependencies.get(id) ?? []) {
+            findCycles(dependency);
+        }
+        path.pop();
+        done.add(id);
+    };
+    for (const id of compiled.keys()) {
+        findCycles(id);
+    }
+
+    compiledCache.set(fields, compiled);
+    return compiled;
+}
+
+/**
+ * Parses one formula and resolves its names
+ */
+function compileField(field: ComputedField, levels: Field[][]): CompiledField {
+    const entry: CompiledField = { field, levels, references: new Map() };
+
+    const parsed = parseExpression(field.expression);
+    if (!parsed.success) {
+        entry.issue = { kind: 'syntax', message: parsed.message };
+        return entry;
+    }
+    entry.expression = parsed.expression;
+
+    for (const path of collectReferences(parsed.expression)) {
+        const name = path.join('.');
+        if (!entry.references.has(name)) {
+            entry.references.set(name, resolveReference(path, levels));
+        }
+    }
+
+    const unknown = [...entry.references].filter(([, reference]) => reference === null).map(([name]) => name);
+    if (unknown.length > 0) {
+        const message = `Unknown ${unknown.length === 1 ? 'field' : 'fields'}: ${unknown.join(', ')}`;
+        entry.issue = { kind: 'unknown', message };
+        return entry;
+    }
+
+    // Dry run with empty values to catch lists used outside aggregates
+    const check = checkExpression(parsed.expression, (refPath) =>
+        isListReference(entry.references.get(refPath.join('.'))!) ? [] : null
+    );
+    if (!check.success) {
+        entry.issue = { kind: 'list', message: check.message };
+    }
+    return entry;
+}
+
+/**
+ * Finds the problems of every computed field's formula: syntax errors,
+ * unknown names, repeated values used without an aggregate, and circular
+ * references (including a field that aggregates its own group)
+ * Returns issues by field ID; fields without problems are absent
+ */
+export function analyzeComputedFields(fields: Field[]): Map<string, ComputedFieldIssue> {
+    const issues = new Map<string, ComputedFieldIssue>();
+    for (const [id, entry] of compileComputedFields(fields)) {
+        if (entry.issue) {
+            issues.set(id, entry.issue);
+        }
+    }
+    return issues;
+}
+
+/**
+ * Checks a formula for a computed field before it is stored, in the
+ * context of the form (a formula can only close a circle there)
+ */
+export function checkComputedExpression(
+    fields: Field[],
+    fieldId: string,
+    expression: string
+): ComputedFieldIssue | undefined {
+    const replace = (level: Field[]): Field[] =>
+        level.map((field) => {
+            if (field.id === fieldId && isComputedField(field)) {
+                return { ...field, expression };
+            }
+            return isGroupField(field) ? { ...field, children: replace(field.children) } : field;
+        });
+
+    return analyzeComputedFields(replace(fields)).get(fieldId);
+}
+
+/**
+ * Formulas after a field is renamed: references that named the field use
+ * the new name instead
+ * Returns the changed formulas by computed field ID (the rename itself is
+ * up to the caller)
+ */
+export function renameInFormulas(fields: Field[], fieldId: string, name: string): Map<string, string> {
+    const formulas = new Map<string, string>();
+    for (const [id, entry] of compileComputedFields(fields)) {
+        const expression = renameReferences(entry.field.expression, (path) => {
+            const position = entry.references.get(path.join('.'))?.chain.findIndex((field) => field.id === fieldId) ?? -1;
+            return position === -1 ? null : path.map((part, index) => (index === position ? name : part));
+        });
+        if (expression !== entry.field.expression) {
+            formulas.set(id, expression);
+        }
+    }
+    return formulas;
+}
+
+/**
+ * Applies a rename and its formula changes to a copy of the field tree
+ */
+function applyRename(fields: Field[], fieldId: string, name: string, formulas: Map<string, string>): Field[] {
+    return fields.map((field) => {
+        let next = field.id === fieldId ? { ...field, name } : field;
+        const expression = formulas.get(field.id);
+        if (expression !== undefined && isComputedField(next)) {
+            next = { ...next, expression };
+        }
+        return isGroupField(next) ? { ...next, children: applyRename(next.children, fieldId, name, formulas) } : next;
+    });
+}
+
+/**
+ * Checks whether renaming a field breaks a formula even with its
+ * references rewritten (renameInFormulas): another field taking over a
+ * name a formula uses, or a formula that would depend on itself
+ * Returns the problem, or null if the name can be used
+ */
+export function getRenameFormulaError(fields: Field[], fieldId: string, name: string): string | null {
+    const before = compileComputedFields(fields);
+    if (before.size === 0) {
+        return null;
+    }
+
+    const formulas = renameInFormulas(fields, fieldId, name);
+    const after = compileComputedFields(applyRename(fields, fieldId, name, formulas));
+
+    for (const [id, entry] of after) {
+        const previous = before.get(id)!;
+        if (entry.issue?.kind === 'cycle' && previous.issue?.kind !== 'cycle') {
+            return `Formula of "${describeField(entry.field)}" would refer to itself`;
+        }
+
+        // Every name that found a field must find the same one
+        const targets = [...entry.references.values()].map((reference) => reference && reference.chain[reference.chain.length - 1].id);
+        const changed = [...previous.references.values()].some(
+            (reference) => reference !== null && !targets.includes(reference.chain[reference.chain.length - 1].id)
+        );
+        if (changed) {
+            return `Formula of "${describeField(entry.field)}" would refer to another field`;
+        }
+    }
+    return null;
+}
+
+/**
+ * Checks whether moving fields (the tree `before` becoming `after`, with
+ * the same field IDs) breaks a formula: a name it uses finding another
+ * field or none, or a new problem such as a circular reference
+ * Returns the problem, or null if every formula reads what it read before
+ */
+export function getMoveFormulaError(before: Field[], after: Field[]): string | null {
+    const previous = compileComputedFields(before);
+    if (previous.size === 0) {
+        return null;
+    }
+
+    for (const [id, entry] of compileComputedFields(after)) {
+        const old = previous.get(id)!;
+        if (entry.issue && entry.issue.kind !== old.issue?.kind) {
+            return `Formula of "${describeField(entry.field)}" would break: ${entry.issue.message}`;
+        }
+
+        for (const [path, reference] of old.references) {
+            const moved = entry.references.get(path);
+            if (reference && moved && moved.chain[moved.chain.length - 1].id !== reference.chain[reference.chain.length - 1].id) {
+                return `Formula of "${describeField(entry.field)}" would read another "${path}"`;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Converts a stored value for use in a formula
+ */
+function toExpressionValue(value: FieldValue | undefined): ExpressionValue {
+    if (value === undefined) {
+        return null;
+    }
+    return Array.isArray(value) ? [...value] : value;
+}
+
+/**
+ * Converts a formula result into a field value (empty = '')
+ * Numbers are rounded to `decimals`, or else cleared of floating point
+ * noise (0.1 + 0.2 gives 0.3)
+ */
+function toFieldValue(value: ExpressionScalar, decimals: number | undefined): FieldValue {
+    if (value === null) {
+        return '';
+    }
+    if (typeof value !== 'number') {
+        return value;
+    }
+    return decimals !== undefined ? roundTo(value, decimals) : Number(value.toPrecision(12));
+}
+
+/**
+ * Derives the values of every computed field (in every instance of the
+ * repeatable groups it lives in) and returns the data with those values
+ * set. Returns `data` itself when no computed value changed.
+ */
+export function applyComputedValues(
+    data: FlatFormData,
+    fields: Field[],
+    instances: RepeatInstances = {}
+): FlatFormData {
+    const compiled = compileComputedFields(fields);
+    if (compiled.size === 0) {
+        return data;
+    }
+
+    // Scope of every sibling level, for each computed value key
+    const placements = new Map<string, { entry: CompiledField; scopes: string[] }>();
+    const place = (siblings: Field[], scopes: string[]) => {
+        const scope = scopes[scopes.length - 1];
+        for (const field of siblings) {
+            if (isComputedField(field)) {
+                placements.set(valueKey(scope, field.id), { entry: compiled.get(field.id)!, scopes });
+            } else if (isRepeatableGroup(field)) {
+                for (const instanceId of instances[valueKey(scope, field.id)] ?? []) {
+                    place(field.children, [...scopes, instanceScope(scope, field.id, instanceId)]);
+                }
+            } else if (isGroupField(field)) {
+                place(field.children, [...scopes, scope]);
+            }
+        }
+    };
+    place(fields, [ROOT_SCOPE]);
+
+    const results = new Map<string, FieldValue>();
+    const evaluating = new Set<string>();
+
+    const readKey = (key: string): FieldValue | undefined => {
+        return placements.has(key) ? compute(key) : data[key];
+    };
+
+    // Value keys of the input fields inside a group, in form order
+    const collectKeys = (field: Field, scope: string, result: string[]) => {
+        if (!isGroupField(field)) {
+            result.push(valueKey(scope, field.id));
+            return;
+        }
+        const scopes = isRepeatableGroup(field)
+            ? (instances[valueKey(scope, field.id)] ?? []).map((id) => instanceScope(scope, field.id, id))
+            : [scope];
+        for (const childScope of scopes) {
+            for (const child of field.children) {
+                collectKeys(child, childScope, result);
+            }
+        }
+    };
+
+    const resolve = (reference: ResolvedReference, scopes: string[]): ExpressionValue => {
+        const { chain } = reference;
+        const target = chain[chain.length - 1];
+
+        // Scopes reached by walking down the chain of groups
+        let current = [scopes[reference.level]];
+        for (const group of chain.slice(0, -1)) {
+            if (isRepeatableGroup(group)) {
+                current = current.flatMap((scope) =>
+                    (instances[valueKey(scope, group.id)] ?? []).map((id) => instanceScope(scope, group.id, id))
+                );
+            }
+        }
+
+        if (!isListReference(reference)) {
+            return toExpressionValue(readKey(valueKey(current[0], target.id)));
+        }
+
+        const keys: string[] = [];
+        for (const scope of current) {
+            collectKeys(target, scope, keys);
+        }
+        return keys.flatMap((key) => {
+            const value = toExpressionValue(readKey(key));
+            return Array.isArray(value) ? value : [value];
+        });
+    };
+
+    const compute = (key: string): FieldValue => {
+        const cached = results.get(key);
+        if (cached !== undefined) {
+            return cached;
+        }
+        const { entry, scopes } = placements.get(key)!;
+        // Formulas with problems stay empty rather than show a wrong value
+        if (!entry.expression || entry.issue || evaluating.has(key)) {
+            return '';
+        }
+
+        evaluating.add(key);
+        const value = evaluateExpression(entry.expression, (path) => {
+            const reference = entry.references.get(path.join('.'));
+            return reference ? resolve(reference, scopes) : null;
+        });
+        evaluating.delete(key);
+
+        const result = toFieldValue(value, entry.field.decimals);
+        results.set(key, result);
+        return result;
+    };
+
+    let next: FlatFormData | null = null;
+    for (const key of placements.keys()) {
+        const value = compute(key);
+        if (data[key] !== value) {
+            next ??= { ...data };
+            next[key] = value;
+        }
+    }
+    return next ?? data;
+}
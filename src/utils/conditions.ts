@@ -0,0 +1,192 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - CONDITIONAL VISIBILITY
+ * =============================================================================
+ * Evaluates the declarative `visibleWhen` rules of fields against runtime
+ * form data.
+ *
+ * HARD CONSTRAINTS:
+ * - Pure functions only - no React, no side effects
+ * - A hidden group hides its whole subtree
+ * - Works on scoped value keys (see utils/formScope.ts); inside a repeatable
+ *   group instance, conditions see the nearest value of the referenced field
+ * - Hidden fields count as empty when other conditions test them, so a
+ *   chain of dependent fields collapses consistently
+ * - NO form libraries (React Hook Form, Formik)
+ * =============================================================================
+ */
+
+import type { Field, FieldCondition, VisibilityRule } from '../types/schema';
+import { isGroupField } from '../types/schema';
+import type { FieldValue, FlatFormData } from './dataMerging';
+import {
+    ROOT_SCOPE,
+    resolveScopedValue,
+    valueKey,
+    walkScopedFields,
+    type RepeatInstances,
+} from './formScope';
+
+/**
+ * Looks up the current value of a field by ID
+ */
+type ValueLookup = (fieldId: string) => FieldValue | undefined;
+
+/**
+ * Checks whether a runtime value counts as empty
+ * An unchecked checkbox and a multi-select with nothing chosen are empty
+ */
+export function isEmptyValue(value: FieldValue | undefined): boolean {
+    return (
+        value === undefined ||
+        value === '' ||
+        value === false ||
+        (typeof value === 'string' && value.trim() === '') ||
+        (Array.isArray(value) && value.length === 0)
+    );
+}
+
+/**
+ * Converts a value to a number, or null if it is not numeric
+ */
+function toNumber(value: FieldValue | undefined): number | null {
+    if (isEmptyValue(value) || typeof value === 'boolean' || Array.isArray(value)) {
+        return null;
+    }
+    const num = Number(value);
+    return isNaN(num) ? null : num;
+}
+
+/**
+ * Compares two values for equality
+ * Numeric values are compared as numbers ("5" equals 5), everything else
+ * as trimmed strings (a checkbox equals "true" or "false"). A
+ * multi-select equals every option value it contains.
+ */
+function valuesEqual(actual: FieldValue | undefined, expected: string | number | undefined): boolean {
+    if (Array.isArray(actual) && actual.length > 0) {
+        return actual.some((choice) => valuesEqual(choice, expected));
+    }
+
+    if (typeof actual === 'boolean') {
+        return expected !== undefined && String(actual) === String(expected).trim();
+    }
+
+    if (isEmptyValue(actual) || isEmptyValue(expected)) {
+        return isEmptyValue(actual) && isEmptyValue(expected);
+    }
+
+    const actualNum = toNumber(actual);
+    const expectedNum = toNumber(expected);
+    if (actualNum !== null && expectedNum !== null) {
+        return actualNum === expectedNum;
+    }
+
+    return String(actual).trim() === String(expected).trim();
+}
+
+/**
+ * Evaluates a single condition against a value lookup
+ */
+export function evaluateCondition(condition: FieldCondition, lookup: ValueLookup): boolean {
+    const actual = lookup(condition.fieldId);
+
+    switch (condition.operator) {
+        case 'equals':
+            return valuesEqual(actual, condition.value);
+
+        case 'notEquals':
+            return !valuesEqual(actual, condition.value);
+
+        case 'greaterThan': {
+            const actualNum = toNumber(actual);
+            const expectedNum = toNumber(condition.value);
+            return actualNum !== null && expectedNum !== null && actualNum > expectedNum;
+        }
+
+        case 'isEmpty':
+            return isEmptyValue(actual);
+
+        default:
+            return true;
+    }
+}
+
+/**
+ * Evaluates a visibility rule against a value lookup
+ * A missing rule or an empty conditions list always holds
+ */
+export function evaluateRule(rule: VisibilityRule | undefined, lookup: ValueLookup): boolean {
+    if (!rule || rule.conditions.length === 0) {
+        return true;
+    }
+
+    return rule.combinator === 'or'
+        ? rule.conditions.some((condition) => evaluateCondition(condition, lookup))
+        : rule.conditions.every((condition) => evaluateCondition(condition, lookup));
+}
+
+/**
+ * Single pass: collects hidden value keys for the given data
+ */
+function collectHidden(
+    fields: Field[],
+    data: FlatFormData,
+    instances: RepeatInstances,
+    hidden: Set<string>
+): void {
+    walkScopedFields(fields, instances, (field, scope) => {
+        const key = valueKey(scope, field.id);
+        const isHidden = !evaluateRule(field.visibleWhen, (fieldId) => resolveScopedValue(data, scope, fieldId));
+        if (!isHidden) {
+            return true;
+        }
+
+        // Hide the field and, for groups, every key in its subtree
+        hidden.add(key);
+        if (isGroupField(field)) {
+            walkScopedFields([field], instances, (descendant, descendantScope) => {
+                hidden.add(valueKey(descendantScope, descendant.id));
+            }, scope);
+        }
+        return false;
+    }, ROOT_SCOPE);
+}
+
+/**
+ * Computes the scoped value keys of every field (and group) that is
+ * currently hidden. Without repeatable groups these are the field IDs.
+ *
+ * Values of hidden fields are masked as empty and the rules re-evaluated
+ * until the result is stable, so a field depending on a hidden field sees
+ * an empty value. The pass count is bounded to stay safe with rules that
+ * depend on each other in a cycle.
+ */
+export function getHiddenFieldIds(
+    fields: Field[],
+    data: FlatFormData,
+    instances: RepeatInstances = {}
+): Set<string> {
+    let hidden = new Set<string>();
+    const maxPasses = 10;
+
+    for (let pass = 0; pass < maxPasses; pass++) {
+        const maskedData: FlatFormData = { ...data };
+        for (const id of hidden) {
+            if (id in maskedData) {
+                maskedData[id] = '';
+            }
+        }
+
+        const next = new Set<string>();
+        collectHidden(fields, maskedData, instances, next);
+
+        const isStable = next.size === hidden.size && [...next].every((id) => hidden.has(id));
+        hidden = next;
+        if (isStable) {
+            break;
+        }
+    }
+
+    return hidden;
+}
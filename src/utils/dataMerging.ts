@@ -9,35 +9,125 @@
  * - Runtime Domain is ISOLATED from Builder Domain
  * - NO form libraries (React Hook Form, Formik)
  * - Preserve user input when schema structure changes
+ * - Fields inside repeatable groups are keyed per instance (utils/formScope.ts)
+ * - Validation messages come from the message catalog (utils/messages.ts)
  * =============================================================================
  */
 
-import type { Field, FormSchema } from '../types/schema';
-import { isGroupField } from '../types/schema';
+import type { ChoiceField, DateBound, Field, FormSchema, GroupField, TemporalField, TextField } from '../types/schema';
+import { isChoiceField, isGroupField, isTemporalField } from '../types/schema';
+import { getHiddenFieldIds } from './conditions';
+import { TEXT_FORMATS, compilePattern } from './textFormats';
+import { compareTemporalValues, describeRelativeBound, normalizeTemporalValue, resolveDateBound } from './dateBounds';
+import { ENGLISH_MESSAGES, type Messages } from './messages';
+import {
+    ROOT_SCOPE,
+    instanceScope,
+    isRepeatableGroup,
+    valueKey,
+    walkScopedFields,
+    type RepeatInstances,
+} from './formScope';
+
+/**
+ * Value of a single input field
+ * - text, number, select, radio: string (numbers once parsed)
+ * - date, time, datetime: string in the native input format
+ * - checkbox: boolean
+ * - multiselect: string[] of chosen option values
+ */
+export type FieldValue = string | number | boolean | string[];
 
 /**
  * Runtime form data structure
- * Maps field IDs to their current values
+ * Maps field value keys (field IDs, scoped inside repeatable groups) to
+ * their current values
+ */
+export type FlatFormData = Record<string, FieldValue>;
+
+/**
+ * Readable submission structure
+ * Keyed by field machine names; groups become nested objects and
+ * repeatable groups arrays of objects
+ */
+export interface NestedFormData {
+    [name: string]: FieldValue | NestedFormData | NestedFormData[];
+}
+
+/**
+ * Shape of submitted data
+ * - 'flat': FlatFormData keyed by generated field IDs (internal state shape)
+ * - 'nested': NestedFormData keyed by machine names
+ */
+export type SubmissionShape = 'flat' | 'nested';
+
+/**
+ * Initial value of an input field: its default, or an empty value
  */
-export type FlatFormData = Record<string, string | number>;
+export function getInitialValue(field: Field): FieldValue {
+    switch (field.type) {
+        case 'checkbox':
+            return field.defaultValue ?? false;
+        case 'multiselect':
+            return [...(field.defaultValue ?? [])];
+        case 'select':
+        case 'radio':
+            return field.defaultValue ?? '';
+        default:
+            return '';
+    }
+}
 
 /**
- * Recursively creates initial form data from a schema
- * Sets all fields to their default empty values
+ * Checks whether a value is one of a choice field's options
  */
-export function createInitialFormData(fields: Field[]): FlatFormData {
+function isAllowedOption(field: ChoiceField, value: string): boolean {
+    return field.options.some((option) => option.value === value);
+}
+
+/**
+ * Adapts a preserved value to a (possibly changed) field
+ * Values of the wrong shape fall back to the initial value; choices of
+ * options that no longer exist are dropped
+ */
+function coerceValue(field: Field, value: FieldValue): FieldValue {
+    switch (field.type) {
+        case 'checkbox':
+            return typeof value === 'boolean' ? value : getInitialValue(field);
+        case 'multiselect':
+            if (!Array.isArray(value)) {
+                return getInitialValue(field);
+            }
+            return value.every((choice) => isAllowedOption(field, choice))
+                ? value
+                : value.filter((choice) => isAllowedOption(field, choice));
+        case 'select':
+        case 'radio':
+            return typeof value === 'string' && (value === '' || isAllowedOption(field, value))
+                ? value
+                : getInitialValue(field);
+        default:
+            return typeof value === 'string' || typeof value === 'number' ? value : getInitialValue(field);
+    }
+}
+
+/**
+ * Creates initial form data from a schema
+ * Sets all fields to their default (or empty) values, once per instance
+ * of every repeatable group they live in
+ */
+export function createInitialFormData(
+    fields: Field[],
+    instances: RepeatInstances = {},
+    scope: string = ROOT_SCOPE
+): FlatFormData {
     const data: FlatFormData = {};
 
-    for (const field of fields) {
-        if (isGroupField(field)) {
-            // Recursively process group children
-            const childData = createInitialFormData(field.children);
-            Object.assign(data, childData);
-        } else {
-            // Initialize with empty value
-            data[field.id] = '';
+    walkScopedFields(fields, instances, (field, fieldScope) => {
+        if (!isGroupField(field)) {
+            data[valueKey(fieldScope, field.id)] = getInitialValue(field);
         }
-    }
+    }, scope);
 
     return data;
 }
@@ -45,57 +135,44 @@ export function createInitialFormData(fields: Field[]): FlatFormData {
 /**
  * Intelligently merges existing form data with a new schema
  * Preserves values for fields that still exist in the new schema
+ * (adapted to changed options, see coerceValue)
  * Initializes new fields with default values
- * Removes data for fields that no longer exist
+ * Removes data for fields (and instances) that no longer exist
+ * Returns currentData itself when nothing changed
  */
 export function mergeFormData(
     currentData: FlatFormData,
-    newSchema: FormSchema
+    newSchema: FormSchema,
+    instances: RepeatInstances = {}
 ): FlatFormData {
-    // Get all field IDs from the new schema
-    const newFieldIds = new Set<string>();
-
-    function collectIds(fields: Field[]): void {
-        for (const field of fields) {
-            if (isGroupField(field)) {
-                collectIds(field.children);
-            } else {
-                newFieldIds.add(field.id);
-            }
-        }
-    }
-
-    collectIds(newSchema.fields);
-
-    // Create new data object
     const mergedData: FlatFormData = {};
+    let changed = false;
 
-    // First, create initial data for all fields in new schema
-    const initialData = createInitialFormData(newSchema.fields);
-
-    // Then, preserve existing values where field IDs match
-    for (const [id, value] of Object.entries(initialData)) {
-        if (id in currentData) {
-            // Preserve existing value
-            mergedData[id] = currentData[id];
-        } else {
-            // Use initial value for new fields
-            mergedData[id] = value;
+    walkScopedFields(newSchema.fields, instances, (field, scope) => {
+        if (isGroupField(field)) {
+            return;
         }
-    }
 
-    return mergedData;
+        const key = valueKey(scope, field.id);
+        mergedData[key] = key in currentData
+            ? coerceValue(field, currentData[key])
+            : getInitialValue(field);
+        changed ||= mergedData[key] !== currentData[key];
+    });
+
+    return changed || Object.keys(mergedData).length !== Object.keys(currentData).length ? mergedData : currentData;
 }
 
 /**
  * Validates a required field
  */
-function validateRequired(value: string | number | undefined | null, label: string): string | null {
+function validateRequired(value: FieldValue | undefined | null, label: string, messages: Messages): string | null {
     const isActuallyEmpty = value === '' || value === undefined || value === null;
     const isWhitespaceOnly = typeof value === 'string' && value.trim() === '';
+    const isNoneChosen = value === false || (Array.isArray(value) && value.length === 0);
 
-    if (isActuallyEmpty || isWhitespaceOnly) {
-        return `${label} is required`;
+    if (isActuallyEmpty || isWhitespaceOnly || isNoneChosen) {
+        return messages.format('required', { label });
     }
     return null;
 }
@@ -104,8 +181,9 @@ function validateRequired(value: string | number | undefined | null, label: stri
  * Validates a number field
  */
 function validateNumber(
-    value: string | number | undefined | null,
-    field: { label: string; min?: number; max?: number }
+    value: FieldValue | undefined | null,
+    field: { label: string; min?: number; max?: number },
+    messages: Messages
 ): string | null {
     // Skip if empty (handled by validateRequired if needed)
     if (value === '' || value === undefined || value === null) {
@@ -114,68 +192,269 @@ function validateNumber(
 
     // Handle special sentinel for invalid browser input (e.g. "2.3e")
     if (value === '__INVALID_NUMBER__') {
-        return `${field.label} must be a valid number`;
+        return messages.format('number.invalid', { label: field.label });
     }
 
     const numValue = Number(value);
     const isNotANumber = isNaN(numValue);
 
     if (isNotANumber) {
-        return `${field.label} must be a valid number`;
+        return messages.format('number.invalid', { label: field.label });
     }
 
-    const isBelowMin = field.min !== undefined && numValue < field.min;
+    const { min, max } = field;
+    const isBelowMin = min !== undefined && numValue < min;
     if (isBelowMin) {
-        return `${field.label} must be at least ${field.min}`;
+        return messages.format('number.min', { label: field.label, min });
     }
 
-    const isAboveMax = field.max !== undefined && numValue > field.max;
+    const isAboveMax = max !== undefined && numValue > max;
     if (isAboveMax) {
-        return `${field.label} must be at most ${field.max}`;
+        return messages.format('number.max', { label: field.label, max });
     }
 
     return null;
 }
 
+/**
+ * Validates a text field's length, format and custom pattern
+ */
+function validateText(value: FieldValue | undefined, field: TextField, messages: Messages): string | null {
+    if (value === '' || value === undefined) {
+        return null;
+    }
+
+    const text = String(value);
+
+    if (field.minLength !== undefined && text.length < field.minLength) {
+        return messages.format('text.minLength', { label: field.label, min: field.minLength });
+    }
+
+    if (field.maxLength !== undefined && text.length > field.maxLength) {
+        return messages.format('text.maxLength', { label: field.label, max: field.maxLength });
+    }
+
+    if (field.format !== undefined) {
+        if (!TEXT_FORMATS[field.format].test(text)) {
+            return messages.format(`text.${field.format}`, { label: field.label });
+        }
+    }
+
+    if (field.pattern) {
+        // Patterns are checked at build time; an invalid one is skipped here
+        const regex = compilePattern(field.pattern);
+        if (regex && !regex.test(text)) {
+            return field.patternMessage || messages.format('text.pattern', { label: field.label });
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Validates a date, time or datetime field against its format and range
+ * Relative bounds are resolved against `now`; messages name both the
+ * resolved value and the rule, e.g. "on or before 2006-05-01 (today minus 18 years)"
+ */
+function validateTemporal(
+    value: FieldValue | undefined,
+    field: TemporalField,
+    now: Date,
+    messages: Messages
+): string | null {
+    if (value === '' || value === undefined) {
+        return null;
+    }
+
+    if (typeof value !== 'string' || normalizeTemporalValue(field.type, value) === null) {
+        return messages.format(`${field.type}.invalid`, { label: field.label });
+    }
+
+    const describeLimit = (bound: DateBound, resolved: string): string => {
+        const shown = resolved.replace('T', ' ');
+        return bound.kind === 'relative' ? `${shown} (${describeRelativeBound(bound, field.type, messages)})` : shown;
+    };
+
+    const min = field.min && resolveDateBound(field.min, field.type, now);
+    if (field.min && min && compareTemporalValues(field.type, value, min) < 0) {
+        return messages.format(`${field.type}.min`, { label: field.label, limit: describeLimit(field.min, min) });
+    }
+
+    const max = field.max && resolveDateBound(field.max, field.type, now);
+    if (field.max && max && compareTemporalValues(field.type, value, max) > 0) {
+        return messages.format(`${field.type}.max`, { label: field.label, limit: describeLimit(field.max, max) });
+    }
+
+    return null;
+}
+
+/**
+ * Validates that a choice field only holds values of its options
+ */
+function validateChoice(value: FieldValue | undefined, field: ChoiceField, messages: Messages): string | null {
+    if (value === undefined || value === '') {
+        return null;
+    }
+
+    if (field.type === 'multiselect') {
+        const isValid = Array.isArray(value) && value.every((choice) => isAllowedOption(field, choice));
+        return isValid ? null : messages.format('multiselect.invalid', { label: field.label });
+    }
+
+    const isValid = typeof value === 'string' && isAllowedOption(field, value);
+    return isValid ? null : messages.format('choice.invalid', { label: field.label });
+}
+
+/**
+ * Validates the number of instances of a repeatable group
+ */
+function validateInstanceCount(count: number, group: GroupField, messages: Messages): string | null {
+    if (group.minInstances !== undefined && count < group.minInstances) {
+        return messages.format('group.min', { label: group.label, min: group.minInstances });
+    }
+    if (group.maxInstances !== undefined && count > group.maxInstances) {
+        return messages.format('group.max', { label: group.label, max: group.maxInstances });
+    }
+    return null;
+}
+
+/**
+ * Removes the values of currently hidden fields (see utils/conditions.ts)
+ * Used for submission so hidden answers never leave the form
+ */
+export function omitHiddenFields(
+    data: FlatFormData,
+    fields: Field[],
+    instances: RepeatInstances = {}
+): FlatFormData {
+    const hidden = getHiddenFieldIds(fields, data, instances);
+    if (hidden.size === 0) {
+        return { ...data };
+    }
+
+    const visibleData: FlatFormData = {};
+    for (const [key, value] of Object.entries(data)) {
+        if (!hidden.has(key)) {
+            visibleData[key] = value;
+        }
+    }
+    return visibleData;
+}
+
+/**
+ * Converts flat form data into the nested, name-keyed submission shape
+ * Hidden fields and groups are left out; repeatable groups become arrays
+ * with one object per instance, in instance order
+ */
+export function toNestedFormData(
+    data: FlatFormData,
+    fields: Field[],
+    instances: RepeatInstances = {}
+): NestedFormData {
+    const hidden = getHiddenFieldIds(fields, data, instances);
+
+    function build(level: Field[], scope: string): NestedFormData {
+        const result: NestedFormData = {};
+        for (const field of level) {
+            const key = valueKey(scope, field.id);
+            if (hidden.has(key)) {
+                continue;
+            }
+            if (isRepeatableGroup(field)) {
+                result[field.name] = (instances[key] ?? []).map((instanceId) =>
+                    build(field.children, instanceScope(scope, field.id, instanceId))
+                );
+            } else if (isGroupField(field)) {
+                result[field.name] = build(field.children, scope);
+            } else if (key in data) {
+                result[field.name] = data[key];
+            }
+        }
+        return result;
+    }
+
+    return build(fields, ROOT_SCOPE);
+}
+
 /**
  * Validates form data against a schema
- * Returns a map of field IDs to error messages
+ * Hidden fields (and everything inside hidden groups) are skipped
+ * Returns a map of value keys to error messages; instance count errors of
+ * repeatable groups are keyed by the group's own value key
+ * Relative date limits are resolved against `now`; messages are those of
+ * `messages` (fields carry the texts of the same locale, see
+ * utils/localization.ts)
  */
-export function validateFormData(data: FlatFormData, fields: Field[]): Record<string, string> {
+export function validateFormData(
+    data: FlatFormData,
+    fields: Field[],
+    instances: RepeatInstances = {},
+    now: Date = new Date(),
+    messages: Messages = ENGLISH_MESSAGES
+): Record<string, string> {
     const errors: Record<string, string> = {};
+    const hidden = getHiddenFieldIds(fields, data, instances);
+
+    walkScopedFields(fields, instances, (field, scope) => {
+        const key = valueKey(scope, field.id);
+        if (hidden.has(key)) {
+            return false;
+        }
 
-    function validateField(field: Field): void {
         if (isGroupField(field)) {
-            for (const child of field.children) {
-                validateField(child);
+            if (isRepeatableGroup(field)) {
+                const countError = validateInstanceCount(instances[key]?.length ?? 0, field, messages);
+                if (countError) {
+                    errors[key] = countError;
+                }
             }
-            return;
+            return true;
         }
 
-        const value = data[field.id];
+        const value = data[key];
 
         // 1. Required validation
         if (field.required) {
-            const requiredError = validateRequired(value, field.label);
+            const requiredError = validateRequired(value, field.label, messages);
             if (requiredError) {
-                errors[field.id] = requiredError;
+                errors[key] = requiredError;
                 return;
             }
         }
 
         // 2. Type-specific validation
+        if (field.type === 'text') {
+            const textError = validateText(value, field, messages);
+            if (textError) {
+                errors[key] = textError;
+                return;
+            }
+        }
+
         if (field.type === 'number') {
-            const numberError = validateNumber(value, field);
+            const numberError = validateNumber(value, field, messages);
             if (numberError) {
-                errors[field.id] = numberError;
+                errors[key] = numberError;
                 return;
             }
         }
-    }
 
-    for (const field of fields) {
-        validateField(field);
-    }
+        if (isChoiceField(field)) {
+            const choiceError = validateChoice(value, field, messages);
+            if (choiceError) {
+                errors[key] = choiceError;
+                return;
+            }
+        }
+
+        if (isTemporalField(field)) {
+            const temporalError = validateTemporal(value, field, now, messages);
+            if (temporalError) {
+                errors[key] = temporalError;
+                return;
+            }
+        }
+    });
 
     return errors;
 }
@@ -0,0 +1,218 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - DATE & TIME VALUES
+ * =============================================================================
+ * Parsing, comparison and range limits for date, time and datetime fields.
+ *
+ * Values use the formats of the native inputs, so they compare correctly
+ * as strings once normalized:
+ *   date      "YYYY-MM-DD"
+ *   time      "HH:MM" or "HH:MM:SS"
+ *   datetime  "YYYY-MM-DDTHH:MM" or "YYYY-MM-DDTHH:MM:SS"
+ *
+ * HARD CONSTRAINTS:
+ * - Pure functions only; "today" is always passed in (defaults to now)
+ * - Relative bounds use the user's local calendar, never UTC
+ * - NO date libraries
+ * =============================================================================
+ */
+
+import type { DateBound, DateOffsetUnit, TemporalField } from '../types/schema';
+import type { Messages } from './messages';
+
+/**
+ * Type of a date/time field
+ */
+export type TemporalType = TemporalField['type'];
+
+/**
+ * Units available for relative bounds, in display order
+ */
+export const DATE_OFFSET_UNITS: readonly DateOffsetUnit[] = ['days', 'weeks', 'months', 'years'];
+
+/**
+ * Shape of a value per field type
+ */
+const VALUE_PATTERNS: Record<TemporalType, RegExp> = {
+    date: /^(\d{4})-(\d{2})-(\d{2})$/,
+    time: /^(\d{2}):(\d{2})(?::(\d{2}))?$/,
+    datetime: /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/,
+};
+
+/**
+ * Source of the value pattern of a field type (for JSON Schema export)
+ */
+export function getTemporalValuePattern(type: TemporalType): string {
+    return VALUE_PATTERNS[type].source;
+}
+
+/**
+ * Pads a number to two digits
+ */
+function pad(value: number): string {
+    return String(value).padStart(2, '0');
+}
+
+/**
+ * Checks that a calendar date exists (e.g. rejects 2023-02-29)
+ */
+function isRealDate(year: number, month: number, day: number): boolean {
+    const date = new Date(year, month - 1, day);
+    return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+/**
+ * Checks that a time of day exists
+ */
+function isRealTime(hours: number, minutes: number, seconds: number): boolean {
+    return hours < 24 && minutes < 60 && seconds < 60;
+}
+
+/**
+ * Normalizes a value to a fixed-width form that compares correctly as a
+ * string (seconds always present), or returns null if it is not valid
+ */
+export function normalizeTemporalValue(type: TemporalType, value: string): string | null {
+    const match = VALUE_PATTERNS[type].exec(value);
+    if (!match) {
+        return null;
+    }
+
+    const parts = match.slice(1).map((part) => (part === undefined ? 0 : Number(part)));
+
+    switch (type) {
+        case 'date': {
+            const [year, month, day] = parts;
+            return isRealDate(year, month, day) ? value : null;
+        }
+        case 'time': {
+            const [hours, minutes, seconds] = parts;
+            return isRealTime(hours, minutes, seconds) ? `${pad(hours)}:${pad(minutes)}:${pad(seconds)}` : null;
+        }
+        case 'datetime': {
+            const [year, month, day, hours, minutes, seconds] = parts;
+            return isRealDate(year, month, day) && isRealTime(hours, minutes, seconds)
+                ? `${value.slice(0, 10)}T${pad(hours)}:${pad(minutes)}:${pad(seconds)}`
+                : null;
+        }
+    }
+}
+
+/**
+ * Shifts a date by a number of units
+ * Month and year steps clamp to the last day of the target month
+ * (e.g. Feb 29 minus one year is Feb 28)
+ */
+function shiftDate(date: Date, amount: number, unit: DateOffsetUnit): Date {
+    const result = new Date(date.getTime());
+
+    switch (unit) {
+        case 'days':
+            result.setDate(result.getDate() + amount);
+            return result;
+        case 'weeks':
+            result.setDate(result.getDate() + amount * 7);
+            return result;
+        case 'months':
+        case 'years': {
+            const months = unit === 'years' ? amount * 12 : amount;
+            const day = result.getDate();
+            result.setDate(1);
+            result.setMonth(result.getMonth() + months);
+            const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+            result.setDate(Math.min(day, lastDay));
+            return result;
+        }
+    }
+}
+
+/**
+ * Formats a date in a field type's native format (seconds omitted)
+ */
+function formatLocal(type: TemporalType, date: Date): string {
+    const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    const time = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+    switch (type) {
+        case 'date':
+            return day;
+        case 'time':
+            return time;
+        case 'datetime':
+            return `${day}T${time}`;
+    }
+}
+
+/**
+ * Current value (today, now) in a field type's native format
+ */
+export function currentTemporalValue(type: TemporalType, now: Date = new Date()): string {
+    return formatLocal(type, now);
+}
+
+/**
+ * Resolves a bound to a concrete value in the field type's native format
+ * Returns null for bounds that cannot apply (invalid absolute values,
+ * relative bounds on time fields)
+ */
+export function resolveDateBound(bound: DateBound, type: TemporalType, now: Date = new Date()): string | null {
+    if (bound.kind === 'absolute') {
+        return normalizeTemporalValue(type, bound.value) === null ? null : bound.value;
+    }
+
+    if (type === 'time') {
+        return null;
+    }
+
+    return formatLocal(type, shiftDate(now, bound.amount, bound.unit));
+}
+
+/**
+ * Describes a bound for the builder, e.g. "2024-01-31" or
+ * "today minus 18 years" (see describeRelativeBound for error messages)
+ */
+export function describeDateBound(bound: DateBound, type: TemporalType): string {
+    if (bound.kind === 'absolute') {
+        return bound.value.replace('T', ' ');
+    }
+
+    const anchor = type === 'datetime' ? 'now' : 'today';
+    if (bound.amount === 0) {
+        return anchor;
+    }
+
+    const count = Math.abs(bound.amount);
+    const unit = count === 1 ? bound.unit.slice(0, -1) : bound.unit;
+    return `${anchor} ${bound.amount < 0 ? 'minus' : 'plus'} ${count} ${unit}`;
+}
+
+/**
+ * Describes a relative bound in the words of a message catalog,
+ * e.g. "today minus 18 years"
+ */
+export function describeRelativeBound(
+    bound: Extract<DateBound, { kind: 'relative' }>,
+    type: TemporalType,
+    messages: Messages
+): string {
+    const anchor = messages.format(type === 'datetime' ? 'bound.now' : 'bound.today');
+    if (bound.amount === 0) {
+        return anchor;
+    }
+
+    const duration = messages.format(`unit.${bound.unit}`, { count: Math.abs(bound.amount) });
+    return messages.format(bound.amount < 0 ? 'bound.minus' : 'bound.plus', { anchor, duration });
+}
+
+/**
+ * Compares two values of the same type: negative if a is earlier,
+ * positive if later, 0 if equal. Invalid values compare as equal.
+ */
+export function compareTemporalValues(type: TemporalType, a: string, b: string): number {
+    const left = normalizeTemporalValue(type, a);
+    const right = normalizeTemporalValue(type, b);
+    if (left === null || right === null) {
+        return 0;
+    }
+    return left < right ? -1 : left > right ? 1 : 0;
+}
@@ -0,0 +1,22 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - FILE DOWNLOAD
+ * =============================================================================
+ * Saves text generated in the browser (exports) as a file.
+ *
+ * HARD CONSTRAINTS:
+ * - Browser only; the generators themselves stay free of DOM access
+ * =============================================================================
+ */
+
+/**
+ * Saves generated text as a file through a temporary download link
+ */
+export function downloadFile(fileName: string, content: string, type: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
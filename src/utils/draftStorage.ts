@@ -0,0 +1,331 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - DRAFT STORAGE (AUTOSAVE)
+ * =============================================================================
+ * Keeps the schema of every library form in localStorage so a refresh or
+ * crash does not lose it, and remembers what was last exported.
+ * The list of forms itself lives in utils/formLibrary.ts.
+ *
+ * Stored entries, per form ID:
+ *   draftKey(id)   { "format": DRAFT_FORMAT, "savedAt": <ms>, "schema": <form schema> }
+ *   exportKey(id)  { "format": DRAFT_FORMAT, "exportedAt": <ms>, "schema"?: <form schema> }
+ * The envelopes have their own format number; the schema inside carries
+ * its own `version` and goes through the same migration and validation as
+ * an imported file (utils/schemaMigrations.ts, utils/schemaValidation.ts).
+ *
+ * HARD CONSTRAINTS:
+ * - Never throws: unavailable storage, full storage and unreadable entries
+ *   are reported as results
+ * - An unreadable entry is kept until the user discards it
+ * - Only schemas that pass validation are saved, so every saved draft loads
+ *   again; while the builder holds an invalid one the last valid draft stays
+ * - Storage is passed in (defaults to window.localStorage when available)
+ * =============================================================================
+ */
+
+import type { FormSchema } from '../types/schema';
+import { CURRENT_SCHEMA_VERSION } from '../types/schema';
+import { migrateSchema } from './schemaMigrations';
+import { formatSchemaIssue, validateSchema } from './schemaValidation';
+
+/**
+ * localStorage key of a form's draft
+ */
+export function draftKey(formId: string): string {
+    return `form-builder:draft:${formId}`;
+}
+
+/**
+ * localStorage key of a form's last export
+ */
+export function exportKey(formId: string): string {
+    return `form-builder:export:${formId}`;
+}
+
+/**
+ * Format of the stored envelopes; bump when their shape changes
+ */
+export const DRAFT_FORMAT = 1;
+
+/**
+ * Delay between the last schema change and the save
+ */
+export const AUTOSAVE_DELAY_MS = 1000;
+
+/**
+ * Minimal storage interface (satisfied by window.localStorage)
+ */
+export type DraftStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem' | 'key' | 'length'>;
+
+/**
+ * A draft read back from storage
+ */
+export interface StoredDraft {
+    schema: FormSchema;
+    /** When the draft was saved (ms since epoch) */
+    savedAt: number;
+}
+
+/**
+ * Result of reading a form's draft
+ */
+export type DraftLoadResult =
+    | { kind: 'none' }
+    | { kind: 'found'; draft: StoredDraft }
+    | { kind: 'unreadable'; message: string };
+
+/**
+ * What was found in storage when the builder reopens a form
+ * - none: nothing stored (or storage unavailable)
+ * - restore: a draft holding what was last exported; load it as is
+ * - newer: a draft with changes that were never exported; ask the user
+ * - unreadable: a stored entry that cannot be used; ask the user
+ */
+export type DraftStartup =
+    | { kind: 'none' }
+    | { kind: 'restore'; draft: StoredDraft }
+    | { kind: 'newer'; draft: StoredDraft; lastExportedAt: number | null }
+    | { kind: 'unreadable'; message: string };
+
+/**
+ * Result of saving a draft
+ */
+export type DraftSaveResult =
+    | { success: true; savedAt: number }
+    | { success: false; message: string };
+
+/**
+ * The browser's localStorage, or null where it is unavailable
+ * (disabled cookies and some private modes throw on access)
+ */
+export function getLocalStorage(): DraftStorage | null {
+    try {
+        return typeof window !== 'undefined' ? window.localStorage : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Checks whether a storage error means the quota is used up
+ */
+export function isQuotaError(error: unknown): boolean {
+    return (
+        error instanceof DOMException &&
+        (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+    );
+}
+
+/**
+ * Result of parsing a stored envelope
+ */
+type EnvelopeResult =
+    | { success: true; envelope: Record<string, unknown> }
+    | { success: false; message: string };
+
+/**
+ * Parses a stored envelope and checks its format
+ */
+function parseEnvelope(raw: string): EnvelopeResult {
+    const damaged: EnvelopeResult = { success: false, message: 'The saved draft is damaged and cannot be read.' };
+
+    let envelope: unknown;
+    try {
+        envelope = JSON.parse(raw);
+    } catch {
+        return damaged;
+    }
+
+    if (typeof envelope !== 'object' || envelope === null || Array.isArray(envelope)) {
+        return damaged;
+    }
+
+    const { format } = envelope as Record<string, unknown>;
+    if (format !== DRAFT_FORMAT) {
+        return typeof format === 'number' && format > DRAFT_FORMAT
+            ? { success: false, message: 'The saved draft was written by a newer version of the builder.' }
+            : damaged;
+    }
+    return { success: true, envelope: envelope as Record<string, unknown> };
+}
+
+/**
+ * Migrates and validates a stored schema
+ */
+function readStoredSchema(schema: unknown): FormSchema | { message: string } {
+    const migration = migrateSchema(schema);
+    if (!migration.success) {
+        return { message: `The saved draft cannot be loaded: ${migration.message}` };
+    }
+
+    const result = validateSchema(migration.document);
+    if (!result.valid) {
+        return { message: `The saved draft cannot be loaded: ${formatSchemaIssue(result.issues[0])}` };
+    }
+    return result.schema;
+}
+
+/**
+ * Reads a form's draft
+ */
+export function loadDraft(formId: string, storage: DraftStorage | null = getLocalStorage()): DraftLoadResult {
+    try {
+        const raw = storage?.getItem(draftKey(formId)) ?? null;
+        if (raw === null) {
+            return { kind: 'none' };
+        }
+
+        const parsed = parseEnvelope(raw);
+        if (!parsed.success) {
+            return { kind: 'unreadable', message: parsed.message };
+        }
+
+        const { savedAt } = parsed.envelope;
+        if (typeof savedAt !== 'number' || !Number.isFinite(savedAt)) {
+            return { kind: 'unreadable', message: 'The saved draft is damaged and cannot be read.' };
+        }
+
+        const schema = readStoredSchema(parsed.envelope.schema);
+        return 'message' in schema
+            ? { kind: 'unreadable', message: schema.message }
+            : { kind: 'found', draft: { schema, savedAt } };
+    } catch {
+        return { kind: 'none' };
+    }
+}
+
+/**
+ * Reads a form's last export: its time, and the exported schema when known
+ */
+function loadExport(formId: string, storage: DraftStorage): { exportedAt: number; schema: FormSchema | null } | null {
+    const raw = storage.getItem(exportKey(formId));
+    const parsed = raw === null ? null : parseEnvelope(raw);
+    if (!parsed?.success) {
+        return null;
+    }
+
+    const { envelope } = parsed;
+    const { exportedAt } = envelope;
+    if (typeof exportedAt !== 'number' || !Number.isFinite(exportedAt)) {
+        return null;
+    }
+
+    const schema = envelope.schema === undefined ? null : readStoredSchema(envelope.schema);
+    return { exportedAt, schema: schema === null || 'message' in schema ? null : schema };
+}
+
+/**
+ * Decides what to do with a form's draft when the builder reopens it
+ * The draft counts as newer when it differs from the exported schema, or,
+ * when only the export time is known, when it was saved after it
+ */
+export function readDraftOnStartup(formId: string, storage: DraftStorage | null = getLocalStorage()): DraftStartup {
+    const loaded = loadDraft(formId, storage);
+    if (loaded.kind !== 'found' || !storage) {
+        return loaded.kind === 'unreadable' ? loaded : { kind: 'none' };
+    }
+
+    try {
+        const exported = loadExport(formId, storage);
+        const isExported = exported?.schema
+            ? JSON.stringify(exported.schema) === JSON.stringify(loaded.draft.schema)
+            : exported !== null && loaded.draft.savedAt <= exported.exportedAt;
+        return isExported
+            ? { kind: 'restore', draft: loaded.draft }
+            : { kind: 'newer', draft: loaded.draft, lastExportedAt: exported?.exportedAt ?? null };
+    } catch {
+        return { kind: 'restore', draft: loaded.draft };
+    }
+}
+
+/**
+ * Stores the schema as a form's draft
+ * A schema that fails validation is not stored (the builder only flags
+ * some mistakes inline), and the previous draft is kept
+ */
+export function saveDraft(
+    formId: string,
+    schema: FormSchema,
+    storage: DraftStorage | null = getLocalStorage(),
+    now: number = Date.now()
+): DraftSaveResult {
+    if (!storage) {
+        return { success: false, message: 'Autosave is unavailable: this browser blocks local storage.' };
+    }
+
+    const stored = { ...schema, version: CURRENT_SCHEMA_VERSION };
+    const validation = validateSchema(stored);
+    if (!validation.valid) {
+        return {
+            success: false,
+            message: `Not saved until the form is fixed (${formatSchemaIssue(validation.issues[0])}). The last valid draft is kept.`,
+        };
+    }
+
+    try {
+        const envelope = { format: DRAFT_FORMAT, savedAt: now, schema: stored };
+        storage.setItem(draftKey(formId), JSON.stringify(envelope));
+        return { success: true, savedAt: now };
+    } catch (error) {
+        return {
+            success: false,
+            message: isQuotaError(error)
+                ? 'Browser storage is full, so changes are not being saved. Export the form to keep a copy.'
+                : 'Autosave failed. Export the form to keep a copy.',
+        };
+    }
+}
+
+/**
+ * Drops a form's unexported changes
+ * The draft goes back to the last exported schema when it is known, and
+ * is removed otherwise. Returns the schema to continue with (undefined:
+ * an empty form).
+ */
+export function discardDraft(formId: string, storage: DraftStorage | null = getLocalStorage()): FormSchema | undefined {
+    try {
+        const exported = storage ? loadExport(formId, storage) : null;
+        if (exported?.schema) {
+            saveDraft(formId, exported.schema, storage, exported.exportedAt);
+            return exported.schema;
+        }
+        storage?.removeItem(draftKey(formId));
+    } catch {
+        // Nothing to discard when storage is unavailable
+    }
+    return undefined;
+}
+
+/**
+ * Removes every stored entry of a form
+ */
+export function removeDraft(formId: string, storage: DraftStorage | null = getLocalStorage()): void {
+    try {
+        storage?.removeItem(draftKey(formId));
+        storage?.removeItem(exportKey(formId));
+    } catch {
+        // Nothing to remove when storage is unavailable
+    }
+}
+
+/**
+ * Records that a form was exported; a draft holding the same schema is no
+ * longer offered for recovery, and discarding later changes returns to it
+ * (schema left out: only the time is known, and drafts saved up to then
+ * count as exported)
+ */
+export function markDraftExported(
+    formId: string,
+    schema: FormSchema | null,
+    storage: DraftStorage | null = getLocalStorage(),
+    now: number = Date.now()
+): void {
+    try {
+        const envelope = schema
+            ? { format: DRAFT_FORMAT, exportedAt: now, schema: { ...schema, version: CURRENT_SCHEMA_VERSION } }
+            : { format: DRAFT_FORMAT, exportedAt: now };
+        storage?.setItem(exportKey(formId), JSON.stringify(envelope));
+    } catch {
+        // Without storage there is no draft to compare against
+    }
+}
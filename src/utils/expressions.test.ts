@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import {
+    checkExpression,
+    collectReferences,
+    evaluateExpression,
+    parseExpression,
+    renameReferences,
+    roundTo,
+    type ExpressionNode,
+    type ExpressionValue,
+} from './expressions';
+
+/**
+ * Parses a formula that must be valid
+ */
+function parse(source: string): ExpressionNode {
+    const result = parseExpression(source);
+    if (!result.success) {
+        throw new Error(`Expected "${source}" to parse: ${result.message}`);
+    }
+    return result.expression;
+}
+
+/**
+ * Evaluates a formula with values by dotted name
+ */
+function evaluate(source: string, values: Record<string, ExpressionValue> = {}) {
+    return evaluateExpression(parse(source), (path) => values[path.join('.')] ?? null);
+}
+
+describe('parseExpression', () => {
+    it('rejects empty formulas', () => {
+        expect(parseExpression('   ')).toEqual({ success: false, message: 'Formula is empty' });
+    });
+
+    it('reports syntax errors instead of throwing', () => {
+        for (const source of ['1 +', '(1 + 2', 'sum(1,', '1 2', '"open']) {
+            expect(parseExpression(source).success).toBe(false);
+        }
+    });
+
+    it('rejects unknown functions and wrong argument counts', () => {
+        expect(parseExpression('eval(1)').success).toBe(false);
+        expect(parseExpression('if(1, 2)').success).toBe(false);
+        expect(parseExpression('abs(1, 2)').success).toBe(false);
+    });
+
+    it('rejects formulas that are too long', () => {
+        expect(parseExpression('1+'.repeat(1000) + '1').success).toBe(false);
+    });
+});
+
+describe('evaluateExpression', () => {
+    it('follows operator precedence and parentheses', () => {
+        expect(evaluate('1 + 2 * 3')).toBe(7);
+        expect(evaluate('(1 + 2) * 3')).toBe(9);
+        expect(evaluate('10 - 4 - 3')).toBe(3);
+        expect(evaluate('-2 * 3')).toBe(-6);
+        expect(evaluate('7 % 4')).toBe(3);
+    });
+
+    it('reads references, dotted into groups', () => {
+        expect(evaluate('quantity * unit_price', { quantity: 3, unit_price: 2.5 })).toBe(7.5);
+        expect(evaluate('address.zip + 1', { 'address.zip': '1000' })).toBe(1001);
+    });
+
+    it('treats blank values as 0 in arithmetic', () => {
+        expect(evaluate('a + 5', { a: '' })).toBe(5);
+        expect(evaluate('missing * 2')).toBe(0);
+    });
+
+    it('joins text with +', () => {
+        expect(evaluate('first + " " + last', { first: 'Ada', last: 'Lovelace' })).toBe('Ada Lovelace');
+    });
+
+    it('compares numbers numerically and text as text', () => {
+        expect(evaluate('a < b', { a: '9', b: '10' })).toBe(true);
+        expect(evaluate('a < b', { a: '2024-01-31', b: '2024-02-01' })).toBe(true);
+        expect(evaluate('a == 3', { a: '3' })).toBe(true);
+        expect(evaluate('a != "x"', { a: 'x' })).toBe(false);
+    });
+
+    it('combines repeated values with aggregates', () => {
+        const values = { 'items.price': [10, 20, '', 30] };
+        expect(evaluate('sum(items.price)', values)).toBe(60);
+        expect(evaluate('avg(items.price)', values)).toBe(20);
+        expect(evaluate('min(items.price)', values)).toBe(10);
+        expect(evaluate('max(items.price)', values)).toBe(30);
+        expect(evaluate('count(items.price)', values)).toBe(3);
+        expect(evaluate('avg(items.price)', { 'items.price': [] })).toBeNull();
+    });
+
+    it('only evaluates the branch if() takes', () => {
+        expect(evaluate('if(total > 100, total * 0.9, total)', { total: 200 })).toBe(180);
+        expect(evaluate('if(total > 100, total * 0.9, total)', { total: 50 })).toBe(50);
+        expect(evaluate('if(true, 1, sum(items) + items)', { items: [1] })).toBe(1);
+    });
+
+    it('short-circuits logical operators', () => {
+        expect(evaluate('a && b', { a: 1, b: 'yes' })).toBe(true);
+        expect(evaluate('a || b', { a: '', b: 0 })).toBe(false);
+        expect(evaluate('!a', { a: '' })).toBe(true);
+    });
+
+    it('rounds and clears floating point noise', () => {
+        expect(evaluate('round(2.345, 2)')).toBe(2.35);
+        expect(evaluate('floor(2.7) + ceil(2.1) + abs(-1)')).toBe(6);
+        expect(roundTo(0.1 + 0.2, 2)).toBe(0.3);
+    });
+
+    it('returns null instead of throwing when a value cannot be computed', () => {
+        expect(evaluate('a / 0', { a: 1 })).toBeNull();
+        expect(evaluate('a * 2', { a: 'abc' })).toBeNull();
+        expect(evaluate('items * 2', { items: [1, 2] })).toBeNull();
+    });
+});
+
+describe('checkExpression', () => {
+    it('reports lists used without an aggregate', () => {
+        const expression = parse('items.price * 2');
+        const result = checkExpression(expression, () => []);
+        expect(result.success).toBe(false);
+    });
+
+    it('accepts lists passed to aggregates', () => {
+        expect(checkExpression(parse('sum(items.price) * 2'), () => [])).toEqual({ success: true });
+    });
+});
+
+describe('collectReferences', () => {
+    it('lists reference paths in order of appearance', () => {
+        expect(collectReferences(parse('sum(items.price) + vat * total - if(a, b, c)'))).toEqual([
+            ['items', 'price'],
+            ['vat'],
+            ['total'],
+            ['a'],
+            ['b'],
+            ['c'],
+        ]);
+    });
+
+    it('does not treat literals or function names as references', () => {
+        expect(collectReferences(parse('round(1.5) + "text" + true'))).toEqual([]);
+    });
+});
+
+describe('renameReferences', () => {
+    const rename = (from: string[], to: string[]) => (path: string[]) =>
+        path.join('.') === from.join('.') ? to : null;
+
+    it('rewrites matching references and keeps the formatting', () => {
+        expect(renameReferences('price*2 +  sum( items.price )', rename(['price'], ['cost']))).toBe(
+            'cost*2 +  sum( items.price )'
+        );
+        expect(renameReferences('sum(items.price)', rename(['items', 'price'], ['lines', 'price']))).toBe(
+            'sum(lines.price)'
+        );
+    });
+
+    it('leaves function names, text and booleans alone', () => {
+        const toX = () => ['x'];
+        expect(renameReferences('sum(a) + "sum" + true', toX)).toBe('sum(x) + "sum" + true');
+    });
+
+    it('returns formulas that do not parse unchanged', () => {
+        expect(renameReferences('price *', rename(['price'], ['cost']))).toBe('price *');
+    });
+});
@@ -0,0 +1,680 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - EXPRESSION LANGUAGE
+ * =============================================================================
+ * Parser and evaluator for the formulas of computed fields, e.g.
+ *   quantity * unit_price
+ *   sum(items.price) * (1 + vat / 100)
+ *   if(total > 100, total * 0.9, total)
+ *
+ * Syntax:
+ *   literals     12, 3.5, "text", 'text', true, false
+ *   references   field names, dotted into groups: items.price
+ *   operators    + - * / %   < <= > >= == !=   && || !   ( )
+ *   functions    sum avg min max count round floor ceil abs if
+ *
+ * HARD CONSTRAINTS:
+ * - NO eval, new Function or any other code execution - expressions are
+ *   parsed into a tree and interpreted
+ * - Evaluation never throws: errors (type mismatches, division by zero)
+ *   make the result empty (null)
+ * - Pure functions only; how names resolve to values is up to the caller
+ * =============================================================================
+ */
+
+/**
+ * A single value in an expression
+ * null = empty (blank field, failed computation)
+ */
+export type ExpressionScalar = number | string | boolean | null;
+
+/**
+ * Value of a sub-expression; lists come from references into repeatable
+ * groups or whole groups, and can only be passed to aggregate functions
+ */
+export type ExpressionValue = ExpressionScalar | ExpressionScalar[];
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '<' | '<=' | '>' | '>=' | '==' | '!=' | '&&' | '||';
+
+/**
+ * Parsed expression tree
+ */
+export type ExpressionNode =
+    | { kind: 'literal'; value: ExpressionScalar }
+    | { kind: 'reference'; path: string[] }
+    | { kind: 'unary'; operator: '-' | '!'; operand: ExpressionNode }
+    | { kind: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+    | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+/**
+ * Result of parsing an expression
+ */
+export type ParseResult =
+    | { success: true; expression: ExpressionNode }
+    | { success: false; message: string };
+
+/**
+ * Resolves a reference path to a value (a list for repeated values)
+ */
+export type ReferenceResolver = (path: string[]) => ExpressionValue;
+
+/**
+ * Longest accepted expression, and deepest nesting
+ */
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_DEPTH = 64;
+
+/**
+ * Functions and their number of arguments (max -1 = any)
+ */
+const FUNCTIONS: Record<string, { min: number; max: number }> = {
+    sum: { min: 1, max: -1 },
+    avg: { min: 1, max: -1 },
+    min: { min: 1, max: -1 },
+    max: { min: 1, max: -1 },
+    count: { min: 1, max: -1 },
+    round: { min: 1, max: 2 },
+    floor: { min: 1, max: 1 },
+    ceil: { min: 1, max: 1 },
+    abs: { min: 1, max: 1 },
+    if: { min: 3, max: 3 },
+};
+
+/**
+ * Names of the available functions, for the builder's help text
+ */
+export const EXPRESSION_FUNCTIONS: readonly string[] = Object.keys(FUNCTIONS);
+
+/**
+ * Problem found while parsing or evaluating; never escapes this module
+ */
+class ExpressionError extends Error {}
+
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+type Token =
+    | { type: 'number'; value: number; index: number }
+    | { type: 'string'; value: string; index: number }
+    | { type: 'identifier'; value: string; index: number }
+    | { type: 'symbol'; value: string; index: number }
+    | { type: 'end'; index: number };
+
+/**
+ * Symbols, longest first so that "<=" wins over "<"
+ */
+const SYMBOLS = ['<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '<', '>', '!', '(', ')', ',', '.'];
+
+/**
+ * Describes a token for error messages
+ */
+function describeToken(token: Token): string {
+    switch (token.type) {
+        case 'end':
+            return 'end of formula';
+        case 'string':
+            return `"${token.value}"`;
+        default:
+            return `"${token.value}"`;
+    }
+}
+
+/**
+ * Splits an expression into tokens
+ */
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let index = 0;
+
+    while (index < source.length) {
+        const char = source[index];
+
+        if (/\s/.test(char)) {
+            index++;
+            continue;
+        }
+
+        const number = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(index));
+        if (number) {
+            tokens.push({ type: 'number', value: Number(number[0]), index });
+            index += number[0].length;
+            continue;
+        }
+
+        const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index));
+        if (identifier) {
+            tokens.push({ type: 'identifier', value: identifier[0], index });
+            index += identifier[0].length;
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            const end = source.indexOf(char, index + 1);
+            if (end === -1) {
+                throw new ExpressionError(`Unterminated text starting at position ${index + 1}`);
+            }
+            tokens.push({ type: 'string', value: source.slice(index + 1, end), index });
+            index = end + 1;
+            continue;
+        }
+
+        const symbol = SYMBOLS.find((s) => source.startsWith(s, index));
+        if (symbol) {
+            tokens.push({ type: 'symbol', value: symbol, index });
+            index += symbol.length;
+            continue;
+        }
+
+        throw new ExpressionError(`Unexpected character "${char}" at position ${index + 1}`);
+    }
+
+    tokens.push({ type: 'end', index });
+    return tokens;
+}
+
+// =============================================================================
+// Parser (recursive descent, one function per precedence level)
+// =============================================================================
+
+/**
+ * Binary operators per precedence level, loosest first
+ */
+const PRECEDENCE: readonly (readonly BinaryOperator[])[] = [
+    ['||'],
+    ['&&'],
+    ['==', '!='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+];
+
+/**
+ * Parses a token list into an expression tree
+ */
+function parseTokens(tokens: Token[]): ExpressionNode {
+    let position = 0;
+    let depth = 0;
+
+    const peek = () => tokens[position];
+    const isSymbol = (value: string) => {
+        const token = peek();
+        return token.type === 'symbol' && token.value === value;
+    };
+    const expect = (value: string) => {
+        if (!isSymbol(value)) {
+            const token = peek();
+            throw new ExpressionError(`Expected "${value}" but found ${describeToken(token)} at position ${token.index + 1}`);
+        }
+        position++;
+    };
+
+    const parseLevel = (level: number): ExpressionNode => {
+        if (level === PRECEDENCE.length) {
+            return parseUnary();
+        }
+
+        let left = parseLevel(level + 1);
+        for (;;) {
+            const token = peek();
+            const operator = PRECEDENCE[level].find((op) => token.type === 'symbol' && token.value === op);
+            if (operator === undefined) {
+                return left;
+            }
+            position++;
+            left = { kind: 'binary', operator, left, right: parseLevel(level + 1) };
+        }
+    };
+
+    const parseUnary = (): ExpressionNode => {
+        if (isSymbol('-') || isSymbol('!')) {
+            const operator = (peek() as { value: '-' | '!' }).value;
+            position++;
+            return { kind: 'unary', operator, operand: parseUnary() };
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): ExpressionNode => {
+        if (++depth > MAX_DEPTH) {
+            throw new ExpressionError('Formula is nested too deeply');
+        }
+
+        try {
+            const token = peek();
+
+            if (token.type === 'number' || token.type === 'string') {
+                position++;
+                return { kind: 'literal', value: token.value };
+            }
+
+            if (isSymbol('(')) {
+                position++;
+                const inner = parseLevel(0);
+                expect(')');
+                return inner;
+            }
+
+            if (token.type === 'identifier') {
+                position++;
+
+                if (token.value === 'true' || token.value === 'false') {
+                    return { kind: 'literal', value: token.value === 'true' };
+                }
+
+                if (isSymbol('(')) {
+                    return parseCall(token.value, token.index);
+                }
+
+                const path = [token.value];
+                while (isSymbol('.')) {
+                    position++;
+                    const next = peek();
+                    if (next.type !== 'identifier') {
+                        throw new ExpressionError(`Expected a field name after "." at position ${next.index + 1}`);
+                    }
+                    path.push(next.value);
+                    position++;
+                }
+                return { kind: 'reference', path };
+            }
+
+            throw new ExpressionError(`Unexpected ${describeToken(token)} at position ${token.index + 1}`);
+        } finally {
+            depth--;
+        }
+    };
+
+    const parseCall = (name: string, index: number): ExpressionNode => {
+        const arity = Object.hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+        if (arity === undefined) {
+            throw new ExpressionError(`Unknown function "${name}" at position ${index + 1}`);
+        }
+
+        expect('(');
+        const args: ExpressionNode[] = [];
+        if (!isSymbol(')')) {
+            args.push(parseLevel(0));
+            while (isSymbol(',')) {
+                position++;
+                args.push(parseLevel(0));
+            }
+        }
+        expect(')');
+
+        if (args.length < arity.min || (arity.max !== -1 && args.length > arity.max)) {
+            const expected = arity.max === -1
+                ? `at least ${arity.min}`
+                : arity.min === arity.max ? `${arity.min}` : `${arity.min} to ${arity.max}`;
+            throw new ExpressionError(`${name}() takes ${expected} ${arity.max === 1 ? 'argument' : 'arguments'}, got ${args.length}`);
+        }
+
+        return { kind: 'call', name, args };
+    };
+
+    const expression = parseLevel(0);
+    const rest = peek();
+    if (rest.type !== 'end') {
+        throw new ExpressionError(`Unexpected ${describeToken(rest)} at position ${rest.index + 1}`);
+    }
+    return expression;
+}
+
+/**
+ * Parses an expression
+ */
+export function parseExpression(source: string): ParseResult {
+    if (source.trim() === '') {
+        return { success: false, message: 'Formula is empty' };
+    }
+    if (source.length > MAX_EXPRESSION_LENGTH) {
+        return { success: false, message: `Formula is longer than ${MAX_EXPRESSION_LENGTH} characters` };
+    }
+
+    try {
+        return { success: true, expression: parseTokens(tokenize(source)) };
+    } catch (error) {
+        if (error instanceof ExpressionError) {
+            return { success: false, message: error.message };
+        }
+        throw error;
+    }
+}
+
+/**
+ * Collects the reference paths of an expression, in order of appearance
+ */
+export function collectReferences(node: ExpressionNode, result: string[][] = []): string[][] {
+    switch (node.kind) {
+        case 'reference':
+            result.push(node.path);
+            break;
+        case 'unary':
+            collectReferences(node.operand, result);
+            break;
+        case 'binary':
+            collectReferences(node.left, result);
+            collectReferences(node.right, result);
+            break;
+        case 'call':
+            node.args.forEach((arg) => collectReferences(arg, result));
+            break;
+    }
+    return result;
+}
+
+/**
+ * Rewrites the names in a formula's references, keeping the rest as typed
+ * `rename` gets each reference path and returns the new path (of the same
+ * length), or null to keep it. A formula that does not parse is returned
+ * unchanged.
+ */
+export function renameReferences(source: string, rename: (path: string[]) => string[] | null): string {
+    if (!parseExpression(source).success) {
+        return source;
+    }
+
+    const tokens = tokenize(source);
+    const isSymbolAt = (index: number, value: string) => {
+        const token = tokens[index];
+        return token.type === 'symbol' && token.value === value;
+    };
+
+    let result = '';
+    let copied = 0;
+    for (let index = 0; index < tokens.length; index++) {
+        const token = tokens[index];
+        if (token.type !== 'identifier' || token.value === 'true' || token.value === 'false' || isSymbolAt(index + 1, '(')) {
+            continue;
+        }
+
+        // The same reference rule as the parser: names joined by dots
+        const parts = [token];
+        while (isSymbolAt(index + 1, '.')) {
+            const next = tokens[index + 2];
+            if (next.type !== 'identifier') {
+                break;
+            }
+            parts.push(next);
+            index += 2;
+        }
+
+        const renamed = rename(parts.map((part) => part.value));
+        parts.forEach((part, position) => {
+            if (renamed && renamed[position] !== part.value) {
+                result += source.slice(copied, part.index) + renamed[position];
+                copied = part.index + part.value.length;
+            }
+        });
+    }
+    return result + source.slice(copied);
+}
+
+// =============================================================================
+// Evaluator
+// =============================================================================
+
+/**
+ * Checks whether a value counts as empty
+ */
+function isBlank(value: ExpressionScalar): boolean {
+    return value === null || value === '';
+}
+
+/**
+ * Requires a single value (lists only go into aggregate functions)
+ */
+function toScalar(value: ExpressionValue): ExpressionScalar {
+    if (Array.isArray(value)) {
+        throw new ExpressionError('A repeated or grouped value must be combined with sum(), avg(), min(), max() or count()');
+    }
+    return value;
+}
+
+/**
+ * Reads a value as a number if it is one (blank = null)
+ */
+function asNumber(value: ExpressionScalar): number | null {
+    if (typeof value === 'number') {
+        return value;
+    }
+    if (typeof value === 'boolean') {
+        return value ? 1 : 0;
+    }
+    if (isBlank(value)) {
+        return null;
+    }
+    const num = Number(value);
+    return isNaN(num) ? null : num;
+}
+
+/**
+ * Converts a value for arithmetic; blanks count as 0
+ */
+function toNumber(value: ExpressionScalar): number {
+    const num = asNumber(value);
+    if (num === null && !isBlank(value)) {
+        throw new ExpressionError(`"${value}" is not a number`);
+    }
+    return num ?? 0;
+}
+
+/**
+ * Truthiness for conditions and logical operators
+ */
+function isTruthy(value: ExpressionValue): boolean {
+    if (Array.isArray(value)) {
+        return value.some((item) => !isBlank(item));
+    }
+    return !(value === null || value === '' || value === 0 || value === false);
+}
+
+/**
+ * Equality: numbers numerically, anything else as text; a list equals a
+ * value when any element does (e.g. a multi-select)
+ */
+function isEqual(left: ExpressionValue, right: ExpressionValue): boolean {
+    if (Array.isArray(left)) {
+        return left.some((item) => isEqual(item, right));
+    }
+    if (Array.isArray(right)) {
+        return isEqual(right, left);
+    }
+    if (isBlank(left) || isBlank(right)) {
+        return isBlank(left) && isBlank(right);
+    }
+    const a = asNumber(left);
+    const b = asNumber(right);
+    if (a !== null && b !== null && typeof left !== 'boolean' && typeof right !== 'boolean') {
+        return a === b;
+    }
+    return String(left) === String(right);
+}
+
+/**
+ * Numeric values of aggregate arguments (lists flattened, blanks skipped)
+ */
+function collectNumbers(values: ExpressionValue[]): number[] {
+    const result: number[] = [];
+    for (const value of values.flat()) {
+        const num = asNumber(value);
+        if (num !== null) {
+            result.push(num);
+        }
+    }
+    return result;
+}
+
+/**
+ * Evaluates a function call
+ * Arguments are evaluated lazily so that if() skips the unused branch
+ */
+function evaluateCall(name: string, args: ExpressionNode[], resolve: ReferenceResolver): ExpressionValue {
+    const evalArg = (index: number) => evaluateNode(args[index], resolve);
+
+    switch (name) {
+        case 'if':
+            return isTruthy(evalArg(0)) ? evalArg(1) : evalArg(2);
+        case 'count':
+            return args.map((_, i) => evalArg(i)).flat().filter((value) => !isBlank(value)).length;
+        case 'sum':
+            return collectNumbers(args.map((_, i) => evalArg(i))).reduce((total, num) => total + num, 0);
+        case 'avg': {
+            const numbers = collectNumbers(args.map((_, i) => evalArg(i)));
+            return numbers.length === 0 ? null : numbers.reduce((total, num) => total + num, 0) / numbers.length;
+        }
+        case 'min':
+        case 'max': {
+            const numbers = collectNumbers(args.map((_, i) => evalArg(i)));
+            if (numbers.length === 0) {
+                return null;
+            }
+            return name === 'min' ? Math.min(...numbers) : Math.max(...numbers);
+        }
+        case 'round': {
+            const digits = args.length > 1 ? Math.trunc(toNumber(toScalar(evalArg(1)))) : 0;
+            return roundTo(toNumber(toScalar(evalArg(0))), digits);
+        }
+        case 'floor':
+            return Math.floor(toNumber(toScalar(evalArg(0))));
+        case 'ceil':
+            return Math.ceil(toNumber(toScalar(evalArg(0))));
+        case 'abs':
+            return Math.abs(toNumber(toScalar(evalArg(0))));
+        default:
+            throw new ExpressionError(`Unknown function "${name}"`);
+    }
+}
+
+/**
+ * Evaluates a binary operation
+ */
+function evaluateBinary(
+    operator: BinaryOperator,
+    leftNode: ExpressionNode,
+    rightNode: ExpressionNode,
+    resolve: ReferenceResolver
+): ExpressionValue {
+    // Logical operators short-circuit
+    if (operator === '&&') {
+        return isTruthy(evaluateNode(leftNode, resolve)) && isTruthy(evaluateNode(rightNode, resolve));
+    }
+    if (operator === '||') {
+        return isTruthy(evaluateNode(leftNode, resolve)) || isTruthy(evaluateNode(rightNode, resolve));
+    }
+
+    const left = evaluateNode(leftNode, resolve);
+    const right = evaluateNode(rightNode, resolve);
+
+    if (operator === '==' || operator === '!=') {
+        return isEqual(left, right) === (operator === '==');
+    }
+
+    const a = toScalar(left);
+    const b = toScalar(right);
+
+    // "+" joins text when either side is text that is not a number
+    if (operator === '+' && [a, b].some((value) => typeof value === 'string' && !isBlank(value) && asNumber(value) === null)) {
+        return `${a ?? ''}${b ?? ''}`;
+    }
+
+    switch (operator) {
+        case '+':
+            return toNumber(a) + toNumber(b);
+        case '-':
+            return toNumber(a) - toNumber(b);
+        case '*':
+            return toNumber(a) * toNumber(b);
+        case '/':
+        case '%': {
+            const divisor = toNumber(b);
+            if (divisor === 0) {
+                return null;
+            }
+            return operator === '/' ? toNumber(a) / divisor : toNumber(a) % divisor;
+        }
+        default: {
+            // Ordering: numbers numerically, otherwise as text (e.g. dates)
+            const x = asNumber(a);
+            const y = asNumber(b);
+            const order = x !== null && y !== null
+                ? Math.sign(x - y)
+                : String(a ?? '').localeCompare(String(b ?? ''));
+            switch (operator) {
+                case '<':
+                    return order < 0;
+                case '<=':
+                    return order <= 0;
+                case '>':
+                    return order > 0;
+                default:
+                    return order >= 0;
+            }
+        }
+    }
+}
+
+/**
+ * Evaluates a node
+ */
+function evaluateNode(node: ExpressionNode, resolve: ReferenceResolver): ExpressionValue {
+    switch (node.kind) {
+        case 'literal':
+            return node.value;
+        case 'reference':
+            return resolve(node.path);
+        case 'unary': {
+            const operand = evaluateNode(node.operand, resolve);
+            return node.operator === '!' ? !isTruthy(operand) : -toNumber(toScalar(operand));
+        }
+        case 'binary':
+            return evaluateBinary(node.operator, node.left, node.right, resolve);
+        case 'call':
+            return evaluateCall(node.name, node.args, resolve);
+    }
+}
+
+/**
+ * Rounds to a number of decimal places
+ */
+export function roundTo(value: number, digits: number): number {
+    const factor = 10 ** Math.max(0, Math.min(digits, 10));
+    return Math.round((value + Number.EPSILON) * factor) / factor;
+}
+
+/**
+ * Evaluates an expression to a single value
+ * Returns null when the result is empty or cannot be computed
+ * (type mismatch, division by zero, a list left uncombined)
+ */
+export function evaluateExpression(expression: ExpressionNode, resolve: ReferenceResolver): ExpressionScalar {
+    try {
+        const value = toScalar(evaluateNode(expression, resolve));
+        return typeof value === 'number' && !Number.isFinite(value) ? null : value;
+    } catch (error) {
+        if (error instanceof ExpressionError) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Evaluates an expression, reporting why it failed
+ * Used by the builder to flag formulas that can never work
+ * (e.g. a repeated value used without an aggregate)
+ */
+export function checkExpression(
+    expression: ExpressionNode,
+    resolve: ReferenceResolver
+): { success: true } | { success: false; message: string } {
+    try {
+        toScalar(evaluateNode(expression, resolve));
+        return { success: true };
+    } catch (error) {
+        if (error instanceof ExpressionError) {
+            return { success: false, message: error.message };
+        }
+        throw error;
+    }
+}
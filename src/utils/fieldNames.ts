@@ -0,0 +1,86 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - FIELD MACHINE NAMES
+ * =============================================================================
+ * Helpers for the `name` property of fields - the readable key used for the
+ * field (or group) in nested submission output.
+ *
+ * HARD CONSTRAINTS:
+ * - Names are identifier-like: letters, digits and underscores, not
+ *   starting with a digit (safe as JSON keys and code identifiers)
+ * - Names must be unique among siblings, NOT globally
+ * - Pure functions only
+ * =============================================================================
+ */
+
+import type { Field } from '../types/schema';
+
+/**
+ * Allowed shape of a field name
+ */
+export const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Derives a machine name from a label, e.g. "Date of Birth" -> "date_of_birth"
+ * Falls back to the given default when the label has no usable characters
+ */
+export function slugifyName(label: string, fallback = 'field'): string {
+    const slug = label
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '');
+
+    if (slug === '') {
+        return fallback;
+    }
+
+    return /^[0-9]/.test(slug) ? `_${slug}` : slug;
+}
+
+/**
+ * Returns base, or base_2, base_3, ... - the first one not in `taken`
+ */
+export function uniqueName(base: string, taken: ReadonlySet<string>): string {
+    if (!taken.has(base)) {
+        return base;
+    }
+
+    let suffix = 2;
+    while (taken.has(`${base}_${suffix}`)) {
+        suffix++;
+    }
+    return `${base}_${suffix}`;
+}
+
+/**
+ * Checks whether a name was derived automatically from a label
+ * (the slug itself or the slug with a numeric de-duplication suffix),
+ * in which case it follows label edits
+ */
+export function isDerivedName(name: string, label: string): boolean {
+    const slug = slugifyName(label);
+    return name === slug || new RegExp(`^${slug}_\\d+$`).test(name);
+}
+
+/**
+ * Returns an error message for a field's name, or null if it is valid
+ * `siblings` is the list the field lives in (it may include the field itself)
+ */
+export function getFieldNameError(field: Field, siblings: Field[]): string | null {
+    if (field.name.trim() === '') {
+        return 'Name is required';
+    }
+
+    if (!FIELD_NAME_PATTERN.test(field.name)) {
+        return 'Use letters, digits and underscores only, not starting with a digit';
+    }
+
+    const isDuplicate = siblings.some((sibling) => sibling.id !== field.id && sibling.name === field.name);
+    if (isDuplicate) {
+        return `Another field in this group is already named "${field.name}"`;
+    }
+
+    return null;
+}
@@ -0,0 +1,384 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - FORM LIBRARY
+ * =============================================================================
+ * The list of locally stored forms: titles, timestamps and which form was
+ * open last. Each form's schema is stored separately, as its autosave
+ * draft (utils/draftStorage.ts), so listing and searching never parse
+ * schemas.
+ *
+ * Stored index (LIBRARY_KEY):
+ *   { "format": LIBRARY_FORMAT, "forms": FormSummary[], "openFormId": string | null }
+ *
+ * HARD CONSTRAINTS:
+ * - Operations return a new library (never mutate their input) and report
+ *   storage failures as results instead of throwing
+ * - A missing or damaged index is rebuilt from the stored drafts, so forms
+ *   are never orphaned; the single draft of older builders becomes the
+ *   first library form
+ * - Deleting a form removes all of its stored entries
+ * =============================================================================
+ */
+
+import type { FormSchema } from '../types/schema';
+import { generateId } from './idGenerator';
+import {
+    draftKey,
+    getLocalStorage,
+    isQuotaError,
+    loadDraft,
+    markDraftExported,
+    removeDraft,
+    saveDraft,
+    type DraftStorage,
+} from './draftStorage';
+import { removeInbox } from './submissionInbox';
+
+/**
+ * localStorage key of the library index
+ */
+export const LIBRARY_KEY = 'form-builder:library';
+
+/**
+ * Format of the stored index; bump when its shape changes
+ */
+export const LIBRARY_FORMAT = 1;
+
+/**
+ * Keys used by builders before the library existed (a single draft)
+ */
+const LEGACY_DRAFT_KEY = 'form-builder:draft';
+const LEGACY_LAST_EXPORT_KEY = 'form-builder:last-export';
+
+/**
+ * Title of forms created without one
+ */
+export const UNTITLED_FORM = 'Untitled form';
+
+/**
+ * Metadata of a stored form
+ */
+export interface FormSummary {
+    id: string;
+    title: string;
+    /** Creation time (ms since epoch) */
+    createdAt: number;
+    /** Time of the last change to the schema or title (ms since epoch) */
+    updatedAt: number;
+}
+
+/**
+ * All stored forms and the form that is open
+ */
+export interface FormLibrary {
+    /** Forms in creation order */
+    forms: FormSummary[];
+    /** Form open in the builder, or null while the library is shown */
+    openFormId: string | null;
+}
+
+/**
+ * Result of a library operation
+ */
+export type LibraryResult =
+    | { success: true; library: FormLibrary }
+    | { success: false; message: string };
+
+/**
+ * Library read on startup, with a note when it had to be repaired
+ */
+export interface LibraryLoad {
+    library: FormLibrary;
+    notice: string | null;
+}
+
+/**
+ * Checks the shape of a stored form summary
+ */
+function isFormSummary(value: unknown): value is FormSummary {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const { id, title, createdAt, updatedAt } = value as Record<string, unknown>;
+    return (
+        typeof id === 'string' &&
+        id !== '' &&
+        typeof title === 'string' &&
+        typeof createdAt === 'number' &&
+        typeof updatedAt === 'number'
+    );
+}
+
+/**
+ * Parses the stored index, or returns null if it cannot be used
+ */
+function parseIndex(raw: string): FormLibrary | null {
+    try {
+        const index: unknown = JSON.parse(raw);
+        if (typeof index !== 'object' || index === null) {
+            return null;
+        }
+        const { format, forms, openFormId } = index as Record<string, unknown>;
+        if (format !== LIBRARY_FORMAT || !Array.isArray(forms) || !forms.every(isFormSummary)) {
+            return null;
+        }
+        const isOpenFormKnown = typeof openFormId === 'string' && forms.some((form) => form.id === openFormId);
+        return { forms, openFormId: isOpenFormKnown ? openFormId : null };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Rebuilds the index from the drafts found in storage
+ */
+function rebuildIndex(storage: DraftStorage): FormSummary[] {
+    const prefix = draftKey('');
+    const forms: FormSummary[] = [];
+
+    for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (!key?.startsWith(prefix)) {
+            continue;
+        }
+        const id = key.slice(prefix.length);
+        const loaded = loadDraft(id, storage);
+        const savedAt = loaded.kind === 'found' ? loaded.draft.savedAt : Date.now();
+        forms.push({ id, title: 'Recovered form', createdAt: savedAt, updatedAt: savedAt });
+    }
+
+    return forms.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Moves the single draft of older builders into a library form
+ */
+function migrateLegacyDraft(storage: DraftStorage): FormSummary | null {
+    const raw = storage.getItem(LEGACY_DRAFT_KEY);
+    if (raw === null) {
+        return null;
+    }
+
+    const id = generateId('form');
+    storage.setItem(draftKey(id), raw);
+    const loaded = loadDraft(id, storage);
+    const savedAt = loaded.kind === 'found' ? loaded.draft.savedAt : Date.now();
+
+    const lastExport = Number(storage.getItem(LEGACY_LAST_EXPORT_KEY));
+    if (Number.isFinite(lastExport) && lastExport > 0) {
+        // The old builder kept only the export time; its schema is known if nothing changed since
+        const exported = loaded.kind === 'found' && savedAt <= lastExport ? loaded.draft.schema : null;
+        markDraftExported(id, exported, storage, lastExport);
+    }
+
+    storage.removeItem(LEGACY_DRAFT_KEY);
+    storage.removeItem(LEGACY_LAST_EXPORT_KEY);
+    return { id, title: UNTITLED_FORM, createdAt: savedAt, updatedAt: savedAt };
+}
+
+/**
+ * Writes the index
+ */
+function writeIndex(library: FormLibrary, storage: DraftStorage | null): LibraryResult {
+    if (!storage) {
+        return { success: false, message: 'Forms cannot be stored: this browser blocks local storage.' };
+    }
+    try {
+        storage.setItem(LIBRARY_KEY, JSON.stringify({ format: LIBRARY_FORMAT, ...library }));
+        return { success: true, library };
+    } catch (error) {
+        return {
+            success: false,
+            message: isQuotaError(error)
+                ? 'Browser storage is full. Delete or export some forms and try again.'
+                : 'The form library could not be saved.',
+        };
+    }
+}
+
+/**
+ * Reads the library, repairing or migrating the stored index when needed
+ */
+export function loadLibrary(storage: DraftStorage | null = getLocalStorage()): LibraryLoad {
+    const empty: FormLibrary = { forms: [], openFormId: null };
+    if (!storage) {
+        return { library: empty, notice: 'Forms cannot be stored: this browser blocks local storage.' };
+    }
+
+    try {
+        const raw = storage.getItem(LIBRARY_KEY);
+        const parsed = raw === null ? null : parseIndex(raw);
+        if (parsed) {
+            return { library: parsed, notice: null };
+        }
+
+        const legacy = migrateLegacyDraft(storage);
+        const forms = rebuildIndex(storage).map((form) => (form.id === legacy?.id ? legacy : form));
+        const library: FormLibrary = { forms, openFormId: legacy?.id ?? null };
+        writeIndex(library, storage);
+
+        const notice = raw !== null
+            ? `The list of forms was damaged and has been rebuilt from ${forms.length} saved ${forms.length === 1 ? 'form' : 'forms'}.`
+            : null;
+        return { library, notice };
+    } catch {
+        return { library: empty, notice: 'The form library could not be read.' };
+    }
+}
+
+/**
+ * Finds a form by ID
+ */
+export function findForm(library: FormLibrary, formId: string | null): FormSummary | undefined {
+    return library.forms.find((form) => form.id === formId);
+}
+
+/**
+ * Forms whose title contains the query (case-insensitive), most recently
+ * updated first
+ */
+export function searchForms(forms: FormSummary[], query: string): FormSummary[] {
+    const needle = query.trim().toLocaleLowerCase();
+    return forms
+        .filter((form) => needle === '' || form.title.toLocaleLowerCase().includes(needle))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Normalizes a title entered by the user
+ */
+function cleanTitle(title: string): string {
+    return title.trim().replace(/\s+/g, ' ') || UNTITLED_FORM;
+}
+
+/**
+ * Adds an empty form
+ */
+export function createForm(
+    library: FormLibrary,
+    title: string,
+    storage: DraftStorage | null = getLocalStorage(),
+    now: number = Date.now()
+): LibraryResult {
+    const form: FormSummary = { id: generateId('form'), title: cleanTitle(title), createdAt: now, updatedAt: now };
+    return writeIndex({ ...library, forms: [...library.forms, form] }, storage);
+}
+
+/**
+ * Changes a form's title
+ */
+export function renameForm(
+    library: FormLibrary,
+    formId: string,
+    title: string,
+    storage: DraftStorage | null = getLocalStorage(),
+    now: number = Date.now()
+): LibraryResult {
+    const forms = library.forms.map((form) =>
+        form.id === formId ? { ...form, title: cleanTitle(title), updatedAt: now } : form
+    );
+    return writeIndex({ ...library, forms }, storage);
+}
+
+/**
+ * Copies a form and its current schema under a new title
+ * ("Contact (copy)", "Contact (copy 2)", ...)
+ */
+export function duplicateForm(
+    library: FormLibrary,
+    formId: string,
+    storage: DraftStorage | null = getLocalStorage(),
+    now: number = Date.now()
+): LibraryResult {
+    const source = findForm(library, formId);
+    if (!source) {
+        return { success: false, message: 'This form no longer exists.' };
+    }
+
+    const loaded = loadDraft(formId, storage);
+    if (loaded.kind === 'unreadable') {
+        return { success: false, message: `"${source.title}" cannot be duplicated. ${loaded.message}` };
+    }
+
+    const titles = new Set(library.forms.map((form) => form.title));
+    let title = `${source.title} (copy)`;
+    for (let n = 2; titles.has(title); n++) {
+        title = `${source.title} (copy ${n})`;
+    }
+
+    const copy: FormSummary = { id: generateId('form'), title, createdAt: now, updatedAt: now };
+    if (loaded.kind === 'found') {
+        const saved = saveDraft(copy.id, loaded.draft.schema, storage, now);
+        if (!saved.success) {
+            return saved;
+        }
+    }
+
+    const index = library.forms.indexOf(source);
+    const forms = [...library.forms.slice(0, index + 1), copy, ...library.forms.slice(index + 1)];
+    const result = writeIndex({ ...library, forms }, storage);
+    if (!result.success) {
+        removeDraft(copy.id, storage);
+    }
+    return result;
+}
+
+/**
+ * Removes a form and everything stored for it
+ */
+export function deleteForm(
+    library: FormLibrary,
+    formId: string,
+    storage: DraftStorage | null = getLocalStorage()
+): LibraryResult {
+    const result = writeIndex(
+        {
+            forms: library.forms.filter((form) => form.id !== formId),
+            openFormId: library.openFormId === formId ? null : library.openFormId,
+        },
+        storage
+    );
+    if (result.success) {
+        removeDraft(formId, storage);
+        removeInbox(formId, storage);
+    }
+    return result;
+}
+
+/**
+ * Records which form is open (null: the library is shown)
+ */
+export function setOpenForm(
+    library: FormLibrary,
+    formId: string | null,
+    storage: DraftStorage | null = getLocalStorage()
+): LibraryResult {
+    return writeIndex({ ...library, openFormId: formId }, storage);
+}
+
+/**
+ * Records a change to a form's schema
+ */
+function touchForm(
+    library: FormLibrary,
+    formId: string,
+    updatedAt: number,
+    storage: DraftStorage | null = getLocalStorage()
+): LibraryResult {
+    const forms = library.forms.map((form) => (form.id === formId ? { ...form, updatedAt } : form));
+    return writeIndex({ ...library, forms }, storage);
+}
+
+/**
+ * Saves a form's schema and its updated timestamp together
+ */
+export function saveFormSchema(
+    library: FormLibrary,
+    formId: string,
+    schema: FormSchema,
+    storage: DraftStorage | null = getLocalStorage(),
+    now: number = Date.now()
+): LibraryResult {
+    const saved = saveDraft(formId, schema, storage, now);
+    return saved.success ? touchForm(library, formId, saved.savedAt, storage) : saved;
+}
@@ -0,0 +1,267 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - FORM RULES (CROSS-FIELD VALIDATION)
+ * =============================================================================
+ * Evaluates the form-level `rules` of a schema: comparisons between two
+ * fields, sums of number fields, and "at least N of" requirements.
+ *
+ * HARD CONSTRAINTS:
+ * - Pure functions only - no React, no side effects
+ * - Rules refer to fields by ID; fields inside repeatable groups are never
+ *   valid targets (they have no single value)
+ * - Hidden fields take no part: a comparison with a hidden or empty field
+ *   is skipped, hidden fields add nothing to sums and counts
+ * - A failing rule reports its message on every visible field involved and
+ *   once at form level
+ * - Default messages come from the message catalog (utils/messages.ts)
+ * - NO form libraries (React Hook Form, Formik)
+ * =============================================================================
+ */
+
+import type { Field, FormRule, FormSchema, RuleOperator } from '../types/schema';
+import { isGroupField, isTemporalField } from '../types/schema';
+import type { FieldValue, FlatFormData } from './dataMerging';
+import { getHiddenFieldIds, isEmptyValue } from './conditions';
+import { compareTemporalValues, normalizeTemporalValue } from './dateBounds';
+import { isRepeatableGroup, type RepeatInstances } from './formScope';
+import { ENGLISH_MESSAGES, type MessageId, type Messages } from './messages';
+
+/**
+ * Operators in display order, with their wording in the builder
+ */
+export const RULE_OPERATORS: { value: RuleOperator; label: string; temporalLabel: string }[] = [
+    { value: 'lessThan', label: 'less than', temporalLabel: 'before' },
+    { value: 'lessThanOrEqual', label: 'at most', temporalLabel: 'on or before' },
+    { value: 'equals', label: 'equal to', temporalLabel: 'equal to' },
+    { value: 'notEquals', label: 'different from', temporalLabel: 'different from' },
+    { value: 'greaterThanOrEqual', label: 'at least', temporalLabel: 'on or after' },
+    { value: 'greaterThan', label: 'greater than', temporalLabel: 'after' },
+];
+
+/**
+ * Catalog wording of each operator, for numbers and for dates/times
+ */
+const OPERATOR_MESSAGES: Record<RuleOperator, { plain: MessageId; temporal: MessageId }> = {
+    lessThan: { plain: 'operator.lessThan', temporal: 'operator.before' },
+    lessThanOrEqual: { plain: 'operator.lessThanOrEqual', temporal: 'operator.onOrBefore' },
+    equals: { plain: 'operator.equals', temporal: 'operator.equals' },
+    notEquals: { plain: 'operator.notEquals', temporal: 'operator.notEquals' },
+    greaterThanOrEqual: { plain: 'operator.greaterThanOrEqual', temporal: 'operator.onOrAfter' },
+    greaterThan: { plain: 'operator.greaterThan', temporal: 'operator.after' },
+};
+
+/**
+ * Result of evaluating the form rules
+ */
+export interface FormRuleResult {
+    /** Rule messages by value key of the fields involved */
+    fieldErrors: Record<string, string>;
+    /** Messages of every failing rule, in rule order */
+    formErrors: string[];
+}
+
+/**
+ * IDs of the fields a rule refers to
+ */
+export function getRuleFieldIds(rule: FormRule): string[] {
+    return rule.type === 'compare' ? [rule.fieldId, rule.otherFieldId] : rule.fieldIds;
+}
+
+/**
+ * Collects the input fields rules may refer to: every non-group field
+ * outside repeatable groups, in form order
+ */
+export function collectRuleTargets(fields: Field[], result: Field[] = []): Field[] {
+    for (const field of fields) {
+        if (isRepeatableGroup(field)) {
+            continue;
+        }
+        if (isGroupField(field)) {
+            collectRuleTargets(field.children, result);
+        } else {
+            result.push(field);
+        }
+    }
+    return result;
+}
+
+/**
+ * Checks a comparison result (negative, 0, positive) against an operator
+ */
+function holds(order: number, operator: RuleOperator): boolean {
+    switch (operator) {
+        case 'lessThan':
+            return order < 0;
+        case 'lessThanOrEqual':
+            return order <= 0;
+        case 'equals':
+            return order === 0;
+        case 'notEquals':
+            return order !== 0;
+        case 'greaterThanOrEqual':
+            return order >= 0;
+        case 'greaterThan':
+            return order > 0;
+    }
+}
+
+/**
+ * Converts a value to a number, or null if it is not numeric
+ */
+function toNumber(value: FieldValue | undefined): number | null {
+    if (isEmptyValue(value) || typeof value === 'boolean' || Array.isArray(value)) {
+        return null;
+    }
+    const num = Number(value);
+    return isNaN(num) ? null : num;
+}
+
+/**
+ * Orders two values of a field: dates and times chronologically, numbers
+ * numerically, anything else by (string) equality only
+ * Returns null when the values cannot be ordered
+ */
+function compareValues(field: Field, a: FieldValue, b: FieldValue): number | null {
+    if (isTemporalField(field) && typeof a === 'string' && typeof b === 'string') {
+        const isValid = normalizeTemporalValue(field.type, a) !== null && normalizeTemporalValue(field.type, b) !== null;
+        return isValid ? compareTemporalValues(field.type, a, b) : null;
+    }
+
+    const left = toNumber(a);
+    const right = toNumber(b);
+    if (left !== null && right !== null) {
+        return Math.sign(left - right);
+    }
+
+    return null;
+}
+
+/**
+ * Default message of a failing rule, e.g. "End Age must be greater than Start Age"
+ */
+export function getDefaultRuleMessage(rule: FormRule, fields: Field[], messages: Messages = ENGLISH_MESSAGES): string {
+    return getDefaultMessage(rule, new Map(collectRuleTargets(fields).map((field) => [field.id, field])), messages);
+}
+
+/**
+ * Default message of a failing rule, with targets looked up by ID
+ */
+function getDefaultMessage(rule: FormRule, fieldsById: Map<string, Field>, messages: Messages): string {
+    const labelOf = (id: string) => fieldsById.get(id)?.label ?? id;
+    const operatorOf = (operator: RuleOperator, temporal: boolean) => {
+        const wording = OPERATOR_MESSAGES[operator];
+        return wording ? messages.format(temporal ? wording.temporal : wording.plain) : operator;
+    };
+
+    switch (rule.type) {
+        case 'compare': {
+            const field = fieldsById.get(rule.fieldId);
+            const temporal = field !== undefined && isTemporalField(field);
+            return messages.format('rule.compare', {
+                field: labelOf(rule.fieldId),
+                operator: operatorOf(rule.operator, temporal),
+                other: labelOf(rule.otherFieldId),
+            });
+        }
+        case 'sum':
+            return messages.format('rule.sum', {
+                fields: messages.list(rule.fieldIds.map(labelOf), 'and'),
+                operator: operatorOf(rule.operator, false),
+                value: rule.value,
+            });
+        case 'atLeast':
+            return messages.format('rule.atLeast', {
+                count: rule.count,
+                fields: messages.list(rule.fieldIds.map(labelOf), 'or'),
+            });
+    }
+}
+
+/**
+ * Evaluates a single rule against the visible values
+ * Returns true when the rule holds (or does not apply)
+ */
+function evaluateRule(
+    rule: FormRule,
+    fieldsById: Map<string, Field>,
+    valueOf: (id: string) => FieldValue | undefined
+): boolean {
+    switch (rule.type) {
+        case 'compare': {
+            const field = fieldsById.get(rule.fieldId);
+            const left = valueOf(rule.fieldId);
+            const right = valueOf(rule.otherFieldId);
+            if (!field || left === undefined || right === undefined || isEmptyValue(left) || isEmptyValue(right)) {
+                return true;
+            }
+
+            const order = compareValues(field, left, right);
+            if (order !== null) {
+                return holds(order, rule.operator);
+            }
+            // Unordered values can still be tested for (in)equality
+            if (rule.operator === 'equals' || rule.operator === 'notEquals') {
+                const isEqual = JSON.stringify(left) === JSON.stringify(right);
+                return rule.operator === 'equals' ? isEqual : !isEqual;
+            }
+            return true;
+        }
+
+        case 'sum': {
+            const values = rule.fieldIds.map(valueOf).filter((value) => value !== undefined);
+            if (values.length === 0) {
+                return true;
+            }
+            const total = values.reduce<number>((sum, value) => sum + (toNumber(value) ?? 0), 0);
+            // Round away floating point noise (0.1 + 0.2)
+            return holds(Math.sign(Math.round((total - rule.value) * 1e9)), rule.operator);
+        }
+
+        case 'atLeast': {
+            const values = rule.fieldIds.map(valueOf).filter((value) => value !== undefined);
+            if (values.length === 0) {
+                return true;
+            }
+            return values.filter((value) => !isEmptyValue(value)).length >= rule.count;
+        }
+    }
+}
+
+/**
+ * Evaluates every form rule of a schema against form data
+ */
+export function validateFormRules(
+    schema: FormSchema,
+    data: FlatFormData,
+    instances: RepeatInstances = {},
+    messages: Messages = ENGLISH_MESSAGES
+): FormRuleResult {
+    const result: FormRuleResult = { fieldErrors: {}, formErrors: [] };
+    const rules = schema.rules ?? [];
+    if (rules.length === 0) {
+        return result;
+    }
+
+    const hidden = getHiddenFieldIds(schema.fields, data, instances);
+    const fieldsById = new Map(collectRuleTargets(schema.fields).map((field) => [field.id, field]));
+
+    // Hidden and unknown fields have no value (rule targets live in the root scope)
+    const valueOf = (id: string): FieldValue | undefined =>
+        fieldsById.has(id) && !hidden.has(id) ? data[id] : undefined;
+
+    for (const rule of rules) {
+        if (evaluateRule(rule, fieldsById, valueOf)) {
+            continue;
+        }
+
+        const message = rule.message || getDefaultMessage(rule, fieldsById, messages);
+        result.formErrors.push(message);
+        for (const id of getRuleFieldIds(rule)) {
+            if (valueOf(id) !== undefined && !(id in result.fieldErrors)) {
+                result.fieldErrors[id] = message;
+            }
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,160 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - FORM SCOPES (REPEATABLE GROUP INSTANCES)
+ * =============================================================================
+ * Runtime values live in a flat map. Fields inside repeatable groups exist
+ * once per instance, so their values are stored under SCOPED keys:
+ *
+ *   root field                      -> "field_a"
+ *   field in instance i1 of group g -> "g[i1].field_a"
+ *   nested repeatable               -> "g[i1].h[i7].field_a"
+ *
+ * The ordered instance IDs of every repeatable group are kept alongside,
+ * keyed by the group's own scoped key.
+ *
+ * HARD CONSTRAINTS:
+ * - Field IDs from the schema are never rewritten; scopes only prefix them
+ * - Pure functions only (instance ID generation aside)
+ * - NO form libraries (React Hook Form, Formik)
+ * =============================================================================
+ */
+
+import type { Field, GroupField } from '../types/schema';
+import { isGroupField } from '../types/schema';
+
+/**
+ * Ordered instance IDs per repeatable group, keyed by the group's scoped key
+ */
+export type RepeatInstances = Record<string, string[]>;
+
+/**
+ * Scope of top-level fields
+ */
+export const ROOT_SCOPE = '';
+
+/**
+ * Key under which a field's value (or a group's errors) is stored in a scope
+ */
+export function valueKey(scope: string, fieldId: string): string {
+    return `${scope}${fieldId}`;
+}
+
+/**
+ * Scope of the children of one instance of a repeatable group
+ */
+export function instanceScope(scope: string, groupId: string, instanceId: string): string {
+    return `${scope}${groupId}[${instanceId}].`;
+}
+
+/**
+ * Checks whether a group repeats
+ */
+export function isRepeatableGroup(field: Field): field is GroupField & { repeatable: true } {
+    return isGroupField(field) && field.repeatable === true;
+}
+
+/**
+ * Number of instances a repeatable group starts with (at least one)
+ */
+export function initialInstanceCount(group: GroupField): number {
+    const min = group.minInstances ?? 0;
+    const max = group.maxInstances ?? Infinity;
+    return Math.min(Math.max(min, 1), max);
+}
+
+/**
+ * Generates a short, unique instance ID
+ */
+export function generateInstanceId(): string {
+    return `i${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`;
+}
+
+/**
+ * Visits every field in every scope, depth first
+ * Repeatable groups are visited once in their own scope, then their
+ * children once per instance. Returning false from `visit` skips the
+ * field's children.
+ */
+export function walkScopedFields(
+    fields: Field[],
+    instances: RepeatInstances,
+    visit: (field: Field, scope: string) => boolean | void,
+    scope: string = ROOT_SCOPE
+): void {
+    for (const field of fields) {
+        if (visit(field, scope) === false || !isGroupField(field)) {
+            continue;
+        }
+
+        if (isRepeatableGroup(field)) {
+            for (const instanceId of instances[valueKey(scope, field.id)] ?? []) {
+                walkScopedFields(field.children, instances, visit, instanceScope(scope, field.id, instanceId));
+            }
+        } else {
+            walkScopedFields(field.children, instances, visit, scope);
+        }
+    }
+}
+
+/**
+ * Value keys of the fields (and groups) in a subtree, in every instance
+ */
+export function collectValueKeys(fields: Field[], instances: RepeatInstances): Set<string> {
+    const keys = new Set<string>();
+    walkScopedFields(fields, instances, (field, scope) => {
+        keys.add(valueKey(scope, field.id));
+    });
+    return keys;
+}
+
+/**
+ * Reconciles instance lists with a (possibly changed) schema
+ * Existing lists are kept; repeatable groups without one get their initial
+ * instances; lists of groups that no longer repeat are dropped
+ * Returns current itself when nothing changed
+ */
+export function mergeInstances(current: RepeatInstances, fields: Field[]): RepeatInstances {
+    const merged: RepeatInstances = {};
+    let changed = false;
+
+    walkScopedFields(fields, merged, (field, scope) => {
+        if (isRepeatableGroup(field)) {
+            const key = valueKey(scope, field.id);
+            changed ||= current[key] === undefined;
+            merged[key] =
+                current[key] ??
+                Array.from({ length: initialInstanceCount(field) }, () => generateInstanceId());
+        }
+    });
+
+    return changed || Object.keys(merged).length !== Object.keys(current).length ? merged : current;
+}
+
+/**
+ * Looks up a field's value from inside a scope
+ * The nearest scope wins: a condition inside an instance sees the value of
+ * a sibling in the same instance, then values in enclosing scopes
+ */
+export function resolveScopedValue<T>(
+    data: Record<string, T>,
+    scope: string,
+    fieldId: string
+): T | undefined {
+    let current = scope;
+
+    for (;;) {
+        const key = valueKey(current, fieldId);
+        if (key in data) {
+            return data[key];
+        }
+        if (current === ROOT_SCOPE) {
+            return undefined;
+        }
+        // Strip the innermost "group[instance]." segment
+        const parent = current.replace(/[^.[\]]+\[[^\]]+\]\.$/, '');
+        if (parent === current) {
+            return undefined;
+        }
+        current = parent;
+    }
+}
@@ -0,0 +1,186 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - FORM THEME
+ * =============================================================================
+ * The look of a runtime form (`theme` of the schema): colors per color
+ * scheme, corner radius, spacing scale and font.
+ *
+ * A theme is applied by putting the "form-theme" class on the form's root
+ * element with the variables of getThemeStyle() inline:
+ *
+ *   --theme-primary, --theme-surface, …      -> light colors
+ *   --theme-primary-dark, …                  -> dark colors
+ *   --theme-radius, --theme-spacing, --theme-font
+ *
+ * styles/components.css maps them onto the design tokens (--color-primary,
+ * --radius-md, --space-md, …) inside .form-theme only, falling back to the
+ * built-in values below, and switches to the dark colors when the
+ * data-color-scheme attribute is "dark", or "auto" with a dark system
+ * setting. Nothing outside the form is affected.
+ *
+ * HARD CONSTRAINTS:
+ * - Pure functions only
+ * - Theme values are checked before they reach the schema (builder and
+ *   schema validation), so no value can break out of its declaration
+ * - DEFAULT_THEME_COLORS must match the fallbacks of .form-theme in
+ *   styles/components.css
+ * =============================================================================
+ */
+
+import type { ColorScheme, FormTheme, ThemeColors } from '../types/schema';
+
+/**
+ * Themeable colors in editor order, with their names
+ */
+export const THEME_COLORS: { key: keyof ThemeColors; label: string }[] = [
+    { key: 'primary', label: 'Primary' },
+    { key: 'background', label: 'Background' },
+    { key: 'surface', label: 'Surface' },
+    { key: 'text', label: 'Text' },
+    { key: 'border', label: 'Border' },
+];
+
+/**
+ * Built-in colors of each scheme
+ */
+export const DEFAULT_THEME_COLORS: Record<'light' | 'dark', Required<ThemeColors>> = {
+    light: {
+        primary: '#425ff0',
+        background: '#f6f7f9',
+        surface: '#ffffff',
+        text: '#1d2330',
+        border: '#dcdfe5',
+    },
+    dark: {
+        primary: '#7187f4',
+        background: '#12151c',
+        surface: '#1d212b',
+        text: '#e0e4eb',
+        border: '#383e4c',
+    },
+};
+
+/**
+ * Color schemes with their names
+ */
+export const COLOR_SCHEMES: { value: ColorScheme; label: string }[] = [
+    { value: 'auto', label: 'Follow system setting' },
+    { value: 'light', label: 'Always light' },
+    { value: 'dark', label: 'Always dark' },
+];
+
+/**
+ * Corner radius in px: built-in value and allowed range
+ */
+export const THEME_RADIUS = { default: 8, min: 0, max: 32 };
+
+/**
+ * Spacing factor: built-in value and allowed range
+ */
+export const THEME_SPACING = { default: 1, min: 0.5, max: 2 };
+
+/**
+ * Font stacks offered by the builder (any safe stack is allowed)
+ */
+export const FONT_PRESETS: string[] = [
+    "'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+    'system-ui, sans-serif',
+    "Georgia, 'Times New Roman', serif",
+    "'Fira Code', 'Consolas', monospace",
+];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Letters, digits, spaces, quotes, commas, dots and hyphens only: enough
+ * for any font stack, never for ending the declaration
+ */
+const FONT_STACK = /^[\w\s'",.-]+$/;
+
+/**
+ * Whether a value is a "#rrggbb" color
+ */
+export function isThemeColor(value: unknown): value is string {
+    return typeof value === 'string' && HEX_COLOR.test(value);
+}
+
+/**
+ * Why a font stack cannot be used, or null if it can
+ */
+export function getFontError(font: string): string | null {
+    if (font.trim() === '') {
+        return 'Enter a font, e.g. "Georgia, serif"';
+    }
+    if (!FONT_STACK.test(font)) {
+        return 'Use font names, quotes and commas only';
+    }
+    return null;
+}
+
+/**
+ * Clamps a number into a range
+ */
+function clamp(value: number, range: { min: number; max: number }): number {
+    return Math.min(range.max, Math.max(range.min, value));
+}
+
+/**
+ * Inline CSS variables of a theme (unset values are left out, so the
+ * built-in ones apply)
+ */
+export function getThemeStyle(theme: FormTheme | undefined): Record<string, string> {
+    const style: Record<string, string> = {};
+    if (!theme) {
+        return style;
+    }
+
+    for (const { key } of THEME_COLORS) {
+        const light = theme.colors?.[key];
+        const dark = theme.darkColors?.[key];
+        if (isThemeColor(light)) {
+            style[`--theme-${key}`] = light;
+        }
+        if (isThemeColor(dark)) {
+            style[`--theme-${key}-dark`] = dark;
+        }
+    }
+    if (typeof theme.radius === 'number' && Number.isFinite(theme.radius)) {
+        style['--theme-radius'] = `${clamp(theme.radius, THEME_RADIUS)}px`;
+    }
+    if (typeof theme.spacing === 'number' && Number.isFinite(theme.spacing)) {
+        style['--theme-spacing'] = String(clamp(theme.spacing, THEME_SPACING));
+    }
+    if (theme.font !== undefined && getFontError(theme.font) === null) {
+        style['--theme-font'] = theme.font;
+    }
+    return style;
+}
+
+/**
+ * Color scheme the form is shown in: the override if given, otherwise
+ * the theme's (default 'auto')
+ */
+export function resolveColorScheme(theme: FormTheme | undefined, override: ColorScheme | null): ColorScheme {
+    return override ?? theme?.colorScheme ?? 'auto';
+}
+
+/**
+ * The theme without unset values (undefined when nothing is left)
+ */
+export function compactTheme(theme: FormTheme): FormTheme | undefined {
+    const compactColors = (colors: ThemeColors | undefined) => {
+        const entries = Object.entries(colors ?? {}).filter(([, value]) => value !== undefined);
+        return entries.length > 0 ? (Object.fromEntries(entries) as ThemeColors) : undefined;
+    };
+
+    const next: FormTheme = {
+        colors: compactColors(theme.colors),
+        darkColors: compactColors(theme.darkColors),
+        radius: theme.radius,
+        spacing: theme.spacing,
+        font: theme.font,
+        colorScheme: theme.colorScheme === 'auto' ? undefined : theme.colorScheme,
+    };
+    const entries = Object.entries(next).filter(([, value]) => value !== undefined);
+    return entries.length > 0 ? (Object.fromEntries(entries) as FormTheme) : undefined;
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import type { Field, FormSchema } from '../types/schema';
+import type { BuilderAction } from './recursiveReducer';
+import {
+    HISTORY_LIMIT,
+    MERGE_WINDOW_MS,
+    createHistoryState,
+    historyReducer,
+    type HistoryState,
+} from './historyReducer';
+
+const textField = (id: string, name: string): Field => ({ id, type: 'text', name, label: name, required: false });
+
+const initialSchema: FormSchema = {
+    version: 2,
+    fields: [textField('a', 'first'), textField('b', 'second')],
+};
+
+/**
+ * Applies a builder action at a point in time
+ */
+function apply(state: HistoryState, action: BuilderAction, timestamp: number): HistoryState {
+    return historyReducer(state, { type: 'APPLY', payload: { action, timestamp } });
+}
+
+const rename = (id: string, label: string): BuilderAction => ({
+    type: 'UPDATE_FIELD',
+    payload: { id, updates: { label } },
+});
+
+describe('historyReducer', () => {
+    it('records each change as a step that can be undone and redone', () => {
+        let state = createHistoryState(initialSchema);
+        state = apply(state, { type: 'DELETE_FIELD', payload: { id: 'a' } }, 1000);
+        expect(state.present.fields.map((field) => field.id)).toEqual(['b']);
+        expect(state.past).toEqual([initialSchema]);
+
+        state = historyReducer(state, { type: 'UNDO' });
+        expect(state.present).toBe(initialSchema);
+        expect(state.future).toHaveLength(1);
+
+        state = historyReducer(state, { type: 'REDO' });
+        expect(state.present.fields.map((field) => field.id)).toEqual(['b']);
+        expect(state.future).toEqual([]);
+    });
+
+    it('does not record actions that change nothing', () => {
+        const state = createHistoryState(initialSchema);
+        const next = apply(state, { type: 'MOVE_FIELD', payload: { id: 'a', direction: 'up' } }, 1000);
+        expect(next).toBe(state);
+    });
+
+    it('ignores undo and redo with nothing to go back or forward to', () => {
+        const state = createHistoryState(initialSchema);
+        expect(historyReducer(state, { type: 'UNDO' })).toBe(state);
+        expect(historyReducer(state, { type: 'REDO' })).toBe(state);
+    });
+
+    it('merges rapid edits of the same text property into one step', () => {
+        let state = createHistoryState(initialSchema);
+        state = apply(state, rename('a', 'F'), 1000);
+        state = apply(state, rename('a', 'Fi'), 1000 + MERGE_WINDOW_MS / 2);
+        state = apply(state, rename('a', 'Fir'), 1000 + MERGE_WINDOW_MS);
+        expect(state.past).toEqual([initialSchema]);
+        expect(state.present.fields[0].label).toBe('Fir');
+
+        state = historyReducer(state, { type: 'UNDO' });
+        expect(state.present).toBe(initialSchema);
+    });
+
+    it('starts a new step after the merge window or on another field', () => {
+        let state = createHistoryState(initialSchema);
+        state = apply(state, rename('a', 'One'), 1000);
+        state = apply(state, rename('a', 'Two'), 1000 + MERGE_WINDOW_MS + 1);
+        expect(state.past).toHaveLength(2);
+
+        state = apply(state, rename('b', 'Three'), 1000 + MERGE_WINDOW_MS + 2);
+        expect(state.past).toHaveLength(3);
+    });
+
+    it('does not merge across an undo', () => {
+        let state = createHistoryState(initialSchema);
+        state = apply(state, rename('a', 'One'), 1000);
+        state = apply(state, rename('b', 'Two'), 1001);
+        state = historyReducer(state, { type: 'UNDO' });
+        state = apply(state, rename('a', 'Three'), 1002);
+        expect(state.past).toHaveLength(2);
+        expect(state.future).toEqual([]);
+    });
+
+    it('merges rapid theme edits', () => {
+        let state = createHistoryState(initialSchema);
+        state = apply(state, { type: 'SET_THEME', payload: { theme: { radius: 4 } } }, 1000);
+        state = apply(state, { type: 'SET_THEME', payload: { theme: { radius: 6 } } }, 1100);
+        expect(state.past).toEqual([initialSchema]);
+        expect(state.present.theme).toEqual({ radius: 6 });
+    });
+
+    it(`keeps at most ${HISTORY_LIMIT} steps`, () => {
+        let state = createHistoryState(initialSchema);
+        for (let step = 0; step < HISTORY_LIMIT + 5; step++) {
+            // Required toggles never merge
+            state = apply(state, { type: 'UPDATE_FIELD', payload: { id: 'a', updates: { required: step % 2 === 0 } } }, step);
+        }
+        expect(state.past).toHaveLength(HISTORY_LIMIT);
+    });
+
+    it('starts over on reset', () => {
+        let state = createHistoryState(initialSchema);
+        state = apply(state, { type: 'DELETE_FIELD', payload: { id: 'a' } }, 1000);
+        const loaded: FormSchema = { version: 2, fields: [] };
+        state = historyReducer(state, { type: 'RESET_HISTORY', payload: loaded });
+        expect(state).toEqual(createHistoryState(loaded));
+    });
+});
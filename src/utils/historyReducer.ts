@@ -0,0 +1,193 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - HISTORY REDUCER (UNDO / REDO)
+ * =============================================================================
+ * Wraps the Builder Domain reducer with undo/redo stacks.
+ * Every BuilderAction that changes the schema becomes one history step.
+ *
+ * HARD CONSTRAINTS:
+ * - Pure reducer - timestamps travel on the action, never read inside
+ * - Snapshots are the schema objects themselves (structural sharing keeps
+ *   them cheap, unchanged branches are shared between entries)
+ * - Rapid edits of the same text properties on the same field are merged
+ *   into a single step so debounced typing does not flood the stack
+ * - Rapid theme edits are merged too, so dragging a color picker or a
+ *   slider is one step
+ * - NO external state management libraries (Redux, Zustand)
+ * =============================================================================
+ */
+
+import type { FormSchema } from '../types/schema';
+import { builderReducer, type BuilderAction } from './recursiveReducer';
+
+/**
+ * Maximum number of undo steps kept in memory
+ */
+export const HISTORY_LIMIT = 100;
+
+/**
+ * Window in which consecutive edits of the same property are merged
+ */
+export const MERGE_WINDOW_MS = 1000;
+
+/**
+ * Properties whose edits come from debounced text inputs and can be merged
+ */
+const MERGEABLE_PROPERTIES = new Set(['label', 'name', 'placeholder']);
+
+/**
+ * History state - past and future snapshots around the present schema
+ */
+export interface HistoryState {
+    /** Snapshots before the present, oldest first */
+    past: FormSchema[];
+    /** The schema currently shown in the builder */
+    present: FormSchema;
+    /** Snapshots undone from, most recent first */
+    future: FormSchema[];
+    /** Merge key of the last recorded step (null = never merge) */
+    lastMergeKey: string | null;
+    /** Timestamp of the last recorded step */
+    lastTimestamp: number;
+}
+
+/**
+ * Action types for the history reducer
+ */
+export type HistoryAction =
+    | { type: 'APPLY'; payload: { action: BuilderAction; timestamp: number } }
+    | { type: 'UNDO' }
+    | { type: 'REDO' }
+    | { type: 'RESET_HISTORY'; payload: FormSchema };
+
+/**
+ * Creates the initial history state for a schema
+ */
+export function createHistoryState(schema: FormSchema): HistoryState {
+    return {
+        past: [],
+        present: schema,
+        future: [],
+        lastMergeKey: null,
+        lastTimestamp: 0,
+    };
+}
+
+/**
+ * Computes the merge key for an action
+ * Only edits touching text properties of a single field, the message
+ * of a single rule, or the theme are mergeable
+ * (a label edit may carry the derived name along with it)
+ */
+function getMergeKey(action: BuilderAction): string | null {
+    if (action.type === 'SET_THEME') {
+        return 'theme';
+    }
+
+    if (action.type === 'UPDATE_RULE') {
+        const keys = Object.keys(action.payload.updates);
+        return keys.length === 1 && keys[0] === 'message' ? `rule:${action.payload.id}:message` : null;
+    }
+
+    if (action.type !== 'UPDATE_FIELD') {
+        return null;
+    }
+
+    const keys = Object.keys(action.payload.updates).sort();
+    if (keys.length === 0 || !keys.every((key) => MERGEABLE_PROPERTIES.has(key))) {
+        return null;
+    }
+
+    return `${action.payload.id}:${keys.join(',')}`;
+}
+
+/**
+ * Shallow comparison of two schemas
+ * The builder reducer always returns a fresh root object, so reference
+ * equality alone would record no-op steps (e.g. moving the first field up)
+ */
+function isShallowEqual(a: FormSchema, b: FormSchema): boolean {
+    if (a === b) {
+        return true;
+    }
+
+    const keysA = Object.keys(a) as (keyof FormSchema)[];
+    const keysB = Object.keys(b) as (keyof FormSchema)[];
+
+    return keysA.length === keysB.length && keysA.every((key) => a[key] === b[key]);
+}
+
+/**
+ * Main reducer function for builder history
+ */
+export function historyReducer(state: HistoryState, action: HistoryAction): HistoryState {
+    switch (action.type) {
+        case 'APPLY': {
+            const { action: builderAction, timestamp } = action.payload;
+            const next = builderReducer(state.present, builderAction);
+
+            // Nothing changed - do not record an empty step
+            if (isShallowEqual(next, state.present)) {
+                return state;
+            }
+
+            const mergeKey = getMergeKey(builderAction);
+            const shouldMerge =
+                mergeKey !== null &&
+                mergeKey === state.lastMergeKey &&
+                timestamp - state.lastTimestamp <= MERGE_WINDOW_MS;
+
+            if (shouldMerge) {
+                // Keep the snapshot from before the first edit of this burst
+                return {
+                    ...state,
+                    present: next,
+                    future: [],
+                    lastTimestamp: timestamp,
+                };
+            }
+
+            return {
+                past: [...state.past, state.present].slice(-HISTORY_LIMIT),
+                present: next,
+                future: [],
+                lastMergeKey: mergeKey,
+                lastTimestamp: timestamp,
+            };
+        }
+
+        case 'UNDO': {
+            if (state.past.length === 0) {
+                return state;
+            }
+
+            return {
+                past: state.past.slice(0, -1),
+                present: state.past[state.past.length - 1],
+                future: [state.present, ...state.future],
+                lastMergeKey: null,
+                lastTimestamp: 0,
+            };
+        }
+
+        case 'REDO': {
+            if (state.future.length === 0) {
+                return state;
+            }
+
+            return {
+                past: [...state.past, state.present],
+                present: state.future[0],
+                future: state.future.slice(1),
+                lastMergeKey: null,
+                lastTimestamp: 0,
+            };
+        }
+
+        case 'RESET_HISTORY':
+            return createHistoryState(action.payload);
+
+        default:
+            return state;
+    }
+}
@@ -0,0 +1,769 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - STANDALONE HTML EXPORT
+ * =============================================================================
+ * Turns a form schema into one self-contained HTML page that works without
+ * React or any other dependency: markup, styles and validation are inline.
+ *
+ * The markup mirrors GroupRenderer/FieldRenderer (same elements and class
+ * names), the stylesheet copies the design tokens and rules of
+ * styles/components.css that those classes use, and a small script repeats the
+ * required/min/max checks of validateFormData (utils/dataMerging.ts) with
+ * the same messages.
+ *
+ * Differences from the live preview:
+ * - Repeatable groups are rendered with their initial number of instances
+ * - Computed fields are left out (they need the formula engine)
+ * - Fields shown by a visibility rule are always shown and never required
+ *   (the same rule as the JSON Schema export)
+ * - Formats, patterns, async validators and form rules are not checked
+ * - The wizard layout is ignored; every field is on one page
+ * - Texts and messages are those of the default locale (translations are
+ *   left out)
+ * - The theme is ignored; the page has the built-in look
+ *
+ * Inputs are named with bracket paths of machine names, e.g.
+ * "address[street]" or "items[0][qty]", so a regular form post arrives in
+ * the nested submission shape.
+ *
+ * HARD CONSTRAINTS:
+ * - Pure functions only; the output is a string
+ * - Every schema-supplied text is escaped; the script data cannot close
+ *   its <script> element
+ * - NO template engines or UI frameworks
+ * =============================================================================
+ */
+
+import type { DateBound, Field, FormSchema, GroupField, TemporalField } from '../types/schema';
+import { isGroupField, isTemporalField } from '../types/schema';
+import { describeRelativeBound, getTemporalValuePattern, normalizeTemporalValue } from './dateBounds';
+import { ROOT_SCOPE, initialInstanceCount, instanceScope, isRepeatableGroup, valueKey } from './formScope';
+import { getFormLocales, getFormMessages } from './localization';
+import type { Messages } from './messages';
+import { TEXT_FORMATS } from './textFormats';
+
+/**
+ * Options of the standalone page
+ */
+export interface StandaloneHtmlOptions {
+    /** Page and form heading */
+    title?: string;
+    /** URL the form is posted to (left out: the page's own URL) */
+    action?: string;
+}
+
+/**
+ * Limit of a field as the page script sees it: a number, an absolute
+ * date/time value, or a relative bound resolved when the page loads
+ */
+type ScriptLimit = number | string | { amount: number; unit: string };
+
+/**
+ * Checks of one field, read by the page script
+ * Messages with a "{limit}" placeholder get the resolved relative bound
+ */
+interface ScriptField {
+    /** DOM id of the input (of the fieldset for radio/multiselect fields) */
+    id: string;
+    kind: 'text' | 'number' | 'select' | 'choice' | 'checkbox' | 'temporal';
+    /** Message shown when a required field is empty */
+    required?: string;
+    /** Number of options (radio/multiselect fields) */
+    options?: number;
+    /** Native value pattern and its message (date/time fields) */
+    pattern?: string;
+    invalid?: string;
+    min?: ScriptLimit;
+    minMessage?: string;
+    max?: ScriptLimit;
+    maxMessage?: string;
+}
+
+/**
+ * Native input type per date/time field type (as in FieldRenderer)
+ */
+const TEMPORAL_INPUT_TYPES: Record<TemporalField['type'], string> = {
+    date: 'date',
+    time: 'time',
+    datetime: 'datetime-local',
+};
+
+/**
+ * Design tokens and rules copied from styles/components.css
+ * Keep in sync when the classes used by the runtime renderers change
+ */
+const STYLES = `
+:root {
+    --color-primary: hsl(230, 85%, 60%);
+    --color-primary-hover: hsl(230, 85%, 50%);
+    --color-primary-light: hsl(230, 85%, 95%);
+    --color-danger: hsl(0, 75%, 55%);
+    --color-danger-light: hsl(0, 75%, 95%);
+    --color-bg: hsl(220, 20%, 97%);
+    --color-surface: hsl(0, 0%, 100%);
+    --color-border: hsl(220, 15%, 88%);
+    --color-border-focus: hsl(230, 85%, 60%);
+    --color-text-primary: hsl(220, 25%, 15%);
+    --color-text-secondary: hsl(220, 15%, 45%);
+    --color-text-muted: hsl(220, 10%, 60%);
+    --color-text-inverse: hsl(0, 0%, 100%);
+    --space-xs: 0.25rem;
+    --space-sm: 0.5rem;
+    --space-md: 1rem;
+    --space-lg: 1.5rem;
+    --space-xl: 2rem;
+    --font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    --font-size-xs: 0.75rem;
+    --font-size-sm: 0.875rem;
+    --font-size-base: 1rem;
+    --font-size-lg: 1.125rem;
+    --font-size-2xl: 1.5rem;
+    --font-weight-medium: 500;
+    --font-weight-semibold: 600;
+    --font-weight-bold: 700;
+    --line-height-tight: 1.25;
+    --line-height-normal: 1.5;
+    --radius-sm: 0.25rem;
+    --radius-md: 0.5rem;
+    --radius-lg: 0.75rem;
+    --shadow-sm: 0 1px 2px hsla(220, 25%, 15%, 0.05);
+    --transition-fast: 150ms ease;
+}
+*, *::before, *::after { box-sizing: border-box; margin: 0; padding: 0; }
+body {
+    font-family: var(--font-family);
+    font-size: var(--font-size-base);
+    line-height: var(--line-height-normal);
+    color: var(--color-text-primary);
+    background-color: var(--color-bg);
+    padding: var(--space-xl);
+}
+:focus-visible { outline: 2px solid var(--color-border-focus); outline-offset: 2px; }
+.flex { display: flex; }
+.flex-col { flex-direction: column; }
+.gap-lg { gap: var(--space-lg); }
+.text-sm { font-size: var(--font-size-sm); }
+.text-muted { color: var(--color-text-muted); }
+.text-danger { color: var(--color-danger); }
+.italic { font-style: italic; }
+.preview-container { max-width: 600px; margin: 0 auto; }
+.preview-header { margin-bottom: var(--space-xl); }
+.preview-title {
+    font-size: var(--font-size-2xl);
+    font-weight: var(--font-weight-bold);
+    color: var(--color-text-primary);
+}
+.preview-form { display: flex; flex-direction: column; gap: var(--space-lg); }
+.card {
+    background-color: var(--color-surface);
+    border: 1px solid var(--color-border);
+    border-radius: var(--radius-lg);
+    box-shadow: var(--shadow-sm);
+    overflow: hidden;
+}
+.card-body { padding: var(--space-lg); }
+.card-footer {
+    display: flex;
+    justify-content: flex-end;
+    padding: var(--space-md) var(--space-lg);
+    border-top: 1px solid var(--color-border);
+    background-color: var(--color-bg);
+}
+.btn {
+    display: inline-flex;
+    align-items: center;
+    justify-content: center;
+    padding: var(--space-sm) var(--space-md);
+    font-family: inherit;
+    font-size: var(--font-size-sm);
+    font-weight: var(--font-weight-medium);
+    line-height: var(--line-height-tight);
+    border-radius: var(--radius-md);
+    border: 1px solid transparent;
+    cursor: pointer;
+    transition: all var(--transition-fast);
+}
+.btn-primary { background-color: var(--color-primary); color: var(--color-text-inverse); }
+.btn-primary:hover { background-color: var(--color-primary-hover); }
+.btn-lg { padding: var(--space-md) var(--space-lg); font-size: var(--font-size-base); }
+.input-group { display: flex; flex-direction: column; gap: var(--space-xs); }
+.input-label {
+    font-size: var(--font-size-sm);
+    font-weight: var(--font-weight-medium);
+    color: var(--color-text-secondary);
+}
+.input-label--required::after { content: ' *'; color: var(--color-danger); }
+.input, .select {
+    padding: var(--space-sm) var(--space-md);
+    font-family: inherit;
+    font-size: var(--font-size-base);
+    line-height: var(--line-height-normal);
+    color: var(--color-text-primary);
+    background-color: var(--color-surface);
+    border: 1px solid var(--color-border);
+    border-radius: var(--radius-md);
+    transition: border-color var(--transition-fast), box-shadow var(--transition-fast);
+}
+.input:hover { border-color: var(--color-text-muted); }
+.input:focus, .select:focus {
+    border-color: var(--color-border-focus);
+    box-shadow: 0 0 0 3px var(--color-primary-light);
+}
+.input--error { border-color: var(--color-danger); background-color: var(--color-danger-light); }
+.input--error:focus { box-shadow: 0 0 0 3px hsla(0, 75%, 55%, 0.15); }
+.input-error-message { font-size: var(--font-size-xs); color: var(--color-danger); }
+.checkbox-group { display: flex; align-items: center; gap: var(--space-sm); }
+.checkbox { width: 1rem; height: 1rem; accent-color: var(--color-primary); cursor: pointer; }
+.checkbox-label { font-size: var(--font-size-sm); color: var(--color-text-secondary); cursor: pointer; }
+.choice-list {
+    display: flex;
+    flex-direction: column;
+    gap: var(--space-xs);
+    border: none;
+    padding: 0;
+    margin: 0;
+    min-width: 0;
+}
+.choice-list .input-label { padding: 0; margin-bottom: var(--space-xs); }
+.choice-list--error .checkbox { outline: 1px solid var(--color-danger); outline-offset: 1px; }
+.fieldset {
+    border: 1px solid var(--color-border);
+    border-radius: var(--radius-lg);
+    padding: var(--space-lg);
+    margin: 0;
+    background-color: hsla(230, 85%, 60%, 0.03);
+}
+.fieldset-legend {
+    font-size: var(--font-size-sm);
+    font-weight: var(--font-weight-semibold);
+    color: var(--color-primary);
+    padding: 0 var(--space-sm);
+    background-color: var(--color-surface);
+    border-radius: var(--radius-sm);
+}
+.fieldset .fieldset { margin-left: 20px; background-color: hsla(280, 70%, 55%, 0.03); }
+.fieldset .fieldset .fieldset { background-color: hsla(150, 70%, 40%, 0.03); }
+.fieldset .fieldset .fieldset .fieldset { background-color: hsla(40, 90%, 50%, 0.03); }
+.repeatable-group { display: flex; flex-direction: column; gap: var(--space-md); }
+.form-status {
+    padding: var(--space-md);
+    border-radius: var(--radius-md);
+    border: 1px solid var(--color-danger);
+    background-color: var(--color-danger-light);
+    color: var(--color-danger);
+}
+`;
+
+/**
+ * Page script: validates one field on change and all fields on submit,
+ * showing errors the way FieldRenderer does. FIELDS is prepended.
+ */
+const SCRIPT = `
+var form = document.getElementById('standalone-form');
+var statusMessage = document.getElementById('form-status');
+var byElement = {};
+
+function pad(value) {
+    return (value < 10 ? '0' : '') + value;
+}
+
+function resolveLimit(limit, type) {
+    if (limit === undefined || typeof limit !== 'object') {
+        return limit;
+    }
+    var date = new Date();
+    if (limit.unit === 'days' || limit.unit === 'weeks') {
+        date.setDate(date.getDate() + limit.amount * (limit.unit === 'weeks' ? 7 : 1));
+    } else {
+        var day = date.getDate();
+        date.setDate(1);
+        date.setMonth(date.getMonth() + (limit.unit === 'years' ? limit.amount * 12 : limit.amount));
+        date.setDate(Math.min(day, new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate()));
+    }
+    var value = date.getFullYear() + '-' + pad(date.getMonth() + 1) + '-' + pad(date.getDate());
+    return type === 'datetime-local' ? value + 'T' + pad(date.getHours()) + ':' + pad(date.getMinutes()) : value;
+}
+
+function withSeconds(value) {
+    return value.length === 5 || value.length === 16 ? value + ':00' : value;
+}
+
+function limitMessage(message, limit) {
+    return message.replace('{limit}', String(limit).replace('T', ' '));
+}
+
+function readValue(field, element) {
+    if (field.kind === 'checkbox') {
+        return element.checked;
+    }
+    if (field.kind === 'choice') {
+        var chosen = [];
+        for (var i = 0; i < field.options; i++) {
+            var option = document.getElementById(field.id + '-option-' + i);
+            if (option.checked) {
+                chosen.push(option.value);
+            }
+        }
+        return chosen;
+    }
+    return element.value.trim();
+}
+
+function check(field) {
+    var element = document.getElementById(field.id);
+    var value = readValue(field, element);
+    var isEmpty = value === '' || value === false || (Array.isArray(value) && value.length === 0);
+
+    if (field.kind === 'number' && element.validity && element.validity.badInput) {
+        return field.invalid;
+    }
+    if (isEmpty) {
+        return field.required || null;
+    }
+    if (field.kind === 'text') {
+        if (field.min !== undefined && value.length < field.min) return field.minMessage;
+        if (field.max !== undefined && value.length > field.max) return field.maxMessage;
+    }
+    if (field.kind === 'number') {
+        var number = Number(value);
+        if (isNaN(number)) return field.invalid;
+        if (field.min !== undefined && number < field.min) return field.minMessage;
+        if (field.max !== undefined && number > field.max) return field.maxMessage;
+    }
+    if (field.kind === 'temporal') {
+        if (!new RegExp(field.pattern).test(value)) return field.invalid;
+        var min = resolveLimit(field.min, element.type);
+        var max = resolveLimit(field.max, element.type);
+        if (min !== undefined && withSeconds(value) < withSeconds(min)) return limitMessage(field.minMessage, min);
+        if (max !== undefined && withSeconds(value) > withSeconds(max)) return limitMessage(field.maxMessage, max);
+    }
+    return null;
+}
+
+function show(field, message) {
+    var element = document.getElementById(field.id);
+    var container = field.kind === 'choice' ? element : element.closest('.input-group');
+    var errorId = field.id + '-error';
+    var existing = document.getElementById(errorId);
+    if (existing) {
+        existing.remove();
+    }
+
+    if (field.kind === 'choice') {
+        element.classList.toggle('choice-list--error', !!message);
+    } else {
+        element.classList.toggle('input--error', !!message);
+        element.setAttribute('aria-invalid', message ? 'true' : 'false');
+    }
+
+    if (message) {
+        var error = document.createElement('span');
+        error.id = errorId;
+        error.className = 'input-error-message';
+        error.textContent = message;
+        container.appendChild(error);
+        element.setAttribute('aria-describedby', errorId);
+    } else {
+        element.removeAttribute('aria-describedby');
+    }
+}
+
+FIELDS.forEach(function (field) {
+    byElement[field.id] = field;
+    for (var i = 0; i < (field.options || 0); i++) {
+        byElement[field.id + '-option-' + i] = field;
+    }
+    if (field.kind === 'temporal') {
+        var element = document.getElementById(field.id);
+        if (typeof field.min === 'object') element.min = resolveLimit(field.min, element.type);
+        if (typeof field.max === 'object') element.max = resolveLimit(field.max, element.type);
+    }
+});
+
+form.addEventListener('change', function (event) {
+    var field = byElement[event.target.id];
+    if (field) {
+        show(field, check(field));
+    }
+});
+
+form.addEventListener('submit', function (event) {
+    var firstInvalid = null;
+    FIELDS.forEach(function (field) {
+        var message = check(field);
+        show(field, message);
+        if (message && !firstInvalid) {
+            firstInvalid = field;
+        }
+    });
+    statusMessage.hidden = !firstInvalid;
+    if (firstInvalid) {
+        event.preventDefault();
+        var target = document.getElementById(firstInvalid.kind === 'choice' ? firstInvalid.id + '-option-0' : firstInvalid.id);
+        if (target) {
+            target.focus();
+        }
+    }
+});
+`;
+
+/**
+ * Escapes text for use in HTML content and attribute values
+ */
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Renders an attribute list; undefined and false values are left out
+ */
+function attributes(values: Record<string, string | number | boolean | undefined>): string {
+    return Object.entries(values)
+        .filter(([, value]) => value !== undefined && value !== false)
+        .map(([name, value]) => (value === true ? ` ${name}` : ` ${name}="${escapeHtml(String(value))}"`))
+        .join('');
+}
+
+/**
+ * Converts a date/time bound into a script limit, or undefined if it can
+ * never apply (see resolveDateBound)
+ */
+function toTemporalLimit(bound: DateBound | undefined, type: TemporalField['type']): ScriptLimit | undefined {
+    if (!bound) {
+        return undefined;
+    }
+    if (bound.kind === 'absolute') {
+        return normalizeTemporalValue(type, bound.value) === null ? undefined : bound.value;
+    }
+    return type === 'time' ? undefined : { amount: bound.amount, unit: bound.unit };
+}
+
+/**
+ * Collects the checks of an input field (messages as in validateFormData)
+ */
+function toScriptField(field: Field, id: string, messages: Messages): ScriptField | null {
+    const { label } = field;
+    const required = field.required && !field.visibleWhen ? messages.format('required', { label }) : undefined;
+
+    if (isTemporalField(field)) {
+        // "{limit}" is filled in by the page script once the limit is resolved
+        const describe = (bound: DateBound, limit: ScriptLimit) =>
+            bound.kind === 'relative' && typeof limit === 'object'
+                ? `{limit} (${describeRelativeBound(bound, field.type, messages)})`
+                : '{limit}';
+        const min = toTemporalLimit(field.min, field.type);
+        const max = toTemporalLimit(field.max, field.type);
+        return {
+            id,
+            kind: 'temporal',
+            required,
+            pattern: getTemporalValuePattern(field.type),
+            invalid: messages.format(`${field.type}.invalid`, { label }),
+            min,
+            minMessage: field.min && min !== undefined
+                ? messages.format(`${field.type}.min`, { label, limit: describe(field.min, min) })
+                : undefined,
+            max,
+            maxMessage: field.max && max !== undefined
+                ? messages.format(`${field.type}.max`, { label, limit: describe(field.max, max) })
+                : undefined,
+        };
+    }
+
+    switch (field.type) {
+        case 'text':
+            return {
+                id,
+                kind: 'text',
+                required,
+                min: field.minLength,
+                minMessage: field.minLength !== undefined
+                    ? messages.format('text.minLength', { label, min: field.minLength })
+                    : undefined,
+                max: field.maxLength,
+                maxMessage: field.maxLength !== undefined
+                    ? messages.format('text.maxLength', { label, max: field.maxLength })
+                    : undefined,
+            };
+        case 'number':
+            return {
+                id,
+                kind: 'number',
+                required,
+                invalid: messages.format('number.invalid', { label }),
+                min: field.min,
+                minMessage: field.min !== undefined ? messages.format('number.min', { label, min: field.min }) : undefined,
+                max: field.max,
+                maxMessage: field.max !== undefined ? messages.format('number.max', { label, max: field.max }) : undefined,
+            };
+        case 'select':
+            return { id, kind: 'select', required };
+        case 'radio':
+        case 'multiselect':
+            return { id, kind: 'choice', required, options: field.options.length };
+        case 'checkbox':
+            return { id, kind: 'checkbox', required };
+        default:
+            return null;
+    }
+}
+
+/**
+ * Label element of an input field
+ */
+function renderLabel(field: Field, id: string, indent: string): string {
+    const className = `input-label${field.required && !field.visibleWhen ? ' input-label--required' : ''}`;
+    return `${indent}<label${attributes({ for: id, class: className })}>${escapeHtml(field.label)}</label>`;
+}
+
+/**
+ * Markup of an input field (the elements FieldRenderer renders)
+ */
+function renderInput(field: Field, id: string, path: string, indent: string): string {
+    const inner = `${indent}    `;
+    const required = field.required && !field.visibleWhen;
+    const lines: string[] = [];
+
+    if (isTemporalField(field)) {
+        // Relative limits are set by the page script when it loads
+        const min = field.min?.kind === 'absolute' ? toTemporalLimit(field.min, field.type) : undefined;
+        const max = field.max?.kind === 'absolute' ? toTemporalLimit(field.max, field.type) : undefined;
+        lines.push(
+            `${indent}<div class="input-group">`,
+            renderLabel(field, id, inner),
+            `${inner}<input${attributes({
+                id,
+                name: path,
+                type: TEMPORAL_INPUT_TYPES[field.type],
+                class: 'input',
+                min: typeof min === 'string' ? min : undefined,
+                max: typeof max === 'string' ? max : undefined,
+            })}>`,
+            `${indent}</div>`
+        );
+        return lines.join('\n');
+    }
+
+    switch (field.type) {
+        case 'text':
+        case 'number':
+            lines.push(
+                `${indent}<div class="input-group">`,
+                renderLabel(field, id, inner),
+                `${inner}<input${attributes({
+                    id,
+                    name: path,
+                    type: field.type === 'number' ? 'number' : 'text',
+                    class: 'input',
+                    placeholder: field.placeholder,
+                    step: field.type === 'number' ? 'any' : undefined,
+                    min: field.type === 'number' ? field.min : undefined,
+                    max: field.type === 'number' ? field.max : undefined,
+                    maxlength: field.type === 'text' ? field.maxLength : undefined,
+                    inputmode: field.type === 'text' && field.format ? TEXT_FORMATS[field.format].inputMode : undefined,
+                })}>`,
+                `${indent}</div>`
+            );
+            break;
+        case 'select':
+            lines.push(
+                `${indent}<div class="input-group">`,
+                renderLabel(field, id, inner),
+                `${inner}<select${attributes({ id, name: path, class: 'select' })}>`,
+                `${inner}    <option value="">${escapeHtml(field.placeholder || 'Select an option')}</option>`,
+                ...field.options.map(
+                    (option) =>
+                        `${inner}    <option${attributes({
+                            value: option.value,
+                            selected: option.value === field.defaultValue,
+                        })}>${escapeHtml(option.label)}</option>`
+                ),
+                `${inner}</select>`,
+                `${indent}</div>`
+            );
+            break;
+        case 'radio':
+        case 'multiselect': {
+            const isMultiple = field.type === 'multiselect';
+            const defaults = isMultiple ? field.defaultValue ?? [] : [field.defaultValue];
+            lines.push(
+                `${indent}<fieldset${attributes({ id, class: 'choice-list' })}>`,
+                `${inner}<legend class="input-label${required ? ' input-label--required' : ''}">${escapeHtml(field.label)}</legend>`
+            );
+            if (field.options.length === 0) {
+                lines.push(`${inner}<p class="text-muted text-sm italic">No options</p>`);
+            }
+            field.options.forEach((option, index) => {
+                const optionId = `${id}-option-${index}`;
+                lines.push(
+                    `${inner}<div class="checkbox-group">`,
+                    `${inner}    <input${attributes({
+                        id: optionId,
+                        type: isMultiple ? 'checkbox' : 'radio',
+                        class: 'checkbox',
+                        name: isMultiple ? `${path}[]` : path,
+                        value: option.value,
+                        checked: defaults.includes(option.value),
+                    })}>`,
+                    `${inner}    <label${attributes({ for: optionId, class: 'checkbox-label' })}>${escapeHtml(option.label)}</label>`,
+                    `${inner}</div>`
+                );
+            });
+            lines.push(`${indent}</fieldset>`);
+            break;
+        }
+        case 'checkbox':
+            lines.push(
+                `${indent}<div class="input-group">`,
+                `${inner}<div class="checkbox-group">`,
+                `${inner}    <input${attributes({
+                    id,
+                    name: path,
+                    type: 'checkbox',
+                    class: 'checkbox',
+                    value: 'true',
+                    checked: field.defaultValue === true,
+                })}>`,
+                `${inner}    <label${attributes({
+                    for: id,
+                    class: `checkbox-label${required ? ' input-label--required' : ''}`,
+                })}>${escapeHtml(field.label)}</label>`,
+                `${inner}</div>`,
+                `${indent}</div>`
+            );
+            break;
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Renders a list of fields in a scope, collecting their checks
+ */
+function renderFields(
+    fields: Field[],
+    scope: string,
+    path: string,
+    indent: string,
+    checks: ScriptField[],
+    messages: Messages
+): string {
+    const parts: string[] = [];
+    for (const field of fields) {
+        const id = valueKey(scope, field.id);
+        const fieldPath = path === '' ? field.name : `${path}[${field.name}]`;
+
+        if (isGroupField(field)) {
+            parts.push(renderGroup(field, scope, fieldPath, indent, checks, messages));
+            continue;
+        }
+
+        const check = toScriptField(field, id, messages);
+        if (check) {
+            checks.push(check);
+            parts.push(renderInput(field, id, fieldPath, indent));
+        }
+    }
+    return parts.join('\n');
+}
+
+/**
+ * Renders a group as a fieldset (one per instance for repeatable groups)
+ */
+function renderGroup(
+    field: GroupField,
+    scope: string,
+    path: string,
+    indent: string,
+    checks: ScriptField[],
+    messages: Messages
+): string {
+    const inner = `${indent}    `;
+    const marker = field.required && !field.visibleWhen ? '<span class="text-danger"> *</span>' : '';
+
+    const fieldset = (title: string, childScope: string, childPath: string, fieldsetIndent: string): string => {
+        const childIndent = `${fieldsetIndent}        `;
+        return [
+            `${fieldsetIndent}<fieldset class="fieldset">`,
+            `${fieldsetIndent}    <legend class="fieldset-legend">${escapeHtml(title)}${marker}</legend>`,
+            `${fieldsetIndent}    <div class="flex flex-col gap-lg">`,
+            field.children.length === 0
+                ? `${childIndent}<p class="text-muted text-sm italic">Empty group</p>`
+                : renderFields(field.children, childScope, childPath, childIndent, checks, messages),
+            `${fieldsetIndent}    </div>`,
+            `${fieldsetIndent}</fieldset>`,
+        ].join('\n');
+    };
+
+    if (!isRepeatableGroup(field)) {
+        return fieldset(field.label, scope, path, indent);
+    }
+
+    const instances = Array.from({ length: initialInstanceCount(field) }, (_, index) =>
+        fieldset(
+            `${field.label} #${index + 1}`,
+            instanceScope(scope, field.id, String(index)),
+            `${path}[${index}]`,
+            inner
+        )
+    );
+    return [
+        `${indent}<div${attributes({ class: 'repeatable-group', role: 'group', 'aria-label': field.label })}>`,
+        ...instances,
+        `${indent}</div>`,
+    ].join('\n');
+}
+
+/**
+ * Builds the standalone HTML page of a form schema
+ */
+export function toStandaloneHtml(schema: FormSchema, options: StandaloneHtmlOptions = {}): string {
+    const title = options.title?.trim() || 'Form';
+    const locale = getFormLocales(schema.localization)[0];
+    const checks: ScriptField[] = [];
+    const body = renderFields(schema.fields, ROOT_SCOPE, '', ' '.repeat(24), checks, getFormMessages(schema, locale));
+    // "<" is escaped so no label can end the script element early
+    const data = JSON.stringify(checks, null, 4).replace(/</g, '\\u003c');
+
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale)}">
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeHtml(title)}</title>
+    <style>${STYLES}</style>
+</head>
+<body>
+    <main class="preview-container">
+        <header class="preview-header">
+            <h1 class="preview-title">${escapeHtml(title)}</h1>
+        </header>
+        <form${attributes({ id: 'standalone-form', class: 'preview-form', method: 'post', action: options.action || undefined })} novalidate>
+            <div class="card">
+                <div class="card-body">
+                    <div class="flex flex-col gap-lg">
+${body}
+                    </div>
+                </div>
+                <div class="card-footer">
+                    <button type="submit" class="btn btn-primary btn-lg">Submit Form</button>
+                </div>
+            </div>
+            <div id="form-status" class="form-status" role="alert" hidden>Please correct the errors above.</div>
+        </form>
+    </main>
+    <script>
+(function () {
+var FIELDS = ${data};
+${SCRIPT}
+})();
+    </script>
+</body>
+</html>
+`;
+}
@@ -2,16 +2,18 @@
  * =============================================================================
  * CONSTRAINT HEADER - ID GENERATOR
  * =============================================================================
- * Generates unique IDs for form fields without external dependencies.
+ * Generates unique IDs for form fields and library forms without external
+ * dependencies.
  * =============================================================================
  */
 
 /**
- * Generates a unique ID for form fields
+ * Generates a unique ID for form fields (or, with another prefix, for
+ * other records such as library forms)
  * Uses a combination of timestamp and random string for uniqueness
  */
-export function generateId(): string {
+export function generateId(prefix = 'field'): string {
     const timestamp = Date.now().toString(36);
     const randomPart = Math.random().toString(36).substring(2, 9);
-    return `field_${timestamp}_${randomPart}`;
+    return `${prefix}_${timestamp}_${randomPart}`;
 }
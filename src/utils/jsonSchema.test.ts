@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import type { Field, FormSchema, GroupField } from '../types/schema';
+import { JSON_SCHEMA_DIALECT, fromJsonSchema, toJsonSchema } from './jsonSchema';
+
+const schema: FormSchema = {
+    version: 2,
+    fields: [
+        { id: 'f1', type: 'text', name: 'full_name', label: 'Full Name', required: true, minLength: 2, maxLength: 40 },
+        { id: 'f2', type: 'text', name: 'email', label: 'Email', required: false, format: 'email' },
+        { id: 'f3', type: 'number', name: 'age', label: 'Age', required: true, min: 18, max: 99 },
+        {
+            id: 'f4',
+            type: 'select',
+            name: 'plan',
+            label: 'Plan',
+            required: true,
+            options: [
+                { label: 'Basic', value: 'basic' },
+                { label: 'Pro', value: 'pro' },
+            ],
+            defaultValue: 'basic',
+        },
+        {
+            id: 'f5',
+            type: 'multiselect',
+            name: 'topics',
+            label: 'Topics',
+            required: false,
+            options: [
+                { label: 'News', value: 'news' },
+                { label: 'Offers', value: 'offers' },
+            ],
+        },
+        { id: 'f6', type: 'checkbox', name: 'terms', label: 'Accept terms', required: true },
+        { id: 'f7', type: 'date', name: 'start', label: 'Start', required: false },
+        {
+            id: 'f8',
+            type: 'group',
+            name: 'address',
+            label: 'Address',
+            required: false,
+            children: [
+                { id: 'f9', type: 'text', name: 'street', label: 'Street', required: true },
+                { id: 'f10', type: 'text', name: 'zip', label: 'ZIP', required: false, pattern: '[0-9]{4}' },
+            ],
+        },
+        {
+            id: 'f11',
+            type: 'group',
+            name: 'items',
+            label: 'Items',
+            required: false,
+            repeatable: true,
+            minInstances: 1,
+            maxInstances: 5,
+            children: [
+                { id: 'f12', type: 'number', name: 'price', label: 'Price', required: true, min: 0 },
+            ],
+        },
+    ],
+};
+
+/**
+ * Imports a document that must import
+ */
+function importSchema(document: unknown): FormSchema {
+    const result = fromJsonSchema(document);
+    if (!result.success) {
+        throw new Error(`Expected the import to succeed: ${JSON.stringify(result.issues)}`);
+    }
+    return result.schema;
+}
+
+/**
+ * The parts of a field that survive a round trip (IDs are new on import)
+ */
+function describeFields(fields: Field[]): unknown[] {
+    return fields.map((field) => ({
+        type: field.type,
+        name: field.name,
+        label: field.label,
+        required: field.required,
+        ...(field.type === 'group' ? { children: describeFields((field as GroupField).children) } : {}),
+    }));
+}
+
+describe('toJsonSchema', () => {
+    it('describes the nested payload with standard keywords', () => {
+        const document = toJsonSchema(schema);
+        expect(document.$schema).toBe(JSON_SCHEMA_DIALECT);
+        expect(document.type).toBe('object');
+        expect(Object.keys(document.properties ?? {})).toEqual([
+            'full_name',
+            'email',
+            'age',
+            'plan',
+            'topics',
+            'terms',
+            'start',
+            'address',
+            'items',
+        ]);
+        expect(document.required).toEqual(expect.arrayContaining(['full_name', 'age', 'plan', 'terms']));
+        expect(document.properties?.items).toMatchObject({ type: 'array', minItems: 1, maxItems: 5 });
+    });
+
+    it('marks computed fields read-only', () => {
+        const document = toJsonSchema({
+            version: 2,
+            fields: [{ id: 'c', type: 'computed', name: 'total', label: 'Total', required: false, expression: '1 + 1' }],
+        });
+        expect(document.properties?.total).toEqual({ title: 'Total', readOnly: true });
+    });
+});
+
+describe('JSON Schema round trip', () => {
+    it('keeps the structure, names, labels and required flags', () => {
+        const imported = importSchema(toJsonSchema(schema));
+        expect(describeFields(imported.fields)).toEqual(describeFields(schema.fields));
+    });
+
+    it('keeps the constraints of each field', () => {
+        const [name, email, age, plan, topics, , , address, items] = importSchema(toJsonSchema(schema)).fields;
+        expect(name).toMatchObject({ minLength: 2, maxLength: 40 });
+        expect(email).toMatchObject({ format: 'email' });
+        expect(age).toMatchObject({ min: 18, max: 99 });
+        expect(plan).toMatchObject({ options: [{ label: 'Basic', value: 'basic' }, { label: 'Pro', value: 'pro' }], defaultValue: 'basic' });
+        expect(topics).toMatchObject({ options: [{ label: 'News', value: 'news' }, { label: 'Offers', value: 'offers' }] });
+        expect((address as GroupField).children[1]).toMatchObject({ pattern: '[0-9]{4}' });
+        expect(items).toMatchObject({ repeatable: true, minInstances: 1, maxInstances: 5 });
+    });
+
+    it('exports the imported schema to the same document', () => {
+        const document = toJsonSchema(schema);
+        expect(toJsonSchema(importSchema(document))).toEqual(document);
+    });
+
+    it('survives serialization as JSON', () => {
+        const document = JSON.parse(JSON.stringify(toJsonSchema(schema)));
+        expect(toJsonSchema(importSchema(document))).toEqual(toJsonSchema(schema));
+    });
+
+    it('brings computed fields back as text fields, and says so', () => {
+        const document = toJsonSchema({
+            version: 2,
+            fields: [{ id: 'c', type: 'computed', name: 'total', label: 'Total', required: false, expression: '1 + 1' }],
+        });
+        const result = fromJsonSchema(document);
+        expect(result.success).toBe(true);
+        if (result.success) {
+            expect(result.schema.fields[0]).toMatchObject({ type: 'text', name: 'total' });
+            expect(result.unsupported.map((issue) => issue.path)).toContain('properties.total.readOnly');
+        }
+    });
+
+    it('reports keywords it cannot represent instead of failing', () => {
+        const document = { ...toJsonSchema(schema), $defs: { unused: { type: 'string' } } };
+        const result = fromJsonSchema(document);
+        expect(result.success).toBe(true);
+        if (result.success) {
+            expect(result.unsupported.map((issue) => issue.path)).toContain('$defs');
+        }
+    });
+
+    it('refuses documents that do not describe an object', () => {
+        expect(fromJsonSchema('text').success).toBe(false);
+        expect(fromJsonSchema(null).success).toBe(false);
+    });
+});
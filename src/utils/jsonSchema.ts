@@ -0,0 +1,814 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - JSON SCHEMA (DRAFT 2020-12) CONVERSION
+ * =============================================================================
+ * Converts a FormSchema into a standard JSON Schema document describing
+ * the NESTED submission payload (utils/dataMerging.ts toNestedFormData), and
+ * builds a FormSchema back from such a document.
+ *
+ * Export mapping:
+ *   group               -> object (properties keyed by field name)
+ *   repeatable group    -> array of objects (minInstances/maxInstances ->
+ *                          minItems/maxItems)
+ *   required            -> parent's `required` array; an empty optional
+ *                          value is allowed through anyOf [..., {const: ""}]
+ *   min/max             -> minimum/maximum
+ *   options             -> oneOf [{const: value, title: label}]
+ *   text formats        -> format (email, uri) or an equivalent pattern
+ *   computed            -> readOnly
+ * Visibility rules, form rules, date limits, server checks, the
+ * submission target, the layout, translations and the theme have no JSON
+ * Schema equivalent and are not exported (titles use the default locale).
+ * Fields with a visibility rule are never listed as required (hidden
+ * fields are not submitted).
+ *
+ * HARD CONSTRAINTS:
+ * - Only standard keywords are emitted, so strict validators accept the
+ *   document
+ * - The importer never fails on a keyword it cannot represent: it skips it
+ *   and lists it in the report, with its path
+ * - Imported schemas pass utils/schemaValidation.ts like any other import
+ * - Pure functions only (ID generation aside)
+ * =============================================================================
+ */
+
+import type {
+    ChoiceOption,
+    Field,
+    FormSchema,
+    GroupField,
+    TemporalField,
+    TextField,
+    TextFormat,
+} from '../types/schema';
+import { CURRENT_SCHEMA_VERSION, isGroupField } from '../types/schema';
+import { TEXT_FORMATS, getPatternError } from './textFormats';
+import { getTemporalValuePattern } from './dateBounds';
+import { FIELD_NAME_PATTERN, slugifyName, uniqueName } from './fieldNames';
+import { generateId } from './idGenerator';
+import { validateSchema, type SchemaIssue } from './schemaValidation';
+
+/**
+ * Formats the builder can export to and import from
+ * - 'form': the builder's own FormSchema JSON
+ * - 'jsonSchema': a JSON Schema (draft 2020-12) document
+ */
+export type SchemaFormat = 'form' | 'jsonSchema';
+
+/**
+ * Dialect URI written to `$schema`
+ */
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * The subset of JSON Schema keywords the exporter emits
+ */
+export interface JsonSchema {
+    $schema?: string;
+    title?: string;
+    type?: 'object' | 'array' | 'string' | 'number' | 'boolean';
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean;
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    uniqueItems?: boolean;
+    minLength?: number;
+    maxLength?: number;
+    format?: string;
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    const?: string | boolean;
+    oneOf?: JsonSchema[];
+    anyOf?: JsonSchema[];
+    allOf?: JsonSchema[];
+    default?: string | boolean | string[];
+    readOnly?: boolean;
+}
+
+/**
+ * Result of importing a JSON Schema document
+ * `unsupported` lists every keyword that was skipped, with its path
+ */
+export type JsonSchemaImportResult =
+    | { success: true; schema: FormSchema; unsupported: SchemaIssue[] }
+    | { success: false; issues: SchemaIssue[] };
+
+/**
+ * Subschema accepting the empty value of an optional field
+ */
+const EMPTY_VALUE: JsonSchema = { const: '' };
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/**
+ * Wraps a custom pattern so that JSON Schema (which searches) matches the
+ * whole value, like the builder does
+ */
+function anchorPattern(pattern: string): string {
+    return `^(?:${pattern})$`;
+}
+
+/**
+ * Options of a choice field as const subschemas
+ */
+function toOneOf(options: ChoiceOption[]): JsonSchema[] | undefined {
+    return options.length > 0 ? options.map((option) => ({ const: option.value, title: option.label })) : undefined;
+}
+
+/**
+ * Value schema of a text field
+ */
+function textToJsonSchema(field: TextField): JsonSchema {
+    const schema: JsonSchema = { type: 'string' };
+
+    const minLength = field.required ? Math.max(field.minLength ?? 0, 1) : field.minLength;
+    if (minLength !== undefined && minLength > 0) {
+        schema.minLength = minLength;
+    }
+    if (field.maxLength !== undefined) {
+        schema.maxLength = field.maxLength;
+    }
+
+    const patterns: string[] = [];
+    if (field.format) {
+        const keyword = TEXT_FORMATS[field.format].jsonSchema;
+        if ('format' in keyword) {
+            schema.format = keyword.format;
+        } else {
+            patterns.push(keyword.pattern);
+        }
+    }
+    if (field.pattern) {
+        patterns.push(anchorPattern(field.pattern));
+    }
+    if (patterns.length > 0) {
+        schema.pattern = patterns[0];
+    }
+    if (patterns.length > 1) {
+        schema.allOf = patterns.slice(1).map((pattern) => ({ pattern }));
+    }
+
+    return schema;
+}
+
+/**
+ * Value schema of a date, time or datetime field
+ * Times and local datetimes are not RFC 3339, so they use a pattern
+ */
+function temporalToJsonSchema(field: TemporalField): JsonSchema {
+    return field.type === 'date'
+        ? { type: 'string', format: 'date' }
+        : { type: 'string', pattern: getTemporalValuePattern(field.type) };
+}
+
+/**
+ * Object schema of a list of fields
+ */
+function fieldsToJsonSchema(fields: Field[]): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const field of fields) {
+        properties[field.name] = fieldToJsonSchema(field);
+        // Hidden fields are left out of submissions, so conditional ones are never required
+        const isAlwaysPresent = field.visibleWhen === undefined;
+        if (isAlwaysPresent && (field.required || isGroupField(field))) {
+            required.push(field.name);
+        }
+    }
+
+    const schema: JsonSchema = { type: 'object', properties };
+    if (required.length > 0) {
+        schema.required = required;
+    }
+    schema.additionalProperties = false;
+    return schema;
+}
+
+/**
+ * Schema of a single field
+ */
+function fieldToJsonSchema(field: Field): JsonSchema {
+    const title = field.label;
+    let value: JsonSchema;
+
+    switch (field.type) {
+        case 'group': {
+            const object = fieldsToJsonSchema(field.children);
+            if (!field.repeatable) {
+                return { title, ...object };
+            }
+            const array: JsonSchema = { title, type: 'array', items: object };
+            if (field.minInstances !== undefined) {
+                array.minItems = field.minInstances;
+            }
+            if (field.maxInstances !== undefined) {
+                array.maxItems = field.maxInstances;
+            }
+            return array;
+        }
+
+        case 'multiselect': {
+            const array: JsonSchema = {
+                title,
+                type: 'array',
+                items: { type: 'string', oneOf: toOneOf(field.options) },
+                uniqueItems: true,
+            };
+            if (field.required) {
+                array.minItems = 1;
+            }
+            if (field.defaultValue?.length) {
+                array.default = field.defaultValue;
+            }
+            return array;
+        }
+
+        case 'checkbox': {
+            const schema: JsonSchema = { title, type: 'boolean' };
+            if (field.required) {
+                schema.const = true;
+            }
+            if (field.defaultValue !== undefined) {
+                schema.default = field.defaultValue;
+            }
+            return schema;
+        }
+
+        case 'computed':
+            return { title, readOnly: true };
+
+        case 'text':
+            value = textToJsonSchema(field);
+            // Plain optional text already accepts the empty value
+            if (!field.required && Object.keys(value).length === 1) {
+                return { title, ...value };
+            }
+            break;
+
+        case 'number':
+            value = { type: 'number' };
+            if (field.min !== undefined) {
+                value.minimum = field.min;
+            }
+            if (field.max !== undefined) {
+                value.maximum = field.max;
+            }
+            break;
+
+        case 'select':
+        case 'radio':
+            value = { type: 'string', oneOf: toOneOf(field.options) };
+            if (field.defaultValue) {
+                value.default = field.defaultValue;
+            }
+            break;
+
+        case 'date':
+        case 'time':
+        case 'datetime':
+            value = temporalToJsonSchema(field);
+            break;
+    }
+
+    return field.required ? { title, ...value } : { title, anyOf: [value, EMPTY_VALUE] };
+}
+
+/**
+ * Builds a JSON Schema (draft 2020-12) document for the nested submission
+ * payload of a form
+ */
+export function toJsonSchema(schema: FormSchema): JsonSchema {
+    return { $schema: JSON_SCHEMA_DIALECT, ...fieldsToJsonSchema(schema.fields) };
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/**
+ * State collected while reading a document
+ */
+interface ImportContext {
+    /** Keywords that were skipped */
+    unsupported: SchemaIssue[];
+}
+
+/**
+ * Keywords read from a schema node; everything else is reported
+ */
+type UsedKeywords = Set<string>;
+
+/**
+ * Checks that a value is a plain (non-array) object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Joins a parent path and a keyword
+ */
+function joinPath(parent: string, key: string): string {
+    return parent === '' ? key : `${parent}.${key}`;
+}
+
+/**
+ * Records a skipped keyword
+ */
+function report(ctx: ImportContext, path: string, message: string): void {
+    ctx.unsupported.push({ path, message });
+}
+
+/**
+ * Reports every keyword of a node that was not read
+ */
+function reportUnused(node: Record<string, unknown>, used: UsedKeywords, path: string, ctx: ImportContext): void {
+    for (const key of Object.keys(node)) {
+        if (!used.has(key)) {
+            report(ctx, joinPath(path, key), `Keyword "${key}" is not supported and was ignored`);
+        }
+    }
+}
+
+/**
+ * Reads a non-negative integer keyword
+ */
+function readCount(node: Record<string, unknown>, key: string, used: UsedKeywords): number | undefined {
+    const value = node[key];
+    if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+        used.add(key);
+        return value;
+    }
+    return undefined;
+}
+
+/**
+ * Reads a finite number keyword
+ */
+function readNumber(node: Record<string, unknown>, key: string, used: UsedKeywords): number | undefined {
+    const value = node[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        used.add(key);
+        return value;
+    }
+    return undefined;
+}
+
+/**
+ * Checks whether a subschema only accepts the empty string
+ */
+function isEmptyValueSchema(value: unknown): boolean {
+    return isPlainObject(value) && Object.keys(value).length === 1 && value.const === '';
+}
+
+/**
+ * Merges `anyOf: [schema, {const: ""}]` (an optional field, as exported)
+ * into a single node
+ */
+function unwrapOptional(node: Record<string, unknown>): Record<string, unknown> {
+    const { anyOf } = node;
+    if (!Array.isArray(anyOf) || anyOf.length !== 2 || !anyOf.some(isEmptyValueSchema)) {
+        return node;
+    }
+    const value = anyOf.find((branch) => !isEmptyValueSchema(branch));
+    if (!isPlainObject(value)) {
+        return node;
+    }
+    const rest = { ...node };
+    delete rest.anyOf;
+    return { ...value, ...rest };
+}
+
+/**
+ * Reads the options of a choice from oneOf/anyOf consts or an enum
+ * Returns null if the node lists no options
+ */
+function readOptions(
+    node: Record<string, unknown>,
+    used: UsedKeywords,
+    path: string,
+    ctx: ImportContext
+): ChoiceOption[] | null {
+    const options: ChoiceOption[] = [];
+    const add = (value: unknown, label: unknown, optionPath: string) => {
+        if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+            report(ctx, optionPath, 'Only text, number and boolean options are supported; this option was ignored');
+            return;
+        }
+        const text = String(value);
+        // The empty value of an optional choice is not an option
+        if (text === '' || options.some((option) => option.value === text)) {
+            return;
+        }
+        if (typeof value !== 'string') {
+            report(ctx, optionPath, `Option ${JSON.stringify(value)} is submitted as text`);
+        }
+        options.push({ value: text, label: typeof label === 'string' && label !== '' ? label : text });
+    };
+
+    for (const key of ['oneOf', 'anyOf']) {
+        const branches = node[key];
+        if (Array.isArray(branches) && branches.every((branch) => isPlainObject(branch) && 'const' in branch)) {
+            used.add(key);
+            branches.forEach((branch: Record<string, unknown>, index) => {
+                const branchPath = `${joinPath(path, key)}[${index}]`;
+                add(branch.const, branch.title, branchPath);
+                for (const branchKey of Object.keys(branch)) {
+                    if (branchKey !== 'const' && branchKey !== 'title') {
+                        report(ctx, joinPath(branchPath, branchKey), `Keyword "${branchKey}" is not supported and was ignored`);
+                    }
+                }
+            });
+            return options;
+        }
+    }
+
+    if (Array.isArray(node.enum)) {
+        used.add('enum');
+        node.enum.forEach((value, index) => add(value, undefined, `${joinPath(path, 'enum')}[${index}]`));
+        return options;
+    }
+
+    return null;
+}
+
+/**
+ * Reads the patterns of a string node (pattern, and pattern-only allOf entries)
+ */
+function readPatterns(node: Record<string, unknown>, used: UsedKeywords, path: string, ctx: ImportContext): string[] {
+    const patterns: string[] = [];
+    if (typeof node.pattern === 'string') {
+        used.add('pattern');
+        patterns.push(node.pattern);
+    }
+
+    const { allOf } = node;
+    if (Array.isArray(allOf)) {
+        const isPatternOnly = (entry: unknown) =>
+            isPlainObject(entry) && Object.keys(entry).length === 1 && typeof entry.pattern === 'string';
+        if (allOf.every(isPatternOnly)) {
+            used.add('allOf');
+            patterns.push(...allOf.map((entry: { pattern: string }) => entry.pattern));
+        } else {
+            report(ctx, joinPath(path, 'allOf'), 'Only allOf entries holding a single pattern are supported');
+            used.add('allOf');
+        }
+    }
+    return patterns;
+}
+
+/**
+ * Converts a JSON Schema pattern (which searches) into a builder pattern
+ * (which must match the whole value)
+ */
+function toBuilderPattern(pattern: string): string {
+    const anchored = /^\^\(\?:(.*)\)\$$/.exec(pattern);
+    if (anchored && getPatternError(anchored[1]) === null) {
+        return anchored[1];
+    }
+    if (pattern.startsWith('^') && pattern.endsWith('$') && !pattern.endsWith('\\$')) {
+        return pattern.slice(1, -1);
+    }
+    return `.*(?:${pattern}).*`;
+}
+
+/**
+ * Reads the type of a node; infers it when missing
+ */
+function readType(node: Record<string, unknown>, used: UsedKeywords, path: string, ctx: ImportContext): string | null {
+    let { type } = node;
+    used.add('type');
+
+    if (Array.isArray(type)) {
+        const types = type.filter((t) => t !== 'null');
+        if (types.length !== type.length) {
+            report(ctx, joinPath(path, 'type'), 'null values are not supported; the field is submitted empty instead');
+        }
+        if (types.length > 1) {
+            report(ctx, joinPath(path, 'type'), `Only one type per field is supported; using "${types[0]}"`);
+        }
+        type = types[0];
+    }
+
+    if (typeof type === 'string') {
+        return type;
+    }
+    if (isPlainObject(node.properties)) {
+        return 'object';
+    }
+    if (node.items !== undefined) {
+        return 'array';
+    }
+    if (Array.isArray(node.enum) || Array.isArray(node.oneOf)) {
+        return 'string';
+    }
+    return null;
+}
+
+/**
+ * Reads the fields of an object node
+ */
+function readObject(
+    node: Record<string, unknown>,
+    used: UsedKeywords,
+    path: string,
+    ctx: ImportContext
+): Field[] {
+    used.add('properties');
+    used.add('required');
+
+    const required = new Set(
+        Array.isArray(node.required) ? node.required.filter((name): name is string => typeof name === 'string') : []
+    );
+
+    if (node.additionalProperties === false) {
+        used.add('additionalProperties');
+    }
+
+    const properties = isPlainObject(node.properties) ? node.properties : {};
+    const taken = new Set<string>();
+    const fields: Field[] = [];
+
+    for (const [key, value] of Object.entries(properties)) {
+        let name = key;
+        if (!FIELD_NAME_PATTERN.test(key) || taken.has(key)) {
+            name = uniqueName(slugifyName(key), taken);
+            report(ctx, joinPath(path, `properties.${key}`), `Property "${key}" is not a valid field name; renamed to "${name}"`);
+        }
+        taken.add(name);
+
+        const field = readField(value, key, name, required.has(key), joinPath(path, `properties.${key}`), ctx);
+        if (field) {
+            fields.push(field);
+        }
+    }
+
+    for (const name of required) {
+        if (!Object.hasOwn(properties, name)) {
+            report(ctx, joinPath(path, 'required'), `Required property "${name}" is not defined and was ignored`);
+        }
+    }
+
+    return fields;
+}
+
+/**
+ * Builds a text field from a string node
+ */
+function readTextField(
+    node: Record<string, unknown>,
+    base: Omit<TextField, 'type'>,
+    used: UsedKeywords,
+    path: string,
+    ctx: ImportContext
+): TextField {
+    const field: TextField = { ...base, type: 'text' };
+
+    const minLength = readCount(node, 'minLength', used);
+    // A required field needs one character anyway (the exporter adds it)
+    if (minLength !== undefined && !(field.required && minLength === 1)) {
+        field.minLength = minLength;
+    }
+    field.maxLength = readCount(node, 'maxLength', used);
+
+    if (typeof node.format === 'string') {
+        const format = (Object.keys(TEXT_FORMATS) as TextFormat[]).find((name) => {
+            const keyword = TEXT_FORMATS[name].jsonSchema;
+            return 'format' in keyword && keyword.format === node.format;
+        });
+        if (format) {
+            used.add('format');
+            field.format = format;
+        }
+    }
+
+    for (const pattern of readPatterns(node, used, path, ctx)) {
+        const format = (Object.keys(TEXT_FORMATS) as TextFormat[]).find((name) => {
+            const keyword = TEXT_FORMATS[name].jsonSchema;
+            return 'pattern' in keyword && keyword.pattern === pattern;
+        });
+        if (format && field.format === undefined) {
+            field.format = format;
+            continue;
+        }
+
+        const builderPattern = toBuilderPattern(pattern);
+        const error = getPatternError(builderPattern);
+        if (error) {
+            report(ctx, joinPath(path, 'pattern'), `Pattern ${JSON.stringify(pattern)} was ignored: ${error}`);
+        } else if (field.pattern !== undefined) {
+            report(ctx, joinPath(path, 'pattern'), `Only one custom pattern per field is supported; ${JSON.stringify(pattern)} was ignored`);
+        } else {
+            field.pattern = builderPattern;
+        }
+    }
+
+    return field;
+}
+
+/**
+ * Finds the date/time type a string node describes, if any
+ */
+function readTemporalType(node: Record<string, unknown>): TemporalField['type'] | null {
+    switch (node.format) {
+        case 'date':
+            return 'date';
+        case 'time':
+            return 'time';
+        case 'date-time':
+            return 'datetime';
+    }
+    if (node.pattern === getTemporalValuePattern('time')) {
+        return 'time';
+    }
+    if (node.pattern === getTemporalValuePattern('datetime')) {
+        return 'datetime';
+    }
+    return null;
+}
+
+/**
+ * Builds a field from a property schema
+ * The label is the schema's title, or else the property key
+ * Returns null (and reports why) if the property cannot be represented
+ */
+function readField(
+    value: unknown,
+    key: string,
+    name: string,
+    isRequired: boolean,
+    path: string,
+    ctx: ImportContext
+): Field | null {
+    if (value === true) {
+        report(ctx, path, 'A schema accepting any value is imported as a text field');
+        return { id: generateId(), type: 'text', label: key, name, required: isRequired };
+    }
+    if (!isPlainObject(value)) {
+        report(ctx, path, 'Property schema is not an object and was ignored');
+        return null;
+    }
+
+    const node = unwrapOptional(value);
+    const used: UsedKeywords = new Set(['title']);
+    const base = {
+        id: generateId(),
+        label: typeof node.title === 'string' && node.title !== '' ? node.title : key,
+        name,
+        required: isRequired,
+    };
+
+    const type = readType(node, used, path, ctx);
+    let field: Field | null = null;
+
+    switch (type) {
+        case 'object': {
+            const children = readObject(node, used, path, ctx);
+            field = { ...base, required: false, type: 'group', children };
+            break;
+        }
+
+        case 'array': {
+            used.add('items');
+            const items = isPlainObject(node.items) ? node.items : null;
+            const itemUsed: UsedKeywords = new Set(['title']);
+            const itemType = items ? readType(items, itemUsed, joinPath(path, 'items'), ctx) : null;
+
+            if (items && itemType === 'object') {
+                const children = readObject(items, itemUsed, joinPath(path, 'items'), ctx);
+                reportUnused(items, itemUsed, joinPath(path, 'items'), ctx);
+                const group: GroupField = { ...base, required: false, type: 'group', children, repeatable: true };
+                group.minInstances = readCount(node, 'minItems', used);
+                group.maxInstances = readCount(node, 'maxItems', used);
+                field = group;
+                break;
+            }
+
+            const options = items ? readOptions(items, itemUsed, joinPath(path, 'items'), ctx) : null;
+            if (items && options) {
+                reportUnused(items, itemUsed, joinPath(path, 'items'), ctx);
+                if (node.uniqueItems === true) {
+                    used.add('uniqueItems');
+                }
+                if (isRequired && node.minItems === 1) {
+                    used.add('minItems');
+                }
+                const defaults = Array.isArray(node.default)
+                    ? node.default.map(String).filter((choice) => options.some((option) => option.value === choice))
+                    : [];
+                if (Array.isArray(node.default)) {
+                    used.add('default');
+                }
+                field = { ...base, type: 'multiselect', options, defaultValue: defaults.length > 0 ? defaults : undefined };
+                break;
+            }
+
+            report(ctx, path, 'Only arrays of objects or of options are supported; the property was ignored');
+            return null;
+        }
+
+        case 'boolean':
+            if (node.const === true) {
+                used.add('const');
+            }
+            if (typeof node.default === 'boolean') {
+                used.add('default');
+            }
+            field = {
+                ...base,
+                required: isRequired && node.const === true,
+                type: 'checkbox',
+                defaultValue: typeof node.default === 'boolean' ? node.default : undefined,
+            };
+            break;
+
+        case 'integer':
+        case 'number':
+            if (type === 'integer') {
+                report(ctx, joinPath(path, 'type'), 'Integer type is imported as a number field; whole numbers are not enforced');
+            }
+            field = {
+                ...base,
+                type: 'number',
+                min: readNumber(node, 'minimum', used),
+                max: readNumber(node, 'maximum', used),
+            };
+            break;
+
+        case 'string': {
+            const options = readOptions(node, used, path, ctx);
+            if (options) {
+                const defaultValue =
+                    typeof node.default === 'string' && options.some((option) => option.value === node.default)
+                        ? node.default
+                        : undefined;
+                if (defaultValue !== undefined) {
+                    used.add('default');
+                }
+                field = { ...base, type: 'select', options, defaultValue };
+                break;
+            }
+
+            const temporalType = readTemporalType(node);
+            if (temporalType) {
+                used.add(node.format !== undefined ? 'format' : 'pattern');
+                field = { ...base, type: temporalType };
+                break;
+            }
+
+            field = readTextField(node, base, used, path, ctx);
+            break;
+        }
+
+        default:
+            report(
+                ctx,
+                joinPath(path, 'type'),
+                type === null ? 'No type given; imported as a text field' : `Type "${type}" is not supported; imported as a text field`
+            );
+            field = { ...base, type: 'text' };
+            break;
+    }
+
+    reportUnused(node, used, path, ctx);
+    return field;
+}
+
+/**
+ * Builds a FormSchema from a JSON Schema document
+ * The document must describe an object; properties become fields in
+ * document order. Keywords that cannot be represented are skipped and
+ * listed in `unsupported`; the result is validated like any import.
+ */
+export function fromJsonSchema(document: unknown): JsonSchemaImportResult {
+    if (!isPlainObject(document)) {
+        return { success: false, issues: [{ path: '', message: 'Expected a JSON Schema object' }] };
+    }
+
+    const ctx: ImportContext = { unsupported: [] };
+    const used: UsedKeywords = new Set(['$schema', '$id', 'title']);
+
+    if (document.$schema !== undefined && document.$schema !== JSON_SCHEMA_DIALECT) {
+        report(ctx, '$schema', `Document declares ${JSON.stringify(document.$schema)}; it was read as draft 2020-12`);
+    }
+
+    const type = readType(document, used, '', ctx);
+    if (type !== 'object') {
+        return { success: false, issues: [{ path: 'type', message: 'The document must describe an object with properties' }] };
+    }
+
+    const fields = readObject(document, used, '', ctx);
+    reportUnused(document, used, '', ctx);
+
+    const result = validateSchema({ version: CURRENT_SCHEMA_VERSION, fields });
+    if (!result.valid) {
+        return { success: false, issues: result.issues };
+    }
+    return { success: true, schema: result.schema, unsupported: ctx.unsupported };
+}
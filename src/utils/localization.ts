@@ -0,0 +1,274 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - FORM LOCALIZATION
+ * =============================================================================
+ * Languages of a form (`localization` of the schema). Field texts (label,
+ * placeholder, pattern message, option labels) and custom rule messages
+ * are written in the default locale; each additional locale keeps its
+ * translations next to them (`translations` of the field or rule).
+ *
+ *   localizeSchema(schema, "de")  -> the schema with German texts, falling
+ *                                    back to the default ones
+ *   getFormMessages(schema, "de") -> validation messages (utils/messages.ts)
+ *   getMissingTranslations(...)   -> what the builder flags per field
+ *
+ * HARD CONSTRAINTS:
+ * - Pure functions only; no i18n libraries
+ * - Field IDs, names and option values are never translated, so data and
+ *   submissions are the same in every locale
+ * - A missing translation falls back to the default text, never to ""
+ * =============================================================================
+ */
+
+import type { Field, FieldTranslation, FormLocalization, FormRule, FormSchema } from '../types/schema';
+import { isChoiceField, isGroupField } from '../types/schema';
+import { createMessages, type Messages } from './messages';
+
+/**
+ * Locale of forms without localization settings
+ */
+export const DEFAULT_LOCALE = 'en';
+
+/**
+ * Why a locale code is not usable, or null if it is a valid BCP 47 tag
+ */
+export function getLocaleError(code: string): string | null {
+    if (code.trim() === '') {
+        return 'Enter a locale code, e.g. "de" or "pt-BR"';
+    }
+    try {
+        Intl.getCanonicalLocales(code);
+        return null;
+    } catch {
+        return `"${code}" is not a valid locale code (e.g. "de" or "pt-BR")`;
+    }
+}
+
+/**
+ * Name of a locale for display, e.g. "German (Austria)" for "de-AT";
+ * the code itself when Intl has no name for it
+ */
+export function getLocaleName(code: string, displayLocale = DEFAULT_LOCALE): string {
+    try {
+        return new Intl.DisplayNames([displayLocale], { type: 'language' }).of(code) ?? code;
+    } catch {
+        return code;
+    }
+}
+
+/**
+ * Default locale followed by the additional ones
+ */
+export function getFormLocales(localization: FormLocalization | undefined): string[] {
+    return localization ? [localization.defaultLocale, ...localization.locales] : [DEFAULT_LOCALE];
+}
+
+/**
+ * The requested locale if the form has it, otherwise the default one
+ */
+export function resolveLocale(localization: FormLocalization | undefined, requested: string | null): string {
+    const locales = getFormLocales(localization);
+    return requested !== null && locales.includes(requested) ? requested : locales[0];
+}
+
+/**
+ * Whether a translated text is filled in
+ */
+function isTranslated(text: string | undefined): text is string {
+    return text !== undefined && text.trim() !== '';
+}
+
+/**
+ * A field with the texts of a locale (missing ones keep the default text)
+ */
+function localizeField(field: Field, locale: string): Field {
+    const translation = field.translations?.[locale];
+    const children = isGroupField(field) ? localizeFields(field.children, locale) : null;
+    if (!translation && (!isGroupField(field) || children === field.children)) {
+        return field;
+    }
+
+    const localized = { ...field } as Field;
+    if (isTranslated(translation?.label)) {
+        localized.label = translation.label;
+    }
+    if (isTranslated(translation?.placeholder) && 'placeholder' in localized) {
+        localized.placeholder = translation.placeholder;
+    }
+    if (isTranslated(translation?.patternMessage) && localized.type === 'text') {
+        localized.patternMessage = translation.patternMessage;
+    }
+    if (translation?.options && isChoiceField(localized)) {
+        const options = translation.options;
+        localized.options = localized.options.map((option) =>
+            isTranslated(options[option.value]) ? { ...option, label: options[option.value] } : option
+        );
+    }
+    if (children && isGroupField(localized)) {
+        localized.children = children;
+    }
+    return localized;
+}
+
+/**
+ * Fields with the texts of a locale; unchanged branches keep their identity
+ */
+export function localizeFields(fields: Field[], locale: string): Field[] {
+    const localized = fields.map((field) => localizeField(field, locale));
+    return localized.every((field, index) => field === fields[index]) ? fields : localized;
+}
+
+/**
+ * A rule with its custom message in a locale
+ */
+function localizeRule(rule: FormRule, locale: string): FormRule {
+    const message = rule.translations?.[locale];
+    return isTranslated(message) ? { ...rule, message } : rule;
+}
+
+/**
+ * The schema with the texts of a locale (the default locale: unchanged)
+ */
+export function localizeSchema(schema: FormSchema, locale: string): FormSchema {
+    if (locale === getFormLocales(schema.localization)[0]) {
+        return schema;
+    }
+    return {
+        ...schema,
+        fields: localizeFields(schema.fields, locale),
+        rules: schema.rules?.map((rule) => localizeRule(rule, locale)),
+    };
+}
+
+/**
+ * Validation messages and interface texts of a locale, with the form's own
+ * texts for it
+ */
+export function getFormMessages(schema: FormSchema, locale: string): Messages {
+    return createMessages(locale, schema.localization?.messages?.[locale]);
+}
+
+/**
+ * Whether a field lacks any translation for a locale: its label, and its
+ * placeholder, pattern message and option labels where it has them
+ */
+export function isTranslationMissing(field: Field, locale: string): boolean {
+    const translation: FieldTranslation = field.translations?.[locale] ?? {};
+    const isMissing = (text: string | undefined, translated: string | undefined) =>
+        isTranslated(text) && !isTranslated(translated);
+
+    return (
+        isMissing(field.label, translation.label) ||
+        ('placeholder' in field && isMissing(field.placeholder, translation.placeholder)) ||
+        (field.type === 'text' && isMissing(field.patternMessage, translation.patternMessage)) ||
+        (isChoiceField(field) &&
+            field.options.some((option) => isMissing(option.label, translation.options?.[option.value])))
+    );
+}
+
+/**
+ * Additional locales a field lacks translations for
+ */
+export function getMissingTranslations(field: Field, localization: FormLocalization | undefined): string[] {
+    return (localization?.locales ?? []).filter((locale) => isTranslationMissing(field, locale));
+}
+
+/**
+ * Number of fields (anywhere in the tree) missing a translation for a locale
+ */
+export function countMissingTranslations(fields: Field[], locale: string): number {
+    return fields.reduce(
+        (count, field) =>
+            count +
+            (isTranslationMissing(field, locale) ? 1 : 0) +
+            (isGroupField(field) ? countMissingTranslations(field.children, locale) : 0),
+        0
+    );
+}
+
+/**
+ * Field translations with some texts of a locale changed
+ * Blank texts are dropped, and so are locales (and the whole object) left
+ * without any text
+ */
+export function setFieldTranslation(
+    translations: Record<string, FieldTranslation> | undefined,
+    locale: string,
+    changes: Partial<FieldTranslation>
+): Record<string, FieldTranslation> | undefined {
+    const merged: FieldTranslation = { ...translations?.[locale], ...changes };
+    const translation: FieldTranslation = {};
+    for (const key of ['label', 'placeholder', 'patternMessage'] as const) {
+        if (isTranslated(merged[key])) {
+            translation[key] = merged[key];
+        }
+    }
+    const options = Object.entries(merged.options ?? {}).filter(([, text]) => isTranslated(text));
+    if (options.length > 0) {
+        translation.options = Object.fromEntries(options);
+    }
+
+    const next = { ...translations };
+    delete next[locale];
+    if (Object.keys(translation).length > 0) {
+        next[locale] = translation;
+    }
+    return Object.keys(next).length > 0 ? next : undefined;
+}
+
+/**
+ * Rule message translations with the message of a locale changed
+ * (a blank message removes the locale)
+ */
+export function setRuleTranslation(
+    translations: Record<string, string> | undefined,
+    locale: string,
+    message: string
+): Record<string, string> | undefined {
+    const next = { ...translations };
+    delete next[locale];
+    if (isTranslated(message)) {
+        next[locale] = message;
+    }
+    return Object.keys(next).length > 0 ? next : undefined;
+}
+
+/**
+ * Translations of the given locales only (undefined when none are left)
+ */
+function keepLocales<T>(translations: Record<string, T> | undefined, locales: readonly string[]): Record<string, T> | undefined {
+    const entries = Object.entries(translations ?? {}).filter(([locale]) => locales.includes(locale));
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+/**
+ * Keeps only the translations of the given locales (fields and rules)
+ * Unchanged branches keep their identity
+ */
+export function pruneTranslations(schema: FormSchema, locales: readonly string[]): FormSchema {
+    const needsPruning = (translations: Record<string, unknown> | undefined) =>
+        translations !== undefined && Object.keys(translations).some((locale) => !locales.includes(locale));
+
+    const pruneFields = (fields: Field[]): Field[] => {
+        const pruned = fields.map((field) => {
+            const children = isGroupField(field) ? pruneFields(field.children) : null;
+            if (!needsPruning(field.translations) && (!isGroupField(field) || children === field.children)) {
+                return field;
+            }
+            const next = { ...field, translations: keepLocales(field.translations, locales) } as Field;
+            if (children && isGroupField(next)) {
+                next.children = children;
+            }
+            return next;
+        });
+        return pruned.every((field, index) => field === fields[index]) ? fields : pruned;
+    };
+
+    const fields = pruneFields(schema.fields);
+    const rules = schema.rules?.map((rule) =>
+        needsPruning(rule.translations) ? { ...rule, translations: keepLocales(rule.translations, locales) } : rule
+    );
+    const isRulesChanged = rules?.some((rule, index) => rule !== schema.rules?.[index]) ?? false;
+
+    return fields === schema.fields && !isRulesChanged ? schema : { ...schema, fields, rules };
+}
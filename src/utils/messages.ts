@@ -0,0 +1,373 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - MESSAGE CATALOG
+ * =============================================================================
+ * Validation messages and interface texts (ui.*: buttons, placeholders,
+ * status) of the runtime form, by message ID, with their built-in English
+ * text. A form can replace any of them per locale (`localization.messages`
+ * of the schema); unset ones stay English.
+ *
+ * Templates use a subset of ICU MessageFormat:
+ *   {label}                                      -> value of "label"
+ *   {min, plural, one {# entry} other {# entries}} -> plural form of "min"
+ *                                                  (# = the number)
+ *   {count, plural, =0 {none} other {#}}          -> exact matches first
+ * Plural forms follow the locale (Intl.PluralRules), numbers are
+ * formatted for it (Intl.NumberFormat). There is no quoting: templates
+ * cannot contain literal braces.
+ *
+ * HARD CONSTRAINTS:
+ * - Pure functions only; no i18n libraries
+ * - A template that does not parse never reaches users: the built-in text
+ *   is used instead (and the builder flags it)
+ * - Unknown {names} are left in the text as written, so typos show
+ * =============================================================================
+ */
+
+/**
+ * Built-in (English) text of every message
+ */
+export const DEFAULT_MESSAGES = {
+    'required': '{label} is required',
+    'number.invalid': '{label} must be a valid number',
+    'number.min': '{label} must be at least {min}',
+    'number.max': '{label} must be at most {max}',
+    'text.minLength': '{label} must be at least {min, plural, one {# character} other {# characters}}',
+    'text.maxLength': '{label} must be at most {max, plural, one {# character} other {# characters}}',
+    'text.email': '{label} must be a valid email address',
+    'text.url': '{label} must be a valid URL starting with http:// or https://',
+    'text.phone': '{label} must be a valid phone number',
+    'text.postalCode': '{label} must be a valid postal code',
+    'text.pattern': '{label} is not in the expected format',
+    'date.invalid': '{label} must be a valid date',
+    'date.min': '{label} must be on or after {limit}',
+    'date.max': '{label} must be on or before {limit}',
+    'time.invalid': '{label} must be a valid time',
+    'time.min': '{label} must be at or after {limit}',
+    'time.max': '{label} must be at or before {limit}',
+    'datetime.invalid': '{label} must be a valid date and time',
+    'datetime.min': '{label} must be at or after {limit}',
+    'datetime.max': '{label} must be at or before {limit}',
+    'bound.today': 'today',
+    'bound.now': 'now',
+    'bound.plus': '{anchor} plus {duration}',
+    'bound.minus': '{anchor} minus {duration}',
+    'unit.days': '{count, plural, one {# day} other {# days}}',
+    'unit.weeks': '{count, plural, one {# week} other {# weeks}}',
+    'unit.months': '{count, plural, one {# month} other {# months}}',
+    'unit.years': '{count, plural, one {# year} other {# years}}',
+    'choice.invalid': '{label} must be one of the available options',
+    'multiselect.invalid': '{label} contains an option that is not available',
+    'group.min': '{label} needs at least {min, plural, one {# entry} other {# entries}}',
+    'group.max': '{label} allows at most {max, plural, one {# entry} other {# entries}}',
+    'check.failed': 'This value could not be checked. Please try again.',
+    'rule.compare': '{field} must be {operator} {other}',
+    'rule.sum': 'The total of {fields} must be {operator} {value}',
+    'rule.atLeast': 'Fill in at least {count, plural, one {one} other {#}} of {fields}',
+    'operator.lessThan': 'less than',
+    'operator.lessThanOrEqual': 'at most',
+    'operator.equals': 'equal to',
+    'operator.notEquals': 'different from',
+    'operator.greaterThanOrEqual': 'at least',
+    'operator.greaterThan': 'greater than',
+    'operator.before': 'before',
+    'operator.onOrBefore': 'on or before',
+    'operator.onOrAfter': 'on or after',
+    'operator.after': 'after',
+    'ui.submit': 'Submit',
+    'ui.checking': 'Checking…',
+    'ui.formErrors': 'Form errors',
+    'ui.submitFailed': 'The form could not be submitted: {reason}',
+    'ui.language': 'Language',
+    'ui.selectPlaceholder': 'Select an option',
+    'ui.noOptions': 'No options',
+    'ui.yes': 'Yes',
+    'ui.no': 'No',
+    'ui.emptyGroup': 'Empty group',
+    'ui.instanceTitle': '{label} #{number}',
+    'ui.addInstance': '+ Add another {label}',
+    'ui.removeInstance': 'Remove',
+    'ui.removeInstanceLabel': 'Remove {title}',
+    'ui.moveUp': 'Move up',
+    'ui.moveDown': 'Move down',
+    'ui.moveInstanceUp': 'Move {title} up',
+    'ui.moveInstanceDown': 'Move {title} down',
+    'ui.resetForm': 'Reset Form',
+    'ui.back': '← Back',
+    'ui.next': 'Next →',
+    'ui.submitForm': 'Submit Form',
+    'ui.correctErrors': 'Please correct the errors above.',
+    'ui.submitted': 'Form submitted successfully!',
+    'ui.submittedData': 'Submitted Data',
+    'ui.steps': 'Form steps',
+    'ui.stepOf': 'Step {number} of {count}',
+    'ui.progress': 'Progress',
+    'ui.stepLocked': 'Opens once the steps before it are complete',
+} as const;
+
+/**
+ * ID of a catalog message
+ */
+export type MessageId = keyof typeof DEFAULT_MESSAGES;
+
+/**
+ * All message IDs, in catalog order
+ */
+export const MESSAGE_IDS = Object.keys(DEFAULT_MESSAGES) as MessageId[];
+
+/**
+ * Values interpolated into a message
+ */
+export type MessageValues = Record<string, string | number>;
+
+/**
+ * Messages of one locale
+ */
+export interface Messages {
+    /** Locale the messages are formatted for */
+    locale: string;
+    /** Formats a catalog message */
+    format: (id: MessageId, values?: MessageValues) => string;
+    /** Joins items for the locale: "A, B and C" / "A, B or C" */
+    list: (items: string[], type: 'and' | 'or') => string;
+}
+
+/**
+ * Parsed piece of a template
+ */
+type MessagePart =
+    | { kind: 'text'; text: string }
+    | { kind: 'value'; name: string }
+    | { kind: 'plural'; name: string; branches: Record<string, MessagePart[]> }
+    | { kind: 'count' };
+
+/**
+ * Result of parsing a template
+ */
+type ParseResult = { success: true; parts: MessagePart[] } | { success: false; message: string };
+
+/**
+ * Raised inside the parser; turned into a failed ParseResult
+ */
+class TemplateSyntaxError extends Error {}
+
+const ARGUMENT_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Parses text and arguments up to an unmatched "}" or the end
+ */
+function parseSequence(template: string, state: { index: number }, inPlural: boolean): MessagePart[] {
+    const parts: MessagePart[] = [];
+    let text = '';
+    const flush = () => {
+        if (text !== '') {
+            parts.push({ kind: 'text', text });
+            text = '';
+        }
+    };
+
+    while (state.index < template.length) {
+        const char = template[state.index];
+        if (char === '}') {
+            break;
+        }
+        if (char === '{') {
+            flush();
+            parts.push(parseArgument(template, state));
+        } else if (char === '#' && inPlural) {
+            flush();
+            parts.push({ kind: 'count' });
+            state.index++;
+        } else {
+            text += char;
+            state.index++;
+        }
+    }
+
+    flush();
+    return parts;
+}
+
+/**
+ * Parses "{name}" or "{name, plural, selector {…} …}" starting at "{"
+ */
+function parseArgument(template: string, state: { index: number }): MessagePart {
+    const start = state.index;
+    state.index++;
+
+    const headerEnd = template.slice(state.index).search(/[{}]/);
+    if (headerEnd === -1) {
+        throw new TemplateSyntaxError(`"{" at position ${start + 1} is never closed`);
+    }
+    const header = template.slice(state.index, state.index + headerEnd);
+    const firstComma = header.indexOf(',');
+    const name = (firstComma === -1 ? header : header.slice(0, firstComma)).trim();
+    if (!ARGUMENT_NAME.test(name)) {
+        throw new TemplateSyntaxError(`"{${name}}" is not a valid name; use letters, digits and _`);
+    }
+
+    if (firstComma === -1) {
+        state.index += headerEnd;
+        if (template[state.index] !== '}') {
+            throw new TemplateSyntaxError(`Unexpected "{" after "{${name}"`);
+        }
+        state.index++;
+        return { kind: 'value', name };
+    }
+
+    const secondComma = header.indexOf(',', firstComma + 1);
+    const type = header.slice(firstComma + 1, secondComma === -1 ? undefined : secondComma).trim();
+    if (type !== 'plural' || secondComma === -1) {
+        throw new TemplateSyntaxError(`"{${name}, ${type}" is not supported; only "plural" is`);
+    }
+
+    // Branches: selector {text} ...
+    state.index += secondComma + 1;
+    const branches: Record<string, MessagePart[]> = {};
+    for (;;) {
+        while (/\s/.test(template[state.index] ?? '')) {
+            state.index++;
+        }
+        if (state.index >= template.length) {
+            throw new TemplateSyntaxError(`"{" at position ${start + 1} is never closed`);
+        }
+        if (template[state.index] === '}') {
+            state.index++;
+            break;
+        }
+        const selector = /^(=\d+|zero|one|two|few|many|other)\s*\{/.exec(template.slice(state.index));
+        if (!selector) {
+            throw new TemplateSyntaxError(
+                `Expected a plural case (=0, one, few, many, other, …) followed by "{" in "{${name}, plural"`
+            );
+        }
+        state.index += selector[0].length;
+        branches[selector[1]] = parseSequence(template, state, true);
+        if (template[state.index] !== '}') {
+            throw new TemplateSyntaxError(`A case of "{${name}, plural" is never closed`);
+        }
+        state.index++;
+    }
+
+    if (!branches.other) {
+        throw new TemplateSyntaxError(`"{${name}, plural" needs an "other" case`);
+    }
+    return { kind: 'plural', name, branches };
+}
+
+/**
+ * Parses a message template
+ */
+function parseTemplate(template: string): ParseResult {
+    try {
+        const state = { index: 0 };
+        const parts = parseSequence(template, state, false);
+        if (state.index < template.length) {
+            return { success: false, message: `"}" at position ${state.index + 1} has no matching "{"` };
+        }
+        return { success: true, parts };
+    } catch (error) {
+        if (error instanceof TemplateSyntaxError) {
+            return { success: false, message: error.message };
+        }
+        throw error;
+    }
+}
+
+/**
+ * Why a template cannot be used, or null if it parses
+ */
+export function getMessageTemplateError(template: string): string | null {
+    const result = parseTemplate(template);
+    return result.success ? null : result.message;
+}
+
+/**
+ * Formats parsed parts; `count` is the number of the enclosing plural
+ */
+function formatParts(
+    parts: MessagePart[],
+    values: MessageValues,
+    locale: string,
+    count: number | null
+): string {
+    const formatValue = (value: string | number) =>
+        typeof value === 'number' ? new Intl.NumberFormat(locale).format(value) : value;
+
+    return parts
+        .map((part) => {
+            switch (part.kind) {
+                case 'text':
+                    return part.text;
+                case 'count':
+                    return count === null ? '#' : formatValue(count);
+                case 'value': {
+                    const value = values[part.name];
+                    return value === undefined ? `{${part.name}}` : formatValue(value);
+                }
+                case 'plural': {
+                    const value = Number(values[part.name]);
+                    if (values[part.name] === undefined || isNaN(value)) {
+                        return `{${part.name}}`;
+                    }
+                    const branch =
+                        part.branches[`=${value}`] ??
+                        part.branches[new Intl.PluralRules(locale).select(value)] ??
+                        part.branches.other;
+                    return formatParts(branch, values, locale, value);
+                }
+            }
+        })
+        .join('');
+}
+
+/**
+ * Formats a template for a locale; an invalid template is returned as is
+ */
+export function formatMessage(template: string, values: MessageValues = {}, locale = 'en'): string {
+    const result = parseTemplate(template);
+    return result.success ? formatParts(result.parts, values, locale, null) : template;
+}
+
+/**
+ * The locale if Intl supports it, otherwise English
+ */
+function supportedLocale(locale: string): string {
+    try {
+        return Intl.PluralRules.supportedLocalesOf(locale).length > 0 ? locale : 'en';
+    } catch {
+        return 'en';
+    }
+}
+
+/**
+ * Messages of a locale with a form's overrides; overrides that do not
+ * parse fall back to the built-in text
+ */
+export function createMessages(locale: string, overrides: Record<string, string> = {}): Messages {
+    const intlLocale = supportedLocale(locale);
+    const templates = new Map<MessageId, MessagePart[]>();
+    const templateOf = (id: MessageId): MessagePart[] => {
+        let parts = templates.get(id);
+        if (!parts) {
+            const override = overrides[id];
+            const parsed = override !== undefined ? parseTemplate(override) : null;
+            const result = parsed?.success ? parsed : parseTemplate(DEFAULT_MESSAGES[id]);
+            parts = result.success ? result.parts : [];
+            templates.set(id, parts);
+        }
+        return parts;
+    };
+
+    return {
+        locale,
+        format: (id, values = {}) => formatParts(templateOf(id), values, intlLocale, null),
+        list: (items, type) =>
+            new Intl.ListFormat(intlLocale, { type: type === 'and' ? 'conjunction' : 'disjunction' }).format(items),
+    };
+}
+
+/**
+ * Built-in English messages
+ */
+export const ENGLISH_MESSAGES: Messages = createMessages('en');
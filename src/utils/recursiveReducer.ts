@@ -12,8 +12,21 @@
  * =============================================================================
  */
 
-import type { Field, FormSchema } from '../types/schema';
-import { isGroupField } from '../types/schema';
+import type {
+    Field,
+    FormLayout,
+    FormLocalization,
+    FormRule,
+    FormSchema,
+    FormTheme,
+    SubmissionTarget,
+} from '../types/schema';
+import { isComputedField, isGroupField } from '../types/schema';
+import { getMoveFormulaError, renameInFormulas } from './computedFields';
+import { uniqueName } from './fieldNames';
+import { collectRuleTargets } from './formRules';
+import { isRepeatableGroup } from './formScope';
+import { pruneTranslations } from './localization';
 
 /**
  * Action types for the builder reducer
@@ -23,6 +36,14 @@ export type BuilderAction =
     | { type: 'UPDATE_FIELD'; payload: { id: string; updates: Partial<Field> } }
     | { type: 'DELETE_FIELD'; payload: { id: string } }
     | { type: 'MOVE_FIELD'; payload: { id: string; direction: 'up' | 'down' } }
+    | { type: 'MOVE_FIELD_TO'; payload: { id: string; parentId: string | null; index: number } }
+    | { type: 'ADD_RULE'; payload: { rule: FormRule } }
+    | { type: 'UPDATE_RULE'; payload: { id: string; updates: Partial<FormRule> } }
+    | { type: 'DELETE_RULE'; payload: { id: string } }
+    | { type: 'SET_SUBMISSION'; payload: { target: SubmissionTarget | undefined } }
+    | { type: 'SET_LAYOUT'; payload: { layout: FormLayout } }
+    | { type: 'SET_LOCALIZATION'; payload: { localization: FormLocalization | undefined } }
+    | { type: 'SET_THEME'; payload: { theme: FormTheme | undefined } }
     | { type: 'SET_SCHEMA'; payload: FormSchema };
 
 /**
@@ -31,38 +52,44 @@ export type BuilderAction =
  * 
  * @param fields - Array of fields to traverse
  * @param fn - Transformation function applied to each field
- * @returns New array with transformed fields (unchanged branches keep references)
+ * @returns New array with transformed fields (unchanged branches keep references;
+ *          the input array itself is returned if nothing changed)
  */
 export function recursiveMap(
     fields: Field[],
     fn: (field: Field) => Field | null
 ): Field[] {
     const result: Field[] = [];
+    let changed = false;
 
     for (const field of fields) {
         const transformed = fn(field);
 
         // If fn returns null, the field is being deleted
         if (transformed === null) {
+            changed = true;
             continue;
         }
 
+        let next = transformed;
+
         // If it's a group, recursively process children
         if (isGroupField(transformed)) {
             const newChildren = recursiveMap(transformed.children, fn);
 
             // Structural sharing: only create new object if children changed
             if (newChildren !== transformed.children) {
-                result.push({ ...transformed, children: newChildren });
-            } else {
-                result.push(transformed);
+                next = { ...transformed, children: newChildren };
             }
-        } else {
-            result.push(transformed);
         }
+
+        if (next !== field) {
+            changed = true;
+        }
+        result.push(next);
     }
 
-    return result;
+    return changed ? result : fields;
 }
 
 /**
@@ -103,35 +130,84 @@ export function findFieldContext(
 }
 
 /**
- * Adds a field to a specific parent (null = root level)
+ * Finds the ID of the group containing a field (null = root level)
+ * Returns undefined if the field does not exist
  */
-function addField(
+export function findParentId(
+    fields: Field[],
+    id: string,
+    parentId: string | null = null
+): string | null | undefined {
+    for (const field of fields) {
+        if (field.id === id) {
+            return parentId;
+        }
+        if (isGroupField(field)) {
+            const found = findParentId(field.children, id, field.id);
+            if (found !== undefined) return found;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Checks whether targetId is the field itself or anywhere inside its subtree
+ */
+export function isSelfOrDescendant(field: Field, targetId: string): boolean {
+    return field.id === targetId || (isGroupField(field) && findFieldById(field.children, targetId) !== null);
+}
+
+/**
+ * Replaces the children list of a specific parent (null = root level)
+ * Only the path down to that parent is copied; every other branch keeps
+ * its reference, and the input is returned as-is if the parent is not found
+ */
+function updateChildrenOf(
     fields: Field[],
     parentId: string | null,
-    newField: Field
+    fn: (children: Field[]) => Field[]
 ): Field[] {
     if (parentId === null) {
-        // Add to root level
-        return [...fields, newField];
+        return fn(fields);
     }
 
-    return fields.map((field) => {
-        if (field.id === parentId && isGroupField(field)) {
-            // Found the target group, add the new field to its children
-            return {
-                ...field,
-                children: [...field.children, newField],
-            };
+    for (let i = 0; i < fields.length; i++) {
+        const field = fields[i];
+        if (!isGroupField(field)) {
+            continue;
         }
-        if (isGroupField(field)) {
-            // Recursively search in children
-            const newChildren = addField(field.children, parentId, newField);
-            // Structural sharing
-            if (newChildren !== field.children) {
-                return { ...field, children: newChildren };
-            }
+
+        const newChildren =
+            field.id === parentId
+                ? fn(field.children)
+                : updateChildrenOf(field.children, parentId, fn);
+
+        if (newChildren !== field.children) {
+            const newFields = [...fields];
+            newFields[i] = { ...field, children: newChildren };
+            return newFields;
         }
-        return field;
+        if (field.id === parentId) {
+            return fields;
+        }
+    }
+
+    return fields;
+}
+
+/**
+ * Adds a field to a specific parent (null = root level)
+ * The new field's name is de-duplicated among its new siblings
+ */
+function addField(
+    fields: Field[],
+    parentId: string | null,
+    newField: Field
+): Field[] {
+    return updateChildrenOf(fields, parentId, (children) => {
+        const taken = new Set(children.map((child) => child.name));
+        const name = uniqueName(newField.name, taken);
+        return [...children, name === newField.name ? newField : { ...newField, name }];
     });
 }
 
@@ -151,16 +227,192 @@ function updateField(
     });
 }
 
+/**
+ * Updates a field like updateField; a new name is also written into the
+ * formulas of computed fields that refer to the field
+ */
+function renameField(
+    fields: Field[],
+    id: string,
+    updates: Partial<Field>
+): Field[] {
+    const field = findFieldById(fields, id);
+    if (!field || updates.name === undefined || updates.name === field.name) {
+        return updateField(fields, id, updates);
+    }
+
+    const formulas = renameInFormulas(fields, id, updates.name);
+    return recursiveMap(fields, (current) => {
+        if (current.id === id) {
+            return { ...current, ...updates } as Field;
+        }
+        const expression = formulas.get(current.id);
+        return expression !== undefined && isComputedField(current) ? { ...current, expression } : current;
+    });
+}
+
+/**
+ * Collects the IDs of a field and all of its descendants
+ */
+export function collectSubtreeIds(field: Field, ids: Set<string> = new Set()): Set<string> {
+    ids.add(field.id);
+    if (isGroupField(field)) {
+        for (const child of field.children) {
+            collectSubtreeIds(child, ids);
+        }
+    }
+    return ids;
+}
+
+/**
+ * Removes visibility conditions that refer to any of the given field IDs
+ * Fields whose rules are untouched keep their references
+ */
+function removeConditionsOn(fields: Field[], removedIds: Set<string>): Field[] {
+    return recursiveMap(fields, (field) => {
+        const rule = field.visibleWhen;
+        if (!rule || !rule.conditions.some((c) => removedIds.has(c.fieldId))) {
+            return field;
+        }
+
+        const conditions = rule.conditions.filter((c) => !removedIds.has(c.fieldId));
+        return {
+            ...field,
+            visibleWhen: conditions.length > 0 ? { ...rule, conditions } : undefined,
+        };
+    });
+}
+
+/**
+ * Where a field sits: the IDs of the groups around it, outermost first,
+ * and of the repeatable ones among them
+ */
+interface FieldPlacement {
+    ancestors: string[];
+    repeating: string[];
+}
+
+function collectPlacements(
+    fields: Field[],
+    ancestors: string[] = [],
+    repeating: string[] = [],
+    placements: Map<string, FieldPlacement> = new Map()
+): Map<string, FieldPlacement> {
+    for (const field of fields) {
+        placements.set(field.id, { ancestors, repeating });
+        if (isGroupField(field)) {
+            collectPlacements(
+                field.children,
+                [...ancestors, field.id],
+                isRepeatableGroup(field) ? [...repeating, field.id] : repeating,
+                placements
+            );
+        }
+    }
+    return placements;
+}
+
+/**
+ * Removes visibility conditions a move has broken: those that now point
+ * inside the field they control, or into a repeatable group the field is
+ * not part of (the same checks as schema validation)
+ * Conditions on fields that no longer exist are left to deleteField
+ */
+function removeMisplacedConditions(fields: Field[]): Field[] {
+    const placements = collectPlacements(fields);
+
+    const isReachable = (ownerId: string, targetId: string): boolean => {
+        const owner = placements.get(ownerId);
+        const target = placements.get(targetId);
+        if (!owner || !target) {
+            return true;
+        }
+        if (targetId === ownerId || target.ancestors.includes(ownerId)) {
+            return false;
+        }
+        return target.repeating.every((groupId) => groupId === ownerId || owner.ancestors.includes(groupId));
+    };
+
+    return recursiveMap(fields, (field) => {
+        const rule = field.visibleWhen;
+        if (!rule || rule.conditions.every((c) => isReachable(field.id, c.fieldId))) {
+            return field;
+        }
+
+        const conditions = rule.conditions.filter((c) => isReachable(field.id, c.fieldId));
+        return {
+            ...field,
+            visibleWhen: conditions.length > 0 ? { ...rule, conditions } : undefined,
+        };
+    });
+}
+
 /**
  * Deletes a field by ID from the tree
+ * Visibility conditions pointing at the deleted subtree are dropped too
  */
 function deleteField(fields: Field[], id: string): Field[] {
-    return recursiveMap(fields, (field) => {
+    const target = findFieldById(fields, id);
+    if (!target) {
+        return fields;
+    }
+
+    const remaining = recursiveMap(fields, (field) => {
         if (field.id === id) {
             return null; // Signal deletion
         }
         return field;
     });
+
+    return removeConditionsOn(remaining, collectSubtreeIds(target));
+}
+
+/**
+ * Removes references to fields that can no longer be rule targets (deleted,
+ * or now inside a repeatable group) from form rules
+ * Comparisons lose their meaning without either side and are dropped;
+ * sums and counts just lose the field (and are dropped once empty; a
+ * count never exceeds the fields left)
+ * Untouched rules keep their references
+ */
+function pruneRules(rules: FormRule[] | undefined, fields: Field[]): FormRule[] | undefined {
+    if (!rules) {
+        return rules;
+    }
+
+    const targetIds = new Set(collectRuleTargets(fields).map((field) => field.id));
+
+    const result = rules.flatMap((rule): FormRule[] => {
+        if (rule.type === 'compare') {
+            return targetIds.has(rule.fieldId) && targetIds.has(rule.otherFieldId) ? [rule] : [];
+        }
+        if (rule.fieldIds.every((id) => targetIds.has(id))) {
+            return [rule];
+        }
+        const fieldIds = rule.fieldIds.filter((id) => targetIds.has(id));
+        if (fieldIds.length === 0) {
+            return [];
+        }
+        return rule.type === 'atLeast'
+            ? [{ ...rule, fieldIds, count: Math.min(rule.count, fieldIds.length) }]
+            : [{ ...rule, fieldIds }];
+    });
+
+    if (result.length === rules.length && result.every((rule, i) => rule === rules[i])) {
+        return rules;
+    }
+    return result.length > 0 ? result : undefined;
+}
+
+/**
+ * Applies a change to the field tree and prunes the form rules it broke
+ */
+function withFields(state: FormSchema, fields: Field[]): FormSchema {
+    if (fields === state.fields) {
+        return state;
+    }
+    const rules = pruneRules(state.rules, fields);
+    return rules === state.rules ? { ...state, fields } : { ...state, fields, rules };
 }
 
 /**
@@ -212,6 +464,94 @@ function moveField(
     });
 }
 
+/**
+ * Moves a field to any parent (null = root level) and position
+ *
+ * `index` is the position among the target parent's CURRENT children,
+ * i.e. the field is inserted before the child now at that index (clamped).
+ * Moving a group into itself or its own subtree is rejected, as is a
+ * target that is not a group; in both cases the tree is returned unchanged.
+ * In a new parent the field's name is de-duplicated among its new siblings,
+ * and visibility conditions the move breaks are dropped.
+ * Formulas are not checked here (see moveFieldTo).
+ */
+function placeField(
+    fields: Field[],
+    id: string,
+    parentId: string | null,
+    index: number
+): Field[] {
+    const field = findFieldById(fields, id);
+    const currentParentId = findParentId(fields, id);
+    if (!field || currentParentId === undefined) {
+        return fields;
+    }
+
+    // Guard: the target parent must be a group outside the moved subtree
+    if (parentId !== null) {
+        const target = findFieldById(fields, parentId);
+        if (!target || !isGroupField(target) || isSelfOrDescendant(field, parentId)) {
+            return fields;
+        }
+    }
+
+    let insertAt = Math.max(0, index);
+
+    const context = findFieldContext(fields, id);
+    if (context && currentParentId === parentId) {
+        // Removing the field first shifts later positions down by one
+        if (context.index < insertAt) {
+            insertAt -= 1;
+        }
+        if (context.index === Math.min(insertAt, context.parent.length - 1)) {
+            return fields; // Dropped onto its own position
+        }
+    }
+
+    const withoutField = updateChildrenOf(fields, currentParentId, (children) =>
+        children.filter((child) => child.id !== id)
+    );
+
+    const moved = updateChildrenOf(withoutField, parentId, (children) => {
+        const position = Math.min(insertAt, children.length);
+        const taken = new Set(children.map((child) => child.name));
+        const name = uniqueName(field.name, taken);
+        const placed = name === field.name ? field : { ...field, name };
+        return [...children.slice(0, position), placed, ...children.slice(position)];
+    });
+
+    return currentParentId === parentId ? moved : removeMisplacedConditions(moved);
+}
+
+/**
+ * Checks a move (same arguments as MOVE_FIELD_TO) against the formulas of
+ * computed fields: they resolve names by position and are not rewritten
+ * Returns the formula the move would break, or null if it can be made
+ */
+export function getFieldMoveError(
+    fields: Field[],
+    id: string,
+    parentId: string | null,
+    index: number
+): string | null {
+    const moved = placeField(fields, id, parentId, index);
+    return moved === fields ? null : getMoveFormulaError(fields, moved);
+}
+
+/**
+ * Moves a field like placeField, but refuses (returns the tree unchanged)
+ * a move that would break a formula (getFieldMoveError)
+ */
+function moveFieldTo(
+    fields: Field[],
+    id: string,
+    parentId: string | null,
+    index: number
+): Field[] {
+    const moved = placeField(fields, id, parentId, index);
+    return moved === fields || getMoveFormulaError(fields, moved) ? fields : moved;
+}
+
 /**
  * Main reducer function for the Builder Domain
  * Uses recursive approach - NO dot notation paths
@@ -228,21 +568,74 @@ export function builderReducer(
             };
 
         case 'UPDATE_FIELD':
+            // Making a group repeatable takes its fields out of the rules
+            return withFields(state, renameField(state.fields, action.payload.id, action.payload.updates));
+
+        case 'DELETE_FIELD':
+            return withFields(state, deleteField(state.fields, action.payload.id));
+
+        case 'MOVE_FIELD':
             return {
                 ...state,
-                fields: updateField(state.fields, action.payload.id, action.payload.updates),
+                fields: moveField(state.fields, action.payload.id, action.payload.direction),
             };
 
-        case 'DELETE_FIELD':
+        case 'MOVE_FIELD_TO':
+            // Moving a field into a repeatable group takes it out of the rules
+            return withFields(
+                state,
+                moveFieldTo(state.fields, action.payload.id, action.payload.parentId, action.payload.index)
+            );
+
+        case 'ADD_RULE':
             return {
                 ...state,
-                fields: deleteField(state.fields, action.payload.id),
+                rules: [...(state.rules ?? []), action.payload.rule],
             };
 
-        case 'MOVE_FIELD':
+        case 'UPDATE_RULE':
             return {
                 ...state,
-                fields: moveField(state.fields, action.payload.id, action.payload.direction),
+                rules: state.rules?.map((rule) =>
+                    rule.id === action.payload.id ? ({ ...rule, ...action.payload.updates } as FormRule) : rule
+                ),
+            };
+
+        case 'DELETE_RULE': {
+            const rules = state.rules?.filter((rule) => rule.id !== action.payload.id);
+            return {
+                ...state,
+                rules: rules && rules.length > 0 ? rules : undefined,
+            };
+        }
+
+        case 'SET_SUBMISSION':
+            return {
+                ...state,
+                submission: action.payload.target,
+            };
+
+        case 'SET_LAYOUT':
+            return {
+                ...state,
+                // 'single' is the default and is left out of the schema
+                layout: action.payload.layout === 'single' ? undefined : action.payload.layout,
+            };
+
+        case 'SET_LOCALIZATION': {
+            const { localization } = action.payload;
+            // Translations of removed locales go with them
+            const pruned = pruneTranslations(state, localization?.locales ?? []);
+            return {
+                ...pruned,
+                localization,
+            };
+        }
+
+        case 'SET_THEME':
+            return {
+                ...state,
+                theme: action.payload.theme,
             };
 
         case 'SET_SCHEMA':
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION } from '../types/schema';
+import { migrateSchema } from './schemaMigrations';
+
+/**
+ * Migrates a document that must migrate, returning the result
+ */
+function migrate(input: unknown) {
+    const result = migrateSchema(input);
+    if (!result.success) {
+        throw new Error(`Expected the migration to succeed: ${result.message}`);
+    }
+    return result;
+}
+
+describe('migrateSchema', () => {
+    it('leaves current documents as they are', () => {
+        const document = { version: CURRENT_SCHEMA_VERSION, fields: [{ id: 'a', name: 'custom', label: 'A' }] };
+        const result = migrate(document);
+        expect(result.fromVersion).toBe(CURRENT_SCHEMA_VERSION);
+        expect(result.document).toEqual(document);
+    });
+
+    it('reads documents without a version marker as version 0', () => {
+        const result = migrate({ fields: [{ id: 'a', type: 'text', label: 'First Name' }] });
+        expect(result.fromVersion).toBe(0);
+        expect(result.document.version).toBe(CURRENT_SCHEMA_VERSION);
+        expect(result.document.fields).toEqual([{ id: 'a', type: 'text', label: 'First Name', name: 'first_name' }]);
+    });
+
+    it('names fields from their labels, de-duplicated among siblings', () => {
+        const result = migrate({
+            version: 1,
+            fields: [
+                { id: 'a', type: 'text', label: 'Email' },
+                { id: 'b', type: 'text', label: 'Email' },
+                {
+                    id: 'g',
+                    type: 'group',
+                    label: 'Contact',
+                    children: [{ id: 'c', type: 'text', label: 'Email' }],
+                },
+            ],
+        });
+        const fields = result.document.fields as { name: string; children?: { name: string }[] }[];
+        expect(fields.map((field) => field.name)).toEqual(['email', 'email_2', 'contact']);
+        // Names only have to be unique among siblings
+        expect(fields[2].children?.[0].name).toBe('email');
+    });
+
+    it('keeps given names and avoids them, wherever they are among the siblings', () => {
+        const result = migrate({
+            version: 1,
+            fields: [
+                { id: 'a', type: 'text', label: 'Hello' },
+                { id: 'b', type: 'text', label: 'Other', name: 'hello' },
+            ],
+        });
+        const names = (result.document.fields as { name: string }[]).map((field) => field.name);
+        expect(names[1]).toBe('hello');
+        expect(names[0]).not.toBe('hello');
+        expect(new Set(names).size).toBe(2);
+    });
+
+    it('falls back to the field type for labels without usable characters', () => {
+        const result = migrate({ version: 1, fields: [{ id: 'a', type: 'number', label: '???' }] });
+        expect((result.document.fields as { name: string }[])[0].name).toBe('number');
+    });
+
+    it('never mutates its input', () => {
+        const document = { version: 1, fields: [{ id: 'a', type: 'text', label: 'A' }] };
+        const copy = structuredClone(document);
+        migrate(document);
+        expect(document).toEqual(copy);
+    });
+
+    it('leaves malformed entries for the validator', () => {
+        const result = migrate({ version: 1, fields: ['not a field', null] });
+        expect(result.document.fields).toEqual(['not a field', null]);
+        expect(migrate('not a document').document).toBe('not a document');
+    });
+
+    it('refuses invalid version markers', () => {
+        for (const version of [-1, 1.5, '2', null]) {
+            expect(migrateSchema({ version, fields: [] }).success).toBe(false);
+        }
+    });
+
+    it('refuses documents from a newer version', () => {
+        const result = migrateSchema({ version: CURRENT_SCHEMA_VERSION + 1, fields: [] });
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(result.message).toContain('newer version');
+        }
+    });
+});
@@ -0,0 +1,152 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - SCHEMA MIGRATIONS
+ * =============================================================================
+ * Upgrades previously exported schema documents to the current format.
+ * Runs on raw parsed JSON BEFORE structural validation.
+ *
+ * HARD CONSTRAINTS:
+ * - One migration per version step (N -> N + 1), applied in order
+ * - Migrations never mutate their input
+ * - Documents without a version marker are version 0 (pre-versioning exports)
+ * - Documents from a NEWER version are refused, never guessed at
+ * =============================================================================
+ */
+
+import { CURRENT_SCHEMA_VERSION } from '../types/schema';
+import { slugifyName, uniqueName } from './fieldNames';
+
+/**
+ * Raw schema document as parsed from JSON
+ */
+type SchemaDocument = Record<string, unknown>;
+
+/**
+ * A single upgrade step from one version to the next
+ */
+interface SchemaMigration {
+    /** Version this migration upgrades from (result is from + 1) */
+    from: number;
+    /** Short description of what changed */
+    description: string;
+    /** Pure transformation of the document (the version marker is set by the pipeline) */
+    migrate: (document: SchemaDocument) => SchemaDocument;
+}
+
+/**
+ * Result of migrating a schema document
+ */
+export type MigrationResult =
+    | { success: true; document: SchemaDocument; fromVersion: number }
+    | { success: false; message: string };
+
+/**
+ * v1 -> v2: gives every field without a name a machine name derived from
+ * its label, de-duplicated among siblings (including names given later in
+ * the list). Malformed entries are left for the validator.
+ */
+function addFieldNames(fields: unknown): unknown {
+    if (!Array.isArray(fields)) {
+        return fields;
+    }
+
+    // Names already given are kept, so generated ones must avoid them all
+    const taken = new Set<string>(
+        fields.flatMap((item: unknown) => {
+            const name = typeof item === 'object' && item !== null ? (item as Record<string, unknown>).name : undefined;
+            return typeof name === 'string' ? [name] : [];
+        })
+    );
+    return fields.map((item: unknown) => {
+        if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+            return item;
+        }
+
+        const field = item as Record<string, unknown>;
+        const fallback = typeof field.type === 'string' ? field.type : 'field';
+        const base = slugifyName(typeof field.label === 'string' ? field.label : '', fallback);
+        const name = typeof field.name === 'string' ? field.name : uniqueName(base, taken);
+        taken.add(name);
+
+        const migrated: Record<string, unknown> = { ...field, name };
+        if ('children' in field) {
+            migrated.children = addFieldNames(field.children);
+        }
+        return migrated;
+    });
+}
+
+/**
+ * Registered migrations, one per version step
+ */
+const MIGRATIONS: SchemaMigration[] = [
+    {
+        from: 0,
+        description: 'Introduce the version marker (no structural changes)',
+        migrate: (document) => document,
+    },
+    {
+        from: 1,
+        description: 'Add machine names to fields for nested submission output',
+        migrate: (document) => ({ ...document, fields: addFieldNames(document.fields) }),
+    },
+];
+
+/**
+ * Reads the version marker of a raw document
+ * Returns null if the marker is present but not a valid version
+ */
+function readVersion(document: SchemaDocument): number | null {
+    if (!('version' in document)) {
+        return 0;
+    }
+
+    const { version } = document;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+        return null;
+    }
+
+    return version;
+}
+
+/**
+ * Upgrades a raw schema document step by step to CURRENT_SCHEMA_VERSION
+ * Non-object input is passed through untouched for the validator to report
+ */
+export function migrateSchema(input: unknown): MigrationResult {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        return { success: true, document: input as SchemaDocument, fromVersion: CURRENT_SCHEMA_VERSION };
+    }
+
+    let document = input as SchemaDocument;
+    const fromVersion = readVersion(document);
+
+    if (fromVersion === null) {
+        return {
+            success: false,
+            message: `Invalid schema version ${JSON.stringify(document.version)}; expected a non-negative integer`,
+        };
+    }
+
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+        return {
+            success: false,
+            message:
+                `This schema was exported by a newer version of the builder (format v${fromVersion}). ` +
+                `This builder supports up to v${CURRENT_SCHEMA_VERSION}; please update it to import this form.`,
+        };
+    }
+
+    for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+        const migration = MIGRATIONS.find((m) => m.from === version);
+        if (!migration) {
+            return {
+                success: false,
+                message: `No migration registered from schema v${version} to v${version + 1}`,
+            };
+        }
+        document = { ...migration.migrate(document), version: version + 1 };
+    }
+
+    return { success: true, document, fromVersion };
+}
@@ -0,0 +1,1140 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - SCHEMA VALIDATION
+ * =============================================================================
+ * Structural validator for untrusted FormSchema documents (e.g. pasted JSON).
+ * Runs BEFORE anything reaches the builder reducer, and AFTER
+ * utils/schemaMigrations.ts has upgraded the document to the current version.
+ *
+ * HARD CONSTRAINTS:
+ * - Must mirror types/schema.ts (Single Source of Truth)
+ * - Reports EVERY problem, not just the first one
+ * - Every issue carries the path to the offending value,
+ *   e.g. "fields[2].children[0].min"
+ * - NO external validation libraries
+ * =============================================================================
+ */
+
+import type {
+    ConditionOperator,
+    Field,
+    DateOffsetUnit,
+    FieldType,
+    FormRule,
+    FormSchema,
+    RuleOperator,
+    SubmissionMethod,
+    TextFormat,
+} from '../types/schema';
+import { CURRENT_SCHEMA_VERSION } from '../types/schema';
+import { FIELD_NAME_PATTERN } from './fieldNames';
+import { TEXT_FORMATS, getPatternError } from './textFormats';
+import { MAX_RETRIES, SUBMISSION_METHODS, getHeaderNameError, getSubmissionUrlError } from './submissionTransport';
+import { RULE_OPERATORS } from './formRules';
+import { parseExpression } from './expressions';
+import { analyzeComputedFields } from './computedFields';
+import { DATE_OFFSET_UNITS, compareTemporalValues, normalizeTemporalValue, type TemporalType } from './dateBounds';
+import { getLocaleError } from './localization';
+import { MESSAGE_IDS, getMessageTemplateError, type MessageId } from './messages';
+import { COLOR_SCHEMES, THEME_COLORS, THEME_RADIUS, THEME_SPACING, getFontError, isThemeColor } from './formTheme';
+
+/**
+ * A single problem found in a schema document
+ */
+export interface SchemaIssue {
+    /** Path to the offending value (empty string = document root) */
+    path: string;
+    /** Human readable description of the problem */
+    message: string;
+}
+
+/**
+ * Result of validating a schema document
+ */
+export type SchemaValidationResult =
+    | { valid: true; schema: FormSchema }
+    | { valid: false; issues: SchemaIssue[] };
+
+/**
+ * Field types accepted in a schema document
+ */
+const FIELD_TYPES: readonly FieldType[] = [
+    'text',
+    'number',
+    'group',
+    'select',
+    'radio',
+    'checkbox',
+    'multiselect',
+    'date',
+    'time',
+    'datetime',
+    'computed',
+];
+
+/**
+ * Properties shared by every field type
+ */
+const BASE_KEYS = ['id', 'type', 'label', 'name', 'required', 'visibleWhen', 'translations'];
+
+/**
+ * Operators accepted in visibility conditions
+ */
+const CONDITION_OPERATORS: readonly ConditionOperator[] = ['equals', 'notEquals', 'greaterThan', 'isEmpty'];
+
+/**
+ * Allowed properties per field type
+ */
+const ALLOWED_KEYS: Record<FieldType, ReadonlySet<string>> = {
+    text: new Set([
+        ...BASE_KEYS,
+        'placeholder',
+        'minLength',
+        'maxLength',
+        'format',
+        'pattern',
+        'patternMessage',
+        'asyncValidator',
+    ]),
+    number: new Set([...BASE_KEYS, 'placeholder', 'min', 'max', 'asyncValidator']),
+    group: new Set([...BASE_KEYS, 'children', 'repeatable', 'minInstances', 'maxInstances']),
+    select: new Set([...BASE_KEYS, 'options', 'defaultValue', 'placeholder']),
+    radio: new Set([...BASE_KEYS, 'options', 'defaultValue']),
+    checkbox: new Set([...BASE_KEYS, 'defaultValue']),
+    multiselect: new Set([...BASE_KEYS, 'options', 'defaultValue']),
+    date: new Set([...BASE_KEYS, 'min', 'max']),
+    time: new Set([...BASE_KEYS, 'min', 'max']),
+    datetime: new Set([...BASE_KEYS, 'min', 'max']),
+    computed: new Set([...BASE_KEYS, 'expression', 'decimals']),
+};
+
+/**
+ * Allowed properties on the schema root
+ */
+const ROOT_KEYS: ReadonlySet<string> = new Set([
+    'version',
+    'fields',
+    'rules',
+    'submission',
+    'layout',
+    'localization',
+    'theme',
+]);
+
+/**
+ * Allowed properties of the submission target
+ */
+const SUBMISSION_KEYS: ReadonlySet<string> = new Set(['url', 'method', 'headers', 'shape', 'retries']);
+
+/**
+ * Allowed properties per form rule type
+ */
+const RULE_KEYS: Record<FormRule['type'], ReadonlySet<string>> = {
+    compare: new Set(['id', 'type', 'message', 'translations', 'fieldId', 'operator', 'otherFieldId']),
+    sum: new Set(['id', 'type', 'message', 'translations', 'fieldIds', 'operator', 'value']),
+    atLeast: new Set(['id', 'type', 'message', 'translations', 'fieldIds', 'count']),
+};
+
+/**
+ * Allowed properties of the localization settings
+ */
+const LOCALIZATION_KEYS: ReadonlySet<string> = new Set(['defaultLocale', 'locales', 'messages']);
+
+/**
+ * Allowed properties of the theme
+ */
+const THEME_KEYS: ReadonlySet<string> = new Set(['colors', 'darkColors', 'radius', 'spacing', 'font', 'colorScheme']);
+
+/**
+ * Allowed properties of a field translation
+ */
+const TRANSLATION_KEYS: ReadonlySet<string> = new Set(['label', 'placeholder', 'patternMessage', 'options']);
+
+/**
+ * Checks that a value is a plain (non-array) object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Describes a value's type for error messages
+ */
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+/**
+ * Joins a parent path and a property name
+ */
+function joinPath(parent: string, key: string): string {
+    return parent === '' ? key : `${parent}.${key}`;
+}
+
+/**
+ * State collected while walking the document
+ */
+interface ValidationContext {
+    /** Issues found so far */
+    issues: SchemaIssue[];
+    /** Field IDs seen so far, mapped to the path and type of their first use */
+    seenIds: Map<string, { path: string; type: unknown }>;
+    /** Condition references, resolved once every field ID is known */
+    conditionRefs: { path: string; ownerPath: string; fieldId: string }[];
+    /** Paths of repeatable groups */
+    repeatablePaths: string[];
+    /** Additional locales of the form, which translations may use */
+    locales: ReadonlySet<string>;
+}
+
+/**
+ * Records an issue
+ */
+function addIssue(ctx: ValidationContext, path: string, message: string): void {
+    ctx.issues.push({ path, message });
+}
+
+/**
+ * Validates an optional property against a primitive type
+ */
+function checkOptional(
+    field: Record<string, unknown>,
+    key: string,
+    expected: 'string' | 'number',
+    path: string,
+    ctx: ValidationContext
+): void {
+    const value = field[key];
+    if (value === undefined) {
+        return;
+    }
+
+    if (expected === 'number') {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            addIssue(ctx, joinPath(path, key), `Expected a finite number, got ${describe(value)}`);
+        }
+        return;
+    }
+
+    if (typeof value !== expected) {
+        addIssue(ctx, joinPath(path, key), `Expected ${expected}, got ${describe(value)}`);
+    }
+}
+
+/**
+ * Checks an optional count (instance count, text length)
+ */
+function checkCount(field: Record<string, unknown>, key: string, path: string, ctx: ValidationContext): void {
+    const value = field[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 0)) {
+        addIssue(ctx, joinPath(path, key), `Expected a non-negative integer, got ${describe(value)}`);
+    }
+}
+
+/**
+ * Validates the options list of a choice field
+ * Returns the option values found, for checking defaults against
+ */
+function validateOptions(value: unknown, path: string, ctx: ValidationContext): Set<string> {
+    const values = new Set<string>();
+
+    if (!Array.isArray(value)) {
+        addIssue(ctx, path, `Expected an array of options, got ${describe(value)}`);
+        return values;
+    }
+
+    value.forEach((option, index) => {
+        const optionPath = `${path}[${index}]`;
+        if (!isPlainObject(option)) {
+            addIssue(ctx, optionPath, `Expected an option object, got ${describe(option)}`);
+            return;
+        }
+
+        for (const key of Object.keys(option)) {
+            if (key !== 'label' && key !== 'value') {
+                addIssue(ctx, joinPath(optionPath, key), 'Unknown property for an option');
+            }
+        }
+        if (typeof option.label !== 'string') {
+            addIssue(ctx, joinPath(optionPath, 'label'), `Expected string, got ${describe(option.label)}`);
+        }
+        if (typeof option.value !== 'string' || option.value === '') {
+            addIssue(ctx, joinPath(optionPath, 'value'), 'Option value must be a non-empty string');
+        } else if (values.has(option.value)) {
+            addIssue(ctx, joinPath(optionPath, 'value'), `Duplicate option value "${option.value}"`);
+        } else {
+            values.add(option.value);
+        }
+    });
+
+    return values;
+}
+
+/**
+ * Checks that a default refers to an existing option
+ */
+function checkDefaultOption(value: unknown, options: Set<string>, path: string, ctx: ValidationContext): void {
+    if (typeof value !== 'string') {
+        addIssue(ctx, path, `Expected string, got ${describe(value)}`);
+    } else if (!options.has(value)) {
+        addIssue(ctx, path, `Default "${value}" is not one of the option values`);
+    }
+}
+
+/**
+ * Validates an optional date/time bound
+ * Returns true when the bound is a valid absolute value (comparable with
+ * the other bound)
+ */
+function checkDateBound(
+    field: Record<string, unknown>,
+    key: string,
+    type: TemporalType,
+    path: string,
+    ctx: ValidationContext
+): boolean {
+    const bound = field[key];
+    const boundPath = joinPath(path, key);
+    if (bound === undefined) {
+        return false;
+    }
+    if (!isPlainObject(bound)) {
+        addIssue(ctx, boundPath, `Expected a date bound object, got ${describe(bound)}`);
+        return false;
+    }
+
+    if (bound.kind === 'absolute') {
+        if (typeof bound.value !== 'string' || normalizeTemporalValue(type, bound.value) === null) {
+            addIssue(ctx, joinPath(boundPath, 'value'), `Expected a valid ${type} value, got ${describe(bound.value)}`);
+            return false;
+        }
+        return true;
+    }
+
+    if (bound.kind === 'relative') {
+        if (type === 'time') {
+            addIssue(ctx, joinPath(boundPath, 'kind'), 'Time fields only support absolute bounds');
+        }
+        if (typeof bound.amount !== 'number' || !Number.isInteger(bound.amount)) {
+            addIssue(ctx, joinPath(boundPath, 'amount'), `Expected an integer, got ${describe(bound.amount)}`);
+        }
+        if (!DATE_OFFSET_UNITS.includes(bound.unit as DateOffsetUnit)) {
+            addIssue(
+                ctx,
+                joinPath(boundPath, 'unit'),
+                `Unknown unit ${JSON.stringify(bound.unit)}; expected one of ${DATE_OFFSET_UNITS.join(', ')}`
+            );
+        }
+        return false;
+    }
+
+    addIssue(ctx, joinPath(boundPath, 'kind'), `Expected "absolute" or "relative", got ${JSON.stringify(bound.kind)}`);
+    return false;
+}
+
+/**
+ * Checks whether a path lies inside the subtree rooted at another path
+ */
+function isWithin(path: string, rootPath: string): boolean {
+    return path === rootPath || path.startsWith(`${rootPath}.`);
+}
+
+/**
+ * Validates a visibility rule's shape
+ * Field references are only recorded here and resolved after the walk
+ */
+function validateVisibilityRule(value: unknown, path: string, ownerPath: string, ctx: ValidationContext): void {
+    if (!isPlainObject(value)) {
+        addIssue(ctx, path, `Expected a visibility rule object, got ${describe(value)}`);
+        return;
+    }
+
+    if (value.combinator !== 'and' && value.combinator !== 'or') {
+        addIssue(ctx, joinPath(path, 'combinator'), `Expected "and" or "or", got ${JSON.stringify(value.combinator)}`);
+    }
+
+    if (!Array.isArray(value.conditions)) {
+        addIssue(ctx, joinPath(path, 'conditions'), `Expected an array of conditions, got ${describe(value.conditions)}`);
+        return;
+    }
+
+    value.conditions.forEach((condition, index) => {
+        const conditionPath = `${joinPath(path, 'conditions')}[${index}]`;
+        if (!isPlainObject(condition)) {
+            addIssue(ctx, conditionPath, `Expected a condition object, got ${describe(condition)}`);
+            return;
+        }
+
+        if (typeof condition.fieldId !== 'string') {
+            addIssue(ctx, joinPath(conditionPath, 'fieldId'), `Expected string, got ${describe(condition.fieldId)}`);
+        } else {
+            ctx.conditionRefs.push({ path: joinPath(conditionPath, 'fieldId'), ownerPath, fieldId: condition.fieldId });
+        }
+
+        if (!CONDITION_OPERATORS.includes(condition.operator as ConditionOperator)) {
+            addIssue(
+                ctx,
+                joinPath(conditionPath, 'operator'),
+                `Unknown operator ${JSON.stringify(condition.operator)}; expected one of ${CONDITION_OPERATORS.join(', ')}`
+            );
+        }
+
+        const operand = condition.value;
+        if (operand !== undefined && typeof operand !== 'string' && typeof operand !== 'number') {
+            addIssue(ctx, joinPath(conditionPath, 'value'), `Expected string or number, got ${describe(operand)}`);
+        }
+    });
+}
+
+/**
+ * Resolves recorded condition references against the collected field IDs
+ * A condition must point at an existing non-group field outside its own
+ * subtree, and may only reach into a repeatable group from inside it
+ */
+function resolveConditionRefs(ctx: ValidationContext): void {
+    for (const ref of ctx.conditionRefs) {
+        const target = ctx.seenIds.get(ref.fieldId);
+        if (target === undefined) {
+            addIssue(ctx, ref.path, `Condition refers to unknown field "${ref.fieldId}"`);
+        } else if (target.type === 'group') {
+            addIssue(ctx, ref.path, `Condition refers to group "${ref.fieldId}"; only input fields have values`);
+        } else if (isWithin(target.path, ref.ownerPath)) {
+            addIssue(ctx, ref.path, `Condition refers to "${ref.fieldId}", which is inside the field it controls`);
+        } else if (
+            ctx.repeatablePaths.some((groupPath) => isWithin(target.path, groupPath) && !isWithin(ref.ownerPath, groupPath))
+        ) {
+            addIssue(ctx, ref.path, `Condition refers to "${ref.fieldId}", which repeats in a group the field is not part of`);
+        }
+    }
+}
+
+/**
+ * Recursively validates an array of fields
+ */
+function validateFields(value: unknown, path: string, ctx: ValidationContext): void {
+    if (!Array.isArray(value)) {
+        addIssue(ctx, path, `Expected an array of fields, got ${describe(value)}`);
+        return;
+    }
+
+    // Machine names must be unique among siblings
+    const namePaths = new Map<string, string>();
+
+    value.forEach((item, index) => {
+        const itemPath = `${path}[${index}]`;
+        validateField(item, itemPath, ctx);
+
+        if (isPlainObject(item) && typeof item.name === 'string') {
+            const firstPath = namePaths.get(item.name);
+            if (firstPath !== undefined) {
+                addIssue(ctx, joinPath(itemPath, 'name'), `Duplicate name "${item.name}" among siblings (first used at ${firstPath})`);
+            } else {
+                namePaths.set(item.name, itemPath);
+            }
+        }
+    });
+}
+
+/**
+ * Calls `check` for every entry of a per-locale object whose locale is one
+ * of the form's additional locales
+ */
+function forEachLocale(
+    value: unknown,
+    path: string,
+    ctx: ValidationContext,
+    check: (entry: unknown, locale: string) => void
+): void {
+    if (!isPlainObject(value)) {
+        addIssue(ctx, path, `Expected an object of translations by locale, got ${describe(value)}`);
+        return;
+    }
+    for (const [locale, entry] of Object.entries(value)) {
+        if (!ctx.locales.has(locale)) {
+            addIssue(ctx, joinPath(path, locale), `"${locale}" is not one of the form's additional locales`);
+        } else {
+            check(entry, locale);
+        }
+    }
+}
+
+/**
+ * Validates the translations of a field
+ */
+function validateFieldTranslations(value: unknown, path: string, ctx: ValidationContext): void {
+    forEachLocale(value, path, ctx, (translation, locale) => {
+        const translationPath = joinPath(path, locale);
+        if (!isPlainObject(translation)) {
+            addIssue(ctx, translationPath, `Expected a translation object, got ${describe(translation)}`);
+            return;
+        }
+        for (const key of Object.keys(translation)) {
+            if (!TRANSLATION_KEYS.has(key)) {
+                addIssue(ctx, joinPath(translationPath, key), 'Unknown property of a translation');
+            }
+        }
+        checkOptional(translation, 'label', 'string', translationPath, ctx);
+        checkOptional(translation, 'placeholder', 'string', translationPath, ctx);
+        checkOptional(translation, 'patternMessage', 'string', translationPath, ctx);
+
+        const { options } = translation;
+        if (options === undefined) {
+            return;
+        }
+        const optionsPath = joinPath(translationPath, 'options');
+        if (!isPlainObject(options)) {
+            addIssue(ctx, optionsPath, `Expected an object of option labels by value, got ${describe(options)}`);
+            return;
+        }
+        for (const [optionValue, label] of Object.entries(options)) {
+            if (typeof label !== 'string') {
+                addIssue(ctx, joinPath(optionsPath, optionValue), `Expected string, got ${describe(label)}`);
+            }
+        }
+    });
+}
+
+/**
+ * Validates a single field and, for groups, its children
+ */
+function validateField(value: unknown, path: string, ctx: ValidationContext): void {
+    if (!isPlainObject(value)) {
+        addIssue(ctx, path, `Expected a field object, got ${describe(value)}`);
+        return;
+    }
+
+    // 1. Identity
+    const { id } = value;
+    if (typeof id !== 'string' || id.trim() === '') {
+        addIssue(ctx, joinPath(path, 'id'), 'Field id must be a non-empty string');
+    } else {
+        const first = ctx.seenIds.get(id);
+        if (first !== undefined) {
+            addIssue(ctx, joinPath(path, 'id'), `Duplicate field id "${id}" (first used at ${first.path})`);
+        } else {
+            ctx.seenIds.set(id, { path, type: value.type });
+        }
+    }
+
+    // 2. Shared properties
+    if (typeof value.label !== 'string') {
+        addIssue(ctx, joinPath(path, 'label'), `Expected string, got ${describe(value.label)}`);
+    }
+    if (typeof value.name !== 'string') {
+        addIssue(ctx, joinPath(path, 'name'), `Expected string, got ${describe(value.name)}`);
+    } else if (!FIELD_NAME_PATTERN.test(value.name)) {
+        addIssue(
+            ctx,
+            joinPath(path, 'name'),
+            `Invalid name "${value.name}"; use letters, digits and underscores, not starting with a digit`
+        );
+    }
+    if (typeof value.required !== 'boolean') {
+        addIssue(ctx, joinPath(path, 'required'), `Expected boolean, got ${describe(value.required)}`);
+    }
+    if (value.visibleWhen !== undefined) {
+        validateVisibilityRule(value.visibleWhen, joinPath(path, 'visibleWhen'), path, ctx);
+    }
+    if (value.translations !== undefined) {
+        validateFieldTranslations(value.translations, joinPath(path, 'translations'), ctx);
+    }
+
+    // 3. Type-specific properties
+    const type = value.type;
+    if (typeof type !== 'string' || !FIELD_TYPES.includes(type as FieldType)) {
+        addIssue(
+            ctx,
+            joinPath(path, 'type'),
+            `Unknown field type ${JSON.stringify(type)}; expected one of ${FIELD_TYPES.join(', ')}`
+        );
+        return;
+    }
+
+    const fieldType = type as FieldType;
+    for (const key of Object.keys(value)) {
+        if (!ALLOWED_KEYS[fieldType].has(key)) {
+            addIssue(ctx, joinPath(path, key), `Unknown property for a ${fieldType} field`);
+        }
+    }
+
+    switch (fieldType) {
+        case 'text': {
+            checkOptional(value, 'placeholder', 'string', path, ctx);
+            checkOptional(value, 'patternMessage', 'string', path, ctx);
+            // Validator names are resolved by the host app at runtime
+            checkOptional(value, 'asyncValidator', 'string', path, ctx);
+            checkCount(value, 'minLength', path, ctx);
+            checkCount(value, 'maxLength', path, ctx);
+
+            const { minLength, maxLength } = value;
+            if (typeof minLength === 'number' && typeof maxLength === 'number' && minLength > maxLength) {
+                addIssue(ctx, joinPath(path, 'minLength'), `minLength (${minLength}) must not be greater than maxLength (${maxLength})`);
+            }
+
+            const formats = Object.keys(TEXT_FORMATS) as TextFormat[];
+            if (value.format !== undefined && !formats.includes(value.format as TextFormat)) {
+                addIssue(
+                    ctx,
+                    joinPath(path, 'format'),
+                    `Unknown format ${JSON.stringify(value.format)}; expected one of ${formats.join(', ')}`
+                );
+            }
+
+            if (value.pattern !== undefined) {
+                if (typeof value.pattern !== 'string') {
+                    addIssue(ctx, joinPath(path, 'pattern'), `Expected string, got ${describe(value.pattern)}`);
+                } else {
+                    const patternError = getPatternError(value.pattern);
+                    if (patternError) {
+                        addIssue(ctx, joinPath(path, 'pattern'), patternError);
+                    }
+                }
+            }
+            break;
+        }
+
+        case 'number': {
+            checkOptional(value, 'placeholder', 'string', path, ctx);
+            checkOptional(value, 'min', 'number', path, ctx);
+            checkOptional(value, 'max', 'number', path, ctx);
+            checkOptional(value, 'asyncValidator', 'string', path, ctx);
+
+            const { min, max } = value;
+            if (typeof min === 'number' && typeof max === 'number' && min > max) {
+                addIssue(ctx, joinPath(path, 'min'), `min (${min}) must not be greater than max (${max})`);
+            }
+            break;
+        }
+
+        case 'select':
+        case 'radio':
+        case 'multiselect': {
+            if (fieldType === 'select') {
+                checkOptional(value, 'placeholder', 'string', path, ctx);
+            }
+
+            const options = validateOptions(value.options, joinPath(path, 'options'), ctx);
+            const defaultPath = joinPath(path, 'defaultValue');
+            if (value.defaultValue === undefined) {
+                break;
+            }
+            if (fieldType !== 'multiselect') {
+                checkDefaultOption(value.defaultValue, options, defaultPath, ctx);
+            } else if (!Array.isArray(value.defaultValue)) {
+                addIssue(ctx, defaultPath, `Expected an array of option values, got ${describe(value.defaultValue)}`);
+            } else {
+                value.defaultValue.forEach((choice, index) => {
+                    checkDefaultOption(choice, options, `${defaultPath}[${index}]`, ctx);
+                });
+            }
+            break;
+        }
+
+        case 'date':
+        case 'time':
+        case 'datetime': {
+            const hasMin = checkDateBound(value, 'min', fieldType, path, ctx);
+            const hasMax = checkDateBound(value, 'max', fieldType, path, ctx);
+            if (hasMin && hasMax) {
+                const min = (value.min as { value: string }).value;
+                const max = (value.max as { value: string }).value;
+                if (compareTemporalValues(fieldType, min, max) > 0) {
+                    addIssue(ctx, joinPath(path, 'min'), `min (${min}) must not be after max (${max})`);
+                }
+            }
+            break;
+        }
+
+        case 'computed': {
+            checkCount(value, 'decimals', path, ctx);
+            if (typeof value.decimals === 'number' && value.decimals > 10) {
+                addIssue(ctx, joinPath(path, 'decimals'), `decimals (${value.decimals}) must not exceed 10`);
+            }
+
+            // Names are resolved once the whole tree is known (see validateSchema)
+            if (typeof value.expression !== 'string') {
+                addIssue(ctx, joinPath(path, 'expression'), `Expected string, got ${describe(value.expression)}`);
+            } else {
+                const parsed = parseExpression(value.expression);
+                if (!parsed.success) {
+                    addIssue(ctx, joinPath(path, 'expression'), parsed.message);
+                }
+            }
+            break;
+        }
+
+        case 'checkbox':
+            if (value.defaultValue !== undefined && typeof value.defaultValue !== 'boolean') {
+                addIssue(ctx, joinPath(path, 'defaultValue'), `Expected boolean, got ${describe(value.defaultValue)}`);
+            }
+            break;
+
+        case 'group': {
+            if (value.repeatable !== undefined && typeof value.repeatable !== 'boolean') {
+                addIssue(ctx, joinPath(path, 'repeatable'), `Expected boolean, got ${describe(value.repeatable)}`);
+            }
+            if (value.repeatable === true) {
+                ctx.repeatablePaths.push(path);
+            }
+            checkCount(value, 'minInstances', path, ctx);
+            checkCount(value, 'maxInstances', path, ctx);
+
+            const { minInstances, maxInstances } = value;
+            if (typeof minInstances === 'number' && typeof maxInstances === 'number' && minInstances > maxInstances) {
+                addIssue(
+                    ctx,
+                    joinPath(path, 'minInstances'),
+                    `minInstances (${minInstances}) must not be greater than maxInstances (${maxInstances})`
+                );
+            }
+
+            if (value.children === undefined) {
+                addIssue(ctx, joinPath(path, 'children'), 'Group fields must have a children array');
+            } else {
+                validateFields(value.children, joinPath(path, 'children'), ctx);
+            }
+            break;
+        }
+    }
+}
+
+/**
+ * Checks a form rule's reference to a field
+ * Must run after the field walk, once every field ID is known
+ */
+function checkRuleRef(value: unknown, path: string, ctx: ValidationContext): void {
+    if (typeof value !== 'string') {
+        addIssue(ctx, path, `Expected string, got ${describe(value)}`);
+        return;
+    }
+
+    const target = ctx.seenIds.get(value);
+    if (target === undefined) {
+        addIssue(ctx, path, `Rule refers to unknown field "${value}"`);
+    } else if (target.type === 'group') {
+        addIssue(ctx, path, `Rule refers to group "${value}"; only input fields have values`);
+    } else if (ctx.repeatablePaths.some((groupPath) => isWithin(target.path, groupPath))) {
+        addIssue(ctx, path, `Rule refers to "${value}", which repeats in a group`);
+    }
+}
+
+/**
+ * Validates the form-level rules
+ */
+function validateRules(value: unknown, ctx: ValidationContext): void {
+    if (!Array.isArray(value)) {
+        addIssue(ctx, 'rules', `Expected an array of rules, got ${describe(value)}`);
+        return;
+    }
+
+    const seenRuleIds = new Map<string, string>();
+    const operators = RULE_OPERATORS.map((o) => o.value);
+
+    value.forEach((rule, index) => {
+        const path = `rules[${index}]`;
+        if (!isPlainObject(rule)) {
+            addIssue(ctx, path, `Expected a rule object, got ${describe(rule)}`);
+            return;
+        }
+
+        if (typeof rule.id !== 'string' || rule.id === '') {
+            addIssue(ctx, joinPath(path, 'id'), `Expected a non-empty string, got ${describe(rule.id)}`);
+        } else if (seenRuleIds.has(rule.id)) {
+            addIssue(ctx, joinPath(path, 'id'), `Duplicate rule id "${rule.id}" (first used at ${seenRuleIds.get(rule.id)})`);
+        } else {
+            seenRuleIds.set(rule.id, path);
+        }
+
+        const ruleTypes = Object.keys(RULE_KEYS) as FormRule['type'][];
+        if (!ruleTypes.includes(rule.type as FormRule['type'])) {
+            addIssue(
+                ctx,
+                joinPath(path, 'type'),
+                `Unknown rule type ${JSON.stringify(rule.type)}; expected one of ${ruleTypes.join(', ')}`
+            );
+            return;
+        }
+
+        const allowed = RULE_KEYS[rule.type as FormRule['type']];
+
+        for (const key of Object.keys(rule)) {
+            if (!allowed.has(key)) {
+                addIssue(ctx, joinPath(path, key), `Unknown property for a ${rule.type} rule`);
+            }
+        }
+
+        checkOptional(rule, 'message', 'string', path, ctx);
+        if (rule.translations !== undefined) {
+            const translationsPath = joinPath(path, 'translations');
+            forEachLocale(rule.translations, translationsPath, ctx, (message, locale) => {
+                if (typeof message !== 'string') {
+                    addIssue(ctx, joinPath(translationsPath, locale), `Expected string, got ${describe(message)}`);
+                }
+            });
+        }
+
+        if (allowed.has('operator') && !operators.includes(rule.operator as RuleOperator)) {
+            addIssue(
+                ctx,
+                joinPath(path, 'operator'),
+                `Unknown operator ${JSON.stringify(rule.operator)}; expected one of ${operators.join(', ')}`
+            );
+        }
+
+        if (rule.type === 'compare') {
+            checkRuleRef(rule.fieldId, joinPath(path, 'fieldId'), ctx);
+            checkRuleRef(rule.otherFieldId, joinPath(path, 'otherFieldId'), ctx);
+            if (typeof rule.fieldId === 'string' && rule.fieldId === rule.otherFieldId) {
+                addIssue(ctx, joinPath(path, 'otherFieldId'), 'A field cannot be compared with itself');
+            }
+            return;
+        }
+
+        const fieldIdsPath = joinPath(path, 'fieldIds');
+        if (!Array.isArray(rule.fieldIds) || rule.fieldIds.length === 0) {
+            addIssue(ctx, fieldIdsPath, `Expected a non-empty array of field IDs, got ${describe(rule.fieldIds)}`);
+        } else {
+            rule.fieldIds.forEach((id, i) => checkRuleRef(id, `${fieldIdsPath}[${i}]`, ctx));
+            if (new Set(rule.fieldIds).size !== rule.fieldIds.length) {
+                addIssue(ctx, fieldIdsPath, 'The same field is listed more than once');
+            }
+        }
+
+        if (rule.type === 'sum') {
+            if (rule.value === undefined) {
+                addIssue(ctx, joinPath(path, 'value'), 'Sum rules must have a value');
+            } else {
+                checkOptional(rule, 'value', 'number', path, ctx);
+            }
+            return;
+        }
+
+        if (rule.count === undefined) {
+            addIssue(ctx, joinPath(path, 'count'), 'At-least rules must have a count');
+        } else {
+            checkCount(rule, 'count', path, ctx);
+            if (
+                typeof rule.count === 'number' &&
+                Array.isArray(rule.fieldIds) &&
+                rule.count > rule.fieldIds.length
+            ) {
+                addIssue(ctx, joinPath(path, 'count'), `count (${rule.count}) must not exceed the number of fields (${rule.fieldIds.length})`);
+            }
+        }
+    });
+}
+
+/**
+ * Validates the submission target
+ */
+function validateSubmission(value: unknown, ctx: ValidationContext): void {
+    const path = 'submission';
+    if (!isPlainObject(value)) {
+        addIssue(ctx, path, `Expected a submission target object, got ${describe(value)}`);
+        return;
+    }
+
+    for (const key of Object.keys(value)) {
+        if (!SUBMISSION_KEYS.has(key)) {
+            addIssue(ctx, joinPath(path, key), 'Unknown property of the submission target');
+        }
+    }
+
+    if (typeof value.url !== 'string') {
+        addIssue(ctx, joinPath(path, 'url'), `Expected a string, got ${describe(value.url)}`);
+    } else {
+        const urlError = getSubmissionUrlError(value.url);
+        if (urlError) {
+            addIssue(ctx, joinPath(path, 'url'), urlError);
+        }
+    }
+
+    if (!SUBMISSION_METHODS.includes(value.method as SubmissionMethod)) {
+        addIssue(
+            ctx,
+            joinPath(path, 'method'),
+            `Unknown method ${JSON.stringify(value.method)}; expected one of ${SUBMISSION_METHODS.join(', ')}`
+        );
+    }
+
+    if (value.shape !== 'nested' && value.shape !== 'flat') {
+        addIssue(ctx, joinPath(path, 'shape'), `Unknown shape ${JSON.stringify(value.shape)}; expected nested or flat`);
+    }
+
+    checkCount(value, 'retries', path, ctx);
+    if (typeof value.retries === 'number' && value.retries > MAX_RETRIES) {
+        addIssue(ctx, joinPath(path, 'retries'), `At most ${MAX_RETRIES} retries are allowed`);
+    }
+
+    if (value.headers === undefined) {
+        return;
+    }
+    if (!Array.isArray(value.headers)) {
+        addIssue(ctx, joinPath(path, 'headers'), `Expected an array of headers, got ${describe(value.headers)}`);
+        return;
+    }
+    value.headers.forEach((header, index) => {
+        const headerPath = `${path}.headers[${index}]`;
+        if (!isPlainObject(header)) {
+            addIssue(ctx, headerPath, `Expected a header object, got ${describe(header)}`);
+            return;
+        }
+        for (const key of Object.keys(header)) {
+            if (key !== 'name' && key !== 'value') {
+                addIssue(ctx, joinPath(headerPath, key), 'Unknown property of a header');
+            }
+        }
+        if (typeof header.name !== 'string') {
+            addIssue(ctx, joinPath(headerPath, 'name'), `Expected a string, got ${describe(header.name)}`);
+        } else {
+            const nameError = getHeaderNameError(header.name);
+            if (nameError) {
+                addIssue(ctx, joinPath(headerPath, 'name'), nameError);
+            }
+        }
+        if (typeof header.value !== 'string') {
+            addIssue(ctx, joinPath(headerPath, 'value'), `Expected a string, got ${describe(header.value)}`);
+        }
+    });
+}
+
+/**
+ * Additional locales declared by the localization settings, as far as
+ * they can be read; translations are checked against them
+ */
+function readLocales(value: unknown): Set<string> {
+    if (!isPlainObject(value) || !Array.isArray(value.locales)) {
+        return new Set();
+    }
+    return new Set(value.locales.filter((locale): locale is string => typeof locale === 'string'));
+}
+
+/**
+ * Validates the localization settings and the message catalog
+ */
+function validateLocalization(value: unknown, ctx: ValidationContext): void {
+    const path = 'localization';
+    if (!isPlainObject(value)) {
+        addIssue(ctx, path, `Expected a localization object, got ${describe(value)}`);
+        return;
+    }
+
+    for (const key of Object.keys(value)) {
+        if (!LOCALIZATION_KEYS.has(key)) {
+            addIssue(ctx, joinPath(path, key), 'Unknown property of the localization settings');
+        }
+    }
+
+    const checkLocale = (locale: unknown, localePath: string) => {
+        if (typeof locale !== 'string') {
+            addIssue(ctx, localePath, `Expected a locale code, got ${describe(locale)}`);
+            return false;
+        }
+        const localeError = getLocaleError(locale);
+        if (localeError) {
+            addIssue(ctx, localePath, localeError);
+            return false;
+        }
+        return true;
+    };
+
+    const { defaultLocale, locales, messages } = value;
+    checkLocale(defaultLocale, joinPath(path, 'defaultLocale'));
+
+    const formLocales = new Set([defaultLocale]);
+    if (!Array.isArray(locales)) {
+        addIssue(ctx, joinPath(path, 'locales'), `Expected an array of locale codes, got ${describe(locales)}`);
+    } else {
+        locales.forEach((locale, index) => {
+            const localePath = `${path}.locales[${index}]`;
+            if (!checkLocale(locale, localePath)) {
+                return;
+            }
+            if (formLocales.has(locale)) {
+                addIssue(
+                    ctx,
+                    localePath,
+                    locale === defaultLocale ? `"${locale}" is already the default locale` : `Duplicate locale "${locale}"`
+                );
+            }
+            formLocales.add(locale);
+        });
+    }
+
+    if (messages === undefined) {
+        return;
+    }
+    const messagesPath = joinPath(path, 'messages');
+    if (!isPlainObject(messages)) {
+        addIssue(ctx, messagesPath, `Expected an object of messages by locale, got ${describe(messages)}`);
+        return;
+    }
+    for (const [locale, catalog] of Object.entries(messages)) {
+        const catalogPath = joinPath(messagesPath, locale);
+        if (!formLocales.has(locale)) {
+            addIssue(ctx, catalogPath, `"${locale}" is not one of the form's locales`);
+            continue;
+        }
+        if (!isPlainObject(catalog)) {
+            addIssue(ctx, catalogPath, `Expected an object of messages by ID, got ${describe(catalog)}`);
+            continue;
+        }
+        for (const [id, template] of Object.entries(catalog)) {
+            const messagePath = joinPath(catalogPath, id);
+            if (!MESSAGE_IDS.includes(id as MessageId)) {
+                addIssue(ctx, messagePath, 'Unknown message ID');
+            } else if (typeof template !== 'string') {
+                addIssue(ctx, messagePath, `Expected string, got ${describe(template)}`);
+            } else {
+                const templateError = getMessageTemplateError(template);
+                if (templateError) {
+                    addIssue(ctx, messagePath, templateError);
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Validates the theme of the runtime form
+ */
+function validateTheme(value: unknown, ctx: ValidationContext): void {
+    const path = 'theme';
+    if (!isPlainObject(value)) {
+        addIssue(ctx, path, `Expected a theme object, got ${describe(value)}`);
+        return;
+    }
+
+    for (const key of Object.keys(value)) {
+        if (!THEME_KEYS.has(key)) {
+            addIssue(ctx, joinPath(path, key), 'Unknown property of the theme');
+        }
+    }
+
+    const colorKeys = THEME_COLORS.map((color) => color.key as string);
+    for (const key of ['colors', 'darkColors']) {
+        const colors = value[key];
+        const colorsPath = joinPath(path, key);
+        if (colors === undefined) {
+            continue;
+        }
+        if (!isPlainObject(colors)) {
+            addIssue(ctx, colorsPath, `Expected an object of colors, got ${describe(colors)}`);
+            continue;
+        }
+        for (const [name, color] of Object.entries(colors)) {
+            if (!colorKeys.includes(name)) {
+                addIssue(ctx, joinPath(colorsPath, name), `Unknown color; expected one of ${colorKeys.join(', ')}`);
+            } else if (!isThemeColor(color)) {
+                addIssue(ctx, joinPath(colorsPath, name), `Expected a color like "#3366ff", got ${JSON.stringify(color)}`);
+            }
+        }
+    }
+
+    const ranges = { radius: THEME_RADIUS, spacing: THEME_SPACING };
+    for (const [key, range] of Object.entries(ranges)) {
+        const number = value[key];
+        if (number === undefined) {
+            continue;
+        }
+        if (typeof number !== 'number' || !Number.isFinite(number) || number < range.min || number > range.max) {
+            addIssue(ctx, joinPath(path, key), `Expected a number from ${range.min} to ${range.max}, got ${JSON.stringify(number)}`);
+        }
+    }
+
+    if (value.font !== undefined) {
+        const fontError = typeof value.font === 'string' ? getFontError(value.font) : `Expected string, got ${describe(value.font)}`;
+        if (fontError) {
+            addIssue(ctx, joinPath(path, 'font'), fontError);
+        }
+    }
+
+    const schemes = COLOR_SCHEMES.map((scheme) => scheme.value as string);
+    if (value.colorScheme !== undefined && !schemes.includes(value.colorScheme as string)) {
+        addIssue(
+            ctx,
+            joinPath(path, 'colorScheme'),
+            `Unknown color scheme ${JSON.stringify(value.colorScheme)}; expected one of ${schemes.join(', ')}`
+        );
+    }
+}
+
+/**
+ * Validates an untrusted value as a FormSchema
+ * Returns the typed schema when valid, otherwise every issue found
+ */
+export function validateSchema(input: unknown): SchemaValidationResult {
+    if (!isPlainObject(input)) {
+        return { valid: false, issues: [{ path: '', message: `Expected a schema object, got ${describe(input)}` }] };
+    }
+
+    const ctx: ValidationContext = {
+        issues: [],
+        seenIds: new Map(),
+        conditionRefs: [],
+        repeatablePaths: [],
+        locales: readLocales(input.localization),
+    };
+
+    for (const key of Object.keys(input)) {
+        if (!ROOT_KEYS.has(key)) {
+            addIssue(ctx, key, 'Unknown property on the schema root');
+        }
+    }
+
+    if (input.version !== CURRENT_SCHEMA_VERSION) {
+        addIssue(ctx, 'version', `Expected schema version ${CURRENT_SCHEMA_VERSION}, got ${JSON.stringify(input.version)}`);
+    }
+
+    if (input.fields === undefined) {
+        addIssue(ctx, 'fields', 'Schema must have a fields array');
+    } else {
+        validateFields(input.fields, 'fields', ctx);
+        resolveConditionRefs(ctx);
+    }
+
+    if (input.rules !== undefined) {
+        validateRules(input.rules, ctx);
+    }
+
+    if (input.submission !== undefined) {
+        validateSubmission(input.submission, ctx);
+    }
+
+    if (input.layout !== undefined && input.layout !== 'single' && input.layout !== 'wizard') {
+        addIssue(ctx, 'layout', `Unknown layout ${JSON.stringify(input.layout)}; expected single or wizard`);
+    }
+
+    if (input.localization !== undefined) {
+        validateLocalization(input.localization, ctx);
+    }
+
+    if (input.theme !== undefined) {
+        validateTheme(input.theme, ctx);
+    }
+
+    // Circular formulas can only be found in a structurally valid tree;
+    // unknown names are allowed, the builder flags them
+    if (ctx.issues.length === 0) {
+        for (const [id, issue] of analyzeComputedFields(input.fields as Field[])) {
+            if (issue.kind === 'cycle') {
+                addIssue(ctx, joinPath(ctx.seenIds.get(id)?.path ?? '', 'expression'), issue.message);
+            }
+        }
+    }
+
+    if (ctx.issues.length > 0) {
+        return { valid: false, issues: ctx.issues };
+    }
+
+    return { valid: true, schema: input as unknown as FormSchema };
+}
+
+/**
+ * Formats an issue as a single line, e.g. "fields[0].min: ..."
+ */
+export function formatSchemaIssue(issue: SchemaIssue): string {
+    return issue.path === '' ? issue.message : `${issue.path}: ${issue.message}`;
+}
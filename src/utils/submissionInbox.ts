@@ -0,0 +1,339 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - SUBMISSION INBOX
+ * =============================================================================
+ * Local history of a form's valid submissions, for testing in the preview:
+ * each entry is the flat form data (getFormData()) with the time and the
+ * revision of the form it was submitted with. Also builds the inbox table
+ * (columns from the schema's labels) and its CSV / NDJSON exports.
+ *
+ * Stored inbox, per form ID (inboxKey):
+ *   { "format": INBOX_FORMAT, "entries": InboxEntry[] }
+ *
+ * Revisions (getSchemaRevision) are short hashes of the whole schema: the
+ * same form gives the same revision, and any edit gives another one.
+ * Entries of format 1 kept the schema's file-format version instead (always
+ * the same); they are read with no revision.
+ *
+ * HARD CONSTRAINTS:
+ * - Entries are stored as submitted and never rewritten; columns are worked
+ *   out from the current schema when the table is shown, so values of
+ *   fields deleted since then are only in the NDJSON export
+ * - Operations return new entries and report storage failures as results
+ * - Only the latest MAX_INBOX_ENTRIES entries are kept
+ * - CSV cells that spreadsheets would run as formulas are escaped
+ * =============================================================================
+ */
+
+import type { Field, FormSchema } from '../types/schema';
+import { isGroupField } from '../types/schema';
+import type { FieldValue, FlatFormData } from './dataMerging';
+import { getLocalStorage, isQuotaError, type DraftStorage } from './draftStorage';
+import { isRepeatableGroup } from './formScope';
+import { generateId } from './idGenerator';
+
+/**
+ * localStorage key of a form's inbox
+ */
+export function inboxKey(formId: string): string {
+    return `form-builder:inbox:${formId}`;
+}
+
+/**
+ * Format of the stored inbox; bump when its shape changes
+ */
+export const INBOX_FORMAT = 2;
+
+/**
+ * Entries kept per form; older ones are dropped
+ */
+export const MAX_INBOX_ENTRIES = 500;
+
+/**
+ * A stored submission
+ */
+export interface InboxEntry {
+    id: string;
+    /** When it was submitted (ms since epoch) */
+    submittedAt: number;
+    /** Revision of the form the data was submitted with (null: not known) */
+    revision: string | null;
+    /** Flat form data, keyed by (scoped) field IDs */
+    data: FlatFormData;
+}
+
+/**
+ * Result of changing the inbox
+ */
+export type InboxResult =
+    | { success: true; entries: InboxEntry[] }
+    | { success: false; message: string };
+
+/**
+ * Column of the inbox table: one per input field of the schema
+ */
+export interface InboxColumn {
+    fieldId: string;
+    /** Field label prefixed with its groups, e.g. "Address › Street" */
+    label: string;
+    /** Inside a repeatable group: one value per entry */
+    repeated: boolean;
+}
+
+/**
+ * Sort order of the table: a field column, or the entry's own metadata
+ */
+export interface InboxSort {
+    /** 'submittedAt', 'revision' or a field ID */
+    key: string;
+    direction: 'asc' | 'desc';
+}
+
+/**
+ * Revision of a form: a hash (FNV-1a, 8 hex digits) of its schema
+ */
+export function getSchemaRevision(schema: FormSchema): string {
+    const text = JSON.stringify(schema);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Reads a stored entry of the given inbox format; null if it is damaged
+ */
+function readInboxEntry(value: unknown, format: number): InboxEntry | null {
+    if (typeof value !== 'object' || value === null) {
+        return null;
+    }
+    const { id, submittedAt, revision, data } = value as Record<string, unknown>;
+    const isValid =
+        typeof id === 'string' &&
+        typeof submittedAt === 'number' &&
+        (format === 1 || typeof revision === 'string' || revision === null) &&
+        typeof data === 'object' &&
+        data !== null &&
+        !Array.isArray(data);
+    if (!isValid) {
+        return null;
+    }
+    return { id, submittedAt, revision: format === 1 ? null : (revision as string | null), data: data as FlatFormData };
+}
+
+/**
+ * Reads a form's inbox (empty when missing or damaged)
+ */
+export function loadInbox(formId: string, storage: DraftStorage | null = getLocalStorage()): InboxEntry[] {
+    try {
+        const raw = storage?.getItem(inboxKey(formId)) ?? null;
+        if (raw === null) {
+            return [];
+        }
+        const inbox: unknown = JSON.parse(raw);
+        if (typeof inbox !== 'object' || inbox === null) {
+            return [];
+        }
+        const { format, entries } = inbox as Record<string, unknown>;
+        if ((format !== 1 && format !== INBOX_FORMAT) || !Array.isArray(entries)) {
+            return [];
+        }
+        return entries.flatMap((entry) => readInboxEntry(entry, format) ?? []);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Writes a form's inbox
+ */
+function writeInbox(formId: string, entries: InboxEntry[], storage: DraftStorage | null): InboxResult {
+    if (!storage) {
+        return { success: false, message: 'Submissions cannot be kept: this browser blocks local storage.' };
+    }
+    try {
+        storage.setItem(inboxKey(formId), JSON.stringify({ format: INBOX_FORMAT, entries }));
+        return { success: true, entries };
+    } catch (error) {
+        return {
+            success: false,
+            message: isQuotaError(error)
+                ? 'Browser storage is full, so this submission was not kept. Export and delete older ones.'
+                : 'The submission could not be kept.',
+        };
+    }
+}
+
+/**
+ * Stores a submission
+ */
+export function addInboxEntry(
+    entries: InboxEntry[],
+    formId: string,
+    data: FlatFormData,
+    revision: string,
+    storage: DraftStorage | null = getLocalStorage(),
+    now: number = Date.now()
+): InboxResult {
+    const entry: InboxEntry = { id: generateId('entry'), submittedAt: now, revision, data };
+    return writeInbox(formId, [...entries, entry].slice(-MAX_INBOX_ENTRIES), storage);
+}
+
+/**
+ * Deletes a stored submission
+ */
+export function deleteInboxEntry(
+    entries: InboxEntry[],
+    formId: string,
+    entryId: string,
+    storage: DraftStorage | null = getLocalStorage()
+): InboxResult {
+    return writeInbox(formId, entries.filter((entry) => entry.id !== entryId), storage);
+}
+
+/**
+ * Removes a form's inbox
+ */
+export function removeInbox(formId: string, storage: DraftStorage | null = getLocalStorage()): void {
+    try {
+        storage?.removeItem(inboxKey(formId));
+    } catch {
+        // Nothing to remove when storage is unavailable
+    }
+}
+
+/**
+ * Columns of the inbox table, in schema order
+ */
+export function getInboxColumns(fields: Field[], prefix = '', repeated = false): InboxColumn[] {
+    return fields.flatMap((field) =>
+        isGroupField(field)
+            ? getInboxColumns(field.children, `${prefix}${field.label} › `, repeated || isRepeatableGroup(field))
+            : [{ fieldId: field.id, label: `${prefix}${field.label}`, repeated }]
+    );
+}
+
+/**
+ * Values of a column in an entry: one, or one per repeatable group entry
+ */
+function getColumnValues(entry: InboxEntry, column: InboxColumn): FieldValue[] {
+    if (!column.repeated) {
+        const value = entry.data[column.fieldId];
+        return value === undefined ? [] : [value];
+    }
+    const suffix = `].${column.fieldId}`;
+    return Object.keys(entry.data)
+        .filter((key) => key.endsWith(suffix))
+        .map((key) => entry.data[key]);
+}
+
+/**
+ * Text of a value: lists comma-separated, booleans as true/false
+ */
+function formatValue(value: FieldValue): string {
+    return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+/**
+ * Text of a table cell (repeated values separated by "; ")
+ */
+export function getCellText(entry: InboxEntry, column: InboxColumn): string {
+    return getColumnValues(entry, column).map(formatValue).join('; ');
+}
+
+/**
+ * Entries with a cell containing the query (case-insensitive)
+ */
+export function filterInbox(entries: InboxEntry[], columns: InboxColumn[], query: string): InboxEntry[] {
+    const needle = query.trim().toLocaleLowerCase();
+    if (needle === '') {
+        return entries;
+    }
+    return entries.filter((entry) =>
+        columns.some((column) => getCellText(entry, column).toLocaleLowerCase().includes(needle))
+    );
+}
+
+/**
+ * Sorts entries by a column; numbers compare as numbers, text naturally
+ * ("item 2" before "item 10"), and empty cells come last
+ */
+export function sortInbox(entries: InboxEntry[], columns: InboxColumn[], sort: InboxSort): InboxEntry[] {
+    const column = columns.find((candidate) => candidate.fieldId === sort.key);
+    const sortValue = (entry: InboxEntry): FieldValue | null => {
+        if (sort.key === 'submittedAt' || sort.key === 'revision') {
+            return entry[sort.key];
+        }
+        if (!column) {
+            return null;
+        }
+        const values = getColumnValues(entry, column);
+        if (values.length === 1 && typeof values[0] === 'number') {
+            return values[0];
+        }
+        const text = values.map(formatValue).join('; ');
+        return text === '' ? null : text;
+    };
+    const sign = sort.direction === 'asc' ? 1 : -1;
+
+    return entries
+        .map((entry) => ({ entry, value: sortValue(entry) }))
+        .sort((a, b) => {
+            if (a.value === null || b.value === null) {
+                return a.value === b.value ? 0 : a.value === null ? 1 : -1;
+            }
+            const order = typeof a.value === 'number' && typeof b.value === 'number'
+                ? a.value - b.value
+                : String(a.value).localeCompare(String(b.value), undefined, { numeric: true });
+            return order * sign;
+        })
+        .map(({ entry }) => entry);
+}
+
+/**
+ * Quotes a CSV cell when needed (RFC 4180) and escapes leading
+ * characters that spreadsheets treat as a formula
+ */
+function toCsvCell(text: string): string {
+    const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * CSV of the entries: submission time (ISO 8601), form revision, then
+ * one column per field
+ */
+export function toCsv(entries: InboxEntry[], columns: InboxColumn[]): string {
+    const header = ['Submitted at', 'Form revision', ...columns.map((column) => column.label)].map(toCsvCell);
+    const rows = entries.map((entry) => [
+        new Date(entry.submittedAt).toISOString(),
+        entry.revision ?? '',
+        ...columns.map((column) => {
+            const values = getColumnValues(entry, column);
+            // Numbers are written as is, so negative values are not escaped
+            return values.length === 1 && typeof values[0] === 'number'
+                ? String(values[0])
+                : toCsvCell(getCellText(entry, column));
+        }),
+    ]);
+    return [header, ...rows].map((row) => `${row.join(',')}\r\n`).join('');
+}
+
+/**
+ * NDJSON of the entries: one JSON object per line, data as stored
+ */
+export function toNdjson(entries: InboxEntry[]): string {
+    return entries
+        .map((entry) =>
+            JSON.stringify({
+                id: entry.id,
+                submittedAt: new Date(entry.submittedAt).toISOString(),
+                revision: entry.revision,
+                data: entry.data,
+            })
+        )
+        .map((line) => `${line}\n`)
+        .join('');
+}
@@ -0,0 +1,319 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - SUBMISSION QUEUE (OUTBOX)
+ * =============================================================================
+ * Durable list of submissions and their delivery status. Every submission
+ * goes through it: due entries are sent by SubmissionOutbox
+ * (components/runtime/SubmissionOutbox.tsx), failed attempts are
+ * rescheduled with backoff (utils/submissionTransport.ts), and entries
+ * made while offline wait for the connection to come back.
+ *
+ * Stored outbox (OUTBOX_KEY):
+ *   { "format": OUTBOX_FORMAT, "submissions": QueuedSubmission[] }
+ *
+ * HARD CONSTRAINTS:
+ * - Operations return new entries (never mutate their input) and report
+ *   storage failures as results instead of throwing
+ * - Entries outlive the form that made them: a queued submission is sent
+ *   even after its form is closed or deleted
+ * - An attempt interrupted by closing the page is retried by the next tab
+ *   that delivers (reviveInterrupted)
+ * - Tabs share one stored list: changes are applied to a fresh read of it
+ *   (updateOutbox), never to a tab's own copy
+ * - Only the latest MAX_FINISHED sent or failed entries are kept
+ * =============================================================================
+ */
+
+import type { SubmissionTarget } from '../types/schema';
+import type { FlatFormData, NestedFormData } from './dataMerging';
+import { getLocalStorage, isQuotaError, type DraftStorage } from './draftStorage';
+import { generateId } from './idGenerator';
+import {
+    DEFAULT_RETRIES,
+    buildSubmissionRequest,
+    getRetryDelay,
+    type SendResult,
+    type SubmissionRequest,
+} from './submissionTransport';
+
+/**
+ * localStorage key of the outbox
+ */
+export const OUTBOX_KEY = 'form-builder:outbox';
+
+/**
+ * Format of the stored outbox; bump when its shape changes
+ */
+export const OUTBOX_FORMAT = 1;
+
+/**
+ * Sent or failed entries kept for display
+ */
+const MAX_FINISHED = 50;
+
+/**
+ * Delivery status of a submission
+ * - sending: an attempt is in flight
+ * - waiting: the next attempt is due at `nextAttemptAt` (`message`: why
+ *   the previous one failed)
+ * - offline: waiting for the browser to come back online
+ * - sent: the server accepted it
+ * - failed: the server refused it, or every retry failed
+ */
+export type SubmissionStatus =
+    | { state: 'sending' }
+    | { state: 'waiting'; nextAttemptAt: number; message: string | null }
+    | { state: 'offline' }
+    | { state: 'sent'; sentAt: number; httpStatus: number }
+    | { state: 'failed'; message: string };
+
+/**
+ * A submission in the outbox
+ */
+export interface QueuedSubmission {
+    id: string;
+    /** Library form it was made from (null outside the library) */
+    formId: string | null;
+    /** When the user submitted (ms since epoch) */
+    createdAt: number;
+    request: SubmissionRequest;
+    /** Retries allowed after the first attempt */
+    retries: number;
+    /** Attempts that reached the network so far */
+    attempts: number;
+    status: SubmissionStatus;
+}
+
+/**
+ * Result of writing the outbox
+ */
+export type OutboxSaveResult =
+    | { success: true }
+    | { success: false; message: string };
+
+/**
+ * Checks the shape of a stored entry
+ */
+function isQueuedSubmission(value: unknown): value is QueuedSubmission {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const { id, formId, createdAt, request, retries, attempts, status } = value as Record<string, unknown>;
+    return (
+        typeof id === 'string' &&
+        (formId === null || typeof formId === 'string') &&
+        typeof createdAt === 'number' &&
+        typeof request === 'object' &&
+        request !== null &&
+        typeof (request as SubmissionRequest).url === 'string' &&
+        typeof (request as SubmissionRequest).body === 'string' &&
+        typeof retries === 'number' &&
+        typeof attempts === 'number' &&
+        typeof status === 'object' &&
+        status !== null &&
+        typeof (status as SubmissionStatus).state === 'string'
+    );
+}
+
+/**
+ * Reads the outbox as stored, or null where storage is unavailable
+ * A damaged outbox reads as empty
+ */
+export function loadOutbox(storage: DraftStorage | null = getLocalStorage()): QueuedSubmission[] | null {
+    try {
+        if (!storage) {
+            return null;
+        }
+        const raw = storage.getItem(OUTBOX_KEY);
+        if (raw === null) {
+            return [];
+        }
+        const outbox: unknown = JSON.parse(raw);
+        if (typeof outbox !== 'object' || outbox === null) {
+            return [];
+        }
+        const { format, submissions } = outbox as Record<string, unknown>;
+        if (format !== OUTBOX_FORMAT || !Array.isArray(submissions)) {
+            return [];
+        }
+        return submissions.filter(isQueuedSubmission);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Makes attempts cut short by closing the page due now
+ * Only the delivering tab may call this: entries another tab is sending
+ * look the same. Entries it is sending itself are listed in `inFlight`.
+ */
+export function reviveInterrupted(
+    submissions: QueuedSubmission[],
+    inFlight: ReadonlySet<string> = new Set(),
+    now: number = Date.now()
+): QueuedSubmission[] {
+    return submissions.map((entry) =>
+        entry.status.state === 'sending' && !inFlight.has(entry.id)
+            ? { ...entry, status: { state: 'waiting', nextAttemptAt: now, message: null } }
+            : entry
+    );
+}
+
+/**
+ * Writes the outbox, dropping the oldest finished entries beyond MAX_FINISHED
+ */
+export function saveOutbox(
+    submissions: QueuedSubmission[],
+    storage: DraftStorage | null = getLocalStorage()
+): OutboxSaveResult {
+    if (!storage) {
+        return { success: false, message: 'Queued submissions are lost when this page closes: this browser blocks local storage.' };
+    }
+
+    let finished = 0;
+    const kept = [...submissions]
+        .reverse()
+        .filter((entry) => !isFinished(entry) || ++finished <= MAX_FINISHED)
+        .reverse();
+
+    try {
+        storage.setItem(OUTBOX_KEY, JSON.stringify({ format: OUTBOX_FORMAT, submissions: kept }));
+        return { success: true };
+    } catch (error) {
+        return {
+            success: false,
+            message: isQuotaError(error)
+                ? 'Browser storage is full, so queued submissions are lost when this page closes.'
+                : 'Queued submissions could not be stored.',
+        };
+    }
+}
+
+/**
+ * The outbox after a change, and whether it could be stored
+ */
+export interface OutboxUpdate {
+    submissions: QueuedSubmission[];
+    saved: OutboxSaveResult;
+}
+
+/**
+ * Applies a change to the stored outbox, re-read first so that entries
+ * other tabs wrote meanwhile are kept
+ * `current` (the tab's own list) is changed instead when storage cannot be
+ * read, or does not hold the tab's changes because a write failed
+ */
+export function updateOutbox(
+    current: QueuedSubmission[],
+    change: (submissions: QueuedSubmission[]) => QueuedSubmission[],
+    isStored: boolean,
+    storage: DraftStorage | null = getLocalStorage()
+): OutboxUpdate {
+    const base = (isStored ? loadOutbox(storage) : null) ?? current;
+    const submissions = change(base);
+    if (submissions === base && base !== current) {
+        return { submissions, saved: { success: true } };
+    }
+    return { submissions, saved: saveOutbox(submissions, storage) };
+}
+
+/**
+ * Whether delivery is over (sent or failed)
+ */
+export function isFinished(entry: QueuedSubmission): boolean {
+    return entry.status.state === 'sent' || entry.status.state === 'failed';
+}
+
+/**
+ * Creates a submission that is due immediately
+ */
+export function createSubmission(
+    formId: string | null,
+    target: SubmissionTarget,
+    data: FlatFormData | NestedFormData,
+    now: number = Date.now()
+): QueuedSubmission {
+    const id = generateId('submission');
+    return {
+        id,
+        formId,
+        createdAt: now,
+        request: buildSubmissionRequest(target, data, id),
+        retries: target.retries ?? DEFAULT_RETRIES,
+        attempts: 0,
+        status: { state: 'waiting', nextAttemptAt: now, message: null },
+    };
+}
+
+/**
+ * Whether a submission should be attempted now
+ */
+export function isDue(entry: QueuedSubmission, now: number): boolean {
+    return entry.status.state === 'waiting' && entry.status.nextAttemptAt <= now;
+}
+
+/**
+ * Time of the next scheduled attempt of any entry, or null
+ */
+export function getNextAttemptAt(submissions: QueuedSubmission[]): number | null {
+    let next: number | null = null;
+    for (const { status } of submissions) {
+        if (status.state === 'waiting' && (next === null || status.nextAttemptAt < next)) {
+            next = status.nextAttemptAt;
+        }
+    }
+    return next;
+}
+
+/**
+ * Marks an attempt as started
+ */
+export function startAttempt(entry: QueuedSubmission): QueuedSubmission {
+    return { ...entry, attempts: entry.attempts + 1, status: { state: 'sending' } };
+}
+
+/**
+ * Records the outcome of an attempt and schedules the next one if needed
+ * Attempts made while offline do not count against the retries
+ */
+export function finishAttempt(
+    entry: QueuedSubmission,
+    result: SendResult,
+    now: number = Date.now(),
+    random: () => number = Math.random
+): QueuedSubmission {
+    switch (result.kind) {
+        case 'sent':
+            return { ...entry, status: { state: 'sent', sentAt: now, httpStatus: result.status } };
+        case 'failed':
+            return { ...entry, status: { state: 'failed', message: result.message } };
+        case 'offline':
+            return { ...entry, attempts: Math.max(entry.attempts - 1, 0), status: { state: 'offline' } };
+        default: {
+            if (entry.attempts > entry.retries) {
+                const tries = entry.attempts === 1 ? '1 attempt' : `${entry.attempts} attempts`;
+                return { ...entry, status: { state: 'failed', message: `${result.message} (gave up after ${tries}).` } };
+            }
+            const nextAttemptAt = now + getRetryDelay(entry.attempts, result.retryAfterMs, random);
+            return { ...entry, status: { state: 'waiting', nextAttemptAt, message: result.message } };
+        }
+    }
+}
+
+/**
+ * Makes entries that waited for the connection due now
+ */
+export function resumeOffline(submissions: QueuedSubmission[], now: number = Date.now()): QueuedSubmission[] {
+    return submissions.map((entry) =>
+        entry.status.state === 'offline'
+            ? { ...entry, status: { state: 'waiting', nextAttemptAt: now, message: null } }
+            : entry
+    );
+}
+
+/**
+ * Sends a failed submission again, with a fresh set of retries
+ */
+export function retrySubmission(entry: QueuedSubmission, now: number = Date.now()): QueuedSubmission {
+    return { ...entry, attempts: 0, status: { state: 'waiting', nextAttemptAt: now, message: null } };
+}
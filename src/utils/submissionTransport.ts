@@ -0,0 +1,203 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - SUBMISSION TRANSPORT
+ * =============================================================================
+ * Turns submitted data into an HTTP request for a form's SubmissionTarget
+ * (types/schema.ts), sends one attempt of it, and decides whether and when
+ * a failed attempt is retried. Queueing and the retry loop live in
+ * utils/submissionQueue.ts and components/runtime/SubmissionOutbox.tsx.
+ *
+ * HARD CONSTRAINTS:
+ * - Never throws: every attempt ends in a SendResult
+ * - Network errors, timeouts, 408, 429 and 5xx responses are retryable;
+ *   any other response outside 2xx is final
+ * - Requests carry an Idempotency-Key so a server can drop duplicates of
+ *   a submission that was retried after its response got lost
+ * - NO external HTTP libraries (fetch only)
+ * =============================================================================
+ */
+
+import type { SubmissionMethod, SubmissionTarget } from '../types/schema';
+import type { FlatFormData, NestedFormData } from './dataMerging';
+
+/**
+ * Methods offered in the builder, in display order
+ */
+export const SUBMISSION_METHODS: readonly SubmissionMethod[] = ['POST', 'PUT', 'PATCH'];
+
+/**
+ * Retries of a target without its own setting
+ */
+export const DEFAULT_RETRIES = 3;
+
+/**
+ * Highest retry count a target may set
+ */
+export const MAX_RETRIES = 10;
+
+/**
+ * Backoff: the first retry waits about BASE, each further one twice as long,
+ * never more than MAX (Retry-After may ask for up to MAX_RETRY_AFTER)
+ */
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30_000;
+const MAX_RETRY_AFTER_MS = 5 * 60_000;
+
+/**
+ * Time an attempt may take before it is aborted and retried
+ */
+export const ATTEMPT_TIMEOUT_MS = 15_000;
+
+/**
+ * Header names allowed by HTTP (RFC 9110 "token")
+ */
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * Headers set by the transport itself
+ */
+const RESERVED_HEADERS = new Set(['content-type', 'idempotency-key']);
+
+/**
+ * A request ready to send (and to store in the offline queue)
+ */
+export interface SubmissionRequest {
+    url: string;
+    method: SubmissionMethod;
+    headers: Record<string, string>;
+    /** JSON body */
+    body: string;
+}
+
+/**
+ * Outcome of one attempt
+ * - sent: the server answered with 2xx
+ * - retry: try again after `retryAfterMs` when the server asked for a delay
+ * - offline: the browser has no connection; wait for it
+ * - failed: the server refused the submission; retrying will not help
+ */
+export type SendResult =
+    | { kind: 'sent'; status: number }
+    | { kind: 'retry'; message: string; retryAfterMs: number | null }
+    | { kind: 'offline' }
+    | { kind: 'failed'; message: string };
+
+/**
+ * Checks a target URL; returns an error message or null
+ */
+export function getSubmissionUrlError(url: string): string | null {
+    if (url.trim() === '') {
+        return 'Enter the URL submissions are sent to';
+    }
+    if (url.startsWith('/') && !url.startsWith('//')) {
+        return null;
+    }
+    try {
+        const { protocol } = new URL(url);
+        return protocol === 'http:' || protocol === 'https:' ? null : 'Use an http:// or https:// URL';
+    } catch {
+        return 'Enter a full URL (https://…) or a path starting with /';
+    }
+}
+
+/**
+ * Checks a header name; returns an error message or null
+ */
+export function getHeaderNameError(name: string): string | null {
+    if (!HEADER_NAME_PATTERN.test(name)) {
+        return 'Header names are letters, digits and - (no spaces)';
+    }
+    return RESERVED_HEADERS.has(name.toLowerCase()) ? `${name} is set automatically` : null;
+}
+
+/**
+ * Builds the request of one submission
+ */
+export function buildSubmissionRequest(
+    target: SubmissionTarget,
+    data: FlatFormData | NestedFormData,
+    submissionId: string
+): SubmissionRequest {
+    const headers: Record<string, string> = {};
+    for (const header of target.headers ?? []) {
+        headers[header.name] = header.value;
+    }
+    headers['Content-Type'] = 'application/json';
+    headers['Idempotency-Key'] = submissionId;
+
+    return { url: target.url, method: target.method, headers, body: JSON.stringify(data) };
+}
+
+/**
+ * Reads a Retry-After header (seconds or an HTTP date) as a delay
+ */
+function parseRetryAfter(value: string | null, now: number): number | null {
+    if (value === null) {
+        return null;
+    }
+    const delay = /^\d+$/.test(value.trim()) ? Number(value) * 1000 : Date.parse(value) - now;
+    return Number.isFinite(delay) ? Math.min(Math.max(delay, 0), MAX_RETRY_AFTER_MS) : null;
+}
+
+/**
+ * Whether the browser reports being offline
+ */
+function isBrowserOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * Sends one attempt of a request
+ */
+export async function sendSubmission(
+    request: SubmissionRequest,
+    fetchFn: typeof fetch = fetch,
+    timeoutMs: number = ATTEMPT_TIMEOUT_MS
+): Promise<SendResult> {
+    if (isBrowserOffline()) {
+        return { kind: 'offline' };
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+        const response = await fetchFn(request.url, {
+            method: request.method,
+            headers: request.headers,
+            body: request.body,
+            signal: controller.signal,
+        });
+        if (response.ok) {
+            return { kind: 'sent', status: response.status };
+        }
+
+        const message = `The server answered ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`;
+        if (response.status === 408 || response.status === 429 || response.status >= 500) {
+            return { kind: 'retry', message, retryAfterMs: parseRetryAfter(response.headers.get('Retry-After'), Date.now()) };
+        }
+        return { kind: 'failed', message };
+    } catch {
+        if (isBrowserOffline()) {
+            return { kind: 'offline' };
+        }
+        return {
+            kind: 'retry',
+            message: controller.signal.aborted ? 'The server did not answer in time' : 'The server could not be reached',
+            retryAfterMs: null,
+        };
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Delay before retry number `retry` (1 = first retry): exponential backoff
+ * with jitter, so queued submissions do not all hit the server at once
+ */
+export function getRetryDelay(retry: number, retryAfterMs: number | null = null, random: () => number = Math.random): number {
+    if (retryAfterMs !== null) {
+        return retryAfterMs;
+    }
+    const ceiling = Math.min(BACKOFF_BASE_MS * 2 ** (retry - 1), BACKOFF_MAX_MS);
+    return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+}
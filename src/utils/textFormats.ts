@@ -0,0 +1,105 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - TEXT FORMATS & PATTERNS
+ * =============================================================================
+ * Preset formats (email, URL, phone, postal code) and custom regex patterns
+ * for text fields.
+ *
+ * HARD CONSTRAINTS:
+ * - Custom patterns must match the WHOLE value (like the HTML pattern
+ *   attribute); they are compiled without flags
+ * - Patterns are checked when the field is built or imported, so runtime
+ *   validation never meets an invalid one
+ * - Pure functions only (the compiled pattern cache aside)
+ * - NO validation libraries
+ * =============================================================================
+ */
+
+import type { TextFormat } from '../types/schema';
+
+/**
+ * Definition of a preset format
+ */
+interface TextFormatDefinition {
+    /** Name shown in the builder (error messages: `text.<format>` in utils/messages.ts) */
+    label: string;
+    /** Mobile keyboard hint for the input */
+    inputMode: 'email' | 'url' | 'tel' | 'text';
+    /** Checks a non-empty value */
+    test: (value: string) => boolean;
+    /** Equivalent JSON Schema keyword (see utils/jsonSchema.ts) */
+    jsonSchema: { format: string } | { pattern: string };
+}
+
+/**
+ * Preset formats, in display order
+ */
+export const TEXT_FORMATS: Record<TextFormat, TextFormatDefinition> = {
+    email: {
+        label: 'Email',
+        inputMode: 'email',
+        test: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+        jsonSchema: { format: 'email' },
+    },
+    url: {
+        label: 'URL',
+        inputMode: 'url',
+        test: (value) => {
+            try {
+                const url = new URL(value);
+                return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname !== '';
+            } catch {
+                return false;
+            }
+        },
+        jsonSchema: { format: 'uri' },
+    },
+    phone: {
+        label: 'Phone number',
+        inputMode: 'tel',
+        // Digits with common separators and an optional leading +; 7-15 digits
+        test: (value) => /^\+?[0-9\s\-().]+$/.test(value) && /^(?:\D*\d){7,15}\D*$/.test(value),
+        jsonSchema: { pattern: '^(?=(?:\\D*\\d){7,15}\\D*$)\\+?[0-9\\s\\-().]+$' },
+    },
+    postalCode: {
+        label: 'Postal code',
+        inputMode: 'text',
+        // Letters and digits, optionally split by a space or hyphen (e.g. "90210", "SW1A 1AA", "1234-567")
+        test: (value) => /^[A-Za-z0-9]{2,10}(?:[\s-][A-Za-z0-9]{2,10})?$/.test(value),
+        jsonSchema: { pattern: '^[A-Za-z0-9]{2,10}(?:[\\s-][A-Za-z0-9]{2,10})?$' },
+    },
+};
+
+/**
+ * Compiled custom patterns, keyed by source
+ */
+const patternCache = new Map<string, RegExp | null>();
+
+/**
+ * Compiles a custom pattern anchored to the whole value
+ * Returns null if the pattern is not a valid regular expression
+ */
+export function compilePattern(pattern: string): RegExp | null {
+    if (!patternCache.has(pattern)) {
+        try {
+            patternCache.set(pattern, new RegExp(`^(?:${pattern})$`));
+        } catch {
+            patternCache.set(pattern, null);
+        }
+    }
+    return patternCache.get(pattern) ?? null;
+}
+
+/**
+ * Returns an error message for a custom pattern, or null if it is valid
+ */
+export function getPatternError(pattern: string): string | null {
+    try {
+        new RegExp(`^(?:${pattern})$`);
+        return null;
+    } catch (error) {
+        // Keep only the reason; the engine's message repeats the anchored source
+        const message = error instanceof Error ? error.message : String(error);
+        return `Invalid regular expression: ${message.split(': ').pop()}`;
+    }
+}
@@ -0,0 +1,289 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - TYPESCRIPT CODE GENERATION
+ * =============================================================================
+ * Generates TypeScript source describing the NESTED submission payload of a
+ * form (utils/dataMerging.ts toNestedFormData): one interface per object
+ * level and a matching runtime type guard for each.
+ *
+ * Type mapping:
+ *   text, date, time, datetime -> string
+ *   number                     -> number
+ *   select, radio              -> union of the option values
+ *   multiselect                -> array of the option values
+ *   checkbox                   -> boolean (true when required)
+ *   computed                   -> string | number | boolean
+ *   group                      -> its own interface
+ *   repeatable group           -> array of its interface
+ * Optional number and choice fields may also hold the empty value ''
+ * (text and date/time strings include it already). Fields with a
+ * visibility rule are optional properties (hidden fields are not
+ * submitted). These rules match the JSON Schema export (utils/jsonSchema.ts).
+ *
+ * The guards check the shape only; length, range and format limits are
+ * left to validation.
+ *
+ * HARD CONSTRAINTS:
+ * - Pure functions only; no browser APIs, so the generator runs in Node
+ * - Generated code has no imports and compiles under `strict`
+ * =============================================================================
+ */
+
+import type { ChoiceOption, Field, FormSchema } from '../types/schema';
+import { isGroupField } from '../types/schema';
+import { isRepeatableGroup } from './formScope';
+
+/**
+ * Options of the generated code
+ */
+export interface TypeGenerationOptions {
+    /** Name of the root interface (default "FormSubmission"); guards are named is<Name> */
+    typeName?: string;
+}
+
+/**
+ * An interface waiting to be written: its name and the fields it holds
+ */
+interface ObjectType {
+    name: string;
+    fields: Field[];
+}
+
+/**
+ * Names handed out so far, so two groups never share an interface
+ */
+type NameRegistry = Set<string>;
+
+/**
+ * Converts a machine name or title into PascalCase, e.g. "line_items" -> "LineItems"
+ */
+function toPascalCase(text: string): string {
+    const name = text
+        .split(/[^A-Za-z0-9]+/)
+        .filter((part) => part !== '')
+        .map((part) => part[0].toUpperCase() + part.slice(1))
+        .join('');
+    return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+/**
+ * Reserves a unique interface name, appending a number on collision
+ */
+function reserveName(base: string, names: NameRegistry): string {
+    let name = base;
+    for (let suffix = 2; names.has(name); suffix++) {
+        name = `${base}${suffix}`;
+    }
+    names.add(name);
+    return name;
+}
+
+/**
+ * Single-quoted TypeScript string literal
+ */
+function quote(text: string): string {
+    return `'${JSON.stringify(text).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Text safe to place inside a doc comment
+ */
+function commentText(text: string): string {
+    return text.replace(/\*\//g, '*\\/').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Whether the property is always present in a submission
+ */
+function isAlwaysPresent(field: Field): boolean {
+    return field.visibleWhen === undefined && (field.required || isGroupField(field));
+}
+
+/**
+ * Whether an unanswered field is submitted as '' although its type is not
+ * a plain string; checkboxes, multiselects, computed fields and groups
+ * always hold a value of their own type
+ */
+function allowsEmptyString(field: Field): boolean {
+    switch (field.type) {
+        case 'number':
+        case 'select':
+        case 'radio':
+            return !field.required;
+        default:
+            return false;
+    }
+}
+
+/**
+ * Union of the option values of a choice field
+ * A field without options can only hold ''
+ */
+function optionUnion(options: ChoiceOption[]): string {
+    return options.length === 0 ? "''" : options.map((option) => quote(option.value)).join(' | ');
+}
+
+/**
+ * TypeScript type of a property; nested groups are queued as interfaces
+ */
+function propertyType(field: Field, parentName: string, names: NameRegistry, queue: ObjectType[]): string {
+    if (isGroupField(field)) {
+        const name = reserveName(`${parentName}${toPascalCase(field.name)}`, names);
+        queue.push({ name, fields: field.children });
+        return isRepeatableGroup(field) ? `${name}[]` : name;
+    }
+
+    let type: string;
+    switch (field.type) {
+        case 'number':
+            type = 'number';
+            break;
+        case 'select':
+        case 'radio':
+            type = optionUnion(field.options);
+            break;
+        case 'multiselect':
+            return field.options.length === 0 ? 'never[]' : `Array<${optionUnion(field.options)}>`;
+        case 'checkbox':
+            return field.required ? 'true' : 'boolean';
+        case 'computed':
+            return 'string | number | boolean';
+        default:
+            type = 'string';
+    }
+
+    return allowsEmptyString(field) && type !== "''" ? `${type} | ''` : type;
+}
+
+/**
+ * Guard expression checking one property of `data`
+ * Nested groups use the guard of their interface (queued in the same
+ * order as by propertyType)
+ */
+function propertyGuard(field: Field, groupName: string | null): string {
+    const access = `data.${field.name}`;
+    let check: string;
+
+    if (isGroupField(field)) {
+        const guard = `is${groupName}`;
+        check = isRepeatableGroup(field)
+            ? `Array.isArray(${access}) && ${access}.every(${guard})`
+            : `${guard}(${access})`;
+    } else {
+        switch (field.type) {
+            case 'number':
+                check = `typeof ${access} === 'number'`;
+                break;
+            case 'select':
+            case 'radio':
+                check = field.options.length === 0
+                    ? `${access} === ''`
+                    : field.options.map((option) => `${access} === ${quote(option.value)}`).join(' || ');
+                break;
+            case 'multiselect': {
+                const item = field.options.map((option) => `item === ${quote(option.value)}`).join(' || ');
+                check = `Array.isArray(${access}) && ${access}.every((item) => ${item || 'false'})`;
+                break;
+            }
+            case 'checkbox':
+                check = field.required ? `${access} === true` : `typeof ${access} === 'boolean'`;
+                break;
+            case 'computed':
+                check = `['string', 'number', 'boolean'].includes(typeof ${access})`;
+                break;
+            default:
+                check = `typeof ${access} === 'string'`;
+        }
+        if (allowsEmptyString(field) && !isChoiceWithoutOptions(field)) {
+            check = `${access} === '' || ${check}`;
+        }
+    }
+
+    return isAlwaysPresent(field) ? wrapIfCompound(check) : `(${access} === undefined || ${check})`;
+}
+
+/**
+ * Whether a select/radio field has no options (its only value is '')
+ */
+function isChoiceWithoutOptions(field: Field): boolean {
+    return (field.type === 'select' || field.type === 'radio') && field.options.length === 0;
+}
+
+/**
+ * Parenthesizes an expression that contains a top-level ||
+ */
+function wrapIfCompound(expression: string): string {
+    return expression.includes(' || ') ? `(${expression})` : expression;
+}
+
+/**
+ * Writes an interface and its guard
+ * Returns the interfaces of nested groups still to write
+ */
+function writeObjectType(type: ObjectType, names: NameRegistry, lines: string[]): ObjectType[] {
+    const queue: ObjectType[] = [];
+    const properties: string[] = [];
+    const guards: string[] = [];
+
+    for (const field of type.fields) {
+        const before = queue.length;
+        const valueType = propertyType(field, type.name, names, queue);
+        const groupName = queue.length > before ? queue[queue.length - 1].name : null;
+        const optional = isAlwaysPresent(field) ? '' : '?';
+        properties.push(`    /** ${commentText(field.label)} */`, `    ${field.name}${optional}: ${valueType};`);
+        guards.push(propertyGuard(field, groupName));
+    }
+
+    lines.push(
+        ...(properties.length === 0
+            ? [`export interface ${type.name} {}`]
+            : [`export interface ${type.name} {`, ...properties, '}']),
+        ''
+    );
+
+    lines.push(
+        `export function is${type.name}(value: unknown): value is ${type.name} {`,
+        `    if (typeof value !== 'object' || value === null || Array.isArray(value)) {`,
+        '        return false;',
+        '    }'
+    );
+    if (guards.length === 0) {
+        lines.push('    return true;');
+    } else {
+        lines.push(
+            '    const data = value as Record<string, unknown>;',
+            '    return (',
+            guards.map((guard) => `        ${guard}`).join(' &&\n'),
+            '    );'
+        );
+    }
+    lines.push('}', '');
+
+    return queue;
+}
+
+/**
+ * Generates TypeScript interfaces and runtime type guards for the nested
+ * submission payload of a form
+ */
+export function toTypeScript(schema: FormSchema, options: TypeGenerationOptions = {}): string {
+    const rootName = toPascalCase(options.typeName ?? '') || 'FormSubmission';
+    const names: NameRegistry = new Set([rootName]);
+    const lines: string[] = [
+        `// Generated from a form schema (format v${schema.version}). Do not edit by hand;`,
+        '// regenerate it from the form builder instead.',
+        '',
+    ];
+
+    // Breadth first, so the root interface comes first and groups follow in form order
+    let pending: ObjectType[] = [{ name: rootName, fields: schema.fields }];
+    while (pending.length > 0) {
+        const next: ObjectType[] = [];
+        for (const type of pending) {
+            next.push(...writeObjectType(type, names, lines));
+        }
+        pending = next;
+    }
+
+    return lines.join('\n');
+}
@@ -0,0 +1,78 @@
+/**
+ * =============================================================================
+ * CONSTRAINT HEADER - WIZARD STEPS
+ * =============================================================================
+ * Splits a form into the steps of the wizard layout (`layout: 'wizard'`):
+ *
+ *   top-level group                 -> one step, titled with its label
+ *   run of top-level non-group      -> one step, titled "Step n" (a run
+ *   fields between groups              ends at the next group)
+ *
+ * Steps are identified by the ID of their group (or of the first field of
+ * a run), so the wizard keeps its place when fields are added, moved or
+ * deleted around the current step.
+ *
+ * HARD CONSTRAINTS:
+ * - Pure functions only
+ * - Steps whose fields are all hidden are skipped
+ * =============================================================================
+ */
+
+import type { Field } from '../types/schema';
+import { isGroupField } from '../types/schema';
+
+/**
+ * One page of the wizard
+ */
+export interface WizardStep {
+    /** ID of the step's group, or of the first field of a run */
+    id: string;
+    title: string;
+    /** Top-level fields shown on the step */
+    fields: Field[];
+}
+
+/**
+ * Steps of a form, in schema order
+ * `hidden` holds the value keys of hidden fields (top-level keys are IDs)
+ */
+export function getWizardSteps(fields: Field[], hidden: ReadonlySet<string> = new Set()): WizardStep[] {
+    const steps: WizardStep[] = [];
+    let run: Field[] = [];
+
+    const addStep = (stepFields: Field[], title: string | null) => {
+        if (stepFields.every((field) => hidden.has(field.id))) {
+            return;
+        }
+        steps.push({ id: stepFields[0].id, title: title ?? `Step ${steps.length + 1}`, fields: stepFields });
+    };
+
+    for (const field of fields) {
+        if (!isGroupField(field)) {
+            run.push(field);
+            continue;
+        }
+        if (run.length > 0) {
+            addStep(run, null);
+            run = [];
+        }
+        addStep([field], field.label.trim() || `Step ${steps.length + 1}`);
+    }
+    if (run.length > 0) {
+        addStep(run, null);
+    }
+
+    return steps;
+}
+
+/**
+ * Index of the current step: the step with `stepId`, or, when that step is
+ * gone, the one now at its last known index (clamped to the last step)
+ */
+export function resolveStepIndex(steps: WizardStep[], stepId: string | null, lastIndex: number): number {
+    const index = steps.findIndex((step) => step.id === stepId);
+    if (index !== -1) {
+        return index;
+    }
+    return Math.max(0, Math.min(lastIndex, steps.length - 1));
+}
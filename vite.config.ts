@@ -2,7 +2,76 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  base: '/Assignment-Snr-FE-Engineer-Syed-Ansur-Mehdi/',
+// `vite build --mode lib` builds the form runtime library (src/lib.ts) and
+// `vite build --mode element` the <form-runtime> custom element
+// (src/element.ts), both into dist-lib, instead of the demo app
+export default defineConfig(({ mode }) => {
+  if (mode === 'lib') {
+    return {
+      plugins: [react()],
+      css: {
+        postcss: {
+          // components.css is written for the demo app's whole page; in the
+          // library its rules only match inside the form, and its design
+          // tokens are set on the form instead of :root
+          plugins: [
+            {
+              postcssPlugin: 'scope-components-to-form',
+              Rule(rule) {
+                // Rules already about the form are left as they are (and so
+                // is every rule once scoped)
+                const isScoped = rule.selectors.every((selector) => selector.includes('.form-renderer'))
+                if (!rule.source?.input.file?.endsWith('components.css') || isScoped) {
+                  return
+                }
+                rule.selectors = rule.selectors.map((selector) =>
+                  selector === ':root'
+                    ? ':where(.form-renderer)'
+                    : selector.includes('.form-renderer')
+                      ? selector
+                      : selector.replace(/(::[\w-]+)?$/, ':where(.form-renderer, .form-renderer *)$1')
+                )
+              },
+            },
+          ],
+        },
+      },
+      build: {
+        outDir: 'dist-lib',
+        copyPublicDir: false,
+        lib: {
+          entry: 'src/lib.ts',
+          formats: ['es'],
+          fileName: 'form-runtime',
+          cssFileName: 'form-runtime',
+        },
+        rollupOptions: {
+          external: ['react', 'react-dom', 'react/jsx-runtime'],
+        },
+      },
+    }
+  }
+
+  if (mode === 'element') {
+    return {
+      plugins: [react()],
+      // React is bundled, so its production build is picked here
+      define: { 'process.env.NODE_ENV': JSON.stringify('production') },
+      build: {
+        outDir: 'dist-lib',
+        emptyOutDir: false,
+        copyPublicDir: false,
+        lib: {
+          entry: 'src/element.ts',
+          formats: ['es'],
+          fileName: 'form-runtime-element',
+        },
+      },
+    }
+  }
+
+  return {
+    plugins: [react()],
+    base: '/Assignment-Snr-FE-Engineer-Syed-Ansur-Mehdi/',
+  }
 })